@@ -0,0 +1,157 @@
+import Link from 'next/link';
+import { getLLMUsageSummary } from '@/lib/llmLedger';
+
+export const dynamic = 'force-dynamic';
+
+interface PageProps {
+  searchParams: { days?: string };
+}
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+function formatCost(value: number): string {
+  return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
+function formatNumber(value: number): string {
+  return Math.round(value).toLocaleString();
+}
+
+function formatFeature(feature: string): string {
+  return feature.replace(/_/g, ' ');
+}
+
+export default async function LLMUsagePage({ searchParams }: PageProps) {
+  const days = RANGE_OPTIONS.includes(parseInt(searchParams.days || ''))
+    ? parseInt(searchParams.days!)
+    : 30;
+
+  const summary = await getLLMUsageSummary({ days });
+  const maxDailyCost = Math.max(...summary.byDay.map((d) => d.costUsd), 0);
+
+  return (
+    <main className="min-h-screen p-8 bg-gray-50">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">LLM Usage</h1>
+            <p className="text-gray-600 mt-1">
+              Calls, tokens and estimated spend by feature over the last {days} days
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {RANGE_OPTIONS.map((option) => (
+              <Link
+                key={option}
+                href={`/admin/llm-usage?days=${option}`}
+                className={`px-3 py-1.5 rounded-md text-sm transition-colors ${
+                  option === days
+                    ? 'bg-gray-900 text-white font-medium'
+                    : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option}d
+              </Link>
+            ))}
+          </div>
+        </div>
+
+        {/* Totals */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+          <div className="bg-white border border-gray-200 rounded-xl p-5">
+            <p className="text-sm text-gray-500">Estimated Spend</p>
+            <p className="text-2xl font-bold text-gray-900">{formatCost(summary.totals.costUsd)}</p>
+          </div>
+          <div className="bg-white border border-gray-200 rounded-xl p-5">
+            <p className="text-sm text-gray-500">Calls</p>
+            <p className="text-2xl font-bold text-gray-900">{formatNumber(summary.totals.calls)}</p>
+            {summary.totals.cacheHits > 0 && (
+              <p className="text-xs text-green-700 mt-1">{summary.totals.cacheHits} served from cache</p>
+            )}
+            {summary.totals.errors > 0 && (
+              <p className="text-xs text-red-600 mt-1">{summary.totals.errors} failed</p>
+            )}
+          </div>
+          <div className="bg-white border border-gray-200 rounded-xl p-5">
+            <p className="text-sm text-gray-500">Tokens (prompt / response)</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {formatNumber(summary.totals.promptTokens)} / {formatNumber(summary.totals.responseTokens)}
+            </p>
+          </div>
+          <div className="bg-white border border-gray-200 rounded-xl p-5">
+            <p className="text-sm text-gray-500">Avg Latency</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {formatNumber(summary.totals.avgLatencyMs)} ms
+            </p>
+          </div>
+        </div>
+
+        {/* By feature */}
+        <div className="bg-white border border-gray-200 rounded-xl p-6 mb-8">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">By Feature</h2>
+          {summary.byFeature.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">No LLM calls recorded in this period.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Feature</th>
+                  <th className="py-2 pr-4 font-medium text-right">Calls</th>
+                  <th className="py-2 pr-4 font-medium text-right">Cache Hits</th>
+                  <th className="py-2 pr-4 font-medium text-right">Errors</th>
+                  <th className="py-2 pr-4 font-medium text-right">Prompt Tokens</th>
+                  <th className="py-2 pr-4 font-medium text-right">Response Tokens</th>
+                  <th className="py-2 pr-4 font-medium text-right">Avg Latency</th>
+                  <th className="py-2 font-medium text-right">Est. Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {summary.byFeature.map((row) => (
+                  <tr key={row.feature}>
+                    <td className="py-2 pr-4 text-gray-900">{formatFeature(row.feature)}</td>
+                    <td className="py-2 pr-4 text-right">{formatNumber(row.calls)}</td>
+                    <td className="py-2 pr-4 text-right">{formatNumber(row.cacheHits)}</td>
+                    <td className={`py-2 pr-4 text-right ${row.errors > 0 ? 'text-red-600' : ''}`}>
+                      {formatNumber(row.errors)}
+                    </td>
+                    <td className="py-2 pr-4 text-right">{formatNumber(row.promptTokens)}</td>
+                    <td className="py-2 pr-4 text-right">{formatNumber(row.responseTokens)}</td>
+                    <td className="py-2 pr-4 text-right">{formatNumber(row.avgLatencyMs)} ms</td>
+                    <td className="py-2 text-right font-medium">{formatCost(row.costUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* By day */}
+        <div className="bg-white border border-gray-200 rounded-xl p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">By Day</h2>
+          {summary.byDay.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">No LLM calls recorded in this period.</p>
+          ) : (
+            <div className="space-y-2">
+              {summary.byDay.map((row) => (
+                <div key={row.day} className="flex items-center gap-4 text-sm">
+                  <span className="w-24 text-gray-600">{row.day}</span>
+                  <div className="flex-1 bg-gray-100 rounded h-4 overflow-hidden">
+                    <div
+                      className="bg-blue-500 h-4"
+                      style={{
+                        width: `${maxDailyCost > 0 ? (row.costUsd / maxDailyCost) * 100 : 0}%`,
+                      }}
+                    />
+                  </div>
+                  <span className="w-20 text-right text-gray-600">{formatNumber(row.calls)} calls</span>
+                  <span className="w-20 text-right font-medium text-gray-900">{formatCost(row.costUsd)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLLMUsageSummary } from '@/lib/llmLedger';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '30') || 30, 1), 365);
+    const feature = searchParams.get('feature') || undefined;
+
+    const summary = await getLLMUsageSummary({ days, feature });
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Error fetching LLM usage:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch LLM usage',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -87,7 +87,7 @@ INSTRUCTIONS:
 YOUR ANSWER:`;
 
     // Call the LLM
-    const answer = await callLLM(prompt);
+    const answer = await callLLM(prompt, { feature: 'LEASE_QA' });
 
     return NextResponse.json({
       success: true,
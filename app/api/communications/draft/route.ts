@@ -5,6 +5,7 @@ import {
   DraftCommunicationInput,
   CommunicationIntent,
 } from '@/lib/tenantCommunications';
+import { computeLeaseCpiAdjustment, describeCpiAdjustment } from '@/lib/cpiEscalation';
 
 export async function POST(request: Request) {
   try {
@@ -105,6 +106,14 @@ export async function POST(request: Request) {
         if (summaryParts.length > 0) {
           input.leaseSummary = summaryParts.join('; ');
         }
+
+        // CPI leases: state the computed rent for the pending adjustment
+        if (intent === 'RENT_ADJUSTMENT') {
+          const cpi = await computeLeaseCpiAdjustment(lease.id);
+          if (cpi?.success) {
+            input.rentAdjustmentSummary = describeCpiAdjustment(cpi.adjustment);
+          }
+        }
       }
     }
 
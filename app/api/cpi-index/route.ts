@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { DEFAULT_CPI_SERIES, importCpiIndexValues, parseCpiIndexCsv } from '@/lib/cpiEscalation';
+
+/**
+ * Imported CPI index values, newest first: `?series=` to filter
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const series = request.nextUrl.searchParams.get('series');
+
+    const values = await prisma.cpiIndexValue.findMany({
+      where: series ? { series } : {},
+      orderBy: [{ series: 'asc' }, { month: 'desc' }],
+      take: 500,
+    });
+
+    return NextResponse.json({ success: true, values });
+  } catch (error) {
+    console.error('Error fetching CPI index values:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch CPI index values', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Import a CPI CSV (form field `file`) with `month` and `value` columns and
+ * an optional `series` column; the form field `series` sets the default
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const series = String(formData.get('series') || '').trim() || DEFAULT_CPI_SERIES;
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    let parsed;
+    try {
+      parsed = parseCpiIndexCsv(await file.text(), series);
+    } catch (error) {
+      // Malformed CSV (unbalanced quotes, ragged rows)
+      return NextResponse.json(
+        { error: 'Could not read the CSV file', details: (error as Error).message },
+        { status: 400 }
+      );
+    }
+
+    const { rows, errors } = parsed;
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: 'No index values found in the file', details: errors.slice(0, 20) },
+        { status: 400 }
+      );
+    }
+
+    const imported = await importCpiIndexValues(rows);
+
+    return NextResponse.json({
+      success: true,
+      message: `Imported ${imported} index values`,
+      imported,
+      skipped: errors,
+    });
+  } catch (error) {
+    console.error('Error importing CPI index values:', error);
+    return NextResponse.json(
+      { error: 'Failed to import CPI index values', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { contractualAnnualRent } from '@/lib/rentSchedule';
 
 // Consolidated Dashboard Data Structure
 interface DashboardData {
@@ -49,6 +50,7 @@ export async function GET() {
           baseRent: true,
           squareFeet: true,
           leaseEnd: true,
+          rentSteps: { select: { effectiveDate: true, monthlyRent: true } },
           property: {
             select: {
               id: true,
@@ -138,13 +140,13 @@ export async function GET() {
     // Sort critical dates by date
     criticalDates.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
-    // Calculate rentsByYear (monthly rent * 12, aggregated by lease end year)
+    // Calculate rentsByYear (contractual annual rent in the final month, aggregated by lease end year)
     const rentByYearMap = new Map<number, number>();
 
     for (const lease of leases) {
-      if (lease.leaseEnd && lease.baseRent) {
+      const annualRent = lease.leaseEnd ? contractualAnnualRent(lease, lease.leaseEnd) : null;
+      if (lease.leaseEnd && annualRent) {
         const year = new Date(lease.leaseEnd).getFullYear();
-        const annualRent = lease.baseRent * 12;
         rentByYearMap.set(year, (rentByYearMap.get(year) || 0) + annualRent);
       }
     }
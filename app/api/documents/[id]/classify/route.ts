@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { classifyDocument, isValidDocumentType } from '@/lib/documentClassification';
+import { isValidDocumentType } from '@/lib/documentClassification';
+import { enqueueDocumentJob } from '@/lib/jobs';
+import { invalidateVectorIndex } from '@/lib/vectorIndex';
 
 export async function POST(
   request: NextRequest,
@@ -11,20 +13,9 @@ export async function POST(
     const body = await request.json().catch(() => ({}));
     const { forceType } = body as { forceType?: string };
 
-    // Load document with chunks
     const document = await prisma.document.findUnique({
       where: { id },
-      include: {
-        chunks: {
-          select: {
-            content: true,
-          },
-          orderBy: {
-            chunkIndex: 'asc',
-          },
-          take: 3, // Get first 3 chunks for sample
-        },
-      },
+      select: { id: true, type: true },
     });
 
     if (!document) {
@@ -34,43 +25,33 @@ export async function POST(
       );
     }
 
-    const previousType = document.type;
-    let newType: string;
-    let confidence: number | undefined;
-
-    // If forceType is provided, validate and use it
-    if (forceType) {
-      if (!isValidDocumentType(forceType)) {
-        return NextResponse.json(
-          { error: `Invalid document type: ${forceType}` },
-          { status: 400 }
-        );
-      }
-      newType = forceType;
-    } else {
-      // Auto-classify using LLM
-      const contentSample = document.chunks.map((c) => c.content).join('\n\n');
-
-      const result = await classifyDocument({
-        fileName: document.fileName,
-        contentSample: contentSample || undefined,
-      });
+    // Auto-classification calls the LLM, so it runs in the job worker
+    if (!forceType) {
+      const job = await enqueueDocumentJob('CLASSIFY_DOCUMENT', id);
+      return NextResponse.json(
+        { id: document.id, jobId: job.id, status: job.status },
+        { status: 202 }
+      );
+    }
 
-      newType = result.type;
-      confidence = result.confidence;
+    // A manually chosen type is applied at once
+    if (!isValidDocumentType(forceType)) {
+      return NextResponse.json(
+        { error: `Invalid document type: ${forceType}` },
+        { status: 400 }
+      );
     }
 
-    // Update document type
     await prisma.document.update({
       where: { id },
-      data: { type: newType },
+      data: { type: forceType },
     });
+    await invalidateVectorIndex('chunks');
 
     return NextResponse.json({
       id: document.id,
-      type: newType,
-      previousType,
-      confidence,
+      type: forceType,
+      previousType: document.type,
     });
   } catch (error) {
     console.error('Error classifying document:', error);
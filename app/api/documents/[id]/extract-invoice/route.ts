@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { extractInvoiceData } from '@/lib/invoiceExtraction';
+import { enqueueDocumentJob } from '@/lib/jobs';
 
 export async function POST(
   request: Request,
@@ -9,15 +9,12 @@ export async function POST(
   try {
     const { id } = params;
 
-    // Load document with chunks
     const document = await prisma.document.findUnique({
       where: { id },
-      include: {
-        chunks: {
-          orderBy: {
-            chunkIndex: 'asc',
-          },
-        },
+      select: {
+        id: true,
+        type: true,
+        _count: { select: { chunks: true } },
       },
     });
 
@@ -36,58 +33,20 @@ export async function POST(
       );
     }
 
-    // Build content string from chunks
-    if (!document.chunks || document.chunks.length === 0) {
+    if (document._count.chunks === 0) {
       return NextResponse.json(
         { error: 'No document content available for extraction' },
         { status: 400 }
       );
     }
 
-    const content = document.chunks
-      .map((chunk) => chunk.content)
-      .join('\n\n');
+    // The LLM extraction runs in the job worker
+    const job = await enqueueDocumentJob('EXTRACT_INVOICE', id);
 
-    // Truncate to reasonable length
-    const truncatedContent = content.slice(0, 15000);
-
-    // Extract invoice data
-    const result = await extractInvoiceData(truncatedContent);
-
-    if (!result) {
-      return NextResponse.json(
-        { error: 'Failed to extract invoice data. The content may not contain valid invoice information.' },
-        { status: 500 }
-      );
-    }
-
-    // Merge with existing extractedData
-    const previousData = document.extractedData
-      ? (typeof document.extractedData === 'string'
-          ? JSON.parse(document.extractedData)
-          : document.extractedData)
-      : {};
-
-    const updatedData = {
-      ...previousData,
-      invoice: result,
-    };
-
-    // Update document with extracted data and set status to EXTRACTED
-    const updatedDocument = await prisma.document.update({
-      where: { id },
-      data: {
-        extractedData: JSON.stringify(updatedData),
-        status: 'EXTRACTED',
-      },
-    });
-
-    return NextResponse.json({
-      id: updatedDocument.id,
-      type: updatedDocument.type,
-      extractedData: updatedData,
-      invoiceExtracted: true,
-    });
+    return NextResponse.json(
+      { id: document.id, type: document.type, jobId: job.id, status: job.status },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Error in extract-invoice route:', error);
     return NextResponse.json(
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { extractLeaseData } from '@/lib/leaseExtraction';
+import { enqueueDocumentJob } from '@/lib/jobs';
+import { LEASE_CHAIN_DOCUMENT_TYPES } from '@/lib/leaseDocumentChain';
 
 export async function POST(
   request: NextRequest,
@@ -9,28 +10,12 @@ export async function POST(
   try {
     const { id } = params;
 
-    // Load document with chunks and lease
     const document = await prisma.document.findUnique({
       where: { id },
-      include: {
-        chunks: {
-          select: {
-            content: true,
-            chunkIndex: true,
-          },
-          orderBy: {
-            chunkIndex: 'asc',
-          },
-        },
-        lease: {
-          select: {
-            id: true,
-            tenantName: true,
-            baseRent: true,
-            leaseStart: true,
-            leaseEnd: true,
-          },
-        },
+      select: {
+        id: true,
+        type: true,
+        _count: { select: { chunks: true } },
       },
     });
 
@@ -41,24 +26,18 @@ export async function POST(
       );
     }
 
-    // Verify document type is LEASE
-    if (document.type !== 'LEASE') {
+    // Verify document is a lease or a change to one
+    if (!LEASE_CHAIN_DOCUMENT_TYPES.includes(document.type)) {
       return NextResponse.json(
         {
           error: 'Document is not a lease',
-          message: `Document type is ${document.type}. Only LEASE documents can be extracted.`,
+          message: `Document type is ${document.type}. Only LEASE, AMENDMENT and ASSIGNMENT documents can be extracted.`,
         },
         { status: 400 }
       );
     }
 
-    // Concatenate chunk text (limit to reasonable size)
-    const documentText = document.chunks
-      .slice(0, 20) // Take first 20 chunks max
-      .map((c) => c.content)
-      .join('\n\n');
-
-    if (!documentText) {
+    if (document._count.chunks === 0) {
       return NextResponse.json(
         {
           error: 'No content available',
@@ -68,63 +47,13 @@ export async function POST(
       );
     }
 
-    // Extract lease data using LLM
-    console.log(`[Extract] Extracting lease data from document ${id}`);
-    const extractedData = await extractLeaseData(documentText);
-    console.log(`[Extract] Extraction complete:`, extractedData);
-
-    // Save extracted data to document
-    await prisma.document.update({
-      where: { id },
-      data: {
-        extractedData: JSON.stringify(extractedData),
-      },
-    });
-
-    // Update linked lease if present
-    let leaseUpdated = false;
-    if (document.leaseId && extractedData) {
-      const leaseUpdateData: any = {};
-
-      // Map extracted data to lease fields
-      if (extractedData.baseRent !== undefined) {
-        leaseUpdateData.baseRent = extractedData.baseRent;
-      }
-      if (extractedData.startDate) {
-        try {
-          leaseUpdateData.leaseStart = new Date(extractedData.startDate);
-        } catch (e) {
-          console.warn('Invalid start date:', extractedData.startDate);
-        }
-      }
-      if (extractedData.endDate) {
-        try {
-          leaseUpdateData.leaseEnd = new Date(extractedData.endDate);
-        } catch (e) {
-          console.warn('Invalid end date:', extractedData.endDate);
-        }
-      }
-      if (extractedData.suite) {
-        leaseUpdateData.suite = extractedData.suite;
-      }
-
-      // Only update if we have data to update
-      if (Object.keys(leaseUpdateData).length > 0) {
-        await prisma.lease.update({
-          where: { id: document.leaseId },
-          data: leaseUpdateData,
-        });
-        leaseUpdated = true;
-        console.log(`[Extract] Updated lease ${document.leaseId} with extracted data`);
-      }
-    }
+    // The LLM extraction (and lease update) runs in the job worker
+    const job = await enqueueDocumentJob('EXTRACT_LEASE', id);
 
-    return NextResponse.json({
-      id: document.id,
-      type: document.type,
-      extractedData,
-      leaseUpdated,
-    });
+    return NextResponse.json(
+      { id: document.id, type: document.type, jobId: job.id, status: job.status },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Error extracting lease data:', error);
     return NextResponse.json(
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { storedFileResponse } from '@/lib/fileDownload';
+
+/**
+ * Stream a document's original file. Supports Range requests (the embedded
+ * PDF viewer loads pages on demand); ?download=1 saves it instead of
+ * displaying it.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    const document = await prisma.document.findUnique({
+      where: { id },
+      select: { storageKey: true, fileName: true, mimeType: true },
+    });
+
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    const response = await storedFileResponse({
+      storageKey: document.storageKey,
+      fileName: document.fileName,
+      mimeType: document.mimeType,
+      rangeHeader: request.headers.get('range'),
+      download: request.nextUrl.searchParams.get('download') === '1',
+    });
+
+    if (!response) {
+      return NextResponse.json(
+        { error: 'Stored file not found' },
+        { status: 404 }
+      );
+    }
+
+    return response;
+  } catch (error) {
+    console.error('Error streaming document file:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read document file',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { refreshLeaseFromChain } from '@/lib/leaseReview';
+import { invalidateVectorIndex } from '@/lib/vectorIndex';
+
+/**
+ * Link a document to a property and/or lease by hand (or, with neither,
+ * confirm that it stays unlinked). Removes it from the "needs linking" inbox.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const body = await request.json().catch(() => ({}));
+    const { propertyId, leaseId } = body as { propertyId?: string | null; leaseId?: string | null };
+
+    const document = await prisma.document.findUnique({
+      where: { id },
+      select: { id: true, leaseId: true },
+    });
+
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    // A lease implies its property
+    let linkedPropertyId = propertyId || null;
+    if (leaseId) {
+      const lease = await prisma.lease.findUnique({
+        where: { id: leaseId },
+        select: { propertyId: true },
+      });
+      if (!lease) {
+        return NextResponse.json(
+          { error: `Lease not found: ${leaseId}` },
+          { status: 400 }
+        );
+      }
+      if (linkedPropertyId && linkedPropertyId !== lease.propertyId) {
+        return NextResponse.json(
+          { error: `Lease ${leaseId} does not belong to property ${linkedPropertyId}` },
+          { status: 400 }
+        );
+      }
+      linkedPropertyId = lease.propertyId;
+    } else if (linkedPropertyId) {
+      const property = await prisma.property.findUnique({
+        where: { id: linkedPropertyId },
+        select: { id: true },
+      });
+      if (!property) {
+        return NextResponse.json(
+          { error: `Property not found: ${linkedPropertyId}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updated = await prisma.document.update({
+      where: { id },
+      data: {
+        propertyId: linkedPropertyId,
+        leaseId: leaseId || null,
+        linkStatus: 'CONFIRMED',
+        chainIndex: null,
+        supersedesDocumentId: null,
+      },
+    });
+
+    // Chunk search filters on the document's lease and property
+    await invalidateVectorIndex('chunks');
+
+    // Refresh the chains of the lease it left and the lease it joined
+    for (const chainLeaseId of new Set([document.leaseId, updated.leaseId])) {
+      if (chainLeaseId) {
+        await refreshLeaseFromChain(chainLeaseId, id);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      id: updated.id,
+      propertyId: updated.propertyId,
+      leaseId: updated.leaseId,
+      linkStatus: updated.linkStatus,
+    });
+  } catch (error) {
+    console.error('Error linking document:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to link document',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { deleteStoredFile } from '@/lib/fileStorage';
+import { invalidateVectorIndex } from '@/lib/vectorIndex';
 
 export async function GET(
   request: NextRequest,
@@ -24,6 +26,17 @@ export async function GET(
             name: true,
           },
         },
+        attachments: {
+          select: {
+            id: true,
+            fileName: true,
+            type: true,
+            status: true,
+          },
+          orderBy: {
+            uploadedAt: 'asc',
+          },
+        },
         chunks: {
           select: {
             id: true,
@@ -55,18 +68,31 @@ export async function GET(
       }
     }
 
+    // Per-field source quote, chunk, page and confidence of the lease extraction
+    let extractionCitations: unknown = null;
+    if (document.extractionCitations) {
+      try {
+        extractionCitations = JSON.parse(document.extractionCitations);
+      } catch (error) {
+        console.error('Error parsing extractionCitations:', error);
+      }
+    }
+
     // Format response
     const response = {
       id: document.id,
       type: document.type,
       status: document.status,
       fileName: document.fileName,
-      filePath: document.filePath,
+      storageKey: document.storageKey,
       mimeType: document.mimeType,
       uploadedAt: document.uploadedAt.toISOString(),
       leaseId: document.leaseId,
       propertyId: document.propertyId,
+      parentDocumentId: document.parentDocumentId,
+      attachments: document.attachments,
       extractedData,
+      extractionCitations,
       lease: document.lease
         ? {
             id: document.lease.id,
@@ -112,6 +138,7 @@ export async function DELETE(
       select: {
         id: true,
         fileName: true,
+        storageKey: true,
         leaseId: true,
         propertyId: true,
       },
@@ -133,6 +160,14 @@ export async function DELETE(
     await prisma.document.delete({
       where: { id },
     });
+    await invalidateVectorIndex('chunks');
+
+    // The file goes last so a failed delete never leaves a document without one
+    try {
+      await deleteStoredFile(document.storageKey);
+    } catch (error) {
+      console.error(`Error deleting stored file ${document.storageKey}:`, error);
+    }
 
     return NextResponse.json({
       success: true,
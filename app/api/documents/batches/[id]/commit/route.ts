@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { isValidDocumentType } from '@/lib/documentClassification';
+import { refreshLeaseFromChain } from '@/lib/leaseReview';
+import { invalidateVectorIndex } from '@/lib/vectorIndex';
+
+interface DocumentLink {
+  documentId: string;
+  type?: string;
+  propertyId?: string | null;
+  leaseId?: string | null;
+}
+
+/**
+ * Apply the reviewed links of a bulk upload batch. Documents left out of
+ * `links` stay unlinked and move to the "needs linking" inbox when a match
+ * was proposed.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const links: DocumentLink[] = Array.isArray(body.links) ? body.links : [];
+
+    const batch = await prisma.uploadBatch.findUnique({
+      where: { id: params.id },
+      select: { id: true, status: true, documents: { select: { id: true } } },
+    });
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: 'Upload batch not found' },
+        { status: 404 }
+      );
+    }
+
+    if (batch.status === 'COMMITTED') {
+      return NextResponse.json(
+        { error: 'Upload batch has already been committed' },
+        { status: 409 }
+      );
+    }
+
+    const batchDocumentIds = new Set(batch.documents.map((doc) => doc.id));
+    const leaseIds = links.map((link) => link.leaseId).filter((id): id is string => !!id);
+    const leases = await prisma.lease.findMany({
+      where: { id: { in: leaseIds } },
+      select: { id: true, propertyId: true },
+    });
+    const leasePropertyIds = new Map(leases.map((lease) => [lease.id, lease.propertyId]));
+    const propertyIds = links.map((link) => link.propertyId).filter((id): id is string => !!id);
+    const properties = await prisma.property.findMany({
+      where: { id: { in: propertyIds } },
+      select: { id: true },
+    });
+    const knownPropertyIds = new Set(properties.map((property) => property.id));
+
+    const updates = [];
+    for (const link of links) {
+      if (!batchDocumentIds.has(link.documentId)) {
+        return NextResponse.json(
+          { error: `Document ${link.documentId} is not part of this batch` },
+          { status: 400 }
+        );
+      }
+      if (link.type && !isValidDocumentType(link.type)) {
+        return NextResponse.json(
+          { error: `Invalid document type: ${link.type}` },
+          { status: 400 }
+        );
+      }
+
+      // A lease implies its property
+      let propertyId = link.propertyId || null;
+      if (propertyId && !knownPropertyIds.has(propertyId)) {
+        return NextResponse.json(
+          { error: `Property not found: ${propertyId}` },
+          { status: 400 }
+        );
+      }
+      if (link.leaseId) {
+        const leasePropertyId = leasePropertyIds.get(link.leaseId);
+        if (!leasePropertyId) {
+          return NextResponse.json(
+            { error: `Lease not found: ${link.leaseId}` },
+            { status: 400 }
+          );
+        }
+        if (propertyId && propertyId !== leasePropertyId) {
+          return NextResponse.json(
+            { error: `Lease ${link.leaseId} does not belong to property ${propertyId}` },
+            { status: 400 }
+          );
+        }
+        propertyId = leasePropertyId;
+      }
+
+      updates.push(
+        prisma.document.update({
+          where: { id: link.documentId },
+          data: {
+            ...(link.type ? { type: link.type } : {}),
+            propertyId,
+            leaseId: link.leaseId || null,
+            linkStatus: 'CONFIRMED',
+          },
+        })
+      );
+    }
+
+    await prisma.$transaction([
+      ...updates,
+      prisma.uploadBatch.update({
+        where: { id: batch.id },
+        data: { status: 'COMMITTED', committedAt: new Date() },
+      }),
+    ]);
+    await invalidateVectorIndex('chunks');
+
+    for (const leaseId of new Set(leaseIds)) {
+      await refreshLeaseFromChain(leaseId, null);
+    }
+
+    console.log(`[/api/documents/batches/commit] Batch ${batch.id}: linked ${updates.length} document(s)`);
+
+    return NextResponse.json({ success: true, linked: updates.length });
+  } catch (error) {
+    console.error('Error committing upload batch:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to commit upload batch',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadUploadBatch } from '@/lib/uploadBatches';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const batch = await loadUploadBatch(params.id);
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: 'Upload batch not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, batch });
+  } catch (error) {
+    console.error('Error fetching upload batch:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch upload batch',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { storeFileContent } from '@/lib/fileStorage';
+import { enqueueDocumentJob } from '@/lib/jobs';
+import { defaultDocumentType } from '@/lib/formats';
+import { BulkUploadFile, expandBulkUpload } from '@/lib/bulkUpload';
+import { createUploadedDocument, DuplicateDocument, findDuplicateDocument } from '@/lib/duplicateDocuments';
+
+/**
+ * Upload many files (and/or ZIP archives) as one batch. Each file becomes a
+ * Document that is ingested, classified and matched to a property/lease in
+ * the background; links are only applied once the batch is reviewed and
+ * committed (POST /api/documents/batches/[id]/commit). Files that were
+ * uploaded before are reported as duplicates and left out of the batch.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const files = formData.getAll('files') as File[];
+
+    if (!files || files.length === 0) {
+      return NextResponse.json(
+        { error: 'No files provided' },
+        { status: 400 }
+      );
+    }
+
+    const uploads: BulkUploadFile[] = [];
+    for (const file of files) {
+      if (!file || !(file instanceof File)) {
+        continue;
+      }
+      uploads.push({
+        fileName: file.name,
+        content: Buffer.from(await file.arrayBuffer()),
+        declaredType: file.type,
+      });
+    }
+
+    const expanded = expandBulkUpload(uploads);
+
+    if (expanded.files.length === 0) {
+      return NextResponse.json(
+        { error: 'No supported files found in the upload', skipped: expanded.skipped },
+        { status: 400 }
+      );
+    }
+
+    // Files already stored (or repeated within this upload) are not re-ingested
+    const newFiles: Array<BulkUploadFile & { contentHash: string }> = [];
+    const duplicates: Array<{ fileName: string; document: DuplicateDocument }> = [];
+    for (const file of expanded.files) {
+      const { contentHash, existing } = await findDuplicateDocument(file.content);
+      if (existing) {
+        duplicates.push({ fileName: file.fileName, document: existing });
+      } else if (newFiles.some((newFile) => newFile.contentHash === contentHash)) {
+        expanded.skipped.push({ fileName: file.fileName, reason: 'Same content as another file in this upload' });
+      } else {
+        newFiles.push({ ...file, contentHash });
+      }
+    }
+
+    if (newFiles.length === 0) {
+      return NextResponse.json({
+        batchId: null,
+        documents: [],
+        duplicates,
+        skipped: expanded.skipped,
+      });
+    }
+
+    const batch = await prisma.uploadBatch.create({
+      data: {
+        name: uploads.length === 1 ? uploads[0].fileName : `${uploads[0].fileName} and ${uploads.length - 1} more`,
+      },
+    });
+
+    const uploadedDocuments = [];
+
+    for (const file of newFiles) {
+      // Store the file (MIME type is detected from its content)
+      const { storageKey, fileName, mimeType, contentHash } = await storeFileContent(
+        file.content,
+        file.fileName,
+        file.declaredType
+      );
+
+      const { document, existing } = await createUploadedDocument({ storageKey, contentHash }, () =>
+        prisma.document.create({
+          data: {
+            type: defaultDocumentType(mimeType),
+            status: 'PROCESSING',
+            storageKey,
+            fileName,
+            mimeType,
+            contentHash,
+            uploadBatchId: batch.id,
+          },
+        })
+      );
+      if (!document) {
+        // A concurrent upload stored the same file first
+        duplicates.push({ fileName: file.fileName, document: existing });
+        continue;
+      }
+
+      // Ingestion queues classification, which queues link matching
+      const job = await enqueueDocumentJob('INGEST_DOCUMENT', document.id);
+
+      uploadedDocuments.push({
+        id: document.id,
+        fileName: document.fileName,
+        mimeType: document.mimeType,
+        type: document.type,
+        status: document.status,
+        jobId: job.id,
+      });
+    }
+
+    console.log(
+      `[/api/documents/bulk-upload] Batch ${batch.id}: ${uploadedDocuments.length} document(s), ${duplicates.length} duplicate(s), ${expanded.skipped.length} skipped`
+    );
+
+    return NextResponse.json(
+      {
+        batchId: batch.id,
+        documents: uploadedDocuments,
+        duplicates,
+        skipped: expanded.skipped,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error uploading document batch:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to upload documents',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { storeUploadedFile } from '@/lib/fileStorage';
-import { ingestDocument } from '@/lib/documentIngestion';
+import { storeFileContent } from '@/lib/fileStorage';
+import { createUploadedDocument, DuplicateDocument, findDuplicateDocument } from '@/lib/duplicateDocuments';
+import { enqueueDocumentJob } from '@/lib/jobs';
+import { defaultDocumentType } from '@/lib/formats';
+
+function duplicateResult(existing: DuplicateDocument) {
+  return {
+    id: existing.id,
+    fileName: existing.fileName,
+    mimeType: existing.mimeType,
+    type: existing.type,
+    status: existing.status,
+    jobId: null,
+    duplicate: true,
+  };
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -22,43 +36,64 @@ export async function POST(request: NextRequest) {
         continue;
       }
 
-      // Store the file
-      const { filePath, fileName, mimeType } = await storeUploadedFile(file);
+      const content = Buffer.from(await file.arrayBuffer());
+
+      // The same file uploaded again returns the existing document
+      const { existing } = await findDuplicateDocument(content);
+      if (existing) {
+        console.log("[/api/documents/upload] Duplicate of document", existing.id);
+        uploadedDocuments.push(duplicateResult(existing));
+        continue;
+      }
+
+      // Store the file (MIME type is detected from its content)
+      const { storageKey, fileName, mimeType, contentHash } = await storeFileContent(
+        content,
+        file.name,
+        file.type
+      );
 
       // Create Document record
-      const document = await prisma.document.create({
-        data: {
-          type: 'OTHER',
-          status: 'PROCESSING',
-          filePath,
-          fileName,
-          mimeType,
-        },
-      });
+      const { document, existing: raced } = await createUploadedDocument({ storageKey, contentHash }, () =>
+        prisma.document.create({
+          data: {
+            type: defaultDocumentType(mimeType),
+            status: 'PROCESSING',
+            storageKey,
+            fileName,
+            mimeType,
+            contentHash,
+          },
+        })
+      );
+      if (!document) {
+        console.log("[/api/documents/upload] Duplicate of document", raced.id, "(concurrent upload)");
+        uploadedDocuments.push(duplicateResult(raced));
+        continue;
+      }
 
       console.log("[/api/documents/upload] Created document", document.id);
 
-      // Ingest document: extract text, chunk, and embed
-      await ingestDocument(document.id);
-
-      // Fetch updated document status
-      const updatedDocument = await prisma.document.findUnique({
-        where: { id: document.id },
-        select: { status: true, _count: { select: { chunks: true } } },
-      });
+      // Extraction, chunking and embedding run in the job worker
+      const job = await enqueueDocumentJob('INGEST_DOCUMENT', document.id);
 
       uploadedDocuments.push({
         id: document.id,
         fileName: document.fileName,
+        mimeType: document.mimeType,
         type: document.type,
-        status: updatedDocument?.status || document.status,
-        chunksCreated: updatedDocument?._count?.chunks || 0,
+        status: document.status,
+        jobId: job.id,
+        duplicate: false,
       });
     }
 
-    return NextResponse.json({
-      documents: uploadedDocuments,
-    });
+    return NextResponse.json(
+      {
+        documents: uploadedDocuments,
+      },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Error uploading documents:', error);
     return NextResponse.json(
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobSummary } from '@/lib/jobs';
+
+/**
+ * GET /api/jobs/[id]
+ * Status of a background job, polled by the UI until it finishes
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const job = await getJobSummary(params.id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, job });
+  } catch (error) {
+    console.error('Error fetching job:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch job',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JOB_STATUSES, JobStatus, listJobSummaries } from '@/lib/jobs';
+
+/**
+ * GET /api/jobs?documentId=...&status=QUEUED,RUNNING&limit=50
+ * Recent background jobs, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const documentId = searchParams.get('documentId') || undefined;
+    const status = (searchParams.get('status') || '')
+      .split(',')
+      .map((value) => value.trim().toUpperCase())
+      .filter((value): value is JobStatus => (JOB_STATUSES as readonly string[]).includes(value));
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 200);
+
+    const items = await listJobSummaries({ documentId, status, limit });
+
+    return NextResponse.json({ success: true, items });
+  } catch (error) {
+    console.error('Error listing jobs:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list jobs',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { retrieveRelevantChunks } from '@/lib/leaseIngestion';
+import { getLeaseDocumentIds, retrieveRelevantChunks } from '@/lib/leaseIngestion';
+import { searchClauses, parseRetrievalMode, RetrievalMode } from '@/lib/leases/hybridSearch';
 import { callLLM } from '@/lib/llm';
+import { createEventStream, wantsEventStream } from '@/lib/sse';
 import { LeaseQuestionResponse } from '@/lib/types';
 
+interface LeaseMetadata {
+  tenantName: string;
+  propertyName: string;
+  address: string;
+  suite?: string;
+  squareFeet?: number;
+  baseRent?: number;
+  leaseStart?: string;
+  leaseEnd?: string;
+}
+
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -12,6 +25,7 @@ export async function POST(
     const { id: leaseId } = params;
     const body = await request.json();
     const { question } = body;
+    const retrieval = parseRetrievalMode(body.retrieval) || 'vector';
 
     if (!question || typeof question !== 'string') {
       return NextResponse.json(
@@ -41,7 +55,7 @@ export async function POST(
     }
 
     // Format lease metadata
-    const metadata = {
+    const metadata: LeaseMetadata = {
       tenantName: lease.tenantName,
       propertyName: lease.property?.name || 'N/A',
       address: lease.property?.address || 'N/A',
@@ -53,80 +67,16 @@ export async function POST(
     };
 
     const hasChunks = lease.documents.some((doc) => doc.chunks.length > 0);
+    const questionParams = { leaseId, question, retrieval, metadata, hasChunks };
 
-    // Determine mode: RAG or metadata-only
-    let mode: 'rag' | 'metadata_only' = 'metadata_only';
-    let answer: string;
-    let sourceChunks: LeaseQuestionResponse['sourceChunks'] = [];
-
-    if (hasChunks) {
-      // RAG MODE: Retrieve relevant chunks and use them to answer
-      console.log(`[RAG] Processing question for lease ${leaseId} with RAG mode`);
-
-      try {
-        const relevantChunks = await retrieveRelevantChunks({
-          leaseId,
-          query: question,
-          topK: 5,
-        });
-
-        if (relevantChunks.length > 0) {
-          mode = 'rag';
-
-          // Build context from chunks
-          const contextText = relevantChunks
-            .map(
-              (chunk, idx) =>
-                `[Context ${idx + 1}]:\n${chunk.content}\n`
-            )
-            .join('\n');
-
-          // Prepare source chunks for response
-          sourceChunks = relevantChunks.map((chunk) => ({
-            chunkIndex: chunk.chunkIndex,
-            snippet: chunk.content.substring(0, 200) + '...',
-            similarity: Math.round(chunk.similarity * 100) / 100,
-          }));
-
-          // Build RAG prompt
-          const prompt = buildRAGPrompt({
-            metadata,
-            contextText,
-            question,
-          });
-
-          // Call LLM
-          answer = await callLLM(prompt);
-        } else {
-          // No relevant chunks found, fall back to metadata-only
-          console.log(
-            `[RAG] No relevant chunks found for lease ${leaseId}, falling back to metadata-only`
-          );
-          mode = 'metadata_only';
-          answer = await answerFromMetadata({ metadata, question });
-        }
-      } catch (error) {
-        console.error('[RAG] Error in RAG pipeline:', error);
-        // Fall back to metadata-only on error
-        mode = 'metadata_only';
-        answer = await answerFromMetadata({ metadata, question });
-      }
-    } else {
-      // METADATA-ONLY MODE: No chunks available
-      console.log(
-        `[RAG] No chunks available for lease ${leaseId}, using metadata-only mode`
-      );
-      answer = await answerFromMetadata({ metadata, question });
+    if (wantsEventStream(request, body)) {
+      return createEventStream(async (send) => {
+        const response = await answerLeaseQuestion(questionParams, (text) => send('token', { text }));
+        send('done', response);
+      });
     }
 
-    const response: LeaseQuestionResponse = {
-      answer,
-      mode,
-      sourceChunks: mode === 'rag' ? sourceChunks : undefined,
-      metadata,
-    };
-
-    return NextResponse.json(response);
+    return NextResponse.json(await answerLeaseQuestion(questionParams));
   } catch (error) {
     console.error('Error processing lease question:', error);
     return NextResponse.json(
@@ -139,11 +89,165 @@ export async function POST(
   }
 }
 
+/**
+ * Answer from retrieved clauses or chunks, falling back to lease metadata.
+ * Streams the answer text to onToken when given. Once tokens have been
+ * streamed a failure is thrown instead of falling back, so a second answer
+ * is never appended to a partial one.
+ */
+async function answerLeaseQuestion(
+  params: {
+    leaseId: string;
+    question: string;
+    retrieval: RetrievalMode;
+    metadata: LeaseMetadata;
+    hasChunks: boolean;
+  },
+  onToken?: (text: string) => void
+): Promise<LeaseQuestionResponse> {
+  const { leaseId, question, retrieval, metadata, hasChunks } = params;
+
+  let streamed = false;
+  const streamToken = onToken
+    ? (text: string) => {
+        streamed = true;
+        onToken(text);
+      }
+    : undefined;
+
+  // Determine mode: RAG or metadata-only
+  let mode: 'rag' | 'metadata_only' = 'metadata_only';
+  let answer: string | undefined;
+  let sourceChunks: LeaseQuestionResponse['sourceChunks'] = [];
+
+  if (retrieval !== 'vector') {
+    // KEYWORD/HYBRID MODE: Retrieve from the indexed lease clauses
+    console.log(`[RAG] Processing question for lease ${leaseId} with ${retrieval} clause retrieval`);
+
+    try {
+      const relevantClauses = await searchClauses({
+        retrieval,
+        leaseId,
+        query: question,
+        topK: 5,
+      });
+
+      if (relevantClauses.length > 0) {
+        mode = 'rag';
+
+        const contextText = relevantClauses
+          .map(
+            (clause, idx) =>
+              `[Context ${idx + 1}${clause.sectionLabel ? ` - ${clause.sectionLabel}` : ''}]:\n${clause.text}\n`
+          )
+          .join('\n');
+
+        const documentId = (await getLeaseDocumentIds([leaseId])).get(leaseId);
+        sourceChunks = relevantClauses.map((clause, idx) => ({
+          chunkIndex: idx,
+          snippet: clause.text.substring(0, 200) + '...',
+          similarity: Math.round(clause.similarity * 100) / 100,
+          sectionLabel: clause.sectionLabel,
+          documentId,
+          startPage: clause.pageNumber,
+          endPage: clause.pageNumber,
+        }));
+
+        answer = await callLLM(buildRAGPrompt({ metadata, contextText, question }), {
+          feature: 'LEASE_QA',
+          onToken: streamToken,
+        });
+      } else {
+        console.log(
+          `[RAG] No matching clauses for lease ${leaseId}, falling back to chunk retrieval`
+        );
+      }
+    } catch (error) {
+      if (streamed) throw error;
+      console.error('[RAG] Error in clause retrieval:', error);
+    }
+  }
+
+  if (answer !== undefined) {
+    // Already answered from clauses
+  } else if (hasChunks) {
+    // RAG MODE: Retrieve relevant chunks and use them to answer
+    console.log(`[RAG] Processing question for lease ${leaseId} with RAG mode`);
+
+    try {
+      const relevantChunks = await retrieveRelevantChunks({
+        leaseId,
+        query: question,
+        topK: 5,
+      });
+
+      if (relevantChunks.length > 0) {
+        mode = 'rag';
+
+        // Build context from chunks
+        const contextText = relevantChunks
+          .map(
+            (chunk, idx) =>
+              `[Context ${idx + 1}]:\n${chunk.content}\n`
+          )
+          .join('\n');
+
+        // Prepare source chunks for response
+        sourceChunks = relevantChunks.map((chunk) => ({
+          chunkIndex: chunk.chunkIndex,
+          snippet: chunk.content.substring(0, 200) + '...',
+          similarity: Math.round(chunk.similarity * 100) / 100,
+          documentId: chunk.documentId,
+          startPage: chunk.startPage,
+          endPage: chunk.endPage,
+        }));
+
+        // Build RAG prompt
+        const prompt = buildRAGPrompt({
+          metadata,
+          contextText,
+          question,
+        });
+
+        // Call LLM
+        answer = await callLLM(prompt, { feature: 'LEASE_QA', onToken: streamToken });
+      } else {
+        // No relevant chunks found, fall back to metadata-only
+        console.log(
+          `[RAG] No relevant chunks found for lease ${leaseId}, falling back to metadata-only`
+        );
+        mode = 'metadata_only';
+        answer = await answerFromMetadata({ metadata, question, onToken });
+      }
+    } catch (error) {
+      if (streamed) throw error;
+      console.error('[RAG] Error in RAG pipeline:', error);
+      // Fall back to metadata-only on error
+      mode = 'metadata_only';
+      answer = await answerFromMetadata({ metadata, question, onToken });
+    }
+  } else {
+    // METADATA-ONLY MODE: No chunks available
+    console.log(
+      `[RAG] No chunks available for lease ${leaseId}, using metadata-only mode`
+    );
+    answer = await answerFromMetadata({ metadata, question, onToken });
+  }
+
+  return {
+    answer,
+    mode,
+    retrieval,
+    sourceChunks: mode === 'rag' ? sourceChunks : undefined,
+    metadata,
+  };
+}
+
 /**
  * Build a RAG prompt with metadata and retrieved context
  */
 function buildRAGPrompt(params: {
-  metadata: any;
+  metadata: LeaseMetadata;
   contextText: string;
   question: string;
 }): string {
@@ -180,10 +284,11 @@ YOUR ANSWER:`;
  * Answer a question using only lease metadata (fallback mode)
  */
 async function answerFromMetadata(params: {
-  metadata: any;
+  metadata: LeaseMetadata;
   question: string;
+  onToken?: (text: string) => void;
 }): Promise<string> {
-  const { metadata, question } = params;
+  const { metadata, question, onToken } = params;
 
   const prompt = `You are a commercial real estate lease analyst. Answer the following question about a lease using ONLY the lease metadata provided below. If the information is not available in the metadata, clearly state that.
 
@@ -204,5 +309,5 @@ ${question}
 
 YOUR ANSWER:`;
 
-  return await callLLM(prompt);
+  return await callLLM(prompt, { feature: 'LEASE_QA', onToken });
 }
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  DEFAULT_CPI_SERIES,
+  applyCpiAdjustment,
+  computeLeaseCpiAdjustment,
+} from '@/lib/cpiEscalation';
+
+function parsePercent(value: unknown): number | null | undefined {
+  if (value === undefined || value === null || value === '') return null;
+  const percent = typeof value === 'number' ? value : parseFloat(String(value));
+  return isFinite(percent) ? percent : undefined;
+}
+
+function parseWholeNumber(value: unknown, fallback: number): number | undefined {
+  if (value === undefined || value === null || value === '') return fallback;
+  const number = typeof value === 'number' ? value : Number(value);
+  return Number.isInteger(number) && number >= 0 ? number : undefined;
+}
+
+/**
+ * A lease's CPI escalation terms and its pending adjustment
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const lease = await prisma.lease.findUnique({
+      where: { id: params.id },
+      select: { id: true, cpiEscalation: true },
+    });
+
+    if (!lease) {
+      return NextResponse.json({ error: 'Lease not found' }, { status: 404 });
+    }
+
+    const next = lease.cpiEscalation ? await computeLeaseCpiAdjustment(lease.id) : null;
+
+    return NextResponse.json({ success: true, terms: lease.cpiEscalation, next });
+  } catch (error) {
+    console.error('Error fetching CPI escalation:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch CPI escalation', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Set a lease's CPI escalation terms:
+ * { series?, floorPercent?, capPercent?, lookbackMonths?, noticeDays? }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const series = typeof body.series === 'string' && body.series.trim() ? body.series.trim() : DEFAULT_CPI_SERIES;
+    const floorPercent = parsePercent(body.floorPercent);
+    const capPercent = parsePercent(body.capPercent);
+    const lookbackMonths = parseWholeNumber(body.lookbackMonths, 2);
+    const noticeDays = parseWholeNumber(body.noticeDays, 60);
+
+    if (floorPercent === undefined || capPercent === undefined) {
+      return NextResponse.json({ error: 'floorPercent and capPercent must be numbers' }, { status: 400 });
+    }
+    if (floorPercent !== null && capPercent !== null && floorPercent > capPercent) {
+      return NextResponse.json({ error: 'floorPercent cannot exceed capPercent' }, { status: 400 });
+    }
+    if (lookbackMonths === undefined || noticeDays === undefined) {
+      return NextResponse.json(
+        { error: 'lookbackMonths and noticeDays must be non-negative whole numbers' },
+        { status: 400 }
+      );
+    }
+
+    const lease = await prisma.lease.findUnique({
+      where: { id: params.id },
+      select: { id: true },
+    });
+
+    if (!lease) {
+      return NextResponse.json({ error: 'Lease not found' }, { status: 404 });
+    }
+
+    const data = { series, floorPercent, capPercent, lookbackMonths, noticeDays };
+    const terms = await prisma.cpiEscalationTerms.upsert({
+      where: { leaseId: lease.id },
+      update: data,
+      create: { leaseId: lease.id, ...data },
+    });
+
+    return NextResponse.json({ success: true, terms });
+  } catch (error) {
+    console.error('Error saving CPI escalation:', error);
+    return NextResponse.json(
+      { error: 'Failed to save CPI escalation', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Apply the lease's pending CPI adjustment (due, missed, or else the next
+ * one) as a CPI rent step
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const lease = await prisma.lease.findUnique({
+      where: { id: params.id },
+      select: { id: true, squareFeet: true },
+    });
+
+    if (!lease) {
+      return NextResponse.json({ error: 'Lease not found' }, { status: 404 });
+    }
+
+    const result = await computeLeaseCpiAdjustment(lease.id);
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Lease has no CPI adjustment ahead (needs CPI terms, a start date and an anniversary before it ends)' },
+        { status: 409 }
+      );
+    }
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+
+    const rentStep = await applyCpiAdjustment(lease.id, result.adjustment, lease.squareFeet);
+
+    return NextResponse.json({ success: true, adjustment: result.adjustment, rentStep });
+  } catch (error) {
+    console.error('Error applying CPI adjustment:', error);
+    return NextResponse.json(
+      { error: 'Failed to apply CPI adjustment', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
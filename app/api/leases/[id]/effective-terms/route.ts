@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { loadEffectiveLeaseTerms } from '@/lib/leaseDocumentChain';
+
+/**
+ * Current effective terms of a lease: its lease, amendment and assignment
+ * documents folded in chain order, with the document each field came from
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const lease = await prisma.lease.findUnique({
+      where: { id: params.id },
+      select: { id: true },
+    });
+
+    if (!lease) {
+      return NextResponse.json({ error: 'Lease not found' }, { status: 404 });
+    }
+
+    const { terms, provenance, chain } = await loadEffectiveLeaseTerms(lease.id);
+
+    return NextResponse.json({ success: true, terms, provenance, chain });
+  } catch (error) {
+    console.error('Error loading effective lease terms:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load effective lease terms',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
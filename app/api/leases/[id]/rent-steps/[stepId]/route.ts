@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; stepId: string } }
+) {
+  try {
+    const rentStep = await prisma.rentStep.findFirst({
+      where: { id: params.stepId, leaseId: params.id },
+      select: { id: true },
+    });
+
+    if (!rentStep) {
+      return NextResponse.json({ error: 'Rent step not found' }, { status: 404 });
+    }
+
+    await prisma.rentStep.delete({ where: { id: rentStep.id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting rent step:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete rent step', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { rebuildExtractedRentSteps } from '@/lib/rentSchedule';
+
+/**
+ * Re-derive a lease's extracted rent steps from its document chain. Manual
+ * and CPI steps are kept.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const lease = await prisma.lease.findUnique({
+      where: { id: params.id },
+      select: { id: true },
+    });
+
+    if (!lease) {
+      return NextResponse.json({ error: 'Lease not found' }, { status: 404 });
+    }
+
+    const created = await rebuildExtractedRentSteps(lease.id);
+
+    return NextResponse.json({ success: true, created });
+  } catch (error) {
+    console.error('Error rebuilding rent steps:', error);
+    return NextResponse.json(
+      { error: 'Failed to rebuild rent steps', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
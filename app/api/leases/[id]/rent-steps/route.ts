@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  RENT_STEP_TYPES,
+  RentStepType,
+  contractualMonthlyRent,
+  rentStepAmounts,
+} from '@/lib/rentSchedule';
+
+function parseAmount(value: unknown): number | null | undefined {
+  if (value === undefined || value === null || value === '') return null;
+  const amount = typeof value === 'number' ? value : parseFloat(String(value).replace(/[$,]/g, ''));
+  return isFinite(amount) && amount >= 0 ? amount : undefined;
+}
+
+/**
+ * A lease's rent steps, oldest first, with the contractual monthly rent on
+ * `?date=` (default today)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const lease = await prisma.lease.findUnique({
+      where: { id: params.id },
+      select: {
+        baseRent: true,
+        leaseEnd: true,
+        rentSteps: { orderBy: { effectiveDate: 'asc' } },
+      },
+    });
+
+    if (!lease) {
+      return NextResponse.json({ error: 'Lease not found' }, { status: 404 });
+    }
+
+    const dateParam = request.nextUrl.searchParams.get('date');
+    const date = dateParam ? new Date(dateParam) : new Date();
+    if (isNaN(date.getTime())) {
+      return NextResponse.json({ error: 'date must be a valid date' }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      date: date.toISOString().split('T')[0],
+      monthlyRent: contractualMonthlyRent(lease, date),
+      rentSteps: lease.rentSteps,
+    });
+  } catch (error) {
+    console.error('Error fetching rent steps:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch rent steps', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Add a manual rent step:
+ * { effectiveDate, stepType, monthlyRent | annualRent | ratePerSquareFoot, escalationPercent?, note? }.
+ * A manual step replaces any extracted step on the same date.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    const effectiveDate = typeof body.effectiveDate === 'string' ? new Date(body.effectiveDate) : null;
+    if (!effectiveDate || isNaN(effectiveDate.getTime())) {
+      return NextResponse.json({ error: 'effectiveDate must be a valid date' }, { status: 400 });
+    }
+
+    const stepType = body.stepType || 'FIXED';
+    if (!RENT_STEP_TYPES.includes(stepType as RentStepType)) {
+      return NextResponse.json(
+        { error: `stepType must be one of ${RENT_STEP_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const monthlyRent = parseAmount(body.monthlyRent);
+    const annualRent = parseAmount(body.annualRent);
+    const ratePerSquareFoot = parseAmount(body.ratePerSquareFoot);
+    const escalationPercent = parseAmount(body.escalationPercent);
+    if ([monthlyRent, annualRent, ratePerSquareFoot, escalationPercent].includes(undefined)) {
+      return NextResponse.json({ error: 'Rent amounts must be non-negative numbers' }, { status: 400 });
+    }
+
+    const lease = await prisma.lease.findUnique({
+      where: { id: params.id },
+      select: { id: true, squareFeet: true },
+    });
+
+    if (!lease) {
+      return NextResponse.json({ error: 'Lease not found' }, { status: 404 });
+    }
+
+    const amounts = rentStepAmounts({ monthlyRent, annualRent, ratePerSquareFoot }, lease.squareFeet);
+    if (!amounts) {
+      return NextResponse.json(
+        { error: 'Provide monthlyRent, annualRent, or ratePerSquareFoot (for a lease with square footage)' },
+        { status: 400 }
+      );
+    }
+
+    const [, rentStep] = await prisma.$transaction([
+      prisma.rentStep.deleteMany({
+        where: { leaseId: lease.id, effectiveDate, source: 'EXTRACTION' },
+      }),
+      prisma.rentStep.create({
+        data: {
+          leaseId: lease.id,
+          effectiveDate,
+          ...amounts,
+          stepType,
+          escalationPercent: escalationPercent ?? null,
+          source: 'MANUAL',
+          note: typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null,
+        },
+      }),
+    ]);
+
+    return NextResponse.json({ success: true, rentStep });
+  } catch (error) {
+    console.error('Error creating rent step:', error);
+    return NextResponse.json(
+      { error: 'Failed to create rent step', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { callLLM } from '@/lib/llm';
-import { searchClausesByVector, ClauseSearchResult } from '@/lib/leases/vectorStore';
+import { getLeaseDocumentIds } from '@/lib/leaseIngestion';
+import { ClauseSearchResult } from '@/lib/leases/vectorStore';
+import { searchClauses, parseRetrievalMode, RetrievalMode } from '@/lib/leases/hybridSearch';
+import { rerank, parseRerankMode, RerankMode } from '@/lib/reranker';
+import { createEventStream, wantsEventStream } from '@/lib/sse';
+import { appendTurn, getThread, rewriteFollowUpQuestion, ThreadDetail } from '@/lib/leases/threads';
 import { inferTopicsFromQuestion, ClauseTopic, ResponsibleParty } from '@/lib/leases/classifier';
 
 // Response type for lease Q&A
@@ -16,16 +21,27 @@ export interface LeaseQAResponse {
     sectionLabel?: string | null;
     textSnippet: string;
     pageNumber?: number | null;
+    documentId?: string; // Lease document to open at pageNumber
     topic?: string;
     responsibleParty?: string;
+    retrievalScore?: number; // Cosine similarity, BM25 or fused score depending on retrieval
+    rerankScore?: number; // 0-1, present when re-ranking is enabled
   }>;
   mode: 'clause_rag' | 'no_clauses';
+  retrieval: RetrievalMode;
+  rerank: RerankMode;
+  threadId?: string;
+  standaloneQuestion?: string; // Follow-up rewritten against prior turns, when in a thread
 }
 
 // Request body type
 interface LeaseQARequest {
   question: string;
   leaseId?: string;
+  retrieval?: RetrievalMode; // vector (default), keyword or hybrid
+  rerank?: RerankMode; // none (default), lexical or llm
+  stream?: boolean; // Stream the answer as server-sent events
+  threadId?: string; // Continue a conversation thread; its scope overrides leaseId/propertyId
   filters?: {
     propertyId?: string;
     tenantName?: string;
@@ -36,7 +52,7 @@ interface LeaseQARequest {
 export async function POST(request: NextRequest) {
   try {
     const body: LeaseQARequest = await request.json();
-    const { question, leaseId, filters } = body;
+    const { question } = body;
 
     // Validate input
     if (!question || typeof question !== 'string' || question.trim().length === 0) {
@@ -46,58 +62,142 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const trimmedQuestion = question.trim();
+    let thread: ThreadDetail | null = null;
+    if (body.threadId) {
+      thread = await getThread(body.threadId);
+      if (!thread) {
+        return NextResponse.json({ error: 'Thread not found' }, { status: 404 });
+      }
+    }
 
-    // Infer topics from question if not explicitly provided
-    const inferredTopics = filters?.topic
-      ? [filters.topic]
-      : inferTopicsFromQuestion(trimmedQuestion);
+    if (wantsEventStream(request, body)) {
+      return createEventStream(async (send) => {
+        const response = await answerClauseQuestion(body, thread, (text) =>
+          send('token', { text })
+        );
+        send('done', response);
+      });
+    }
 
-    // Search for relevant clauses
-    const searchResults = await searchClausesByVector({
+    return NextResponse.json(await answerClauseQuestion(body, thread));
+  } catch (error) {
+    console.error('Error in lease QA:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to process question',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Retrieve clauses and answer the question, streaming the answer text to
+ * onToken when given. Within a thread the question is first rewritten
+ * against the prior turns, and the turn is saved once answered.
+ */
+async function answerClauseQuestion(
+  body: LeaseQARequest,
+  thread: ThreadDetail | null,
+  onToken?: (text: string) => void
+): Promise<LeaseQAResponse> {
+  const { question } = body;
+  const leaseId = thread ? thread.leaseId || undefined : body.leaseId;
+  const filters = thread
+    ? { ...body.filters, propertyId: thread.propertyId || body.filters?.propertyId }
+    : body.filters;
+  const retrieval = parseRetrievalMode(body.retrieval) || 'vector';
+  const rerankMode = parseRerankMode(body.rerank) || 'none';
+  // Re-ranking picks from a wider candidate pool
+  const candidateCount = rerankMode === 'none' ? 10 : 25;
+
+  const askedQuestion = question.trim();
+  const trimmedQuestion = thread
+    ? await rewriteFollowUpQuestion(askedQuestion, thread.turns)
+    : askedQuestion;
+  if (trimmedQuestion !== askedQuestion) {
+    console.log(`[LeaseQA] Rewrote follow-up "${askedQuestion}" as "${trimmedQuestion}"`);
+  }
+
+  // Save the turn to the thread (if any) and tag the response with it
+  const finish = async (response: LeaseQAResponse): Promise<LeaseQAResponse> => {
+    if (!thread) {
+      return response;
+    }
+    await appendTurn(thread.id, {
+      question: askedQuestion,
+      standaloneQuestion: trimmedQuestion,
+      answer: response.answer,
+      responsibleParty: response.responsibleParty,
+      citations: response.citations,
+    });
+    return { ...response, threadId: thread.id, standaloneQuestion: trimmedQuestion };
+  };
+
+  // Infer topics from question if not explicitly provided
+  const inferredTopics = filters?.topic
+    ? [filters.topic]
+    : inferTopicsFromQuestion(trimmedQuestion);
+
+  // Search for relevant clauses
+  const searchResults = await searchClauses({
+    retrieval,
+    query: trimmedQuestion,
+    leaseId,
+    propertyId: filters?.propertyId,
+    tenantName: filters?.tenantName,
+    topics: inferredTopics.length > 0 ? inferredTopics : undefined,
+    topK: candidateCount,
+  });
+
+  // If no clauses found with topic filter, try without
+  let finalResults = searchResults;
+  if (searchResults.length === 0 && inferredTopics.length > 0) {
+    finalResults = await searchClauses({
+      retrieval,
       query: trimmedQuestion,
       leaseId,
       propertyId: filters?.propertyId,
       tenantName: filters?.tenantName,
-      topics: inferredTopics.length > 0 ? inferredTopics : undefined,
-      topK: 10, // Increased for better coverage
-      minSimilarity: 0.25,
+      topK: candidateCount,
     });
+  }
 
-    // If no clauses found with topic filter, try without
-    let finalResults = searchResults;
-    if (searchResults.length === 0 && inferredTopics.length > 0) {
-      finalResults = await searchClausesByVector({
-        query: trimmedQuestion,
-        leaseId,
-        propertyId: filters?.propertyId,
-        tenantName: filters?.tenantName,
-        topK: 10,
-        minSimilarity: 0.25,
-      });
-    }
-
-    // If still no clauses, return a no-clauses response
-    if (finalResults.length === 0) {
-      const response: LeaseQAResponse = {
-        answer: leaseId
-          ? 'No indexed clauses found for this lease. Please ensure the lease document has been processed through the indexing script.'
-          : 'No relevant clauses found in the portfolio. Please ensure lease documents have been indexed.',
-        citations: [],
-        mode: 'no_clauses',
-      };
-      return NextResponse.json(response);
-    }
+  // Optionally re-score candidates against the question, dropping irrelevant ones
+  const reranked = await rerank(trimmedQuestion, finalResults, {
+    mode: rerankMode,
+    getText: (clause) => clause.text,
+    getLabel: (clause) => clause.sectionLabel,
+    topK: 10,
+  });
+  const rerankScores = new Map(reranked.map((r) => [r.item.clauseId, r.rerankScore]));
+  finalResults = reranked.map((r) => r.item);
+
+  // If still no clauses, return a no-clauses response
+  if (finalResults.length === 0) {
+    const response: LeaseQAResponse = {
+      answer: leaseId
+        ? 'No indexed clauses found for this lease. Please ensure the lease document has been processed through the indexing script.'
+        : 'No relevant clauses found in the portfolio. Please ensure lease documents have been indexed.',
+      citations: [],
+      mode: 'no_clauses',
+      retrieval,
+      rerank: rerankMode,
+    };
+    onToken?.(response.answer);
+    return finish(response);
+  }
 
-    // Get lease context for better answers
-    let leaseContext = '';
-    if (leaseId) {
-      const lease = await prisma.lease.findUnique({
-        where: { id: leaseId },
-        include: { property: true },
-      });
-      if (lease) {
-        leaseContext = `
+  // Get lease context for better answers
+  let leaseContext = '';
+  if (leaseId) {
+    const lease = await prisma.lease.findUnique({
+      where: { id: leaseId },
+      include: { property: true },
+    });
+    if (lease) {
+      leaseContext = `
 LEASE CONTEXT:
 - Tenant: ${lease.tenantName}
 - Property: ${lease.property?.name || 'Unknown'}
@@ -106,57 +206,58 @@ LEASE CONTEXT:
 - Lease Start: ${lease.leaseStart?.toISOString().split('T')[0] || 'N/A'}
 - Lease End: ${lease.leaseEnd?.toISOString().split('T')[0] || 'N/A'}
 `;
-      }
     }
+  }
 
-    // Build context from retrieved clauses - grouped by property/tenant
-    const clauseContext = buildClauseContext(finalResults, !leaseId);
-
-    // Build the RAG prompt with executive-style instructions
-    const prompt = buildExecutiveRAGPrompt({
-      question: trimmedQuestion,
-      clauseContext,
-      leaseContext,
-      isPortfolioWide: !leaseId,
-    });
-
-    // Call LLM
-    const llmResponse = await callLLM(prompt);
-
-    // Parse the response
-    const { answer, responsibleParty } = parseClauseResponse(llmResponse, finalResults);
-
-    // Build citations with additional metadata
-    const citations = finalResults.slice(0, 8).map((clause) => ({
-      leaseId: clause.leaseId,
-      leaseName: null,
-      propertyName: clause.propertyName || null,
-      tenantName: clause.tenantName || null,
-      sectionLabel: clause.sectionLabel,
-      textSnippet: clause.textSnippet,
-      pageNumber: clause.pageNumber,
-      topic: clause.topic,
-      responsibleParty: clause.responsibleParty,
-    }));
+  // Build context from retrieved clauses - grouped by property/tenant
+  const clauseContext = buildClauseContext(finalResults, !leaseId);
+
+  // Build the RAG prompt with executive-style instructions
+  const prompt = buildExecutiveRAGPrompt({
+    question: trimmedQuestion,
+    clauseContext,
+    leaseContext,
+    isPortfolioWide: !leaseId,
+  });
+
+  // Call LLM
+  const llmResponse = await callLLM(prompt, { feature: 'LEASE_QA', onToken });
+
+  // Parse the response
+  const { answer, responsibleParty } = parseClauseResponse(llmResponse, finalResults);
+
+  // Build citations with additional metadata
+  const cited = finalResults.slice(0, 8);
+  const documentIds = await getLeaseDocumentIds(Array.from(new Set(cited.map((c) => c.leaseId))));
+  const citations = cited.map((clause) => ({
+    leaseId: clause.leaseId,
+    leaseName: null,
+    propertyName: clause.propertyName || null,
+    tenantName: clause.tenantName || null,
+    sectionLabel: clause.sectionLabel,
+    textSnippet: clause.textSnippet,
+    pageNumber: clause.pageNumber,
+    documentId: documentIds.get(clause.leaseId),
+    topic: clause.topic,
+    responsibleParty: clause.responsibleParty,
+    retrievalScore: roundScore(clause.fusedScore ?? clause.keywordScore ?? clause.similarity),
+    rerankScore: rerankMode === 'none' ? undefined : rerankScores.get(clause.clauseId),
+  }));
+
+  const response: LeaseQAResponse = {
+    answer,
+    responsibleParty,
+    citations,
+    mode: 'clause_rag',
+    retrieval,
+    rerank: rerankMode,
+  };
 
-    const response: LeaseQAResponse = {
-      answer,
-      responsibleParty,
-      citations,
-      mode: 'clause_rag',
-    };
+  return finish(response);
+}
 
-    return NextResponse.json(response);
-  } catch (error) {
-    console.error('Error in lease QA:', error);
-    return NextResponse.json(
-      {
-        error: 'Failed to process question',
-        details: (error as Error).message,
-      },
-      { status: 500 }
-    );
-  }
+function roundScore(score: number): number {
+  return Math.round(score * 1000) / 1000;
 }
 
 /**
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { findDueRentAdjustments } from '@/lib/cpiEscalation';
+import { generateAlerts } from '@/lib/alerts';
+
+/**
+ * CPI rent adjustments due within each lease's notice period, with the
+ * computed new rent, and the matching RENT_ADJUSTMENT_DUE alerts
+ */
+export async function GET() {
+  try {
+    const today = new Date();
+    const adjustments = await findDueRentAdjustments(today);
+    const alerts = generateAlerts({ today, leases: [], rentAdjustments: adjustments });
+
+    return NextResponse.json({ success: true, adjustments, alerts });
+  } catch (error) {
+    console.error('Error finding due rent adjustments:', error);
+    return NextResponse.json(
+      { error: 'Failed to find due rent adjustments', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
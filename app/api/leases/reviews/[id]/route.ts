@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  LEASE_REVIEW_DECISIONS,
+  LeaseFieldDecision,
+  LeaseReviewDecision,
+  applyLeaseReviewDecisions,
+  loadLeaseChangeSet,
+  parseLeaseReviewValue,
+} from '@/lib/leaseReview';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const changeSet = await loadLeaseChangeSet(params.id);
+
+    if (!changeSet) {
+      return NextResponse.json(
+        { error: 'Change set not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ changeSet });
+  } catch (error) {
+    console.error('Error fetching lease change set:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch lease change set', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Decide pending fields of a change set:
+ * { reviewer, decisions: [{ changeId, decision: ACCEPTED | EDITED | REJECTED, value? }] }.
+ * Accepted fields get the proposed value and edited ones `value`; both are
+ * written to the Lease. Fields left out stay pending.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const reviewer = typeof body.reviewer === 'string' ? body.reviewer.trim() : '';
+    const requested: unknown[] = Array.isArray(body.decisions) ? body.decisions : [];
+
+    if (!reviewer) {
+      return NextResponse.json({ error: 'reviewer is required' }, { status: 400 });
+    }
+    if (requested.length === 0) {
+      return NextResponse.json({ error: 'decisions must be a non-empty array' }, { status: 400 });
+    }
+
+    const changeSet = await loadLeaseChangeSet(params.id);
+
+    if (!changeSet) {
+      return NextResponse.json(
+        { error: 'Change set not found' },
+        { status: 404 }
+      );
+    }
+
+    if (changeSet.status !== 'PENDING') {
+      return NextResponse.json(
+        { error: `Change set is ${changeSet.status.toLowerCase()}` },
+        { status: 409 }
+      );
+    }
+
+    const changesById = new Map(changeSet.changes.map((change) => [change.id, change]));
+    const decisions: LeaseFieldDecision[] = [];
+    for (const item of requested) {
+      const { changeId, decision, value } = (item || {}) as { changeId?: string; decision?: string; value?: unknown };
+      const change = changeId ? changesById.get(changeId) : undefined;
+
+      if (!change) {
+        return NextResponse.json(
+          { error: `Change ${changeId} is not part of this change set` },
+          { status: 400 }
+        );
+      }
+      if (change.decision !== 'PENDING' || decisions.some((d) => d.changeId === change.id)) {
+        return NextResponse.json(
+          { error: `${change.label} has already been decided` },
+          { status: 409 }
+        );
+      }
+      if (!LEASE_REVIEW_DECISIONS.includes(decision as LeaseReviewDecision)) {
+        return NextResponse.json(
+          { error: `decision must be one of ${LEASE_REVIEW_DECISIONS.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      if (decision === 'EDITED') {
+        const parsed = parseLeaseReviewValue(change.field, value);
+        if (parsed === undefined) {
+          return NextResponse.json(
+            { error: `Invalid value for ${change.label}: ${JSON.stringify(value)}` },
+            { status: 400 }
+          );
+        }
+        decisions.push({ changeId: change.id, decision, value: parsed });
+      } else {
+        decisions.push({ changeId: change.id, decision: decision as LeaseReviewDecision });
+      }
+    }
+
+    const result = await applyLeaseReviewDecisions(changeSet, reviewer, decisions);
+
+    console.log(
+      `[/api/leases/reviews] ${reviewer} reviewed change set ${changeSet.id}: ` +
+        `${result.applied} applied, ${result.rejected} rejected`
+    );
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error reviewing lease change set:', error);
+    return NextResponse.json(
+      { error: 'Failed to review lease change set', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
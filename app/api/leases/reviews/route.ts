@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listLeaseChangeSets } from '@/lib/leaseReview';
+
+/**
+ * Lease change sets for the review queue. `status` is a comma-separated
+ * list (PENDING, REVIEWED, SUPERSEDED); all statuses when omitted.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+
+    const changeSets = await listLeaseChangeSets({
+      status: status ? status.split(',').map((s) => s.trim()) : undefined,
+      leaseId: searchParams.get('leaseId') || undefined,
+    });
+
+    return NextResponse.json({ changeSets });
+  } catch (error) {
+    console.error('Error fetching lease change sets:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch lease change sets', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
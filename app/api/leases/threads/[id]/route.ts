@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteThread, getThread } from '@/lib/leases/threads';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const thread = await getThread(params.id);
+
+    if (!thread) {
+      return NextResponse.json({ error: 'Thread not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      thread,
+    });
+  } catch (error) {
+    console.error('Error fetching assistant thread:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch thread', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const thread = await getThread(params.id);
+
+    if (!thread) {
+      return NextResponse.json({ error: 'Thread not found' }, { status: 404 });
+    }
+
+    await deleteThread(params.id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Thread deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting assistant thread:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete thread',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
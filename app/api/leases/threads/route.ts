@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createThread, listThreads, parseThreadScope } from '@/lib/leases/threads';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const threads = await listThreads({
+      scope: parseThreadScope(searchParams.get('scope')),
+      leaseId: searchParams.get('leaseId') || undefined,
+      propertyId: searchParams.get('propertyId') || undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      threads,
+    });
+  } catch (error) {
+    console.error('Error fetching assistant threads:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch threads', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const scope = parseThreadScope(body.scope);
+
+    if (!scope) {
+      return NextResponse.json(
+        { error: 'scope must be one of LEASE, PROPERTY or PORTFOLIO' },
+        { status: 400 }
+      );
+    }
+
+    if (!body.title || typeof body.title !== 'string') {
+      return NextResponse.json({ error: 'Missing or invalid title' }, { status: 400 });
+    }
+
+    if ((scope === 'LEASE' && !body.leaseId) || (scope === 'PROPERTY' && !body.propertyId)) {
+      return NextResponse.json(
+        { error: `${scope === 'LEASE' ? 'leaseId' : 'propertyId'} is required for ${scope} threads` },
+        { status: 400 }
+      );
+    }
+
+    const thread = await createThread({
+      scope,
+      title: body.title,
+      leaseId: body.leaseId,
+      propertyId: body.propertyId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      thread,
+    });
+  } catch (error) {
+    console.error('Error creating assistant thread:', error);
+    return NextResponse.json(
+      { error: 'Failed to create thread', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
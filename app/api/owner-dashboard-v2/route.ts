@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { contractualMonthlyRent } from '@/lib/rentSchedule';
 
 /**
  * GET /api/owner-dashboard-v2
@@ -78,6 +79,7 @@ export async function GET() {
         },
         include: {
           property: true,
+          rentSteps: { select: { effectiveDate: true, monthlyRent: true } },
         },
         orderBy: { leaseEnd: 'asc' },
         take: 5,
@@ -105,6 +107,7 @@ export async function GET() {
           suite: true,
           baseRent: true,
           leaseEnd: true,
+          rentSteps: { select: { effectiveDate: true, monthlyRent: true } },
         },
       }),
 
@@ -119,6 +122,8 @@ export async function GET() {
         },
         select: {
           baseRent: true,
+          leaseEnd: true,
+          rentSteps: { select: { effectiveDate: true, monthlyRent: true } },
         },
       }),
 
@@ -130,6 +135,9 @@ export async function GET() {
             where: {
               status: { in: ['ACTIVE', 'NOTICE_GIVEN'] },
             },
+            include: {
+              rentSteps: { select: { effectiveDate: true, monthlyRent: true } },
+            },
           },
         },
       }),
@@ -157,7 +165,7 @@ export async function GET() {
         tenantName: lease.tenantName,
         suite: lease.suite,
         squareFeet: lease.squareFeet,
-        baseRent: lease.baseRent,
+        baseRent: contractualMonthlyRent(lease, now),
         leaseEnd: lease.leaseEnd?.toISOString() || null,
         status: lease.status,
         monthsToExpiry,
@@ -215,7 +223,7 @@ export async function GET() {
           const remainingYears = remainingMs / (1000 * 60 * 60 * 24 * 365.25);
 
           if (remainingYears > 0) {
-            const weight = lease.baseRent ?? 1; // Use baseRent as weight, or 1 if null
+            const weight = contractualMonthlyRent(lease, now) ?? 1; // Use current contractual rent as weight, or 1 if none
             weightedSum += remainingYears * weight;
             totalWeight += weight;
           }
@@ -228,7 +236,7 @@ export async function GET() {
     // 3. Rollover exposure (12 months)
     const rolloverCount12Mo = leasesExpiring12MonthsList.length;
     const rolloverRent12Mo = leasesExpiring12MonthsList.reduce(
-      (sum, l) => sum + (l.baseRent ?? 0),
+      (sum, l) => sum + (contractualMonthlyRent(l, now) ?? 0),
       0
     );
 
@@ -289,9 +297,9 @@ export async function GET() {
         return endDate >= now && endDate <= twelveMonthsFromNow;
       });
 
-      // Sum monthly rent
+      // Sum current contractual monthly rent
       const monthlyRentTotal = activePropertyLeases.reduce(
-        (sum, l) => sum + (l.baseRent ?? 0),
+        (sum, l) => sum + (contractualMonthlyRent(l, now) ?? 0),
         0
       );
 
@@ -2,12 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { retrieveRelevantChunksForLeaseIds } from '@/lib/leaseIngestion';
 import { callLLM } from '@/lib/llm';
+import { rerank, parseRerankMode, RerankMode } from '@/lib/reranker';
+import { createEventStream, wantsEventStream } from '@/lib/sse';
 import { PortfolioQuestionResponse } from '@/lib/types';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { question } = body;
+    const rerankMode = parseRerankMode(body.rerank) || 'none';
 
     if (!question || typeof question !== 'string') {
       return NextResponse.json(
@@ -16,62 +19,102 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Find all leases that have documents with chunks (analyzed documents)
-    const leasesWithChunks = await prisma.lease.findMany({
-      where: {
-        documents: {
-          some: {
-            chunks: {
-              some: {},
-            },
+    if (wantsEventStream(request, body)) {
+      return createEventStream(async (send) => {
+        const response = await answerPortfolioQuestion(question, rerankMode, (text) =>
+          send('token', { text })
+        );
+        send('done', response);
+      });
+    }
+
+    return NextResponse.json(await answerPortfolioQuestion(question, rerankMode));
+  } catch (error) {
+    console.error('Error processing portfolio question:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to process question',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Answer a question across every lease with analyzed documents.
+ * Streams the answer text to onToken when given.
+ */
+async function answerPortfolioQuestion(
+  question: string,
+  rerankMode: RerankMode,
+  onToken?: (text: string) => void
+): Promise<PortfolioQuestionResponse> {
+  // Find all leases that have documents with chunks (analyzed documents)
+  const leasesWithChunks = await prisma.lease.findMany({
+    where: {
+      documents: {
+        some: {
+          chunks: {
+            some: {},
           },
         },
       },
-      select: { id: true },
-    });
-
-    if (leasesWithChunks.length === 0) {
-      const response: PortfolioQuestionResponse = {
-        answer:
-          'No leases have analyzed documents yet. Please upload and process lease documents to enable portfolio-level Q&A.',
-        mode: 'no_documents',
-        scope: 'portfolio',
-        sourceChunks: [],
-      };
-      return NextResponse.json(response);
-    }
+    },
+    select: { id: true },
+  });
 
-    const leaseIds = leasesWithChunks.map((l) => l.id);
-
-    // Retrieve relevant chunks across all leases
-    const topChunks = await retrieveRelevantChunksForLeaseIds({
-      leaseIds,
-      query: question,
-      topK: 10,
-      maxChunksPerLease: 3,
-    });
-
-    if (topChunks.length === 0) {
-      const response: PortfolioQuestionResponse = {
-        answer:
-          'No relevant information found in the analyzed lease documents for your question.',
-        mode: 'no_documents',
-        scope: 'portfolio',
-        sourceChunks: [],
-      };
-      return NextResponse.json(response);
-    }
+  if (leasesWithChunks.length === 0) {
+    const response: PortfolioQuestionResponse = {
+      answer:
+        'No leases have analyzed documents yet. Please upload and process lease documents to enable portfolio-level Q&A.',
+      mode: 'no_documents',
+      scope: 'portfolio',
+      sourceChunks: [],
+    };
+    onToken?.(response.answer);
+    return response;
+  }
+
+  const leaseIds = leasesWithChunks.map((l) => l.id);
+
+  // Retrieve relevant chunks across all leases (a wider pool when re-ranking)
+  const candidateChunks = await retrieveRelevantChunksForLeaseIds({
+    leaseIds,
+    query: question,
+    topK: rerankMode === 'none' ? 10 : 25,
+    maxChunksPerLease: rerankMode === 'none' ? 3 : 6,
+  });
 
-    // Build context from chunks
-    const contextText = topChunks
-      .map(
-        (chunk, idx) =>
-          `[Context ${idx + 1}]\nTenant: ${chunk.tenantName}\nProperty: ${chunk.propertyName || 'N/A'}\nSnippet:\n"""${chunk.content}"""\n`
-      )
-      .join('\n');
+  const reranked = await rerank(question, candidateChunks, {
+    mode: rerankMode,
+    getText: (chunk) => chunk.content,
+    topK: 10,
+  });
+  const topChunks = reranked.map((r) => r.item);
 
-    // Build portfolio RAG prompt
-    const prompt = `You are a commercial real estate portfolio analyst.
+  if (topChunks.length === 0) {
+    const response: PortfolioQuestionResponse = {
+      answer:
+        'No relevant information found in the analyzed lease documents for your question.',
+      mode: 'no_documents',
+      scope: 'portfolio',
+      sourceChunks: [],
+    };
+    onToken?.(response.answer);
+    return response;
+  }
+
+  // Build context from chunks
+  const contextText = topChunks
+    .map(
+      (chunk, idx) =>
+        `[Context ${idx + 1}]\nTenant: ${chunk.tenantName}\nProperty: ${chunk.propertyName || 'N/A'}\nSnippet:\n"""${chunk.content}"""\n`
+    )
+    .join('\n');
+
+  // Build portfolio RAG prompt
+  const prompt = `You are a commercial real estate portfolio analyst.
 You are answering questions about a portfolio of leases.
 Use ONLY the provided lease metadata and context snippets.
 When describing results, name the tenant and property clearly.
@@ -92,33 +135,28 @@ INSTRUCTIONS:
 
 YOUR ANSWER:`;
 
-    // Call LLM
-    const answer = await callLLM(prompt);
-
-    const response: PortfolioQuestionResponse = {
-      answer,
-      mode: 'rag',
-      scope: 'portfolio',
-      sourceChunks: topChunks.map((c) => ({
-        leaseId: c.leaseId,
-        tenantName: c.tenantName,
-        propertyId: c.propertyId,
-        propertyName: c.propertyName,
-        chunkIndex: c.chunkIndex,
-        snippet: c.content.slice(0, 300),
-        similarity: Math.round(c.similarity * 100) / 100,
-      })),
-    };
-
-    return NextResponse.json(response);
-  } catch (error) {
-    console.error('Error processing portfolio question:', error);
-    return NextResponse.json(
-      {
-        error: 'Failed to process question',
-        details: (error as Error).message,
-      },
-      { status: 500 }
-    );
-  }
+  // Call LLM
+  const answer = await callLLM(prompt, { feature: 'PORTFOLIO_QA', onToken });
+
+  const response: PortfolioQuestionResponse = {
+    answer,
+    mode: 'rag',
+    scope: 'portfolio',
+    rerank: rerankMode,
+    sourceChunks: reranked.map(({ item: c, rerankScore }) => ({
+      leaseId: c.leaseId,
+      tenantName: c.tenantName,
+      propertyId: c.propertyId,
+      propertyName: c.propertyName,
+      documentId: c.documentId,
+      chunkIndex: c.chunkIndex,
+      startPage: c.startPage,
+      endPage: c.endPage,
+      snippet: c.content.slice(0, 300),
+      similarity: Math.round(c.similarity * 100) / 100,
+      rerankScore: rerankMode === 'none' ? undefined : rerankScore,
+    })),
+  };
+
+  return response;
 }
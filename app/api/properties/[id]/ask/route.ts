@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { retrieveRelevantChunksForProperty } from '@/lib/leaseIngestion';
 import { callLLM } from '@/lib/llm';
+import { createEventStream, wantsEventStream } from '@/lib/sse';
 import { PortfolioQuestionResponse } from '@/lib/types';
 
 export async function POST(
@@ -29,34 +30,68 @@ export async function POST(
       return NextResponse.json({ error: 'Property not found' }, { status: 404 });
     }
 
-    // Retrieve relevant chunks for this property
-    const topChunks = await retrieveRelevantChunksForProperty({
-      propertyId,
-      query: question,
-      topK: 10,
-      maxChunksPerLease: 3,
-    });
-
-    if (topChunks.length === 0) {
-      const response: PortfolioQuestionResponse = {
-        answer: `No analyzed lease documents are available for ${property.name} yet. Please upload and process lease documents to enable property-level Q&A.`,
-        mode: 'no_documents',
-        scope: 'property',
-        sourceChunks: [],
-      };
-      return NextResponse.json(response);
+    if (wantsEventStream(request, body)) {
+      return createEventStream(async (send) => {
+        const response = await answerPropertyQuestion(property, question, (text) =>
+          send('token', { text })
+        );
+        send('done', response);
+      });
     }
 
-    // Build context from chunks
-    const contextText = topChunks
-      .map(
-        (chunk, idx) =>
-          `[Context ${idx + 1}]\nTenant: ${chunk.tenantName}\nSnippet:\n"""${chunk.content}"""\n`
-      )
-      .join('\n');
+    return NextResponse.json(await answerPropertyQuestion(property, question));
+  } catch (error) {
+    console.error('Error processing property question:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to process question',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Answer a question across all leases in one property.
+ * Streams the answer text to onToken when given.
+ */
+async function answerPropertyQuestion(
+  property: { id: string; name: string; address: string },
+  question: string,
+  onToken?: (text: string) => void
+): Promise<PortfolioQuestionResponse> {
+  const propertyId = property.id;
+
+  // Retrieve relevant chunks for this property
+  const topChunks = await retrieveRelevantChunksForProperty({
+    propertyId,
+    query: question,
+    topK: 10,
+    maxChunksPerLease: 3,
+  });
+
+  if (topChunks.length === 0) {
+    const response: PortfolioQuestionResponse = {
+      answer: `No analyzed lease documents are available for ${property.name} yet. Please upload and process lease documents to enable property-level Q&A.`,
+      mode: 'no_documents',
+      scope: 'property',
+      sourceChunks: [],
+    };
+    onToken?.(response.answer);
+    return response;
+  }
+
+  // Build context from chunks
+  const contextText = topChunks
+    .map(
+      (chunk, idx) =>
+        `[Context ${idx + 1}]\nTenant: ${chunk.tenantName}\nSnippet:\n"""${chunk.content}"""\n`
+    )
+    .join('\n');
 
-    // Build property RAG prompt
-    const prompt = `You are a commercial real estate analyst.
+  // Build property RAG prompt
+  const prompt = `You are a commercial real estate analyst.
 You are answering questions about all leases in one property: "${property.name}" at "${property.address}".
 Use the provided snippets from multiple leases within this property.
 Clearly state which tenant(s) and suite(s) your answer refers to.
@@ -77,33 +112,26 @@ INSTRUCTIONS:
 
 YOUR ANSWER:`;
 
-    // Call LLM
-    const answer = await callLLM(prompt);
+  // Call LLM
+  const answer = await callLLM(prompt, { feature: 'PORTFOLIO_QA', onToken });
 
-    const response: PortfolioQuestionResponse = {
-      answer,
-      mode: 'rag',
-      scope: 'property',
-      sourceChunks: topChunks.map((c) => ({
-        leaseId: c.leaseId,
-        tenantName: c.tenantName,
-        propertyId: c.propertyId,
-        propertyName: c.propertyName,
-        chunkIndex: c.chunkIndex,
-        snippet: c.content.slice(0, 300),
-        similarity: Math.round(c.similarity * 100) / 100,
-      })),
-    };
+  const response: PortfolioQuestionResponse = {
+    answer,
+    mode: 'rag',
+    scope: 'property',
+    sourceChunks: topChunks.map((c) => ({
+      leaseId: c.leaseId,
+      tenantName: c.tenantName,
+      propertyId: c.propertyId,
+      propertyName: c.propertyName,
+      documentId: c.documentId,
+      chunkIndex: c.chunkIndex,
+      startPage: c.startPage,
+      endPage: c.endPage,
+      snippet: c.content.slice(0, 300),
+      similarity: Math.round(c.similarity * 100) / 100,
+    })),
+  };
 
-    return NextResponse.json(response);
-  } catch (error) {
-    console.error('Error processing property question:', error);
-    return NextResponse.json(
-      {
-        error: 'Failed to process question',
-        details: (error as Error).message,
-      },
-      { status: 500 }
-    );
-  }
+  return response;
 }
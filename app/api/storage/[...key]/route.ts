@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Readable } from 'stream';
+import { getStorageBackend } from '@/lib/storage';
+import { verifyLocalSignedUrl } from '@/lib/storage/local';
+
+/**
+ * Serve a file from the local storage backend through a signed URL
+ * (StorageBackend.getSignedUrl). S3 signed URLs point at the bucket instead.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { key: string[] } }
+) {
+  try {
+    const key = params.key.join('/');
+    const { searchParams } = new URL(request.url);
+
+    if (!verifyLocalSignedUrl(key, searchParams.get('expires'), searchParams.get('signature'))) {
+      return NextResponse.json(
+        { error: 'Invalid or expired link' },
+        { status: 403 }
+      );
+    }
+
+    const backend = getStorageBackend('local');
+    const info = await backend.stat(key);
+    if (!info) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      );
+    }
+
+    const stream = await backend.getStream(key);
+    return new NextResponse(Readable.toWeb(stream) as ReadableStream<Uint8Array>, {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': String(info.size),
+      },
+    });
+  } catch (error) {
+    console.error('Error serving stored file:', error);
+    return NextResponse.json(
+      { error: 'Failed to read file', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
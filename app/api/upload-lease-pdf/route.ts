@@ -2,6 +2,37 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { ingestLeaseDocument } from '@/lib/leaseIngestion';
 import { storeLeaseFile } from '@/lib/fileStorage';
+import { DuplicateDocument, findDuplicateDocument } from '@/lib/duplicateDocuments';
+
+// A file uploaded before is not ingested again. On another lease (or none),
+// the client is asked whether to attach it to this one instead
+// (POST /api/documents/[id]/link).
+async function duplicateResponse(existing: DuplicateDocument, leaseId: string) {
+  if (existing.leaseId !== leaseId) {
+    return NextResponse.json(
+      {
+        error: `This file was already uploaded as ${existing.fileName}`,
+        duplicate: true,
+        document: existing,
+      },
+      { status: 409 }
+    );
+  }
+
+  const chunksCreated = await prisma.documentChunk.count({
+    where: { documentId: existing.id },
+  });
+  return NextResponse.json({
+    success: true,
+    duplicate: true,
+    message: 'This file is already attached to this lease',
+    document: {
+      id: existing.id,
+      filename: existing.fileName,
+      chunksCreated,
+    },
+  });
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -28,8 +59,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const { existing } = await findDuplicateDocument(Buffer.from(await file.arrayBuffer()));
+    if (existing) {
+      return duplicateResponse(existing, leaseId);
+    }
+
     // Store the file using shared helper
-    const { filePath: filepath, fileName: filename } = await storeLeaseFile(
+    const { storageKey, fileName: filename, contentHash } = await storeLeaseFile(
       file,
       leaseId
     );
@@ -41,8 +77,9 @@ export async function POST(request: NextRequest) {
       console.log(`Starting ingestion for lease ${leaseId}`);
       ingestionResult = await ingestLeaseDocument({
         leaseId,
-        filePath: filepath,
+        storageKey,
         fileName: filename,
+        contentHash,
       });
       console.log(
         `Ingestion completed for lease ${leaseId}: ${ingestionResult.chunksCreated} chunks created`
@@ -57,6 +94,11 @@ export async function POST(request: NextRequest) {
       };
     }
 
+    // A concurrent upload of the same file won; ingestion removed this copy
+    if (ingestionResult.duplicateOf) {
+      return duplicateResponse(ingestionResult.duplicateOf, leaseId);
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Lease PDF uploaded successfully',
@@ -2,16 +2,24 @@ import Link from 'next/link';
 import { notFound } from 'next/navigation';
 import { prisma } from '@/lib/prisma';
 import DocumentActions from '@/components/documents/DocumentActions';
+import DocumentJobStatus from '@/components/documents/DocumentJobStatus';
 import InvoiceSummary from '@/components/documents/InvoiceSummary';
 import WorkOrderSummary from '@/components/documents/WorkOrderSummary';
+import DocumentViewer from '@/components/documents/DocumentViewer';
+import { documentPageHref, findQuoteSpan, formatPageSpan } from '@/lib/pageText';
 
 interface PageProps {
   params: {
     id: string;
   };
+  searchParams: {
+    page?: string; // Cited page to jump to
+    chunk?: string; // Cited chunk index
+    quote?: string; // Cited clause or snippet, highlighted in the chunk
+  };
 }
 
-export default async function DocumentDetailPage({ params }: PageProps) {
+export default async function DocumentDetailPage({ params, searchParams }: PageProps) {
   const document = await prisma.document.findUnique({
     where: { id: params.id },
     include: {
@@ -27,11 +35,54 @@ export default async function DocumentDetailPage({ params }: PageProps) {
           name: true,
         },
       },
+      parentDocument: {
+        select: {
+          id: true,
+          fileName: true,
+        },
+      },
+      supersedes: {
+        select: {
+          id: true,
+          fileName: true,
+        },
+      },
+      supersededBy: {
+        select: {
+          id: true,
+          fileName: true,
+        },
+      },
+      attachments: {
+        select: {
+          id: true,
+          fileName: true,
+          type: true,
+          status: true,
+        },
+        orderBy: {
+          uploadedAt: 'asc',
+        },
+      },
+      jobs: {
+        where: { status: 'FAILED' },
+        select: {
+          type: true,
+          lastError: true,
+        },
+        orderBy: {
+          completedAt: 'desc',
+        },
+        take: 1,
+      },
       chunks: {
         select: {
           id: true,
           chunkIndex: true,
           content: true,
+          metadata: true,
+          startPage: true,
+          endPage: true,
         },
         orderBy: {
           chunkIndex: 'asc',
@@ -62,6 +113,58 @@ export default async function DocumentDetailPage({ params }: PageProps) {
     }
   }
 
+  // OCR confidence per chunk (lowest of the pages it spans), when the text came from OCR
+  const chunkOcrConfidence = new Map<string, number>();
+  for (const chunk of document.chunks) {
+    if (!chunk.metadata) continue;
+    try {
+      const metadata = JSON.parse(chunk.metadata);
+      if (metadata.ocr && typeof metadata.ocrConfidence === 'number') {
+        chunkOcrConfidence.set(chunk.id, metadata.ocrConfidence);
+      }
+    } catch (error) {
+      console.error('Error parsing chunk metadata:', error);
+    }
+  }
+
+  // Chunks covering the cited page (?page=N). The cited chunk is scrolled to:
+  // the one named by ?chunk=N, else the one containing ?quote=, else the
+  // first on the page.
+  const citedPage = searchParams.page ? parseInt(searchParams.page, 10) : null;
+  const citedChunkIndex = searchParams.chunk ? parseInt(searchParams.chunk, 10) : null;
+  const quote = searchParams.quote || null;
+  const coversCitedPage = (chunk: { startPage: number | null; endPage: number | null }) =>
+    citedPage !== null &&
+    chunk.startPage !== null &&
+    chunk.startPage <= citedPage &&
+    (chunk.endPage ?? chunk.startPage) >= citedPage;
+  const citedChunk =
+    document.chunks.find((chunk) => chunk.chunkIndex === citedChunkIndex) ||
+    (quote
+      ? document.chunks.find((chunk) => coversCitedPage(chunk) && findQuoteSpan(chunk.content, quote)) ||
+        document.chunks.find((chunk) => findQuoteSpan(chunk.content, quote))
+      : undefined) ||
+    document.chunks.find(coversCitedPage);
+  const citedChunkId = citedChunk?.id;
+  const pageNumbers = Array.from(
+    new Set(
+      document.chunks.flatMap((chunk) =>
+        chunk.startPage === null
+          ? []
+          : Array.from(
+              { length: (chunk.endPage ?? chunk.startPage) - chunk.startPage + 1 },
+              (_, i) => chunk.startPage! + i
+            )
+      )
+    )
+  ).sort((a, b) => a - b);
+
+  const getConfidenceColor = (confidence: number) => {
+    if (confidence >= 0.85) return 'bg-green-100 text-green-800 border-green-200';
+    if (confidence >= 0.6) return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    return 'bg-red-100 text-red-800 border-red-200';
+  };
+
   const formatDate = (date: Date) => {
     return date.toLocaleDateString('en-US', {
       year: 'numeric',
@@ -86,6 +189,7 @@ export default async function DocumentDetailPage({ params }: PageProps) {
     const colors = {
       LEASE: 'bg-purple-100 text-purple-800 border-purple-200',
       AMENDMENT: 'bg-indigo-100 text-indigo-800 border-indigo-200',
+      ASSIGNMENT: 'bg-fuchsia-100 text-fuchsia-800 border-fuchsia-200',
       COI: 'bg-orange-100 text-orange-800 border-orange-200',
       INVOICE: 'bg-pink-100 text-pink-800 border-pink-200',
       EMAIL: 'bg-cyan-100 text-cyan-800 border-cyan-200',
@@ -119,6 +223,15 @@ export default async function DocumentDetailPage({ params }: PageProps) {
           </div>
         </div>
 
+        {/* Background jobs in progress, and why the last one failed */}
+        <DocumentJobStatus documentId={document.id} />
+        {document.status === 'FAILED' && document.jobs[0] && (
+          <div className="mb-6 p-4 rounded-lg border bg-red-50 border-red-200 text-red-800 text-sm">
+            <span className="font-medium">{document.jobs[0].type}</span> failed:{' '}
+            {document.jobs[0].lastError || 'Unknown error'}
+          </div>
+        )}
+
         {/* Document Actions */}
         <DocumentActions documentId={document.id} type={document.type} />
 
@@ -127,7 +240,7 @@ export default async function DocumentDetailPage({ params }: PageProps) {
           <div className="flex justify-between items-start mb-6">
             <div className="flex-1">
               <h2 className="text-2xl font-semibold mb-2">{document.fileName}</h2>
-              <p className="text-sm text-gray-600">{document.filePath}</p>
+              <p className="text-sm text-gray-600">{document.storageKey}</p>
             </div>
             <div className="flex gap-2">
               <span
@@ -144,6 +257,16 @@ export default async function DocumentDetailPage({ params }: PageProps) {
               >
                 {document.status}
               </span>
+              {document.extractionMethod === 'OCR' && (
+                <span
+                  className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium border bg-amber-100 text-amber-800 border-amber-200"
+                  title="Scanned document: text was recovered with OCR and may contain recognition errors"
+                >
+                  OCR&apos;d
+                  {document.ocrConfidence !== null &&
+                    ` · ${Math.round(document.ocrConfidence * 100)}%`}
+                </span>
+              )}
             </div>
           </div>
 
@@ -182,9 +305,95 @@ export default async function DocumentDetailPage({ params }: PageProps) {
                 <p className="font-medium text-gray-400">Not linked</p>
               )}
             </div>
+            {document.effectiveDate && (
+              <div>
+                <p className="text-sm text-gray-600">Effective Date</p>
+                <p className="font-medium">{document.effectiveDate.toISOString().split('T')[0]}</p>
+              </div>
+            )}
+            {document.supersedes && (
+              <div>
+                <p className="text-sm text-gray-600">Supersedes</p>
+                <Link
+                  href={`/documents/${document.supersedes.id}`}
+                  className="font-medium text-blue-600 hover:text-blue-800 hover:underline"
+                >
+                  {document.supersedes.fileName}
+                </Link>
+              </div>
+            )}
+            {document.supersededBy.length > 0 && (
+              <div>
+                <p className="text-sm text-gray-600">Superseded By</p>
+                <Link
+                  href={`/documents/${document.supersededBy[0].id}`}
+                  className="font-medium text-blue-600 hover:text-blue-800 hover:underline"
+                >
+                  {document.supersededBy[0].fileName}
+                </Link>
+              </div>
+            )}
+            {document.parentDocument && (
+              <div>
+                <p className="text-sm text-gray-600">Attached To</p>
+                <Link
+                  href={`/documents/${document.parentDocument.id}`}
+                  className="font-medium text-blue-600 hover:text-blue-800 hover:underline"
+                >
+                  {document.parentDocument.fileName}
+                </Link>
+              </div>
+            )}
           </div>
         </div>
 
+        {/* Original file, opened at the citation */}
+        <DocumentViewer
+          documentId={document.id}
+          fileName={document.fileName}
+          mimeType={document.mimeType}
+          page={citedPage ?? citedChunk?.startPage}
+          quote={quote}
+          citedChunk={citedChunk}
+        />
+
+        {/* Attachments (email attachments stored as child documents) */}
+        {document.attachments.length > 0 && (
+          <div className="bg-white border border-gray-200 rounded-lg p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-4">
+              Attachments ({document.attachments.length})
+            </h2>
+            <ul className="divide-y divide-gray-100">
+              {document.attachments.map((attachment) => (
+                <li key={attachment.id} className="flex items-center justify-between py-2">
+                  <Link
+                    href={`/documents/${attachment.id}`}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-800 hover:underline"
+                  >
+                    {attachment.fileName}
+                  </Link>
+                  <div className="flex gap-2">
+                    <span
+                      className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border ${getTypeColor(
+                        attachment.type
+                      )}`}
+                    >
+                      {attachment.type}
+                    </span>
+                    <span
+                      className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(
+                        attachment.status
+                      )}`}
+                    >
+                      {attachment.status}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Invoice Summary - Human-Readable View */}
         {document.type === 'INVOICE' && invoiceData && (
           <InvoiceSummary invoice={invoiceData} />
@@ -214,16 +423,61 @@ export default async function DocumentDetailPage({ params }: PageProps) {
             <p className="text-sm text-gray-600 mb-4">
               This document has been analyzed and split into chunks for semantic search.
             </p>
+            {citedPage !== null && !citedChunkId && (
+              <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-3 mb-4">
+                No chunk covers page {citedPage}. Re-ingest the document to record page numbers.
+              </p>
+            )}
+            {pageNumbers.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1 mb-4">
+                <span className="text-xs text-gray-500 mr-1">Jump to page:</span>
+                {pageNumbers.map((page) => (
+                  <Link
+                    key={page}
+                    href={documentPageHref(document.id, page)}
+                    className={`text-xs px-2 py-0.5 rounded border ${
+                      page === citedPage
+                        ? 'bg-blue-600 text-white border-blue-600'
+                        : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    {page}
+                  </Link>
+                ))}
+              </div>
+            )}
             <div className="space-y-4">
               {document.chunks.map((chunk) => (
                 <div
                   key={chunk.id}
-                  className="bg-gray-50 border border-gray-200 rounded-lg p-4"
+                  className={`border rounded-lg p-4 scroll-mt-8 ${
+                    chunk.id === citedChunkId
+                      ? 'bg-yellow-50 border-yellow-400 ring-2 ring-yellow-300'
+                      : coversCitedPage(chunk)
+                      ? 'bg-yellow-50 border-yellow-300 ring-2 ring-yellow-200'
+                      : 'bg-gray-50 border-gray-200'
+                  }`}
                 >
                   <div className="flex items-center justify-between mb-2">
-                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                      Chunk {chunk.chunkIndex}
-                    </span>
+                    <div className="flex items-center gap-2">
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                        Chunk {chunk.chunkIndex}
+                      </span>
+                      {chunk.startPage !== null && (
+                        <span className="text-xs text-gray-600">
+                          {formatPageSpan(chunk.startPage, chunk.endPage)}
+                        </span>
+                      )}
+                      {chunkOcrConfidence.has(chunk.id) && (
+                        <span
+                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getConfidenceColor(
+                            chunkOcrConfidence.get(chunk.id)!
+                          )}`}
+                        >
+                          OCR {Math.round(chunkOcrConfidence.get(chunk.id)! * 100)}%
+                        </span>
+                      )}
+                    </div>
                     <span className="text-xs text-gray-500">
                       ID: {chunk.id}
                     </span>
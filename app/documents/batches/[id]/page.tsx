@@ -0,0 +1,76 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { prisma } from '@/lib/prisma';
+import { loadUploadBatch } from '@/lib/uploadBatches';
+import BulkReviewGrid from '@/components/documents/BulkReviewGrid';
+
+interface PageProps {
+  params: {
+    id: string;
+  };
+}
+
+export default async function UploadBatchPage({ params }: PageProps) {
+  const batch = await loadUploadBatch(params.id);
+
+  if (!batch) {
+    notFound();
+  }
+
+  const [properties, leases] = await Promise.all([
+    prisma.property.findMany({
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.lease.findMany({
+      select: { id: true, propertyId: true, tenantName: true, suite: true },
+      orderBy: { tenantName: 'asc' },
+    }),
+  ]);
+
+  return (
+    <main className="min-h-screen p-8 bg-gray-50">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Review Upload</h1>
+            <p className="text-gray-600 mt-1">
+              {batch.name || batch.id}
+              {batch.committedAt &&
+                ` · Linked ${new Date(batch.committedAt).toLocaleDateString('en-US', {
+                  year: 'numeric',
+                  month: 'short',
+                  day: 'numeric',
+                })}`}
+            </p>
+          </div>
+          <div className="space-x-2">
+            <Link
+              href="/documents/bulk"
+              className="inline-block bg-gray-600 text-white px-4 py-2 rounded hover:bg-gray-700 transition-colors"
+            >
+              Bulk Upload
+            </Link>
+            <Link
+              href="/documents"
+              className="inline-block bg-gray-600 text-white px-4 py-2 rounded hover:bg-gray-700 transition-colors"
+            >
+              Document Inbox
+            </Link>
+          </div>
+        </div>
+
+        {batch.status !== 'COMMITTED' && (
+          <p className="mb-4 text-sm text-gray-600">
+            Check the proposed property and lease for each file, then link the selected
+            documents. Unchecked files stay unlinked; those with a proposed match wait
+            in the &ldquo;needs linking&rdquo; inbox.
+          </p>
+        )}
+
+        <BulkReviewGrid batch={batch} properties={properties} leases={leases} />
+      </div>
+    </main>
+  );
+}
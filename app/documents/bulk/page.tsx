@@ -0,0 +1,78 @@
+import Link from 'next/link';
+import { prisma } from '@/lib/prisma';
+import BulkUpload from '@/components/documents/BulkUpload';
+
+export const dynamic = 'force-dynamic';
+
+export default async function BulkUploadPage() {
+  const batches = await prisma.uploadBatch.findMany({
+    orderBy: { createdAt: 'desc' },
+    take: 20,
+    include: {
+      _count: { select: { documents: true } },
+    },
+  });
+
+  const formatDate = (date: Date) =>
+    date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+  return (
+    <main className="min-h-screen p-8 bg-gray-50">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Bulk Upload</h1>
+            <p className="text-gray-600 mt-1">
+              Onboard a document set and review proposed property and lease links
+            </p>
+          </div>
+          <Link
+            href="/documents"
+            className="inline-block bg-gray-600 text-white px-4 py-2 rounded hover:bg-gray-700 transition-colors"
+          >
+            Document Inbox
+          </Link>
+        </div>
+
+        <BulkUpload />
+
+        {/* Recent batches */}
+        <div className="bg-white border border-gray-200 rounded-lg p-6">
+          <h2 className="text-xl font-semibold mb-4">Recent Uploads</h2>
+          {batches.length === 0 ? (
+            <p className="text-sm text-gray-600">No bulk uploads yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {batches.map((batch) => (
+                <li key={batch.id} className="py-3 flex justify-between items-center">
+                  <div>
+                    <Link
+                      href={`/documents/batches/${batch.id}`}
+                      className="text-blue-600 hover:text-blue-800 hover:underline font-medium"
+                    >
+                      {batch.name || batch.id}
+                    </Link>
+                    <p className="text-sm text-gray-500">
+                      {batch._count.documents} document{batch._count.documents !== 1 ? 's' : ''} ·{' '}
+                      {formatDate(batch.createdAt)}
+                    </p>
+                  </div>
+                  <span
+                    className={`px-2 py-1 text-xs font-medium rounded-full border ${
+                      batch.status === 'COMMITTED'
+                        ? 'bg-green-100 text-green-800 border-green-200'
+                        : 'bg-yellow-100 text-yellow-800 border-yellow-200'
+                    }`}
+                  >
+                    {batch.status === 'COMMITTED' ? 'Linked' : 'Needs review'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
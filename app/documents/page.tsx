@@ -3,6 +3,9 @@ import { prisma } from '@/lib/prisma';
 import DocumentTable from '@/components/documents/DocumentTable';
 import DocumentFilters from '@/components/documents/DocumentFilters';
 import DocumentUpload from '@/components/documents/DocumentUpload';
+import NeedsLinkingInbox from '@/components/documents/NeedsLinkingInbox';
+
+const NEEDS_LINKING_LIMIT = 25;
 
 interface SearchParams {
   type?: string;
@@ -59,6 +62,7 @@ export default async function DocumentsPage({ searchParams }: PageProps) {
       uploadedAt: true,
       leaseId: true,
       propertyId: true,
+      linkStatus: true,
     },
     orderBy: {
       uploadedAt: 'desc',
@@ -67,6 +71,41 @@ export default async function DocumentsPage({ searchParams }: PageProps) {
     take: pageSize,
   });
 
+  // Ambiguous or low-confidence matches (bulk uploads once their batch is reviewed)
+  const needsLinkingWhere = {
+    linkStatus: 'NEEDS_LINKING',
+    leaseId: null,
+    OR: [{ uploadBatchId: null }, { uploadBatch: { status: 'COMMITTED' } }],
+  };
+  const [needsLinkingTotal, needsLinking] = await Promise.all([
+    prisma.document.count({ where: needsLinkingWhere }),
+    prisma.document.findMany({
+      where: needsLinkingWhere,
+      select: {
+        id: true,
+        fileName: true,
+        type: true,
+        propertyId: true,
+        proposedPropertyId: true,
+        proposedLeaseId: true,
+        linkConfidence: true,
+        linkReason: true,
+      },
+      orderBy: { uploadedAt: 'desc' },
+      take: NEEDS_LINKING_LIMIT,
+    }),
+  ]);
+  const [linkProperties, linkLeases] =
+    needsLinking.length > 0
+      ? await Promise.all([
+          prisma.property.findMany({ select: { id: true, name: true }, orderBy: { name: 'asc' } }),
+          prisma.lease.findMany({
+            select: { id: true, propertyId: true, tenantName: true, suite: true },
+            orderBy: { tenantName: 'asc' },
+          }),
+        ])
+      : [[], []];
+
   // Format for component
   const formattedDocuments = documents.map((doc) => ({
     id: doc.id,
@@ -75,6 +114,7 @@ export default async function DocumentsPage({ searchParams }: PageProps) {
     status: doc.status,
     leaseId: doc.leaseId,
     propertyId: doc.propertyId,
+    linkStatus: doc.linkStatus,
     uploadedAt: doc.uploadedAt.toISOString(),
   }));
 
@@ -90,6 +130,12 @@ export default async function DocumentsPage({ searchParams }: PageProps) {
             </p>
           </div>
           <div className="space-x-2">
+            <Link
+              href="/documents/bulk"
+              className="inline-block bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 transition-colors"
+            >
+              Bulk Upload
+            </Link>
             <Link
               href="/dashboard"
               className="inline-block bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 transition-colors"
@@ -114,6 +160,14 @@ export default async function DocumentsPage({ searchParams }: PageProps) {
         {/* Upload Section */}
         <DocumentUpload />
 
+        {/* Needs Linking */}
+        <NeedsLinkingInbox
+          documents={needsLinking}
+          total={needsLinkingTotal}
+          properties={linkProperties}
+          leases={linkLeases}
+        />
+
         {/* Filters */}
         <DocumentFilters />
 
@@ -1,5 +1,6 @@
 import { notFound } from 'next/navigation';
 import { prisma } from '@/lib/prisma';
+import { loadEffectiveLeaseTerms } from '@/lib/leaseDocumentChain';
 
 interface PageProps {
   params: {
@@ -16,46 +17,26 @@ interface CriticalDate {
 export default async function LeaseCriticalDatesPage({ params }: PageProps) {
   const lease = await prisma.lease.findUnique({
     where: { id: params.id },
-    include: {
-      documents: {
-        where: {
-          type: 'LEASE',
-          status: 'EXTRACTED',
-        },
-        orderBy: {
-          uploadedAt: 'desc',
-        },
-        take: 1,
-      },
-    },
   });
 
   if (!lease) {
     notFound();
   }
 
-  // Extract critical dates from document extractedData
-  let criticalDates: CriticalDate[] = [];
-  if (lease.documents.length > 0 && lease.documents[0].extractedData) {
-    try {
-      const extractedData = JSON.parse(lease.documents[0].extractedData);
-      if (extractedData.criticalDates && Array.isArray(extractedData.criticalDates)) {
-        criticalDates = extractedData.criticalDates;
-      }
-    } catch (error) {
-      console.error('Error parsing extractedData:', error);
-    }
-  }
+  // Critical dates from the lease's current effective terms (amendments included)
+  const { terms } = await loadEffectiveLeaseTerms(lease.id);
+  const criticalDates: CriticalDate[] = Array.isArray(terms.criticalDates) ? [...terms.criticalDates] : [];
 
   // Also add lease expiration if available
-  if (lease.leaseEnd) {
+  const leaseEnd = terms.endDate || lease.leaseEnd?.toISOString().split('T')[0];
+  if (leaseEnd) {
     const hasExpiration = criticalDates.some(
       (d) => d.type === 'LEASE_EXPIRATION'
     );
     if (!hasExpiration) {
       criticalDates.push({
         type: 'LEASE_EXPIRATION',
-        date: lease.leaseEnd.toISOString().split('T')[0],
+        date: leaseEnd,
         description: 'Lease expiration date',
       });
     }
@@ -54,6 +54,7 @@ export default async function LeaseDocumentsPage({ params }: PageProps) {
     const colors = {
       LEASE: 'bg-purple-100 text-purple-800 border-purple-200',
       AMENDMENT: 'bg-indigo-100 text-indigo-800 border-indigo-200',
+      ASSIGNMENT: 'bg-fuchsia-100 text-fuchsia-800 border-fuchsia-200',
       COI: 'bg-orange-100 text-orange-800 border-orange-200',
       INVOICE: 'bg-pink-100 text-pink-800 border-pink-200',
       EMAIL: 'bg-cyan-100 text-cyan-800 border-cyan-200',
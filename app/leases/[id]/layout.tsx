@@ -48,7 +48,7 @@ export default async function LeaseLayout({ children, params }: LayoutProps) {
               {lease.suite || 'No suite'}
             </p>
           </div>
-          <div className="space-x-2">
+          <div className="space-x-2 print:hidden">
             <Link
               href="/dashboard"
               className="inline-block bg-gray-900 text-white px-4 py-2 rounded-lg hover:bg-gray-800 transition-colors text-sm font-medium"
@@ -59,7 +59,7 @@ export default async function LeaseLayout({ children, params }: LayoutProps) {
         </div>
 
         {/* Tab Navigation */}
-        <div className="bg-white border-b border-gray-200 rounded-t-lg">
+        <div className="bg-white border-b border-gray-200 rounded-t-lg print:hidden">
           <nav className="flex gap-8 px-6">
             <TabLink href={`${currentPath}/overview`} label="Overview" />
             <TabLink href={`${currentPath}/documents`} label="Documents" />
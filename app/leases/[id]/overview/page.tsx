@@ -2,8 +2,14 @@ import Link from 'next/link';
 import { notFound } from 'next/navigation';
 import { prisma } from '@/lib/prisma';
 import { computeLeaseRisk } from '@/lib/leaseRisk';
+import { loadEffectiveLeaseTerms, TermProvenance } from '@/lib/leaseDocumentChain';
+import type { ExpansionRightType } from '@/lib/leaseExtraction';
+import { documentPageHref } from '@/lib/pageText';
 import LeaseOverviewActions from '@/components/leases/LeaseOverviewActions';
 import LeaseClauseQA from '@/components/leases/LeaseClauseQA';
+import RentScheduleTable from '@/components/leases/RentScheduleTable';
+import CpiEscalationForm from '@/components/leases/CpiEscalationForm';
+import { contractualMonthlyRent } from '@/lib/rentSchedule';
 
 interface PageProps {
   params: {
@@ -16,16 +22,8 @@ export default async function LeaseOverviewPage({ params }: PageProps) {
     where: { id: params.id },
     include: {
       property: true,
-      documents: {
-        where: {
-          type: { in: ['LEASE', 'AMENDMENT'] },
-          status: 'EXTRACTED',
-        },
-        orderBy: {
-          uploadedAt: 'desc',
-        },
-        take: 1,
-      },
+      rentSteps: { orderBy: { effectiveDate: 'asc' } },
+      cpiEscalation: true,
     },
   });
 
@@ -33,15 +31,9 @@ export default async function LeaseOverviewPage({ params }: PageProps) {
     notFound();
   }
 
-  // Get extracted data from most recent document
-  let extractedData: any = null;
-  if (lease.documents.length > 0 && lease.documents[0].extractedData) {
-    try {
-      extractedData = JSON.parse(lease.documents[0].extractedData);
-    } catch (error) {
-      console.error('Error parsing extractedData:', error);
-    }
-  }
+  // Current effective terms: later amendments and assignments override the original
+  const { terms, provenance, chain } = await loadEffectiveLeaseTerms(lease.id);
+  const hasExtractedTerms = chain.some((entry) => entry.extracted);
 
   // Compute risk score if lease has an end date
   let riskScore: number | undefined;
@@ -59,7 +51,7 @@ export default async function LeaseOverviewPage({ params }: PageProps) {
 
     const risk = computeLeaseRisk({
       leaseEnd: new Date(lease.leaseEnd),
-      hasDocument: lease.documents.length > 0,
+      hasDocument: hasExtractedTerms,
       squareFeet: lease.squareFeet || 0,
       portfolioAvgSquareFeet,
     });
@@ -73,11 +65,22 @@ export default async function LeaseOverviewPage({ params }: PageProps) {
     where: { leaseId: lease.id },
   });
 
+  // Extracted changes to the lease record waiting for an analyst
+  const pendingReviews = await prisma.leaseChangeSet.count({
+    where: { leaseId: lease.id, status: 'PENDING' },
+  });
+
   // Helper function to get value from lease or extracted data
   const getValue = (leaseField: any, extractedField?: any) => {
     return leaseField || extractedField || null;
   };
 
+  // Effective terms win over the lease record, which may predate an amendment
+  const baseRent = terms.baseRent ?? lease.baseRent;
+  const leaseStart = terms.startDate || lease.leaseStart?.toISOString().split('T')[0] || null;
+  const leaseEnd = terms.endDate || lease.leaseEnd?.toISOString().split('T')[0] || null;
+  const currentRent = contractualMonthlyRent(lease);
+
   return (
     <div className="p-6">
       {/* Lease Overview Card */}
@@ -98,19 +101,35 @@ export default async function LeaseOverviewPage({ params }: PageProps) {
           />
         </div>
 
+        {pendingReviews > 0 && (
+          <div className="mb-6 p-3 rounded-lg bg-yellow-50 border border-yellow-300 text-sm text-yellow-900 print:hidden">
+            Extraction proposed changes to this lease record that have not been reviewed yet.{' '}
+            <Link
+              href={`/leases/reviews?leaseId=${lease.id}`}
+              className="font-medium text-blue-700 hover:underline"
+            >
+              Review changes
+            </Link>
+          </div>
+        )}
+
         {/* Basic Information */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-6">
           <InfoCardLink
             label="Tenant Name"
-            value={getValue(lease.tenantName, extractedData?.tenantName)}
+            value={getValue(lease.tenantName, terms.tenantName)}
             href={`/tenants/${encodeURIComponent(lease.tenantName)}`}
           />
           <InfoCardLink
             label="Property"
-            value={getValue(lease.property.name, extractedData?.propertyName)}
+            value={getValue(lease.property.name, terms.propertyName)}
             href={`/properties/${lease.property.id}`}
           />
-          <InfoCard label="Suite" value={getValue(lease.suite, extractedData?.suite)} />
+          <InfoCard
+            label="Suite"
+            value={getValue(terms.suite, lease.suite)}
+            source={terms.suite ? provenance.suite : undefined}
+          />
 
           <InfoCard
             label="Square Feet"
@@ -118,46 +137,43 @@ export default async function LeaseOverviewPage({ params }: PageProps) {
           />
           <InfoCard
             label="Base Rent"
-            value={
-              getValue(lease.baseRent, extractedData?.baseRent)
-                ? `$${getValue(lease.baseRent, extractedData?.baseRent).toLocaleString()}/month`
-                : null
-            }
+            value={baseRent ? `$${baseRent.toLocaleString()}/month` : null}
             highlight="text-green-700"
+            source={terms.baseRent !== undefined ? provenance.baseRent : undefined}
           />
           <InfoCard
             label="Rent Currency"
-            value={extractedData?.rentCurrency || 'USD'}
+            value={terms.rentCurrency || 'USD'}
+            source={provenance.rentCurrency}
           />
+          {lease.rentSteps.length > 0 && (
+            <InfoCard
+              label="Current Contractual Rent"
+              value={currentRent !== null ? `$${currentRent.toLocaleString()}/month` : null}
+              highlight="text-green-700"
+            />
+          )}
         </div>
 
         {/* Lease Dates */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
           <InfoCard
             label="Lease Start"
-            value={
-              getValue(
-                lease.leaseStart?.toISOString().split('T')[0],
-                extractedData?.startDate
-              )
-            }
+            value={leaseStart}
+            source={terms.startDate ? provenance.startDate : undefined}
           />
           <InfoCard
             label="Lease End"
-            value={
-              getValue(
-                lease.leaseEnd?.toISOString().split('T')[0],
-                extractedData?.endDate
-              )
-            }
+            value={leaseEnd}
+            source={terms.endDate ? provenance.endDate : undefined}
           />
           <InfoCard
             label="Lease Term"
             value={
-              lease.leaseStart && lease.leaseEnd
+              leaseStart && leaseEnd
                 ? `${Math.round(
-                    (new Date(lease.leaseEnd).getTime() -
-                      new Date(lease.leaseStart).getTime()) /
+                    (new Date(leaseEnd).getTime() -
+                      new Date(leaseStart).getTime()) /
                       (1000 * 60 * 60 * 24 * 365.25)
                   )} years`
                 : null
@@ -166,7 +182,7 @@ export default async function LeaseOverviewPage({ params }: PageProps) {
         </div>
 
         {/* Financial Terms */}
-        {extractedData && (
+        {hasExtractedTerms && (
           <div className="mb-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">
               Financial Terms
@@ -174,38 +190,81 @@ export default async function LeaseOverviewPage({ params }: PageProps) {
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <InfoCard
                 label="Escalation Type"
-                value={extractedData?.escalationType}
+                value={terms.escalationType || null}
+                source={provenance.escalationType}
               />
               <InfoCard
                 label="Escalation Rate"
                 value={
-                  extractedData?.escalationRate
-                    ? `${extractedData.escalationRate}%`
+                  terms.escalationRate
+                    ? `${terms.escalationRate}%`
                     : null
                 }
+                source={provenance.escalationRate}
+              />
+              <InfoCard
+                label="CAM Type"
+                value={terms.camType || null}
+                source={provenance.camType}
               />
-              <InfoCard label="CAM Type" value={extractedData?.camType} />
             </div>
-            {extractedData?.camCap && (
+            {terms.camCap && (
               <div className="mt-4">
                 <InfoCard
                   label="CAM Cap"
-                  value={`${extractedData.camCap}%`}
+                  value={`${terms.camCap}%`}
+                  source={provenance.camCap}
                 />
               </div>
             )}
           </div>
         )}
 
+        {/* Rent Schedule: extracted and manual rent steps */}
+        <div className="mb-6 break-inside-avoid">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Rent Schedule</h3>
+          <RentScheduleTable
+            leaseId={lease.id}
+            steps={lease.rentSteps.map((step) => ({
+              id: step.id,
+              effectiveDate: step.effectiveDate.toISOString().split('T')[0],
+              monthlyRent: step.monthlyRent,
+              annualRent: step.annualRent,
+              ratePerSquareFoot: step.ratePerSquareFoot,
+              stepType: step.stepType,
+              escalationPercent: step.escalationPercent,
+              source: step.source,
+              note: step.note,
+            }))}
+          />
+          <div className="mt-4">
+            <CpiEscalationForm
+              leaseId={lease.id}
+              terms={
+                lease.cpiEscalation && {
+                  series: lease.cpiEscalation.series,
+                  floorPercent: lease.cpiEscalation.floorPercent,
+                  capPercent: lease.cpiEscalation.capPercent,
+                  lookbackMonths: lease.cpiEscalation.lookbackMonths,
+                  noticeDays: lease.cpiEscalation.noticeDays,
+                }
+              }
+            />
+          </div>
+        </div>
+
         {/* Renewal Options */}
-        {extractedData?.renewalOptions &&
-          extractedData.renewalOptions.length > 0 && (
+        {terms.renewalOptions &&
+          terms.renewalOptions.length > 0 && (
             <div className="mb-6">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">
                 Renewal Options
               </h3>
+              <div className="mb-4">
+                <SourceNote source={provenance.renewalOptions} />
+              </div>
               <div className="space-y-3">
-                {extractedData.renewalOptions.map((option: any, idx: number) => (
+                {terms.renewalOptions.map((option, idx) => (
                   <div
                     key={idx}
                     className="bg-blue-50 border border-blue-200 rounded-lg p-4"
@@ -232,6 +291,174 @@ export default async function LeaseOverviewPage({ params }: PageProps) {
             </div>
           )}
 
+        {/* Lease Abstract: deposit, concessions, rights and restrictions */}
+        {(terms.securityDeposit || terms.guarantor) && (
+          <AbstractSection title="Security & Credit">
+            {terms.securityDeposit && (
+              <InfoCard
+                label="Security Deposit"
+                value={joinParts(
+                  formatMoney(terms.securityDeposit.amount),
+                  terms.securityDeposit.form,
+                  terms.securityDeposit.burnDown
+                )}
+                source={provenance.securityDeposit}
+              />
+            )}
+            {terms.guarantor && (
+              <InfoCard
+                label="Guarantor"
+                value={joinParts(
+                  terms.guarantor.name,
+                  terms.guarantor.type,
+                  terms.guarantor.capAmount !== undefined && `capped at ${formatMoney(terms.guarantor.capAmount)}`,
+                  terms.guarantor.terms
+                )}
+                source={provenance.guarantor}
+              />
+            )}
+          </AbstractSection>
+        )}
+
+        {(terms.freeRent || terms.tiAllowance) && (
+          <AbstractSection title="Concessions">
+            {terms.freeRent && (
+              <InfoCard
+                label="Free Rent"
+                value={joinParts(
+                  terms.freeRent.months !== undefined && `${terms.freeRent.months} months`,
+                  terms.freeRent.description
+                )}
+                source={provenance.freeRent}
+              />
+            )}
+            {terms.tiAllowance && (
+              <InfoCard
+                label="TI Allowance"
+                value={joinParts(
+                  formatMoney(terms.tiAllowance.amount),
+                  terms.tiAllowance.perSquareFoot !== undefined && `${formatMoney(terms.tiAllowance.perSquareFoot)}/SF`,
+                  terms.tiAllowance.deadline && `claim by ${terms.tiAllowance.deadline}`,
+                  terms.tiAllowance.description
+                )}
+                source={provenance.tiAllowance}
+              />
+            )}
+          </AbstractSection>
+        )}
+
+        {terms.percentageRent && (
+          <AbstractSection title="Percentage Rent">
+            <InfoCard
+              label="Rate"
+              value={joinParts(
+                terms.percentageRent.rate !== undefined && `${terms.percentageRent.rate}% of gross sales`,
+                terms.percentageRent.naturalBreakpoint && 'natural breakpoint',
+                terms.percentageRent.description
+              )}
+              source={provenance.percentageRent}
+            />
+            {terms.percentageRent.breakpoints && terms.percentageRent.breakpoints.length > 0 && (
+              <InfoCard
+                label="Breakpoints"
+                value={terms.percentageRent.breakpoints
+                  .map((breakpoint) => `${breakpoint.rate}% above ${formatMoney(breakpoint.threshold)}`)
+                  .join('; ')}
+                source={provenance.percentageRent}
+              />
+            )}
+          </AbstractSection>
+        )}
+
+        {((terms.expansionRights && terms.expansionRights.length > 0) ||
+          (terms.terminationRights && terms.terminationRights.length > 0)) && (
+          <AbstractSection title="Rights & Options">
+            {terms.expansionRights?.map((right, idx) => (
+              <InfoCard
+                key={`expansion-${idx}`}
+                label={EXPANSION_RIGHT_LABELS[right.type]}
+                value={joinParts(right.space, right.deadline && `by ${right.deadline}`, right.description)}
+                source={provenance.expansionRights}
+              />
+            ))}
+            {terms.terminationRights?.map((right, idx) => (
+              <InfoCard
+                key={`termination-${idx}`}
+                label={`Termination Right (${right.party.toLowerCase()})`}
+                value={joinParts(
+                  right.earliestDate && `from ${right.earliestDate}`,
+                  right.noticeMonths !== undefined && `${right.noticeMonths} months' notice`,
+                  right.fee !== undefined && `fee ${formatMoney(right.fee)}`,
+                  right.description
+                )}
+                source={provenance.terminationRights}
+              />
+            ))}
+          </AbstractSection>
+        )}
+
+        {(terms.coTenancy ||
+          (terms.exclusives && terms.exclusives.length > 0) ||
+          terms.radiusRestriction) && (
+          <AbstractSection title="Use Restrictions">
+            {terms.coTenancy && (
+              <InfoCard
+                label="Co-Tenancy"
+                value={joinParts(terms.coTenancy.requirement, terms.coTenancy.remedy && `Remedy: ${terms.coTenancy.remedy}`)}
+                source={provenance.coTenancy}
+              />
+            )}
+            {terms.exclusives?.map((exclusive, idx) => (
+              <InfoCard
+                key={`exclusive-${idx}`}
+                label="Exclusive"
+                value={joinParts(exclusive.use, exclusive.exceptions && `Exceptions: ${exclusive.exceptions}`)}
+                source={provenance.exclusives}
+              />
+            ))}
+            {terms.radiusRestriction && (
+              <InfoCard
+                label="Radius Restriction"
+                value={joinParts(
+                  terms.radiusRestriction.miles !== undefined && `${terms.radiusRestriction.miles} miles`,
+                  terms.radiusRestriction.description
+                )}
+                source={provenance.radiusRestriction}
+              />
+            )}
+          </AbstractSection>
+        )}
+
+        {(terms.holdover || terms.assignmentTerms) && (
+          <AbstractSection title="Holdover & Assignment">
+            {terms.holdover && (
+              <InfoCard
+                label="Holdover"
+                value={joinParts(
+                  terms.holdover.rentPercent !== undefined && `${terms.holdover.rentPercent}% of last rent`,
+                  terms.holdover.description
+                )}
+                source={provenance.holdover}
+              />
+            )}
+            {terms.assignmentTerms && (
+              <InfoCard
+                label="Assignment & Subletting"
+                value={joinParts(
+                  terms.assignmentTerms.consentRequired !== undefined &&
+                    (terms.assignmentTerms.consentRequired ? 'Landlord consent required' : 'No consent required'),
+                  terms.assignmentTerms.consentStandard,
+                  terms.assignmentTerms.recaptureRight && 'landlord recapture right',
+                  terms.assignmentTerms.profitSharePercent !== undefined &&
+                    `${terms.assignmentTerms.profitSharePercent}% profit share`,
+                  terms.assignmentTerms.description
+                )}
+                source={provenance.assignmentTerms}
+              />
+            )}
+          </AbstractSection>
+        )}
+
         {/* Document Metadata */}
         <div className="mt-6 pt-6 border-t border-gray-200">
           <h3 className="text-sm font-medium text-gray-700 mb-3">
@@ -242,21 +469,36 @@ export default async function LeaseOverviewPage({ params }: PageProps) {
               <p className="text-xs text-gray-600">Linked Documents</p>
               <p className="font-medium">{documentCount}</p>
             </div>
-            {lease.documents.length > 0 && (
-              <div>
-                <p className="text-xs text-gray-600">Last Extracted</p>
-                <p className="font-medium">
-                  {new Date(
-                    lease.documents[0].uploadedAt
-                  ).toLocaleDateString()}
-                </p>
-              </div>
-            )}
           </div>
+
+          {/* Version chain: original lease, then amendments and assignments */}
+          {chain.length > 0 && (
+            <div className="mt-4">
+              <p className="text-xs text-gray-600 mb-2">Document Chain</p>
+              <ol className="space-y-1">
+                {chain.map((entry) => (
+                  <li key={entry.documentId} className="text-sm flex items-baseline gap-2">
+                    <span className="text-gray-500 w-6 text-right">{entry.chainIndex + 1}.</span>
+                    <span className="font-medium text-gray-900">{entry.label}</span>
+                    <Link
+                      href={`/documents/${entry.documentId}`}
+                      className="text-blue-600 hover:text-blue-800 hover:underline truncate"
+                    >
+                      {entry.fileName}
+                    </Link>
+                    <span className="text-xs text-gray-500">
+                      {entry.effectiveDate ? `eff. ${entry.effectiveDate}` : 'effective date unknown'}
+                      {!entry.extracted && ' · not extracted'}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
         </div>
 
         {/* Clause-based Q&A Card */}
-        <div className="mt-6 pt-6 border-t border-gray-200">
+        <div className="mt-6 pt-6 border-t border-gray-200 print:hidden">
           <LeaseClauseQA leaseId={lease.id} tenantName={lease.tenantName} />
         </div>
       </div>
@@ -264,15 +506,43 @@ export default async function LeaseOverviewPage({ params }: PageProps) {
   );
 }
 
+const EXPANSION_RIGHT_LABELS: Record<ExpansionRightType, string> = {
+  EXPANSION: 'Expansion Option',
+  ROFO: 'Right of First Offer',
+  ROFR: 'Right of First Refusal',
+};
+
+function formatMoney(amount: number | undefined): string | undefined {
+  return amount !== undefined ? `$${amount.toLocaleString()}` : undefined;
+}
+
+// Join the parts of an abstract value that were extracted, skipping the rest
+function joinParts(...parts: Array<string | false | undefined>): string | null {
+  const present = parts.filter((part): part is string => Boolean(part));
+  return present.length > 0 ? present.join(' · ') : null;
+}
+
+// One heading of the lease abstract; kept together when printed
+function AbstractSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="mb-6 break-inside-avoid">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">{title}</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">{children}</div>
+    </div>
+  );
+}
+
 // Info Card Component
 function InfoCard({
   label,
   value,
   highlight,
+  source,
 }: {
   label: string;
   value: string | null;
   highlight?: string;
+  source?: TermProvenance;
 }) {
   return (
     <div>
@@ -280,10 +550,53 @@ function InfoCard({
       <p className={`font-medium ${highlight || 'text-gray-900'}`}>
         {value || 'N/A'}
       </p>
+      {value && <SourceNote source={source} />}
     </div>
   );
 }
 
+// Citations below this confidence are flagged for a second look
+const LOW_CONFIDENCE = 0.6;
+
+// Which document in the chain a term came from; hovering shows the quote it
+// was read from, and the link opens the document at that passage
+function SourceNote({ source }: { source?: TermProvenance }) {
+  if (!source) return null;
+
+  const citation = source.citation;
+  const lowConfidence = citation && citation.confidence < LOW_CONFIDENCE;
+
+  return (
+    <span className="relative inline-block group">
+      <Link
+        href={
+          citation
+            ? documentPageHref(source.documentId, citation.page, citation)
+            : `/documents/${source.documentId}`
+        }
+        className={`text-xs hover:text-blue-700 hover:underline ${lowConfidence ? 'text-amber-700' : 'text-gray-500'}`}
+        title={citation ? undefined : source.fileName}
+      >
+        from {source.label}
+        {citation?.page && `, p. ${citation.page}`}
+        {source.effectiveDate && `, eff. ${source.effectiveDate}`}
+        {lowConfidence && ' (low confidence)'}
+      </Link>
+      {citation && (
+        <span className="hidden group-hover:block print:hidden absolute left-0 top-full z-10 mt-1 w-80 rounded-lg border border-gray-200 bg-white p-3 text-xs text-gray-700 shadow-lg">
+          <span className="block italic text-gray-900">&ldquo;{citation.quote}&rdquo;</span>
+          <span className="block mt-2 text-gray-500">
+            {source.fileName}
+            {citation.page && ` · page ${citation.page}`}
+            {citation.chunkIndex !== null ? ` · chunk ${citation.chunkIndex}` : ' · quote not found in text'}
+            {` · ${Math.round(citation.confidence * 100)}% confidence`}
+          </span>
+        </span>
+      )}
+    </span>
+  );
+}
+
 // Info Card with Link Component
 function InfoCardLink({
   label,
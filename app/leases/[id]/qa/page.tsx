@@ -14,7 +14,7 @@ export default async function LeaseQAPage({ params }: PageProps) {
     include: {
       documents: {
         where: {
-          type: { in: ['LEASE', 'AMENDMENT'] },
+          type: { in: ['LEASE', 'AMENDMENT', 'ASSIGNMENT'] },
         },
         include: {
           chunks: {
@@ -2,6 +2,8 @@
 
 import { useState, useEffect, useMemo } from 'react';
 import Link from 'next/link';
+import { postEventStream } from '@/lib/sse';
+import { documentPageHref, formatPageSpan } from '@/lib/pageText';
 
 interface Citation {
   leaseId: string;
@@ -11,8 +13,11 @@ interface Citation {
   sectionLabel?: string | null;
   textSnippet: string;
   pageNumber?: number | null;
+  documentId?: string;
   topic?: string;
   responsibleParty?: string;
+  retrievalScore?: number;
+  rerankScore?: number;
 }
 
 interface QAResponse {
@@ -20,6 +25,27 @@ interface QAResponse {
   responsibleParty?: 'LANDLORD' | 'TENANT' | 'SHARED' | 'UNKNOWN';
   citations: Citation[];
   mode: 'clause_rag' | 'no_clauses';
+  threadId?: string;
+  standaloneQuestion?: string;
+}
+
+interface ThreadSummary {
+  id: string;
+  title: string;
+  scope: 'LEASE' | 'PROPERTY' | 'PORTFOLIO';
+  propertyId: string | null;
+  tenantName?: string;
+  propertyName?: string;
+  turnCount: number;
+  updatedAt: string;
+}
+
+interface ThreadTurn {
+  question: string;
+  standaloneQuestion: string;
+  answer: string;
+  responsibleParty: string | null;
+  citations: Citation[];
 }
 
 interface Property {
@@ -58,14 +84,81 @@ export default function LeaseAssistantPage() {
   const [selectedTopic, setSelectedTopic] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [response, setResponse] = useState<QAResponse | null>(null);
+  const [streamingAnswer, setStreamingAnswer] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [properties, setProperties] = useState<Property[]>([]);
+  const [threads, setThreads] = useState<ThreadSummary[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  // Earlier turns of the active thread; the latest turn is shown as `response`
+  const [priorTurns, setPriorTurns] = useState<ThreadTurn[]>([]);
+  const [responseQuestion, setResponseQuestion] = useState<string | null>(null);
 
-  // Fetch properties on mount
+  // Fetch properties and threads on mount
   useEffect(() => {
     fetchProperties();
+    fetchThreads();
   }, []);
 
+  const fetchThreads = async () => {
+    try {
+      const res = await fetch('/api/leases/threads');
+      const data = await res.json();
+      if (data.success) {
+        setThreads(data.threads);
+      }
+    } catch (err) {
+      console.error('Failed to fetch threads:', err);
+    }
+  };
+
+  const startNewThread = () => {
+    setActiveThreadId(null);
+    setPriorTurns([]);
+    setResponse(null);
+    setResponseQuestion(null);
+    setStreamingAnswer('');
+    setError(null);
+  };
+
+  const openThread = async (threadId: string) => {
+    setError(null);
+    setStreamingAnswer('');
+
+    try {
+      const res = await fetch(`/api/leases/threads/${threadId}`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load thread');
+      }
+
+      const thread: ThreadSummary & { turns: ThreadTurn[] } = data.thread;
+      const last = thread.turns[thread.turns.length - 1];
+
+      setActiveThreadId(thread.id);
+      setPriorTurns(thread.turns.slice(0, -1));
+      setResponseQuestion(last ? last.question : null);
+      setResponse(
+        last
+          ? {
+              answer: last.answer,
+              responsibleParty: (last.responsibleParty as QAResponse['responsibleParty']) || undefined,
+              citations: last.citations,
+              mode: last.citations.length > 0 ? 'clause_rag' : 'no_clauses',
+              threadId: thread.id,
+              standaloneQuestion: last.standaloneQuestion,
+            }
+          : null
+      );
+
+      if (thread.scope === 'PROPERTY' && thread.propertyId) {
+        setScope('property');
+        setSelectedPropertyId(thread.propertyId);
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
   const fetchProperties = async () => {
     try {
       const res = await fetch('/api/properties');
@@ -124,11 +217,48 @@ export default function LeaseAssistantPage() {
       return;
     }
 
+    const asked = question.trim();
     setLoading(true);
     setError(null);
+    setStreamingAnswer('');
+
+    // Move the answer on screen into the conversation history
+    if (response && responseQuestion) {
+      setPriorTurns((prev) => [
+        ...prev,
+        {
+          question: responseQuestion,
+          standaloneQuestion: response.standaloneQuestion || responseQuestion,
+          answer: response.answer,
+          responsibleParty: response.responsibleParty || null,
+          citations: response.citations,
+        },
+      ]);
+    }
     setResponse(null);
+    setResponseQuestion(asked);
 
     try {
+      let threadId = activeThreadId;
+      if (!threadId) {
+        const propertyScoped = scope === 'property' && selectedPropertyId;
+        const res = await fetch('/api/leases/threads', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            title: asked,
+            scope: propertyScoped ? 'PROPERTY' : 'PORTFOLIO',
+            propertyId: propertyScoped ? selectedPropertyId : undefined,
+          }),
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || 'Failed to start thread');
+        }
+        threadId = data.thread.id as string;
+        setActiveThreadId(threadId);
+      }
+
       const filters: any = {};
 
       if (scope === 'property' && selectedPropertyId) {
@@ -143,24 +273,19 @@ export default function LeaseAssistantPage() {
         filters.topic = selectedTopic;
       }
 
-      const res = await fetch('/api/leases/qa', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          question: question.trim(),
+      const data = await postEventStream<QAResponse>(
+        '/api/leases/qa',
+        {
+          question: asked,
+          threadId,
           filters: Object.keys(filters).length > 0 ? filters : undefined,
-        }),
-      });
-
-      const data = await res.json();
-
-      if (!res.ok) {
-        throw new Error(data.error || 'Failed to get answer');
-      }
+        },
+        (text) => setStreamingAnswer((prev) => prev + text)
+      );
 
       setResponse(data);
+      setQuestion('');
+      fetchThreads();
     } catch (err) {
       setError((err as Error).message);
     } finally {
@@ -208,7 +333,7 @@ export default function LeaseAssistantPage() {
 
   return (
     <main className="min-h-screen p-8 bg-gray-50">
-      <div className="max-w-5xl mx-auto">
+      <div className="max-w-7xl mx-auto">
         {/* Header */}
         <div className="flex justify-between items-start mb-8">
           <div>
@@ -227,212 +352,316 @@ export default function LeaseAssistantPage() {
           </Link>
         </div>
 
-        {/* Filters */}
-        <div className="bg-white border border-gray-200 rounded-xl p-5 mb-6">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
-            {/* Scope selector */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Scope
-              </label>
-              <select
-                value={scope}
-                onChange={(e) => setScope(e.target.value as Scope)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="all">All leases</option>
-                <option value="property">By property</option>
-                <option value="tenant">By tenant</option>
-              </select>
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Thread sidebar */}
+          <aside className="lg:col-span-1">
+            <div className="bg-white border border-gray-200 rounded-xl p-4 lg:sticky lg:top-8">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-sm font-semibold text-gray-900">Conversations</h2>
+                <button
+                  onClick={startNewThread}
+                  disabled={loading}
+                  className="text-xs px-2.5 py-1 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+                >
+                  New
+                </button>
+              </div>
+              {threads.length === 0 ? (
+                <p className="text-xs text-gray-500">
+                  Past questions and follow-ups appear here.
+                </p>
+              ) : (
+                <ul className="space-y-1 max-h-[70vh] overflow-y-auto">
+                  {threads.map((thread) => (
+                    <li key={thread.id}>
+                      <button
+                        onClick={() => openThread(thread.id)}
+                        disabled={loading}
+                        className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                          thread.id === activeThreadId
+                            ? 'bg-blue-50 border border-blue-200'
+                            : 'hover:bg-gray-50 border border-transparent'
+                        }`}
+                      >
+                        <p className="font-medium text-gray-900 line-clamp-2">{thread.title}</p>
+                        <p className="text-xs text-gray-500 mt-0.5">
+                          {thread.scope === 'PORTFOLIO'
+                            ? 'Portfolio'
+                            : thread.propertyName || thread.tenantName || thread.scope}
+                          {' · '}
+                          {thread.turnCount} {thread.turnCount === 1 ? 'question' : 'questions'}
+                        </p>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
+          </aside>
+
+          <div className="lg:col-span-3">
+            {/* Filters */}
+            <div className="bg-white border border-gray-200 rounded-xl p-5 mb-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                {/* Scope selector */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Scope
+                  </label>
+                  <select
+                    value={scope}
+                    onChange={(e) => setScope(e.target.value as Scope)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="all">All leases</option>
+                    <option value="property">By property</option>
+                    <option value="tenant">By tenant</option>
+                  </select>
+                </div>
+
+                {/* Property selector (if scope = property) */}
+                {scope === 'property' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Property
+                    </label>
+                    <select
+                      value={selectedPropertyId}
+                      onChange={(e) => setSelectedPropertyId(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Select a property</option>
+                      {properties.map((prop) => (
+                        <option key={prop.id} value={prop.id}>
+                          {prop.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {/* Tenant input (if scope = tenant) */}
+                {scope === 'tenant' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Tenant Name
+                    </label>
+                    <input
+                      type="text"
+                      value={tenantName}
+                      onChange={(e) => setTenantName(e.target.value)}
+                      placeholder="Enter tenant name"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                )}
+              </div>
 
-            {/* Property selector (if scope = property) */}
-            {scope === 'property' && (
+              {/* Topic chips */}
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Property
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Filter by topic (optional)
                 </label>
-                <select
-                  value={selectedPropertyId}
-                  onChange={(e) => setSelectedPropertyId(e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                >
-                  <option value="">Select a property</option>
-                  {properties.map((prop) => (
-                    <option key={prop.id} value={prop.id}>
-                      {prop.name}
-                    </option>
+                <div className="flex flex-wrap gap-2">
+                  {TOPIC_CHIPS.map((topic) => (
+                    <button
+                      key={topic}
+                      onClick={() =>
+                        setSelectedTopic(selectedTopic === topic ? null : topic)
+                      }
+                      className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                        selectedTopic === topic
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {topic}
+                    </button>
                   ))}
-                </select>
+                </div>
               </div>
-            )}
+            </div>
 
-            {/* Tenant input (if scope = tenant) */}
-            {scope === 'tenant' && (
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Tenant Name
+            {/* Question input */}
+            <div className="bg-white border border-gray-200 rounded-xl p-5 mb-6">
+              <form onSubmit={handleSubmit}>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Ask a question about lease clauses
                 </label>
-                <input
-                  type="text"
-                  value={tenantName}
-                  onChange={(e) => setTenantName(e.target.value)}
-                  placeholder="Enter tenant name"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
+                <div className="flex gap-3">
+                  <input
+                    type="text"
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    placeholder="e.g., Who is responsible for HVAC repairs across all leases?"
+                    className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                    disabled={loading}
+                  />
+                  <button
+                    type="submit"
+                    disabled={loading || !question.trim()}
+                    className="px-6 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {loading ? 'Searching...' : 'Search'}
+                  </button>
+                </div>
+              </form>
+            </div>
+
+            {/* Error */}
+            {error && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-red-800 mb-6">
+                {error}
               </div>
             )}
-          </div>
 
-          {/* Topic chips */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Filter by topic (optional)
-            </label>
-            <div className="flex flex-wrap gap-2">
-              {TOPIC_CHIPS.map((topic) => (
-                <button
-                  key={topic}
-                  onClick={() =>
-                    setSelectedTopic(selectedTopic === topic ? null : topic)
-                  }
-                  className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
-                    selectedTopic === topic
-                      ? 'bg-blue-600 text-white'
-                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                  }`}
-                >
-                  {topic}
-                </button>
-              ))}
-            </div>
-          </div>
-        </div>
+            {/* Earlier turns in this thread */}
+            {priorTurns.length > 0 && (
+              <div className="bg-white border border-gray-200 rounded-xl p-6 mb-6 space-y-4">
+                {priorTurns.map((turn, idx) => (
+                  <div key={idx} className={idx > 0 ? 'border-t border-gray-100 pt-4' : ''}>
+                    <p className="text-sm font-semibold text-gray-900 mb-1">{turn.question}</p>
+                    <p className="text-sm text-gray-700 whitespace-pre-wrap line-clamp-6">{turn.answer}</p>
+                  </div>
+                ))}
+              </div>
+            )}
 
-        {/* Question input */}
-        <div className="bg-white border border-gray-200 rounded-xl p-5 mb-6">
-          <form onSubmit={handleSubmit}>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Ask a question about lease clauses
-            </label>
-            <div className="flex gap-3">
-              <input
-                type="text"
-                value={question}
-                onChange={(e) => setQuestion(e.target.value)}
-                placeholder="e.g., Who is responsible for HVAC repairs across all leases?"
-                className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
-                disabled={loading}
-              />
-              <button
-                type="submit"
-                disabled={loading || !question.trim()}
-                className="px-6 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
-              >
-                {loading ? 'Searching...' : 'Search'}
-              </button>
-            </div>
-          </form>
-        </div>
+            {/* Question being answered */}
+            {responseQuestion && (response || streamingAnswer) && (
+              <p className="text-sm font-semibold text-gray-900 mb-2">{responseQuestion}</p>
+            )}
 
-        {/* Error */}
-        {error && (
-          <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-red-800 mb-6">
-            {error}
-          </div>
-        )}
-
-        {/* Response */}
-        {response && (
-          <div className="space-y-6">
-            {/* Answer card */}
-            <div className="bg-white border border-gray-200 rounded-xl p-6">
-              {/* Responsible party badge */}
-              {response.responsibleParty && (
-                <div className="mb-4">
-                  {getResponsiblePartyBadge(response.responsibleParty)}
+            {/* Streaming answer (replaced by the full response when done) */}
+            {!response && streamingAnswer && (
+              <div className="bg-white border border-gray-200 rounded-xl p-6 mb-6">
+                <div className="prose prose-sm max-w-none">
+                  <div className="text-gray-900 whitespace-pre-wrap">{streamingAnswer}</div>
                 </div>
-              )}
-
-              {/* Answer - render with markdown-like formatting */}
-              <div className="prose prose-sm max-w-none">
-                <div className="text-gray-900 whitespace-pre-wrap">{response.answer}</div>
               </div>
-            </div>
+            )}
 
-            {/* Grouped Citations */}
-            {groupedCitations.length > 0 && (
-              <div className="bg-white border border-gray-200 rounded-xl p-6">
-                <h3 className="text-lg font-semibold text-gray-900 mb-4">
-                  Matching Clauses by Lease ({response.citations.length} total)
-                </h3>
-
-                <div className="space-y-6">
-                  {groupedCitations.map((group) => (
-                    <div
-                      key={group.key}
-                      className="border border-gray-200 rounded-lg overflow-hidden"
-                    >
-                      {/* Group header */}
-                      <div className="bg-gray-50 px-4 py-3 border-b border-gray-200 flex items-center justify-between">
-                        <div>
-                          <h4 className="font-semibold text-gray-900">
-                            {group.propertyName}
-                          </h4>
-                          <p className="text-sm text-gray-600">{group.tenantName}</p>
-                        </div>
-                        <div className="flex items-center gap-3">
-                          {group.dominantParty && getResponsiblePartyBadge(group.dominantParty, 'sm')}
-                          <Link
-                            href={`/leases/${group.leaseId}/overview`}
-                            className="text-sm text-blue-600 hover:text-blue-800 font-medium"
-                          >
-                            View Lease
-                          </Link>
-                        </div>
-                      </div>
-
-                      {/* Group clauses */}
-                      <div className="divide-y divide-gray-100">
-                        {group.citations.map((citation, idx) => (
-                          <div key={idx} className="px-4 py-3">
-                            <div className="flex items-start justify-between gap-4">
-                              <div className="flex-1 min-w-0">
-                                <div className="flex items-center gap-2 mb-1">
-                                  {citation.sectionLabel && (
-                                    <span className="text-sm font-medium text-gray-700">
-                                      {citation.sectionLabel}
-                                    </span>
-                                  )}
-                                  {getTopicBadge(citation.topic)}
-                                  {citation.responsibleParty && citation.responsibleParty !== 'UNKNOWN' && (
-                                    getResponsiblePartyBadge(citation.responsibleParty, 'sm')
+            {/* Response */}
+            {response && (
+              <div className="space-y-6">
+                {/* Answer card */}
+                <div className="bg-white border border-gray-200 rounded-xl p-6">
+                  {/* Responsible party badge */}
+                  {response.responsibleParty && (
+                    <div className="mb-4">
+                      {getResponsiblePartyBadge(response.responsibleParty)}
+                    </div>
+                  )}
+
+                  {/* Answer - render with markdown-like formatting */}
+                  <div className="prose prose-sm max-w-none">
+                    <div className="text-gray-900 whitespace-pre-wrap">{response.answer}</div>
+                  </div>
+
+                  {response.standaloneQuestion && response.standaloneQuestion !== responseQuestion && (
+                    <p className="text-xs text-gray-500 mt-4">
+                      Searched as: &ldquo;{response.standaloneQuestion}&rdquo;
+                    </p>
+                  )}
+                </div>
+
+                {/* Grouped Citations */}
+                {groupedCitations.length > 0 && (
+                  <div className="bg-white border border-gray-200 rounded-xl p-6">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                      Matching Clauses by Lease ({response.citations.length} total)
+                    </h3>
+
+                    <div className="space-y-6">
+                      {groupedCitations.map((group) => (
+                        <div
+                          key={group.key}
+                          className="border border-gray-200 rounded-lg overflow-hidden"
+                        >
+                          {/* Group header */}
+                          <div className="bg-gray-50 px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+                            <div>
+                              <h4 className="font-semibold text-gray-900">
+                                {group.propertyName}
+                              </h4>
+                              <p className="text-sm text-gray-600">{group.tenantName}</p>
+                            </div>
+                            <div className="flex items-center gap-3">
+                              {group.dominantParty && getResponsiblePartyBadge(group.dominantParty, 'sm')}
+                              <Link
+                                href={`/leases/${group.leaseId}/overview`}
+                                className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                              >
+                                View Lease
+                              </Link>
+                            </div>
+                          </div>
+
+                          {/* Group clauses */}
+                          <div className="divide-y divide-gray-100">
+                            {group.citations.map((citation, idx) => (
+                              <div key={idx} className="px-4 py-3">
+                                <div className="flex items-start justify-between gap-4">
+                                  <div className="flex-1 min-w-0">
+                                    <div className="flex items-center gap-2 mb-1">
+                                      {citation.sectionLabel && (
+                                        <span className="text-sm font-medium text-gray-700">
+                                          {citation.sectionLabel}
+                                        </span>
+                                      )}
+                                      {citation.pageNumber && (
+                                        citation.documentId ? (
+                                          <Link
+                                            href={documentPageHref(citation.documentId, citation.pageNumber, { quote: citation.textSnippet })}
+                                            className="text-xs text-blue-600 hover:text-blue-800 hover:underline"
+                                          >
+                                            {formatPageSpan(citation.pageNumber)}
+                                          </Link>
+                                        ) : (
+                                          <span className="text-xs text-gray-500">
+                                            {formatPageSpan(citation.pageNumber)}
+                                          </span>
+                                        )
+                                      )}
+                                      {getTopicBadge(citation.topic)}
+                                      {citation.responsibleParty && citation.responsibleParty !== 'UNKNOWN' && (
+                                        getResponsiblePartyBadge(citation.responsibleParty, 'sm')
+                                      )}
+                                    </div>
+                                    <p className="text-sm text-gray-600 line-clamp-2">
+                                      {citation.textSnippet}
+                                    </p>
+                                  </div>
+                                  {citation.retrievalScore !== undefined && (
+                                    <div className="text-xs text-gray-400 text-right whitespace-nowrap">
+                                      <div>Retrieval {citation.retrievalScore.toFixed(2)}</div>
+                                      {citation.rerankScore !== undefined && (
+                                        <div>Re-rank {citation.rerankScore.toFixed(2)}</div>
+                                      )}
+                                    </div>
                                   )}
                                 </div>
-                                <p className="text-sm text-gray-600 line-clamp-2">
-                                  {citation.textSnippet}
-                                </p>
                               </div>
-                            </div>
+                            ))}
                           </div>
-                        ))}
-                      </div>
+                        </div>
+                      ))}
                     </div>
-                  ))}
-                </div>
-              </div>
-            )}
-
-            {/* No clauses message */}
-            {response.mode === 'no_clauses' && (
-              <div className="bg-white border border-gray-200 rounded-xl p-6">
-                <p className="text-sm text-gray-500 italic">
-                  No indexed clauses found. Run the indexing script to enable clause-level Q&A.
-                </p>
+                  </div>
+                )}
+
+                {/* No clauses message */}
+                {response.mode === 'no_clauses' && (
+                  <div className="bg-white border border-gray-200 rounded-xl p-6">
+                    <p className="text-sm text-gray-500 italic">
+                      No indexed clauses found. Run the indexing script to enable clause-level Q&A.
+                    </p>
+                  </div>
+                )}
               </div>
             )}
           </div>
-        )}
+        </div>
       </div>
     </main>
   );
@@ -0,0 +1,64 @@
+import Link from 'next/link';
+import { prisma } from '@/lib/prisma';
+import { findDueRentAdjustments } from '@/lib/cpiEscalation';
+import { generateAlerts } from '@/lib/alerts';
+import CpiIndexUpload from '@/components/leases/CpiIndexUpload';
+import RentAdjustmentAlerts from '@/components/leases/RentAdjustmentAlerts';
+
+export const dynamic = 'force-dynamic';
+
+export default async function RentAdjustmentsPage() {
+  const today = new Date();
+  const adjustments = await findDueRentAdjustments(today);
+  const alerts = generateAlerts({ today, leases: [], rentAdjustments: adjustments });
+
+  // Coverage of the imported index, per series
+  const coverage = await prisma.cpiIndexValue.groupBy({
+    by: ['series'],
+    _min: { month: true },
+    _max: { month: true },
+    _count: { id: true },
+  });
+
+  return (
+    <main className="min-h-screen p-8 bg-gray-50">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Rent Adjustments</h1>
+            <p className="text-gray-600 mt-1">
+              CPI rent adjustments coming up within each lease&apos;s notice period or missed,
+              computed from the imported index with the lease&apos;s floor, cap and lookback.
+              Missed adjustments stay listed until they are applied.
+            </p>
+          </div>
+          <Link
+            href="/dashboard"
+            className="inline-block bg-gray-600 text-white px-4 py-2 rounded hover:bg-gray-700 transition-colors"
+          >
+            Dashboard
+          </Link>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-lg p-6 mb-8">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">CPI Index</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            {coverage.length === 0
+              ? 'No index values imported yet.'
+              : coverage
+                  .map(
+                    (row) =>
+                      `${row.series}: ${row._count.id} months, ` +
+                      `${row._min.month?.toISOString().slice(0, 7)} to ${row._max.month?.toISOString().slice(0, 7)}`
+                  )
+                  .join(' · ')}
+          </p>
+          <CpiIndexUpload />
+        </div>
+
+        <RentAdjustmentAlerts alerts={alerts} />
+      </div>
+    </main>
+  );
+}
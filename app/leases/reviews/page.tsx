@@ -0,0 +1,68 @@
+import Link from 'next/link';
+import { listLeaseChangeSets } from '@/lib/leaseReview';
+import LeaseReviewQueue from '@/components/leases/LeaseReviewQueue';
+
+interface PageProps {
+  searchParams: {
+    status?: string;
+    leaseId?: string;
+  };
+}
+
+const STATUS_TABS = [
+  { status: 'PENDING', label: 'Pending' },
+  { status: 'REVIEWED', label: 'Reviewed' },
+  { status: 'SUPERSEDED', label: 'Superseded' },
+];
+
+export default async function LeaseReviewsPage({ searchParams }: PageProps) {
+  const status = searchParams.status || 'PENDING';
+  const changeSets = await listLeaseChangeSets({
+    status: [status],
+    leaseId: searchParams.leaseId,
+  });
+
+  return (
+    <main className="min-h-screen p-8 bg-gray-50">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Lease Review</h1>
+            <p className="text-gray-600 mt-1">
+              Extracted lease terms that differ from the lease record. Nothing is applied
+              until it is accepted or edited here.
+            </p>
+          </div>
+          <Link
+            href="/dashboard"
+            className="inline-block bg-gray-600 text-white px-4 py-2 rounded hover:bg-gray-700 transition-colors"
+          >
+            Dashboard
+          </Link>
+        </div>
+
+        <nav className="flex gap-6 border-b border-gray-200 mb-6">
+          {STATUS_TABS.map((tab) => (
+            <Link
+              key={tab.status}
+              href={`/leases/reviews?${new URLSearchParams({
+                status: tab.status,
+                ...(searchParams.leaseId ? { leaseId: searchParams.leaseId } : {}),
+              })}`}
+              className={`py-3 text-sm font-medium border-b-2 ${
+                tab.status === status
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-600 hover:text-blue-600'
+              }`}
+            >
+              {tab.label}
+            </Link>
+          ))}
+        </nav>
+
+        <LeaseReviewQueue changeSets={changeSets} />
+      </div>
+    </main>
+  );
+}
@@ -17,6 +17,8 @@ export default function LeasePdfUpload() {
   const [uploading, setUploading] = useState(false);
   const [loading, setLoading] = useState(true);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  // A file already stored as a document on another lease (or none)
+  const [duplicate, setDuplicate] = useState<{ id: string; fileName: string; leaseId: string | null } | null>(null);
 
   useEffect(() => {
     fetchLeases();
@@ -46,6 +48,7 @@ export default function LeasePdfUpload() {
 
     setUploading(true);
     setMessage(null);
+    setDuplicate(null);
 
     try {
       const formData = new FormData();
@@ -61,11 +64,9 @@ export default function LeasePdfUpload() {
 
       if (response.ok) {
         setMessage({ type: 'success', text: data.message });
-        setFile(null);
-        setSelectedLeaseId('');
-        // Reset file input
-        const fileInput = document.getElementById('leasePdfFile') as HTMLInputElement;
-        if (fileInput) fileInput.value = '';
+        resetForm();
+      } else if (response.status === 409 && data.duplicate) {
+        setDuplicate(data.document);
       } else {
         setMessage({ type: 'error', text: data.error || 'Upload failed' });
       }
@@ -76,6 +77,40 @@ export default function LeasePdfUpload() {
     }
   };
 
+  const resetForm = () => {
+    setFile(null);
+    setSelectedLeaseId('');
+    // Reset file input
+    const fileInput = document.getElementById('leasePdfFile') as HTMLInputElement;
+    if (fileInput) fileInput.value = '';
+  };
+
+  const handleAttachDuplicate = async () => {
+    if (!duplicate) return;
+
+    setUploading(true);
+    try {
+      const response = await fetch(`/api/documents/${duplicate.id}/link`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ leaseId: selectedLeaseId }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setMessage({ type: 'success', text: `Attached ${duplicate.fileName} to the selected lease` });
+        setDuplicate(null);
+        resetForm();
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to attach document' });
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Network error occurred' });
+    } finally {
+      setUploading(false);
+    }
+  };
+
   if (loading) {
     return <div className="text-gray-600">Loading leases...</div>;
   }
@@ -132,6 +167,34 @@ export default function LeasePdfUpload() {
         {uploading ? 'Uploading...' : 'Upload Lease PDF'}
       </button>
 
+      {duplicate && (
+        <div className="p-4 rounded bg-yellow-50 text-yellow-800 border border-yellow-200 space-y-3">
+          <p>
+            This file was already uploaded as <strong>{duplicate.fileName}</strong>
+            {duplicate.leaseId ? ', attached to another lease.' : ', not attached to any lease.'}{' '}
+            Attach that document to the selected lease instead?
+          </p>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleAttachDuplicate}
+              disabled={uploading}
+              className="bg-yellow-600 text-white px-3 py-1 rounded hover:bg-yellow-700 disabled:bg-gray-400"
+            >
+              Attach to this lease
+            </button>
+            <button
+              type="button"
+              onClick={() => setDuplicate(null)}
+              disabled={uploading}
+              className="px-3 py-1 rounded border border-yellow-300 hover:bg-yellow-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       {message && (
         <div
           className={`p-4 rounded ${
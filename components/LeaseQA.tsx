@@ -2,6 +2,9 @@
 
 import { useState } from 'react';
 import { LeaseQuestionResponse } from '@/lib/types';
+import Link from 'next/link';
+import { postEventStream } from '@/lib/sse';
+import { documentPageHref, formatPageSpan } from '@/lib/pageText';
 
 interface LeaseQAProps {
   leaseId: string;
@@ -16,6 +19,10 @@ interface QAHistoryItem {
     chunkIndex: number;
     snippet: string;
     similarity?: number;
+    sectionLabel?: string | null;
+    documentId?: string;
+    startPage?: number | null;
+    endPage?: number | null;
   }[];
 }
 
@@ -24,6 +31,8 @@ export default function LeaseQA({ leaseId, hasDocument = false }: LeaseQAProps)
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [history, setHistory] = useState<QAHistoryItem[]>([]);
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [streamingAnswer, setStreamingAnswer] = useState('');
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -33,39 +42,33 @@ export default function LeaseQA({ leaseId, hasDocument = false }: LeaseQAProps)
       return;
     }
 
+    const asked = question.trim();
     setLoading(true);
     setError(null);
+    setPendingQuestion(asked);
+    setStreamingAnswer('');
 
     try {
-      const response = await fetch(`/api/leases/${leaseId}/ask`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          question: question.trim(),
-        }),
-      });
-
-      const data: LeaseQuestionResponse = await response.json();
+      const data = await postEventStream<LeaseQuestionResponse>(
+        `/api/leases/${leaseId}/ask`,
+        { question: asked },
+        (text) => setStreamingAnswer((prev) => prev + text)
+      );
 
-      if (response.ok) {
-        setHistory([
-          ...history,
-          {
-            question: question.trim(),
-            answer: data.answer,
-            mode: data.mode,
-            sourceChunks: data.sourceChunks,
-          },
-        ]);
-        setQuestion('');
-      } else {
-        setError((data as any).error || 'Failed to get answer');
-      }
+      setHistory((prev) => [
+        ...prev,
+        {
+          question: asked,
+          answer: data.answer,
+          mode: data.mode,
+          sourceChunks: data.sourceChunks,
+        },
+      ]);
+      setQuestion('');
     } catch (err) {
-      setError('Network error occurred');
+      setError((err as Error).message || 'Network error occurred');
     } finally {
+      setPendingQuestion(null);
       setLoading(false);
     }
   };
@@ -100,6 +103,20 @@ export default function LeaseQA({ leaseId, hasDocument = false }: LeaseQAProps)
         )}
       </form>
 
+      {/* Answer in progress */}
+      {pendingQuestion && streamingAnswer && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+          <div className="mb-3">
+            <p className="text-sm font-semibold text-gray-700 mb-1">Question:</p>
+            <p className="text-gray-900">{pendingQuestion}</p>
+          </div>
+          <div>
+            <p className="text-sm font-semibold text-gray-700 mb-1">Answer:</p>
+            <p className="text-gray-900 whitespace-pre-wrap">{streamingAnswer}</p>
+          </div>
+        </div>
+      )}
+
       {/* Q&A History */}
       {history.length > 0 && (
         <div className="mt-6 space-y-4">
@@ -142,7 +159,27 @@ export default function LeaseQA({ leaseId, hasDocument = false }: LeaseQAProps)
                           className="bg-white border border-gray-200 rounded p-2 text-xs"
                         >
                           <div className="flex justify-between items-start mb-1">
-                            <span className="text-gray-500">Chunk {chunk.chunkIndex + 1}</span>
+                            <span className="text-gray-500">
+                              {chunk.sectionLabel || `Chunk ${chunk.chunkIndex + 1}`}
+                              {chunk.startPage && (
+                                <>
+                                  {' · '}
+                                  {chunk.documentId ? (
+                                    <Link
+                                      href={documentPageHref(chunk.documentId, chunk.startPage, {
+                                        chunkIndex: chunk.chunkIndex,
+                                        quote: chunk.snippet,
+                                      })}
+                                      className="text-blue-600 hover:text-blue-800 hover:underline"
+                                    >
+                                      {formatPageSpan(chunk.startPage, chunk.endPage)}
+                                    </Link>
+                                  ) : (
+                                    formatPageSpan(chunk.startPage, chunk.endPage)
+                                  )}
+                                </>
+                              )}
+                            </span>
                             {chunk.similarity !== undefined && (
                               <span className="text-gray-500">
                                 Relevance: {(chunk.similarity * 100).toFixed(0)}%
@@ -36,7 +36,7 @@ export default function RentExposureByYear({ rentsByYear }: RentExposureByYearPr
   return (
     <div className="bg-white rounded-lg border border-gray-200 p-6">
       <h2 className="text-xl font-semibold mb-4 text-gray-900">Rent Exposure by Year</h2>
-      <p className="text-sm text-gray-600 mb-4">Annual rent at risk by lease expiration year</p>
+      <p className="text-sm text-gray-600 mb-4">Contractual annual rent at expiration, by lease expiration year</p>
 
       <div className="space-y-3">
         {sortedData.map(({ year, totalRent }) => {
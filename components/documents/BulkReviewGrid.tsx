@@ -0,0 +1,314 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import type { UploadBatchDocument, UploadBatchReview } from '@/lib/uploadBatches';
+
+const POLL_INTERVAL_MS = 3000;
+
+const DOCUMENT_TYPES = [
+  ['LEASE', 'Lease'],
+  ['AMENDMENT', 'Amendment'],
+  ['ASSIGNMENT', 'Assignment'],
+  ['COI', 'COI'],
+  ['INVOICE', 'Invoice'],
+  ['EMAIL', 'Email'],
+  ['WORK_ORDER', 'Work Order'],
+  ['ABSTRACT', 'Abstract'],
+  ['RENT_ROLL', 'Rent Roll'],
+  ['OTHER', 'Other'],
+];
+
+interface PropertyOption {
+  id: string;
+  name: string;
+}
+
+interface LeaseOption {
+  id: string;
+  propertyId: string;
+  tenantName: string;
+  suite: string | null;
+}
+
+interface RowSelection {
+  include: boolean;
+  type: string;
+  propertyId: string;
+  leaseId: string;
+  edited: boolean; // Reviewer changed the row; later proposals do not overwrite it
+}
+
+interface BulkReviewGridProps {
+  batch: UploadBatchReview;
+  properties: PropertyOption[];
+  leases: LeaseOption[];
+}
+
+function proposedSelection(doc: UploadBatchDocument): RowSelection {
+  const propertyId = doc.propertyId || doc.proposedPropertyId || '';
+  const leaseId = doc.leaseId || doc.proposedLeaseId || '';
+  return {
+    include: !!propertyId,
+    type: doc.type,
+    propertyId,
+    leaseId,
+    edited: false,
+  };
+}
+
+function confidenceColor(confidence: number): string {
+  if (confidence >= 0.7) return 'bg-green-100 text-green-800 border-green-200';
+  if (confidence >= 0.4) return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+  return 'bg-red-100 text-red-800 border-red-200';
+}
+
+/**
+ * Review grid for a bulk upload: proposed type, property and lease per file,
+ * editable, refreshed while the batch is still processing
+ */
+export default function BulkReviewGrid({ batch: initialBatch, properties, leases }: BulkReviewGridProps) {
+  const router = useRouter();
+  const [batch, setBatch] = useState(initialBatch);
+  const [rows, setRows] = useState<Record<string, RowSelection>>(() =>
+    Object.fromEntries(initialBatch.documents.map((doc) => [doc.id, proposedSelection(doc)]))
+  );
+  const [committing, setCommitting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const committed = batch.status === 'COMMITTED';
+  const processing = batch.documents.filter((doc) => doc.activeJobs > 0 || doc.status === 'PROCESSING').length;
+
+  // Poll until every document has been ingested, classified and matched
+  useEffect(() => {
+    if (processing === 0 || committed) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/documents/batches/${batch.id}`);
+        const data = await response.json();
+        if (!response.ok) return;
+
+        const updated: UploadBatchReview = data.batch;
+        setBatch(updated);
+        setRows((current) =>
+          Object.fromEntries(
+            updated.documents.map((doc) => [
+              doc.id,
+              current[doc.id]?.edited ? current[doc.id] : proposedSelection(doc),
+            ])
+          )
+        );
+      } catch (error) {
+        console.error('Error polling upload batch:', error);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [batch, processing, committed]);
+
+  const updateRow = (documentId: string, changes: Partial<RowSelection>) => {
+    setRows((current) => ({
+      ...current,
+      [documentId]: { ...current[documentId], ...changes, edited: true },
+    }));
+  };
+
+  const includedCount = Object.values(rows).filter((row) => row.include).length;
+
+  const handleCommit = async () => {
+    setCommitting(true);
+    setMessage(null);
+
+    try {
+      const links = batch.documents
+        .filter((doc) => rows[doc.id]?.include)
+        .map((doc) => ({
+          documentId: doc.id,
+          type: rows[doc.id].type,
+          propertyId: rows[doc.id].propertyId || null,
+          leaseId: rows[doc.id].leaseId || null,
+        }));
+
+      const response = await fetch(`/api/documents/batches/${batch.id}/commit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ links }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setBatch({ ...batch, status: 'COMMITTED', committedAt: new Date().toISOString() });
+        setMessage({ type: 'success', text: `Linked ${data.linked} document(s)` });
+        router.refresh();
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to commit links' });
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Network error occurred' });
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  const propertyName = (id: string) => properties.find((property) => property.id === id)?.name || id;
+  const leaseLabel = (lease: LeaseOption) => (lease.suite ? `${lease.tenantName} (${lease.suite})` : lease.tenantName);
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <p className="text-sm text-gray-600">
+          {batch.documents.length} document{batch.documents.length !== 1 ? 's' : ''}
+          {processing > 0 && !committed && ` · ${processing} still processing`}
+          {!committed && ` · ${includedCount} selected for linking`}
+        </p>
+        {!committed && (
+          <button
+            onClick={handleCommit}
+            disabled={committing || includedCount === 0}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            {committing ? 'Linking...' : `Link ${includedCount} Document${includedCount !== 1 ? 's' : ''}`}
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <div
+          className={`mb-4 p-4 rounded-lg ${
+            message.type === 'success'
+              ? 'bg-green-50 text-green-800 border border-green-200'
+              : 'bg-red-50 text-red-800 border border-red-200'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="overflow-x-auto bg-white border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Link
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                File Name
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Type
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Property
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Lease
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Match
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {batch.documents.map((doc) => {
+              const row = rows[doc.id] || proposedSelection(doc);
+              const busy = doc.activeJobs > 0 || doc.status === 'PROCESSING';
+              const propertyLeases = leases.filter((lease) => lease.propertyId === row.propertyId);
+
+              return (
+                <tr key={doc.id} className={row.include ? '' : 'bg-gray-50'}>
+                  <td className="px-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={row.include}
+                      disabled={committed}
+                      onChange={(e) => updateRow(doc.id, { include: e.target.checked })}
+                      aria-label={`Link ${doc.fileName}`}
+                    />
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <Link href={`/documents/${doc.id}`} className="text-blue-600 hover:text-blue-800 hover:underline">
+                      {doc.fileName}
+                    </Link>
+                    {busy && <p className="text-xs text-yellow-700 mt-1">Processing...</p>}
+                    {doc.status === 'FAILED' && (
+                      <p className="text-xs text-red-700 mt-1">Failed{doc.lastError ? `: ${doc.lastError}` : ''}</p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={row.type}
+                      disabled={committed}
+                      onChange={(e) => updateRow(doc.id, { type: e.target.value })}
+                      className="px-2 py-1 text-sm border border-gray-300 rounded-lg"
+                    >
+                      {DOCUMENT_TYPES.map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={row.propertyId}
+                      disabled={committed}
+                      onChange={(e) =>
+                        updateRow(doc.id, { propertyId: e.target.value, leaseId: '', include: !!e.target.value })
+                      }
+                      className="px-2 py-1 text-sm border border-gray-300 rounded-lg max-w-[14rem]"
+                    >
+                      <option value="">No property</option>
+                      {properties.map((property) => (
+                        <option key={property.id} value={property.id}>
+                          {property.name}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={row.leaseId}
+                      disabled={committed || !row.propertyId}
+                      onChange={(e) => updateRow(doc.id, { leaseId: e.target.value })}
+                      className="px-2 py-1 text-sm border border-gray-300 rounded-lg max-w-[14rem]"
+                    >
+                      <option value="">{row.propertyId ? 'Property only' : '—'}</option>
+                      {propertyLeases.map((lease) => (
+                        <option key={lease.id} value={lease.id}>
+                          {leaseLabel(lease)}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3 text-xs text-gray-600 max-w-xs">
+                    {doc.linkConfidence !== null ? (
+                      <>
+                        <span
+                          className={`inline-block px-2 py-0.5 rounded-full border font-medium ${confidenceColor(
+                            doc.linkConfidence
+                          )}`}
+                        >
+                          {Math.round(doc.linkConfidence * 100)}%
+                        </span>
+                        {doc.proposedPropertyId && (
+                          <span className="ml-1">{propertyName(doc.proposedPropertyId)}</span>
+                        )}
+                        {doc.linkReason && <p className="mt-1">{doc.linkReason}</p>}
+                      </>
+                    ) : busy ? (
+                      'Matching...'
+                    ) : (
+                      'No match found'
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+
+export default function BulkUpload() {
+  const router = useRouter();
+  const [files, setFiles] = useState<FileList | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Files that were uploaded before (not added to the batch)
+  const [duplicates, setDuplicates] = useState<Array<{ fileName: string; document: { id: string; fileName: string } }>>([]);
+  const [batchId, setBatchId] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!files || files.length === 0) {
+      setError('Please select at least one file or ZIP archive');
+      return;
+    }
+
+    setUploading(true);
+    setError(null);
+    setDuplicates([]);
+    setBatchId(null);
+
+    try {
+      const formData = new FormData();
+      Array.from(files).forEach((file) => {
+        formData.append('files', file);
+      });
+
+      const response = await fetch('/api/documents/bulk-upload', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (response.ok && data.duplicates.length === 0) {
+        // Processing continues in the background; review it in the grid
+        router.push(`/documents/batches/${data.batchId}`);
+      } else if (response.ok) {
+        // List the duplicates first; the batch (if any) is linked below them
+        setDuplicates(data.duplicates);
+        setBatchId(data.batchId);
+        setUploading(false);
+      } else {
+        const skipped: Array<{ fileName: string; reason: string }> = data.skipped || [];
+        setError(
+          [data.error || 'Upload failed', ...skipped.map((file) => `${file.fileName}: ${file.reason}`)].join('\n')
+        );
+        setUploading(false);
+      }
+    } catch (error) {
+      setError('Network error occurred');
+      setUploading(false);
+    }
+  };
+
+  const fileCount = files ? files.length : 0;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-4">Bulk Upload</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Upload a ZIP archive or many files at once, e.g. the document set for a new
+        acquisition. Each file is processed, classified and matched to a property and
+        lease by its file name, folder and content. You review the proposed links
+        before anything is linked.
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="bulkFiles" className="block text-sm font-medium text-gray-700 mb-2">
+            Select Files or ZIP Archives
+          </label>
+          <input
+            id="bulkFiles"
+            type="file"
+            multiple
+            accept=".zip,.pdf,.docx,.eml,.msg,.txt,.html,.png,.jpg,.jpeg,.tif,.tiff"
+            onChange={(e) => setFiles(e.target.files)}
+            className="block w-full text-sm text-gray-900 border border-gray-300 rounded-lg cursor-pointer bg-gray-50 focus:outline-none file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+            disabled={uploading}
+          />
+          {fileCount > 0 && (
+            <p className="mt-2 text-sm text-gray-600">
+              {fileCount} file{fileCount > 1 ? 's' : ''} selected
+            </p>
+          )}
+        </div>
+
+        <button
+          type="submit"
+          disabled={uploading || fileCount === 0}
+          className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+        >
+          {uploading ? 'Uploading...' : 'Upload and Review'}
+        </button>
+
+        {duplicates.length > 0 && (
+          <div className="p-4 rounded-lg bg-yellow-50 text-yellow-800 border border-yellow-200 space-y-2">
+            <p>
+              {duplicates.length} file{duplicates.length > 1 ? 's were' : ' was'} already uploaded and
+              {duplicates.length > 1 ? ' were' : ' was'} not added again:
+            </p>
+            <ul className="list-disc list-inside text-sm">
+              {duplicates.map((duplicate) => (
+                <li key={duplicate.fileName}>
+                  {duplicate.fileName} &rarr;{' '}
+                  <Link href={`/documents/${duplicate.document.id}`} className="underline">
+                    {duplicate.document.fileName}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+            {batchId ? (
+              <Link href={`/documents/batches/${batchId}`} className="inline-block font-medium underline">
+                Review the new files &rarr;
+              </Link>
+            ) : (
+              <p className="text-sm">No new files to review.</p>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 rounded-lg bg-red-50 text-red-800 border border-red-200 whitespace-pre-line">
+            {error}
+          </div>
+        )}
+      </form>
+    </div>
+  );
+}
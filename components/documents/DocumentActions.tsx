@@ -3,6 +3,10 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { DraftWorkOrderUpdateButton } from '@/components/documents/DraftWorkOrderUpdateButton';
+import { waitForJob } from '@/lib/jobs/client';
+
+// Documents in a lease's version chain share the lease extraction
+const LEASE_CHAIN_TYPES = ['LEASE', 'AMENDMENT', 'ASSIGNMENT'];
 
 interface DocumentActionsProps {
   documentId: string;
@@ -22,40 +26,55 @@ export default function DocumentActions({ documentId, type }: DocumentActionsPro
   );
   const [forceType, setForceType] = useState('');
 
+  /**
+   * POST to a document action route. Queued actions (202 with a jobId) are
+   * polled until the worker finishes; resolves with the job result, or the
+   * response body for actions that ran immediately.
+   */
+  const postAction = async (action: string, body?: unknown): Promise<any> => {
+    const response = await fetch(`/api/documents/${documentId}/${action}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message || data.error || 'Request failed');
+    }
+    if (response.status !== 202 || !data.jobId) {
+      return data;
+    }
+
+    const job = await waitForJob(data.jobId);
+    if (job.status === 'FAILED') {
+      throw new Error(job.lastError || 'Background job failed');
+    }
+    return job.result;
+  };
+
+  const errorText = (error: unknown, fallback: string) =>
+    error instanceof TypeError ? 'Network error occurred' : (error as Error).message || fallback;
+
   const handleClassify = async (manual = false) => {
     setClassifyLoading(true);
     setMessage(null);
 
     try {
-      const body = manual && forceType ? { forceType } : {};
+      const data = await postAction('classify', manual && forceType ? { forceType } : {});
 
-      const response = await fetch(`/api/documents/${documentId}/classify`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
+      setMessage({
+        type: 'success',
+        text: `Document classified as ${data.type}${
+          data.previousType !== data.type ? ` (was ${data.previousType})` : ''
+        }${data.confidence ? ` (confidence: ${Math.round(data.confidence * 100)}%)` : ''}`,
       });
-
-      const data = await response.json();
-
-      if (response.ok) {
-        setMessage({
-          type: 'success',
-          text: `Document classified as ${data.type}${
-            data.previousType !== data.type ? ` (was ${data.previousType})` : ''
-          }${data.confidence ? ` (confidence: ${Math.round(data.confidence * 100)}%)` : ''}`,
-        });
-        // Refresh page to show updated type
-        router.refresh();
-      } else {
-        setMessage({
-          type: 'error',
-          text: data.error || 'Failed to classify document',
-        });
-      }
+      // Refresh page to show updated type
+      router.refresh();
     } catch (error) {
       setMessage({
         type: 'error',
-        text: 'Network error occurred',
+        text: errorText(error, 'Failed to classify document'),
       });
     } finally {
       setClassifyLoading(false);
@@ -67,32 +86,22 @@ export default function DocumentActions({ documentId, type }: DocumentActionsPro
     setMessage(null);
 
     try {
-      const response = await fetch(`/api/documents/${documentId}/extract-lease`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-      });
-
-      const data = await response.json();
+      const data = await postAction('extract-lease');
 
-      if (response.ok) {
-        setMessage({
-          type: 'success',
-          text: `Lease data extracted successfully${
-            data.leaseUpdated ? ' and lease record updated' : ''
-          }!`,
-        });
-        // Refresh page to show extracted data
-        router.refresh();
-      } else {
-        setMessage({
-          type: 'error',
-          text: data.message || data.error || 'Failed to extract lease data',
-        });
-      }
+      setMessage({
+        type: 'success',
+        text: `Lease data extracted successfully${
+          data.proposedChanges
+            ? `; ${data.proposedChanges} lease field change(s) are waiting for review`
+            : ''
+        }!`,
+      });
+      // Refresh page to show extracted data
+      router.refresh();
     } catch (error) {
       setMessage({
         type: 'error',
-        text: 'Network error occurred',
+        text: errorText(error, 'Failed to extract lease data'),
       });
     } finally {
       setExtractLoading(false);
@@ -104,30 +113,18 @@ export default function DocumentActions({ documentId, type }: DocumentActionsPro
     setMessage(null);
 
     try {
-      const response = await fetch(`/api/documents/${documentId}/extract-invoice`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-      });
+      await postAction('extract-invoice');
 
-      const data = await response.json();
-
-      if (response.ok) {
-        setMessage({
-          type: 'success',
-          text: 'Invoice data extracted successfully!',
-        });
-        // Refresh page to show extracted data
-        router.refresh();
-      } else {
-        setMessage({
-          type: 'error',
-          text: data.error || 'Failed to extract invoice',
-        });
-      }
+      setMessage({
+        type: 'success',
+        text: 'Invoice data extracted successfully!',
+      });
+      // Refresh page to show extracted data
+      router.refresh();
     } catch (error) {
       setMessage({
         type: 'error',
-        text: 'Network error occurred',
+        text: errorText(error, 'Failed to extract invoice'),
       });
     } finally {
       setInvoiceLoading(false);
@@ -139,30 +136,18 @@ export default function DocumentActions({ documentId, type }: DocumentActionsPro
     setMessage(null);
 
     try {
-      const response = await fetch(`/api/documents/${documentId}/extract-work-order`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-      });
-
-      const data = await response.json();
+      await postAction('extract-work-order');
 
-      if (response.ok) {
-        setMessage({
-          type: 'success',
-          text: 'Work order data extracted successfully!',
-        });
-        // Refresh page to show extracted data
-        router.refresh();
-      } else {
-        setMessage({
-          type: 'error',
-          text: data.error || 'Failed to extract work order',
-        });
-      }
+      setMessage({
+        type: 'success',
+        text: 'Work order data extracted successfully!',
+      });
+      // Refresh page to show extracted data
+      router.refresh();
     } catch (error) {
       setMessage({
         type: 'error',
-        text: 'Network error occurred',
+        text: errorText(error, 'Failed to extract work order'),
       });
     } finally {
       setWorkOrderLoading(false);
@@ -256,6 +241,7 @@ export default function DocumentActions({ documentId, type }: DocumentActionsPro
                 <option value="">Select type...</option>
                 <option value="LEASE">Lease</option>
                 <option value="AMENDMENT">Amendment</option>
+                <option value="ASSIGNMENT">Assignment</option>
                 <option value="COI">COI</option>
                 <option value="INVOICE">Invoice</option>
                 <option value="EMAIL">Email</option>
@@ -276,12 +262,14 @@ export default function DocumentActions({ documentId, type }: DocumentActionsPro
         </div>
       </div>
 
-      {/* Extraction Section (for LEASE type) */}
-      {type === 'LEASE' && (
+      {/* Extraction Section (for the lease, its amendments and assignments) */}
+      {LEASE_CHAIN_TYPES.includes(type) && (
         <div className="mb-6">
           <h3 className="text-sm font-medium text-gray-700 mb-2">Lease Data Extraction</h3>
           <p className="text-sm text-gray-600 mb-3">
-            Extract structured data from this lease document (tenant name, dates, rent, etc.)
+            {type === 'LEASE'
+              ? 'Extract structured data from this lease document (tenant name, dates, rent, etc.)'
+              : 'Extract the effective date and the terms this document changes. Later amendments override earlier terms in the lease overview.'}
           </p>
           <button
             onClick={handleExtract}
@@ -337,9 +325,9 @@ export default function DocumentActions({ documentId, type }: DocumentActionsPro
         </div>
       )}
 
-      {type !== 'LEASE' && type !== 'INVOICE' && type !== 'WORK_ORDER' && (
+      {!LEASE_CHAIN_TYPES.includes(type) && type !== 'INVOICE' && type !== 'WORK_ORDER' && (
         <div className="text-sm text-gray-500 bg-gray-50 border border-gray-200 rounded p-3">
-          Data extraction is available for documents classified as LEASE, INVOICE, or WORK_ORDER.
+          Data extraction is available for documents classified as LEASE, AMENDMENT, ASSIGNMENT, INVOICE, or WORK_ORDER.
           {type === 'OTHER' && ' Try auto-classifying this document first.'}
         </div>
       )}
@@ -46,6 +46,7 @@ export default function DocumentFilters() {
             <option value="">All Types</option>
             <option value="LEASE">Lease</option>
             <option value="AMENDMENT">Amendment</option>
+            <option value="ASSIGNMENT">Assignment</option>
             <option value="COI">COI</option>
             <option value="INVOICE">Invoice</option>
             <option value="EMAIL">Email</option>
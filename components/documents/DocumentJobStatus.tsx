@@ -0,0 +1,81 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { JobSummary } from '@/lib/jobs/types';
+
+const POLL_INTERVAL_MS = 3000;
+
+const JOB_LABELS: Record<string, string> = {
+  INGEST_DOCUMENT: 'Extracting text',
+  CLASSIFY_DOCUMENT: 'Classifying',
+  EXTRACT_LEASE: 'Extracting lease data',
+  EXTRACT_INVOICE: 'Extracting invoice data',
+  EXTRACT_WORK_ORDER: 'Extracting work order data',
+  PROPOSE_DOCUMENT_LINKS: 'Matching to property and lease',
+};
+
+/**
+ * Shows queued/running background jobs for a document and refreshes the
+ * page when the last one finishes
+ */
+export default function DocumentJobStatus({ documentId }: { documentId: string }) {
+  const router = useRouter();
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let hadActiveJobs = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/jobs?documentId=${documentId}&status=QUEUED,RUNNING`);
+        const data = await response.json();
+        if (cancelled) return;
+
+        const active: JobSummary[] = response.ok ? data.items : [];
+        setJobs(active);
+
+        if (active.length > 0) {
+          hadActiveJobs = true;
+        } else if (hadActiveJobs) {
+          hadActiveJobs = false;
+          router.refresh();
+        }
+      } catch (error) {
+        console.error('Error polling document jobs:', error);
+      }
+      if (!cancelled) {
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [documentId, router]);
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border bg-yellow-50 border-yellow-200 text-yellow-800 text-sm space-y-1">
+      {jobs.map((job) => (
+        <p key={job.id}>
+          <span className="font-medium">{JOB_LABELS[job.type] || job.type}</span>
+          {job.status === 'QUEUED' ? ' (queued)' : '...'}
+          {job.attempts > 0 && job.lastError && (
+            <span className="text-yellow-700">
+              {' '}
+              Retrying after error (attempt {job.attempts}/{job.maxAttempts}): {job.lastError}
+            </span>
+          )}
+        </p>
+      ))}
+    </div>
+  );
+}
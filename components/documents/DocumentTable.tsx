@@ -7,6 +7,7 @@ interface Document {
   status: string;
   leaseId: string | null;
   propertyId: string | null;
+  linkStatus: string | null;
   uploadedAt: string;
 }
 
@@ -37,6 +38,7 @@ export default function DocumentTable({ documents }: DocumentTableProps) {
     const colors = {
       LEASE: 'bg-purple-100 text-purple-800 border-purple-200',
       AMENDMENT: 'bg-indigo-100 text-indigo-800 border-indigo-200',
+      ASSIGNMENT: 'bg-fuchsia-100 text-fuchsia-800 border-fuchsia-200',
       COI: 'bg-orange-100 text-orange-800 border-orange-200',
       INVOICE: 'bg-pink-100 text-pink-800 border-pink-200',
       EMAIL: 'bg-cyan-100 text-cyan-800 border-cyan-200',
@@ -123,6 +125,11 @@ export default function DocumentTable({ documents }: DocumentTableProps) {
                 ) : (
                   <span className="text-gray-400">—</span>
                 )}
+                {doc.linkStatus === 'AUTO_LINKED' && (
+                  <span className="ml-2 text-xs text-gray-500" title="Linked automatically from the document's content">
+                    auto
+                  </span>
+                )}
               </td>
               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                 {doc.propertyId ? (
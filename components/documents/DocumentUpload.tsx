@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { waitForJob } from '@/lib/jobs/client';
 
 export default function DocumentUpload() {
   const router = useRouter();
@@ -38,9 +39,21 @@ export default function DocumentUpload() {
       const data = await response.json();
 
       if (response.ok) {
+        const documents: Array<{ fileName: string; jobId: string | null; duplicate: boolean }> =
+          data.documents;
+        // Files uploaded before return their existing document and are not re-processed
+        const uploaded = documents.filter((doc) => !doc.duplicate);
+        const duplicates = documents.filter((doc) => doc.duplicate);
+        const duplicateNote =
+          duplicates.length > 0
+            ? ` Already uploaded: ${duplicates.map((doc) => doc.fileName).join(', ')}.`
+            : '';
         setMessage({
           type: 'success',
-          text: `Successfully uploaded ${data.documents.length} file(s)`,
+          text:
+            uploaded.length > 0
+              ? `Uploaded ${uploaded.length} file(s). Processing...${duplicateNote}`
+              : `No new files.${duplicateNote}`,
         });
         setFiles(null);
 
@@ -48,10 +61,26 @@ export default function DocumentUpload() {
         const fileInput = document.getElementById('documentFiles') as HTMLInputElement;
         if (fileInput) fileInput.value = '';
 
-        // Refresh the page to show new documents
-        setTimeout(() => {
-          router.refresh();
-        }, 1000);
+        // Show the new documents right away, then again once processed
+        router.refresh();
+
+        // Ingestion runs in the background job worker; wait for every file
+        if (uploaded.length === 0) return;
+        const jobs = await Promise.all(uploaded.map((doc) => waitForJob(doc.jobId as string)));
+        const failed = uploaded.filter(
+          (_, index) => jobs[index].status === 'FAILED' || jobs[index].documentStatus === 'FAILED'
+        );
+        setMessage(
+          failed.length === 0
+            ? { type: 'success', text: `Successfully processed ${uploaded.length} file(s).${duplicateNote}` }
+            : {
+                type: 'error',
+                text: `Processed ${uploaded.length - failed.length} of ${uploaded.length} file(s). Failed: ${failed
+                  .map((doc) => doc.fileName)
+                  .join(', ')}`,
+              }
+        );
+        router.refresh();
       } else {
         setMessage({ type: 'error', text: data.error || 'Upload failed' });
       }
@@ -69,7 +98,8 @@ export default function DocumentUpload() {
       <h2 className="text-xl font-semibold mb-4">Upload Documents</h2>
       <p className="text-sm text-gray-600 mb-4">
         Upload one or more documents to your inbox. Documents will be automatically
-        processed and classified.
+        processed and classified. Email attachments (.eml, .msg) are added as
+        separate documents.
       </p>
 
       <form onSubmit={handleSubmit} className="space-y-4">
@@ -81,7 +111,7 @@ export default function DocumentUpload() {
             id="documentFiles"
             type="file"
             multiple
-            accept=".pdf,.doc,.docx,.txt,.png,.jpg,.jpeg"
+            accept=".pdf,.docx,.eml,.msg,.txt,.html,.png,.jpg,.jpeg,.tif,.tiff"
             onChange={(e) => setFiles(e.target.files)}
             className="block w-full text-sm text-gray-900 border border-gray-300 rounded-lg cursor-pointer bg-gray-50 focus:outline-none file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
             disabled={uploading}
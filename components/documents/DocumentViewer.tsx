@@ -0,0 +1,106 @@
+import { findQuoteSpan } from '@/lib/pageText';
+
+type DocumentViewerProps = {
+  documentId: string;
+  fileName: string;
+  mimeType: string | null;
+  page?: number | null; // Page to open the PDF at
+  quote?: string | null; // Cited text to search for in the PDF viewer
+  citedChunk?: { chunkIndex: number; content: string } | null;
+};
+
+// Words of the quote passed to the viewer's search (long phrases rarely match
+// across the PDF's line breaks)
+const SEARCH_WORDS = 8;
+
+/**
+ * Original file, streamed from /api/documents/[id]/file, opened at the
+ * cited page, with the cited passage highlighted next to it
+ */
+export default function DocumentViewer({
+  documentId,
+  fileName,
+  mimeType,
+  page,
+  quote,
+  citedChunk,
+}: DocumentViewerProps) {
+  const fileUrl = `/api/documents/${documentId}/file`;
+
+  // PDF open parameters: #page is widely supported; #search (with phrase
+  // matching) highlights the quote in pdf.js-based viewers such as Firefox's
+  const viewerParams = new URLSearchParams();
+  if (page) viewerParams.set('page', String(page));
+  if (quote) {
+    viewerParams.set('search', quote.split(/\s+/).slice(0, SEARCH_WORDS).join(' '));
+    viewerParams.set('phrase', 'true');
+  }
+  const viewerHash = viewerParams.toString().replace(/\+/g, '%20');
+
+  const quoteSpan = citedChunk && quote ? findQuoteSpan(citedChunk.content, quote) : null;
+
+  return (
+    // Citation links (documentPageHref) scroll here
+    <div
+      id={page || citedChunk ? 'cited-page' : undefined}
+      className="bg-white border border-gray-200 rounded-lg p-6 mb-6 scroll-mt-8"
+    >
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Original Document</h2>
+        <div className="flex gap-3 text-sm">
+          <a
+            href={fileUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 hover:text-blue-800 hover:underline"
+          >
+            Open in new tab
+          </a>
+          <a href={`${fileUrl}?download=1`} className="text-blue-600 hover:text-blue-800 hover:underline">
+            Download
+          </a>
+        </div>
+      </div>
+
+      {citedChunk && (
+        <div className="mb-4 p-4 rounded-lg bg-yellow-50 border border-yellow-300 text-sm text-gray-800">
+          <p className="text-xs font-medium text-yellow-800 mb-2">
+            Cited passage (chunk {citedChunk.chunkIndex}
+            {page ? `, page ${page}` : ''})
+          </p>
+          <p className="whitespace-pre-wrap max-h-64 overflow-y-auto">
+            {quoteSpan ? (
+              <>
+                {citedChunk.content.slice(0, quoteSpan[0])}
+                <mark className="bg-yellow-300 rounded px-0.5">
+                  {citedChunk.content.slice(quoteSpan[0], quoteSpan[1])}
+                </mark>
+                {citedChunk.content.slice(quoteSpan[1])}
+              </>
+            ) : (
+              citedChunk.content
+            )}
+          </p>
+        </div>
+      )}
+
+      {mimeType === 'application/pdf' ? (
+        <iframe
+          // Re-mount when the citation changes so the viewer jumps again
+          key={viewerHash}
+          src={viewerHash ? `${fileUrl}#${viewerHash}` : fileUrl}
+          title={fileName}
+          className="w-full h-[800px] border border-gray-200 rounded"
+        />
+      ) : mimeType?.startsWith('image/') && mimeType !== 'image/tiff' ? (
+        <img src={fileUrl} alt={fileName} className="max-w-full border border-gray-200 rounded" />
+      ) : mimeType === 'text/plain' ? (
+        <iframe src={fileUrl} title={fileName} className="w-full h-[600px] border border-gray-200 rounded" />
+      ) : (
+        <p className="text-sm text-gray-600">
+          This file type cannot be previewed in the browser. Download it to view the original.
+        </p>
+      )}
+    </div>
+  );
+}
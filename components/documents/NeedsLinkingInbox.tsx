@@ -0,0 +1,202 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+
+interface NeedsLinkingDocument {
+  id: string;
+  fileName: string;
+  type: string;
+  propertyId: string | null;
+  proposedPropertyId: string | null;
+  proposedLeaseId: string | null;
+  linkConfidence: number | null;
+  linkReason: string | null;
+}
+
+interface PropertyOption {
+  id: string;
+  name: string;
+}
+
+interface LeaseOption {
+  id: string;
+  propertyId: string;
+  tenantName: string;
+  suite: string | null;
+}
+
+interface LinkSelection {
+  propertyId: string;
+  leaseId: string;
+}
+
+interface NeedsLinkingInboxProps {
+  documents: NeedsLinkingDocument[];
+  total: number;
+  properties: PropertyOption[];
+  leases: LeaseOption[];
+}
+
+function proposedSelection(doc: NeedsLinkingDocument): LinkSelection {
+  return {
+    propertyId: doc.proposedPropertyId || doc.propertyId || '',
+    leaseId: doc.proposedLeaseId || '',
+  };
+}
+
+/**
+ * Documents the matcher could not link on its own, with the proposed
+ * property/lease preselected for a person to confirm or correct
+ */
+export default function NeedsLinkingInbox({ documents, total, properties, leases }: NeedsLinkingInboxProps) {
+  const router = useRouter();
+  // Only rows the reviewer has changed; the rest show the proposal
+  const [selections, setSelections] = useState<Record<string, LinkSelection>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (documents.length === 0) {
+    return null;
+  }
+
+  const saveLink = async (documentId: string, link: LinkSelection | null) => {
+    setSavingId(documentId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/documents/${documentId}/link`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          propertyId: link?.propertyId || null,
+          leaseId: link?.leaseId || null,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to link document');
+      }
+    } catch (error) {
+      setError('Network error occurred');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const leaseLabel = (lease: LeaseOption) => (lease.suite ? `${lease.tenantName} (${lease.suite})` : lease.tenantName);
+
+  return (
+    <div className="bg-white border border-orange-200 rounded-lg p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-1">Needs Linking ({total})</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        These documents matched a property or lease with low confidence, or matched more
+        than one. Confirm or correct the proposed link.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-red-50 text-red-800 border border-red-200 text-sm">{error}</div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Document
+              </th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Proposed Match
+              </th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Property
+              </th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Lease
+              </th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {documents.map((doc) => {
+              const selection = selections[doc.id] || proposedSelection(doc);
+              const saving = savingId === doc.id;
+              const setSelection = (changes: Partial<LinkSelection>) =>
+                setSelections((current) => ({ ...current, [doc.id]: { ...selection, ...changes } }));
+
+              return (
+                <tr key={doc.id}>
+                  <td className="px-4 py-3 text-sm">
+                    <Link href={`/documents/${doc.id}`} className="text-blue-600 hover:text-blue-800 hover:underline">
+                      {doc.fileName}
+                    </Link>
+                    <p className="text-xs text-gray-500">{doc.type}</p>
+                  </td>
+                  <td className="px-4 py-3 text-xs text-gray-600 max-w-xs">
+                    {doc.linkConfidence !== null && (
+                      <span className="font-medium">{Math.round(doc.linkConfidence * 100)}%</span>
+                    )}
+                    {doc.linkReason && <p>{doc.linkReason}</p>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={selection.propertyId}
+                      disabled={saving}
+                      onChange={(e) => setSelection({ propertyId: e.target.value, leaseId: '' })}
+                      className="px-2 py-1 text-sm border border-gray-300 rounded-lg max-w-[14rem]"
+                    >
+                      <option value="">Select property...</option>
+                      {properties.map((property) => (
+                        <option key={property.id} value={property.id}>
+                          {property.name}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={selection.leaseId}
+                      disabled={saving || !selection.propertyId}
+                      onChange={(e) => setSelection({ leaseId: e.target.value })}
+                      className="px-2 py-1 text-sm border border-gray-300 rounded-lg max-w-[14rem]"
+                    >
+                      <option value="">{selection.propertyId ? 'Property only' : '—'}</option>
+                      {leases
+                        .filter((lease) => lease.propertyId === selection.propertyId)
+                        .map((lease) => (
+                          <option key={lease.id} value={lease.id}>
+                            {leaseLabel(lease)}
+                          </option>
+                        ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-right space-x-2">
+                    <button
+                      onClick={() => saveLink(doc.id, selection)}
+                      disabled={saving || !selection.propertyId}
+                      className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      Link
+                    </button>
+                    <button
+                      onClick={() => saveLink(doc.id, null)}
+                      disabled={saving}
+                      className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      title="Leave this document unlinked"
+                    >
+                      Dismiss
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import NavLink from './NavLink';
 
 export default function AppHeader() {
   return (
-    <header className="border-b border-gray-200 bg-white h-14 flex items-center justify-between px-6">
+    <header className="print:hidden border-b border-gray-200 bg-white h-14 flex items-center justify-between px-6">
       <Link
         href="/dashboard"
         className="font-semibold text-lg text-gray-900 hover:opacity-80 transition-opacity"
@@ -16,12 +16,21 @@ export default function AppHeader() {
         <NavLink href="/dashboard" exact>
           Home
         </NavLink>
+        <NavLink href="/leases/reviews">
+          Lease Review
+        </NavLink>
+        <NavLink href="/leases/rent-adjustments">
+          Rent Adjustments
+        </NavLink>
         <NavLink href="/maintenance">
           Maintenance
         </NavLink>
         <NavLink href="/maintenance/automation" exact>
           Automation
         </NavLink>
+        <NavLink href="/admin/llm-usage">
+          LLM Usage
+        </NavLink>
       </nav>
     </header>
   );
@@ -0,0 +1,120 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { CpiTerms } from '@/lib/cpiEscalation';
+
+interface CpiEscalationFormProps {
+  leaseId: string;
+  terms: CpiTerms | null;
+}
+
+function toInput(value: number | null | undefined): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+/**
+ * A lease's CPI escalation rules: index series, floor and cap on the annual
+ * increase, lookback months and how early the adjustment is flagged
+ */
+export default function CpiEscalationForm({ leaseId, terms }: CpiEscalationFormProps) {
+  const router = useRouter();
+  const [editing, setEditing] = useState(false);
+  const [series, setSeries] = useState(terms?.series || 'CPI-U');
+  const [floorPercent, setFloorPercent] = useState(toInput(terms?.floorPercent));
+  const [capPercent, setCapPercent] = useState(toInput(terms?.capPercent));
+  const [lookbackMonths, setLookbackMonths] = useState(toInput(terms?.lookbackMonths ?? 2));
+  const [noticeDays, setNoticeDays] = useState(toInput(terms?.noticeDays ?? 60));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/leases/${leaseId}/cpi-escalation`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ series, floorPercent, capPercent, lookbackMonths, noticeDays }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setEditing(false);
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to save CPI escalation');
+      }
+    } catch (error) {
+      setError('Network error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!editing) {
+    return (
+      <div className="flex items-center gap-3 text-sm">
+        <span className="text-gray-600">
+          {terms
+            ? `CPI escalation: ${terms.series}` +
+              (terms.floorPercent !== null ? `, floor ${terms.floorPercent}%` : '') +
+              (terms.capPercent !== null ? `, cap ${terms.capPercent}%` : '') +
+              `, ${terms.lookbackMonths}-month lookback, flagged ${terms.noticeDays} days ahead`
+            : 'No CPI escalation.'}
+        </span>
+        <button
+          type="button"
+          onClick={() => setEditing(true)}
+          className="text-blue-600 hover:text-blue-800 print:hidden"
+        >
+          {terms ? 'Edit' : 'Set up CPI escalation'}
+        </button>
+      </div>
+    );
+  }
+
+  const field = (label: string, value: string, onChange: (value: string) => void, width = 'w-24') => (
+    <label className="text-xs text-gray-600">
+      {label}
+      <input
+        type={label === 'Series' ? 'text' : 'number'}
+        step="any"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={`block mt-1 px-2 py-1 text-sm border border-gray-300 rounded ${width}`}
+      />
+    </label>
+  );
+
+  return (
+    <form onSubmit={save} className="print:hidden">
+      {error && (
+        <div className="mb-3 p-3 rounded-lg bg-red-50 text-red-800 border border-red-200 text-sm">{error}</div>
+      )}
+      <div className="flex flex-wrap items-end gap-3">
+        {field('Series', series, setSeries, 'w-28')}
+        {field('Floor %', floorPercent, setFloorPercent)}
+        {field('Cap %', capPercent, setCapPercent)}
+        {field('Lookback months', lookbackMonths, setLookbackMonths)}
+        {field('Notice days', noticeDays, setNoticeDays)}
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setEditing(false)}
+          className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
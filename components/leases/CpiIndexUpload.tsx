@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+/**
+ * Import CPI index values from a CSV with `month` (YYYY-MM) and `value`
+ * columns; rows without a `series` column use the series entered here
+ */
+export default function CpiIndexUpload() {
+  const router = useRouter();
+  const [file, setFile] = useState<File | null>(null);
+  const [series, setSeries] = useState('CPI-U');
+  const [uploading, setUploading] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!file) {
+      setMessage({ type: 'error', text: 'Please select a file' });
+      return;
+    }
+
+    setUploading(true);
+    setMessage(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('series', series);
+
+      const response = await fetch('/api/cpi-index', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        const skipped = data.skipped?.length ? ` (${data.skipped.length} rows skipped)` : '';
+        setMessage({ type: 'success', text: `${data.message}${skipped}` });
+        setFile(null);
+        // Reset file input
+        const fileInput = document.getElementById('cpiIndexFile') as HTMLInputElement;
+        if (fileInput) fileInput.value = '';
+        router.refresh();
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Upload failed' });
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Network error occurred' });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          id="cpiIndexFile"
+          type="file"
+          accept=".csv"
+          onChange={(e) => setFile(e.target.files?.[0] || null)}
+          className="block flex-1 text-sm text-gray-900 border border-gray-300 rounded-lg cursor-pointer bg-gray-50 focus:outline-none"
+          disabled={uploading}
+        />
+        <label className="text-sm text-gray-700">
+          Series{' '}
+          <input
+            type="text"
+            value={series}
+            onChange={(e) => setSeries(e.target.value)}
+            className="px-2 py-1 text-sm border border-gray-300 rounded w-28"
+            disabled={uploading}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={uploading || !file}
+          className="bg-green-600 text-white px-4 py-2 rounded hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors text-sm"
+        >
+          {uploading ? 'Uploading...' : 'Import CPI'}
+        </button>
+      </div>
+
+      {message && (
+        <div
+          className={`p-4 rounded ${
+            message.type === 'success'
+              ? 'bg-green-100 text-green-800 border border-green-200'
+              : 'bg-red-100 text-red-800 border border-red-200'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+    </form>
+  );
+}
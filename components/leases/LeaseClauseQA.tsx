@@ -1,6 +1,9 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
+import { postEventStream } from '@/lib/sse';
+import { documentPageHref, formatPageSpan } from '@/lib/pageText';
 
 interface Citation {
   leaseId: string;
@@ -10,6 +13,7 @@ interface Citation {
   sectionLabel?: string | null;
   textSnippet: string;
   pageNumber?: number | null;
+  documentId?: string;
 }
 
 interface QAResponse {
@@ -34,6 +38,7 @@ export default function LeaseClauseQA({ leaseId, tenantName }: LeaseClauseQAProp
   const [question, setQuestion] = useState('');
   const [loading, setLoading] = useState(false);
   const [response, setResponse] = useState<QAResponse | null>(null);
+  const [streamingAnswer, setStreamingAnswer] = useState('');
   const [error, setError] = useState<string | null>(null);
 
   const handleAsk = async (questionText: string) => {
@@ -42,24 +47,17 @@ export default function LeaseClauseQA({ leaseId, tenantName }: LeaseClauseQAProp
     setLoading(true);
     setError(null);
     setResponse(null);
+    setStreamingAnswer('');
 
     try {
-      const res = await fetch('/api/leases/qa', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      const data = await postEventStream<QAResponse>(
+        '/api/leases/qa',
+        {
           question: questionText.trim(),
           leaseId,
-        }),
-      });
-
-      const data = await res.json();
-
-      if (!res.ok) {
-        throw new Error(data.error || 'Failed to get answer');
-      }
+        },
+        (text) => setStreamingAnswer((prev) => prev + text)
+      );
 
       setResponse(data);
       setQuestion('');
@@ -153,6 +151,13 @@ export default function LeaseClauseQA({ leaseId, tenantName }: LeaseClauseQAProp
         </div>
       )}
 
+      {/* Streaming answer (replaced by the full response when done) */}
+      {!response && streamingAnswer && (
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <p className="text-sm text-gray-900 whitespace-pre-wrap">{streamingAnswer}</p>
+        </div>
+      )}
+
       {/* Response */}
       {response && (
         <div className="bg-white border border-gray-200 rounded-lg p-4">
@@ -180,10 +185,18 @@ export default function LeaseClauseQA({ leaseId, tenantName }: LeaseClauseQAProp
                     key={idx}
                     className="text-xs bg-gray-50 rounded p-2 border border-gray-100"
                   >
-                    {citation.sectionLabel && (
-                      <p className="font-medium text-gray-700 mb-1">
-                        {citation.sectionLabel}
-                      </p>
+                    {(citation.sectionLabel || citation.pageNumber) && (
+                      <div className="flex items-center justify-between gap-2 mb-1">
+                        <p className="font-medium text-gray-700">{citation.sectionLabel}</p>
+                        {citation.pageNumber && citation.documentId && (
+                          <Link
+                            href={documentPageHref(citation.documentId, citation.pageNumber, { quote: citation.textSnippet })}
+                            className="text-blue-600 hover:text-blue-800 hover:underline whitespace-nowrap"
+                          >
+                            {formatPageSpan(citation.pageNumber)}
+                          </Link>
+                        )}
+                      </div>
                     )}
                     <p className="text-gray-600 line-clamp-2">
                       {citation.textSnippet}
@@ -15,8 +15,15 @@ export default function LeaseOverviewActions({
   tenantName,
 }: LeaseOverviewActionsProps) {
   return (
-    <div className="flex gap-2 flex-wrap">
+    <div className="flex gap-2 flex-wrap print:hidden">
       <DraftCommunicationButton leaseId={leaseId} tenantName={tenantName} />
+      {/* The layout hides navigation and actions when printing, leaving the abstract */}
+      <button
+        onClick={() => window.print()}
+        className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+      >
+        Print Abstract
+      </button>
       <Link
         href={`/documents?leaseId=${leaseId}`}
         className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
@@ -0,0 +1,269 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import type { LeaseChangeSetReview, LeaseFieldChangeReview, LeaseReviewDecision } from '@/lib/leaseReview';
+import { documentPageHref } from '@/lib/pageText';
+
+interface LeaseReviewQueueProps {
+  changeSets: LeaseChangeSetReview[];
+}
+
+interface FieldDraft {
+  decision: LeaseReviewDecision;
+  value: string; // Edited value, for EDITED
+}
+
+// The reviewer's name is remembered between visits
+const REVIEWER_STORAGE_KEY = 'leaseReviewer';
+
+function formatValue(change: Pick<LeaseFieldChangeReview, 'kind'>, value: string | number | null): string {
+  if (value === null || value === '') return '—';
+  if (change.kind === 'number') return `$${Number(value).toLocaleString()}`;
+  return String(value);
+}
+
+const DECISION_STYLES: Record<string, string> = {
+  ACCEPTED: 'bg-green-100 text-green-800',
+  EDITED: 'bg-blue-100 text-blue-800',
+  REJECTED: 'bg-red-100 text-red-800',
+  PENDING: 'bg-yellow-100 text-yellow-800',
+};
+
+/**
+ * Extraction change sets as diffs against the Lease record. Each pending
+ * field can be accepted, edited or rejected; decisions are submitted per
+ * change set under the reviewer's name.
+ */
+export default function LeaseReviewQueue({ changeSets }: LeaseReviewQueueProps) {
+  const router = useRouter();
+  const [reviewer, setReviewer] = useState('');
+  const [drafts, setDrafts] = useState<Record<string, FieldDraft>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReviewer(window.localStorage.getItem(REVIEWER_STORAGE_KEY) || '');
+  }, []);
+
+  const updateReviewer = (name: string) => {
+    setReviewer(name);
+    window.localStorage.setItem(REVIEWER_STORAGE_KEY, name);
+  };
+
+  const setDraft = (change: LeaseFieldChangeReview, draft: Partial<FieldDraft>) =>
+    setDrafts((current) => {
+      const base = current[change.id] || { decision: 'ACCEPTED', value: String(change.proposedValue) };
+      return { ...current, [change.id]: { ...base, ...draft } };
+    });
+
+  const submit = async (changeSet: LeaseChangeSetReview) => {
+    const decisions = changeSet.changes
+      .filter((change) => change.decision === 'PENDING' && drafts[change.id])
+      .map((change) => ({
+        changeId: change.id,
+        decision: drafts[change.id].decision,
+        value: drafts[change.id].decision === 'EDITED' ? drafts[change.id].value : undefined,
+      }));
+
+    if (!reviewer.trim()) {
+      setError('Enter your name before submitting decisions');
+      return;
+    }
+    if (decisions.length === 0) {
+      setError('Choose accept, edit or reject for at least one field');
+      return;
+    }
+
+    setSavingId(changeSet.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/leases/reviews/${changeSet.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reviewer: reviewer.trim(), decisions }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to save decisions');
+      }
+    } catch (error) {
+      setError('Network error occurred');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-6">
+        <label htmlFor="reviewer" className="text-sm font-medium text-gray-700">
+          Reviewer
+        </label>
+        <input
+          id="reviewer"
+          type="text"
+          value={reviewer}
+          onChange={(e) => updateReviewer(e.target.value)}
+          placeholder="Your name"
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg"
+        />
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-red-50 text-red-800 border border-red-200 text-sm">{error}</div>
+      )}
+
+      {changeSets.length === 0 && (
+        <p className="text-sm text-gray-600">No change sets to show.</p>
+      )}
+
+      <div className="space-y-6">
+        {changeSets.map((changeSet) => {
+          const pending = changeSet.status === 'PENDING';
+          const saving = savingId === changeSet.id;
+
+          return (
+            <div key={changeSet.id} className="bg-white border border-gray-200 rounded-lg p-6">
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <Link
+                    href={`/leases/${changeSet.lease.id}/overview`}
+                    className="text-lg font-semibold text-blue-600 hover:text-blue-800 hover:underline"
+                  >
+                    {changeSet.lease.tenantName}
+                  </Link>
+                  <p className="text-sm text-gray-600">
+                    {changeSet.lease.propertyName}
+                    {changeSet.lease.suite && ` · Suite ${changeSet.lease.suite}`}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Extracted {new Date(changeSet.createdAt).toLocaleString()}
+                    {changeSet.document && (
+                      <>
+                        {' from '}
+                        <Link
+                          href={`/documents/${changeSet.document.id}`}
+                          className="hover:text-blue-700 hover:underline"
+                        >
+                          {changeSet.document.fileName}
+                        </Link>
+                      </>
+                    )}
+                  </p>
+                </div>
+                <span
+                  className={`px-2 py-1 text-xs font-semibold rounded ${DECISION_STYLES[changeSet.status] || 'bg-gray-100 text-gray-700'}`}
+                >
+                  {changeSet.status}
+                  {changeSet.reviewedBy && ` · ${changeSet.reviewedBy}`}
+                </span>
+              </div>
+
+              <table className="min-w-full divide-y divide-gray-200 mb-4">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Field</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Current</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Proposed</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Decision</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {changeSet.changes.map((change) => {
+                    const draft = drafts[change.id];
+
+                    return (
+                      <tr key={change.id}>
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">{change.label}</td>
+                        <td className="px-4 py-3 text-sm text-red-700 line-through decoration-red-300">
+                          {formatValue(change, change.currentValue)}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          <span className="text-green-700 font-medium">{formatValue(change, change.proposedValue)}</span>
+                          {change.citation && change.sourceDocumentId && (
+                            <Link
+                              href={documentPageHref(change.sourceDocumentId, change.citation.page, change.citation)}
+                              className="block text-xs text-gray-500 hover:text-blue-700 hover:underline max-w-xs truncate"
+                              title={change.citation.quote}
+                            >
+                              &ldquo;{change.citation.quote}&rdquo;
+                              {` · ${Math.round(change.citation.confidence * 100)}%`}
+                            </Link>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          {change.decision !== 'PENDING' ? (
+                            <div>
+                              <span className={`px-2 py-0.5 text-xs font-semibold rounded ${DECISION_STYLES[change.decision]}`}>
+                                {change.decision}
+                              </span>
+                              {change.decision === 'EDITED' && (
+                                <span className="ml-2">{formatValue(change, change.appliedValue)}</span>
+                              )}
+                              <p className="text-xs text-gray-500 mt-1">
+                                {change.reviewedBy}
+                                {change.reviewedAt && `, ${new Date(change.reviewedAt).toLocaleDateString()}`}
+                              </p>
+                            </div>
+                          ) : pending ? (
+                            <div className="flex items-center gap-2">
+                              {(['ACCEPTED', 'EDITED', 'REJECTED'] as const).map((decision) => (
+                                <button
+                                  key={decision}
+                                  type="button"
+                                  disabled={saving}
+                                  onClick={() => setDraft(change, { decision })}
+                                  className={`px-2 py-1 text-xs rounded border ${
+                                    draft?.decision === decision
+                                      ? `${DECISION_STYLES[decision]} border-transparent font-semibold`
+                                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                                  }`}
+                                >
+                                  {decision === 'ACCEPTED' ? 'Accept' : decision === 'EDITED' ? 'Edit' : 'Reject'}
+                                </button>
+                              ))}
+                              {draft?.decision === 'EDITED' && (
+                                <input
+                                  type={change.kind === 'date' ? 'date' : change.kind === 'number' ? 'number' : 'text'}
+                                  value={draft.value}
+                                  disabled={saving}
+                                  onChange={(e) => setDraft(change, { value: e.target.value })}
+                                  className="px-2 py-1 text-sm border border-gray-300 rounded w-36"
+                                />
+                              )}
+                            </div>
+                          ) : (
+                            <span className="text-xs text-gray-500">Not reviewed</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              {pending && (
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    disabled={saving}
+                    onClick={() => submit(changeSet)}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : 'Apply Decisions'}
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
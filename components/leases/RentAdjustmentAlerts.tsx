@@ -0,0 +1,141 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { getSeverityColor } from '@/lib/alerts';
+import type { Alert } from '@/lib/types';
+
+interface RentAdjustmentAlertsProps {
+  alerts: Alert[];
+}
+
+/**
+ * Rent adjustment alerts. Each computed adjustment can be drafted as a
+ * RENT_ADJUSTMENT notice to the tenant, and applied as a CPI rent step.
+ */
+export default function RentAdjustmentAlerts({ alerts }: RentAdjustmentAlertsProps) {
+  const router = useRouter();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, { subject: string; body: string }>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const draftNotice = async (alert: Alert) => {
+    setBusyId(alert.id);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/communications/draft', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ intent: 'RENT_ADJUSTMENT', leaseId: alert.leaseId }),
+      });
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setDrafts((current) => ({ ...current, [alert.id]: { subject: data.subject, body: data.body } }));
+      } else {
+        setError(data.error || 'Failed to generate draft');
+      }
+    } catch (error) {
+      setError('Network error occurred');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const applyAdjustment = async (alert: Alert) => {
+    setBusyId(alert.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/leases/${alert.leaseId}/cpi-escalation`, { method: 'POST' });
+      const data = await response.json();
+
+      if (response.ok) {
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to apply adjustment');
+      }
+    } catch (error) {
+      setError('Network error occurred');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-red-50 text-red-800 border border-red-200 text-sm">{error}</div>
+      )}
+
+      {alerts.length === 0 && (
+        <p className="text-sm text-gray-600">No CPI rent adjustments are due.</p>
+      )}
+
+      <div className="space-y-4">
+        {alerts.map((alert) => {
+          const busy = busyId === alert.id;
+          const draft = drafts[alert.id];
+
+          return (
+            <div key={alert.id} className="bg-white border border-gray-200 rounded-lg p-5">
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <span className={`px-2 py-0.5 text-xs font-semibold rounded border ${getSeverityColor(alert.severity)}`}>
+                    {alert.severity}
+                  </span>
+                  <p className="mt-2 text-sm font-medium text-gray-900">{alert.message}</p>
+                  <p className="text-sm text-gray-600 mt-1">{alert.recommendedAction}</p>
+                  {alert.leaseId && (
+                    <Link
+                      href={`/leases/${alert.leaseId}/overview`}
+                      className="text-xs text-blue-600 hover:text-blue-800 hover:underline"
+                    >
+                      View lease
+                    </Link>
+                  )}
+                </div>
+                {alert.newMonthlyRent !== undefined && (
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => draftNotice(alert)}
+                      className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm disabled:opacity-50"
+                    >
+                      Draft Notice
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => applyAdjustment(alert)}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+                    >
+                      {busy ? 'Working...' : 'Apply Rent Step'}
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {draft && (
+                <div className="mt-4 border-t border-gray-200 pt-4">
+                  <p className="text-sm font-medium text-gray-900">{draft.subject}</p>
+                  <pre className="mt-2 text-sm text-gray-700 whitespace-pre-wrap font-sans">{draft.body}</pre>
+                  <button
+                    type="button"
+                    onClick={() => navigator.clipboard.writeText(`${draft.subject}\n\n${draft.body}`)}
+                    className="mt-2 text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    Copy to clipboard
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
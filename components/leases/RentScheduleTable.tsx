@@ -0,0 +1,255 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { RentStepType } from '@/lib/rentSchedule';
+
+export interface RentStepRow {
+  id: string;
+  effectiveDate: string; // YYYY-MM-DD
+  monthlyRent: number;
+  annualRent: number;
+  ratePerSquareFoot: number | null;
+  stepType: string;
+  escalationPercent: number | null;
+  source: string;
+  note: string | null;
+}
+
+interface RentScheduleTableProps {
+  leaseId: string;
+  steps: RentStepRow[];
+}
+
+const STEP_TYPE_LABELS: Record<RentStepType, string> = {
+  FIXED: 'Fixed',
+  PERCENTAGE: 'Percentage',
+  CPI: 'CPI',
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  MANUAL: 'Manual',
+  EXTRACTION: 'Extracted',
+  CPI: 'CPI adjustment',
+};
+
+function formatMoney(amount: number): string {
+  return `$${amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * A lease's rent steps with the one in effect today highlighted. Manual
+ * steps can be added, and manual and CPI steps removed; extracted ones are
+ * rebuilt from the lease's documents.
+ */
+export default function RentScheduleTable({ leaseId, steps }: RentScheduleTableProps) {
+  const router = useRouter();
+  const [showForm, setShowForm] = useState(false);
+  const [effectiveDate, setEffectiveDate] = useState('');
+  const [stepType, setStepType] = useState<string>('FIXED');
+  const [monthlyRent, setMonthlyRent] = useState('');
+  const [escalationPercent, setEscalationPercent] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const today = new Date().toISOString().split('T')[0];
+  const current = [...steps].reverse().find((step) => step.effectiveDate <= today);
+
+  const send = async (url: string, init: RequestInit, fallbackError: string) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json();
+
+      if (response.ok) {
+        router.refresh();
+        return true;
+      }
+      setError(data.error || fallbackError);
+    } catch (error) {
+      setError('Network error occurred');
+    } finally {
+      setSaving(false);
+    }
+    return false;
+  };
+
+  const addStep = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = await send(
+      `/api/leases/${leaseId}/rent-steps`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ effectiveDate, stepType, monthlyRent, escalationPercent, note }),
+      },
+      'Failed to add rent step'
+    );
+    if (added) {
+      setShowForm(false);
+      setEffectiveDate('');
+      setMonthlyRent('');
+      setEscalationPercent('');
+      setNote('');
+    }
+  };
+
+  const deleteStep = (step: RentStepRow) =>
+    send(`/api/leases/${leaseId}/rent-steps/${step.id}`, { method: 'DELETE' }, 'Failed to delete rent step');
+
+  const rebuild = () =>
+    send(`/api/leases/${leaseId}/rent-steps/rebuild`, { method: 'POST' }, 'Failed to rebuild rent steps');
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-red-50 text-red-800 border border-red-200 text-sm">{error}</div>
+      )}
+
+      {steps.length === 0 ? (
+        <p className="text-sm text-gray-600 mb-4">
+          No rent steps yet. Contractual rent is the base rent until steps are extracted or added.
+        </p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 mb-4">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Effective</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Monthly</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Annual</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Per SF</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source</th>
+              <th className="px-4 py-2 print:hidden" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {steps.map((step) => (
+              <tr key={step.id} className={step === current ? 'bg-green-50' : undefined}>
+                <td className="px-4 py-2 text-sm text-gray-900">
+                  {step.effectiveDate}
+                  {step === current && <span className="ml-2 text-xs text-green-700">current</span>}
+                </td>
+                <td className="px-4 py-2 text-sm font-medium text-gray-900">{formatMoney(step.monthlyRent)}</td>
+                <td className="px-4 py-2 text-sm text-gray-700">{formatMoney(step.annualRent)}</td>
+                <td className="px-4 py-2 text-sm text-gray-700">
+                  {step.ratePerSquareFoot !== null ? formatMoney(step.ratePerSquareFoot) : '—'}
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-700">
+                  {STEP_TYPE_LABELS[step.stepType as RentStepType] || step.stepType}
+                  {step.escalationPercent !== null && ` (${step.escalationPercent}%)`}
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-500" title={step.note || undefined}>
+                  {SOURCE_LABELS[step.source] || step.source}
+                </td>
+                <td className="px-4 py-2 text-right print:hidden">
+                  {step.source !== 'EXTRACTION' && (
+                    <button
+                      type="button"
+                      disabled={saving}
+                      onClick={() => deleteStep(step)}
+                      className="text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {showForm && (
+        <form onSubmit={addStep} className="flex flex-wrap items-end gap-3 mb-4 print:hidden">
+          <label className="text-xs text-gray-600">
+            Effective date
+            <input
+              type="date"
+              required
+              value={effectiveDate}
+              onChange={(e) => setEffectiveDate(e.target.value)}
+              className="block mt-1 px-2 py-1 text-sm border border-gray-300 rounded"
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Monthly rent
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              required
+              value={monthlyRent}
+              onChange={(e) => setMonthlyRent(e.target.value)}
+              className="block mt-1 px-2 py-1 text-sm border border-gray-300 rounded w-32"
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Type
+            <select
+              value={stepType}
+              onChange={(e) => setStepType(e.target.value)}
+              className="block mt-1 px-2 py-1 text-sm border border-gray-300 rounded"
+            >
+              {(Object.keys(STEP_TYPE_LABELS) as RentStepType[]).map((type) => (
+                <option key={type} value={type}>
+                  {STEP_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+          </label>
+          {stepType !== 'FIXED' && (
+            <label className="text-xs text-gray-600">
+              Increase %
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={escalationPercent}
+                onChange={(e) => setEscalationPercent(e.target.value)}
+                className="block mt-1 px-2 py-1 text-sm border border-gray-300 rounded w-24"
+              />
+            </label>
+          )}
+          <label className="text-xs text-gray-600 flex-1 min-w-[12rem]">
+            Note
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="block mt-1 w-full px-2 py-1 text-sm border border-gray-300 rounded"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Step'}
+          </button>
+        </form>
+      )}
+
+      <div className="flex gap-2 print:hidden">
+        <button
+          type="button"
+          onClick={() => setShowForm(!showForm)}
+          className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+        >
+          {showForm ? 'Cancel' : 'Add Rent Step'}
+        </button>
+        <button
+          type="button"
+          disabled={saving}
+          onClick={rebuild}
+          className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm disabled:opacity-50"
+        >
+          Rebuild from Documents
+        </button>
+      </div>
+    </div>
+  );
+}
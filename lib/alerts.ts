@@ -6,6 +6,7 @@
  */
 
 import { Alert, AlertType, AlertSeverity } from './types';
+import type { RentAdjustmentDue } from './cpiEscalation';
 
 export interface LeaseForAlerts {
   id: string;
@@ -20,6 +21,7 @@ export interface LeaseForAlerts {
 export interface GenerateAlertsParams {
   today: Date;
   leases: LeaseForAlerts[];
+  rentAdjustments?: RentAdjustmentDue[];
 }
 
 /**
@@ -56,6 +58,14 @@ function getRecommendedAction(type: AlertType, severity: AlertSeverity): string
     }
   }
 
+  if (type === 'RENT_ADJUSTMENT_DUE') {
+    if (severity === 'HIGH') {
+      return 'Send the rent adjustment notice now and record the new rent step.';
+    } else {
+      return 'Draft the rent adjustment notice with the computed rent.';
+    }
+  }
+
   return 'Review this item and take appropriate action.';
 }
 
@@ -63,7 +73,7 @@ function getRecommendedAction(type: AlertType, severity: AlertSeverity): string
  * Generate alerts for the portfolio based on lease data
  */
 export function generateAlerts(params: GenerateAlertsParams): Alert[] {
-  const { today, leases } = params;
+  const { today, leases, rentAdjustments = [] } = params;
   const alerts: Alert[] = [];
 
   for (const lease of leases) {
@@ -123,6 +133,32 @@ export function generateAlerts(params: GenerateAlertsParams): Alert[] {
     }
   }
 
+  // Alert 4: CPI rent adjustment coming up, or missed (HIGH until applied)
+  for (const due of rentAdjustments) {
+    const dueDate = new Date(due.adjustmentDate);
+    const daysUntilDue = Math.floor((dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+    const severity = daysUntilDue <= 30 || !due.result.success ? 'HIGH' : 'MEDIUM';
+    const when = daysUntilDue < 0 ? `was due ${due.adjustmentDate} and has not been applied` : `on ${due.adjustmentDate}`;
+
+    alerts.push({
+      id: `RENT_ADJUSTMENT_DUE-${due.leaseId}`,
+      type: 'RENT_ADJUSTMENT_DUE',
+      severity,
+      message: due.result.success
+        ? `CPI rent adjustment for ${due.tenantName} at ${due.propertyName} ${when}: ` +
+          `$${due.result.adjustment.currentMonthlyRent.toLocaleString()} to ` +
+          `$${due.result.adjustment.newMonthlyRent.toLocaleString()}/month`
+        : `CPI rent adjustment for ${due.tenantName} at ${due.propertyName} ${when} ` +
+          `cannot be computed: ${due.result.error}`,
+      recommendedAction: due.result.success
+        ? getRecommendedAction('RENT_ADJUSTMENT_DUE', severity)
+        : 'Import the missing CPI index values.',
+      leaseId: due.leaseId,
+      dueDate: dueDate.toISOString(),
+      newMonthlyRent: due.result.success ? due.result.adjustment.newMonthlyRent : undefined,
+    });
+  }
+
   // Sort alerts by severity (HIGH > MEDIUM > LOW) and then by dueDate
   alerts.sort((a, b) => {
     // First, sort by severity
@@ -0,0 +1,133 @@
+/**
+ * Bulk Upload
+ *
+ * Expands a bulk upload (loose files and ZIP archives) into the individual
+ * files to store as documents. Archive entries keep their folder path in
+ * the file name ("Harbor Point/Verde Cantina/Lease.pdf") since folder names
+ * usually identify the property and tenant. An upload is capped at
+ * MAX_UPLOAD_FILES files and MAX_UPLOAD_BYTES in total, and archive entries
+ * at MAX_ENTRY_BYTES uncompressed (checked against the central directory
+ * before inflating); anything past a limit is reported as skipped.
+ */
+
+import { basename } from 'path';
+import { detectMimeType, isSupportedMimeType } from './formats';
+import { listZipEntries, readZipEntryData } from './formats/zip';
+
+export interface BulkUploadFile {
+  fileName: string;
+  content: Buffer;
+  declaredType?: string | null;
+}
+
+export interface SkippedUploadFile {
+  fileName: string;
+  reason: string;
+}
+
+const ZIP_MIME_TYPES = ['application/zip', 'application/x-zip-compressed'];
+
+const MAX_UPLOAD_FILES = 500;
+const MAX_UPLOAD_BYTES = 500 * 1024 * 1024;
+const MAX_ENTRY_BYTES = 100 * 1024 * 1024;
+
+function megabytes(bytes: number): string {
+  return `${Math.floor(bytes / (1024 * 1024))} MB`;
+}
+
+/**
+ * OS metadata that archive tools add alongside the real files
+ */
+function isArchiveJunk(entryName: string): boolean {
+  const name = basename(entryName);
+  return (
+    entryName.startsWith('__MACOSX/') ||
+    name.startsWith('.') ||
+    name.startsWith('~$') ||
+    ['Thumbs.db', 'desktop.ini'].includes(name)
+  );
+}
+
+/**
+ * Expand ZIP archives and drop files no extractor can read
+ */
+export function expandBulkUpload(files: BulkUploadFile[]): {
+  files: BulkUploadFile[];
+  skipped: SkippedUploadFile[];
+} {
+  const accepted: BulkUploadFile[] = [];
+  const skipped: SkippedUploadFile[] = [];
+  let totalBytes = 0;
+
+  // Why a file of `size` bytes cannot be added, or null when it fits
+  const overLimit = (size: number): string | null => {
+    if (accepted.length >= MAX_UPLOAD_FILES) {
+      return `Upload is limited to ${MAX_UPLOAD_FILES} files`;
+    }
+    if (totalBytes + size > MAX_UPLOAD_BYTES) {
+      return `Upload is limited to ${megabytes(MAX_UPLOAD_BYTES)} in total`;
+    }
+    return null;
+  };
+
+  for (const file of files) {
+    const mimeType = detectMimeType(file.content, file.fileName, file.declaredType);
+
+    if (ZIP_MIME_TYPES.includes(mimeType)) {
+      let entries;
+      try {
+        entries = listZipEntries(file.content);
+      } catch (error) {
+        skipped.push({ fileName: file.fileName, reason: (error as Error).message });
+        continue;
+      }
+
+      for (const entry of entries) {
+        if (entry.name.endsWith('/') || isArchiveJunk(entry.name)) continue;
+
+        const entryName = `${file.fileName.replace(/\.zip$/i, '')}/${entry.name}`;
+        if (entry.uncompressedSize > MAX_ENTRY_BYTES) {
+          skipped.push({ fileName: entryName, reason: `Larger than ${megabytes(MAX_ENTRY_BYTES)} uncompressed` });
+          continue;
+        }
+        const limit = overLimit(entry.uncompressedSize);
+        if (limit) {
+          skipped.push({ fileName: entryName, reason: limit });
+          continue;
+        }
+
+        try {
+          const content = readZipEntryData(file.content, entry, MAX_ENTRY_BYTES);
+          const entryMimeType = detectMimeType(content, entry.name);
+          if (ZIP_MIME_TYPES.includes(entryMimeType)) {
+            skipped.push({ fileName: entryName, reason: 'Nested archives are not expanded' });
+          } else if (!isSupportedMimeType(entryMimeType)) {
+            skipped.push({ fileName: entryName, reason: 'Unsupported file format' });
+          } else {
+            accepted.push({ fileName: entryName, content });
+            totalBytes += content.length;
+          }
+        } catch (error) {
+          skipped.push({ fileName: entryName, reason: (error as Error).message });
+        }
+      }
+      continue;
+    }
+
+    if (!isSupportedMimeType(mimeType)) {
+      skipped.push({ fileName: file.fileName, reason: 'Unsupported file format' });
+      continue;
+    }
+
+    const limit = overLimit(file.content.length);
+    if (limit) {
+      skipped.push({ fileName: file.fileName, reason: limit });
+      continue;
+    }
+
+    accepted.push(file);
+    totalBytes += file.content.length;
+  }
+
+  return { files: accepted, skipped };
+}
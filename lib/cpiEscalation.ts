@@ -0,0 +1,390 @@
+/**
+ * CPI Escalation
+ *
+ * On a CPI lease the rent changes on each lease anniversary by the change
+ * in a consumer price index over the year before, held between the lease's
+ * floor and cap. Leases read the index a few months before the adjustment
+ * (the lookback), since figures are published late, and compare it with
+ * the same month a year earlier. Index values are imported from CSV.
+ * Applied adjustments are stored as CPI rent steps (see lib/rentSchedule);
+ * an anniversary without one stays due, even once it has passed.
+ */
+
+import { parse } from 'csv-parse/sync';
+import { prisma } from './prisma';
+import { contractualMonthlyRent } from './rentSchedule';
+
+export const DEFAULT_CPI_SERIES = 'CPI-U';
+
+export interface CpiTerms {
+  series: string;
+  floorPercent: number | null;
+  capPercent: number | null;
+  lookbackMonths: number;
+  noticeDays: number;
+}
+
+export interface CpiAdjustment {
+  adjustmentDate: string; // YYYY-MM-DD
+  series: string;
+  indexMonth: string; // YYYY-MM
+  indexValue: number;
+  baseIndexMonth: string; // A year before indexMonth
+  baseIndexValue: number;
+  indexChangePercent: number;
+  appliedPercent: number; // After the floor and cap
+  limitedBy: 'FLOOR' | 'CAP' | null;
+  currentMonthlyRent: number;
+  newMonthlyRent: number;
+}
+
+export type CpiAdjustmentResult =
+  | { success: true; adjustment: CpiAdjustment }
+  | { success: false; error: string };
+
+export interface RentAdjustmentDue {
+  leaseId: string;
+  tenantName: string;
+  propertyName: string;
+  suite: string | null;
+  adjustmentDate: string; // YYYY-MM-DD
+  result: CpiAdjustmentResult;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function roundTo(value: number, places: number): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+// First day of the month `offset` months from `date`, in UTC
+function monthStart(date: Date, offset = 0): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + offset, 1));
+}
+
+function monthKey(month: Date): string {
+  return month.toISOString().slice(0, 7);
+}
+
+function addYears(date: Date, years: number): Date {
+  const result = new Date(date);
+  result.setUTCFullYear(result.getUTCFullYear() + years);
+  return result;
+}
+
+/**
+ * Apply a lease's CPI rules to the index values of the two months they
+ * compare. `indexValues` is keyed by YYYY-MM.
+ */
+export function calculateCpiAdjustment(
+  terms: CpiTerms,
+  currentMonthlyRent: number,
+  adjustmentDate: Date,
+  indexValues: Map<string, number>
+): CpiAdjustmentResult {
+  const indexMonth = monthKey(monthStart(adjustmentDate, -terms.lookbackMonths));
+  const baseIndexMonth = monthKey(monthStart(adjustmentDate, -terms.lookbackMonths - 12));
+  const indexValue = indexValues.get(indexMonth);
+  const baseIndexValue = indexValues.get(baseIndexMonth);
+
+  if (indexValue === undefined || baseIndexValue === undefined) {
+    const missing = [baseIndexMonth, indexMonth].filter((month) => !indexValues.has(month));
+    return { success: false, error: `No ${terms.series} index value for ${missing.join(' and ')}` };
+  }
+  if (baseIndexValue <= 0) {
+    return { success: false, error: `Invalid ${terms.series} index value for ${baseIndexMonth}` };
+  }
+
+  const indexChangePercent = (indexValue / baseIndexValue - 1) * 100;
+  let appliedPercent = indexChangePercent;
+  let limitedBy: CpiAdjustment['limitedBy'] = null;
+  if (terms.floorPercent !== null && appliedPercent < terms.floorPercent) {
+    appliedPercent = terms.floorPercent;
+    limitedBy = 'FLOOR';
+  }
+  if (terms.capPercent !== null && appliedPercent > terms.capPercent) {
+    appliedPercent = terms.capPercent;
+    limitedBy = 'CAP';
+  }
+
+  return {
+    success: true,
+    adjustment: {
+      adjustmentDate: isoDate(adjustmentDate),
+      series: terms.series,
+      indexMonth,
+      indexValue,
+      baseIndexMonth,
+      baseIndexValue,
+      indexChangePercent: roundTo(indexChangePercent, 2),
+      appliedPercent: roundTo(appliedPercent, 2),
+      limitedBy,
+      currentMonthlyRent,
+      newMonthlyRent: roundTo(currentMonthlyRent * (1 + appliedPercent / 100), 2),
+    },
+  };
+}
+
+/**
+ * The anniversary to adjust on: the earliest one on or before `until` (and
+ * the lease end) that has no CPI step yet, so missed adjustments stay
+ * pending and are applied in order, each compounding on the one before;
+ * otherwise the first one after `until`. Null when the lease ends first.
+ * `appliedDays` are the YYYY-MM-DD dates of the lease's CPI steps, compared
+ * by day since leaseStart may carry a time.
+ */
+export function pendingAdjustmentDate(
+  leaseStart: Date,
+  leaseEnd: Date | null,
+  appliedDays: string[],
+  until: Date
+): Date | null {
+  const end = leaseEnd && leaseEnd < until ? leaseEnd : until;
+  let years = 1;
+  for (; addYears(leaseStart, years) <= end; years++) {
+    const anniversary = addYears(leaseStart, years);
+    if (!appliedDays.includes(isoDate(anniversary))) return anniversary;
+  }
+
+  const next = addYears(leaseStart, years);
+  return leaseEnd && next > leaseEnd ? null : next;
+}
+
+// Adjustments within this many days are due: the lease's notice period
+function dueUntil(terms: CpiTerms, today: Date): Date {
+  return new Date(today.getTime() + terms.noticeDays * DAY_MS);
+}
+
+function appliedCpiDays(lease: CpiLease): string[] {
+  return lease.rentSteps.filter((step) => step.stepType === 'CPI').map((step) => isoDate(step.effectiveDate));
+}
+
+/**
+ * One line describing an adjustment, for notices and step notes
+ */
+export function describeCpiAdjustment(adjustment: CpiAdjustment): string {
+  const limit = adjustment.limitedBy === 'FLOOR' ? ' (lease floor)' : adjustment.limitedBy === 'CAP' ? ' (lease cap)' : '';
+  return (
+    `Effective ${adjustment.adjustmentDate}, monthly rent changes from ` +
+    `$${adjustment.currentMonthlyRent.toLocaleString()} to $${adjustment.newMonthlyRent.toLocaleString()} ` +
+    `(${adjustment.appliedPercent}%${limit}). ${adjustment.series} rose ${adjustment.indexChangePercent}% ` +
+    `from ${adjustment.baseIndexValue} (${adjustment.baseIndexMonth}) to ${adjustment.indexValue} (${adjustment.indexMonth}).`
+  );
+}
+
+const cpiLeaseSelect = {
+  id: true,
+  tenantName: true,
+  suite: true,
+  baseRent: true,
+  leaseStart: true,
+  leaseEnd: true,
+  property: { select: { name: true } },
+  rentSteps: { select: { effectiveDate: true, monthlyRent: true, stepType: true } },
+  cpiEscalation: true,
+};
+
+interface CpiLease {
+  id: string;
+  tenantName: string;
+  suite: string | null;
+  baseRent: number | null;
+  leaseStart: Date | null;
+  leaseEnd: Date | null;
+  property: { name: string };
+  rentSteps: { effectiveDate: Date; monthlyRent: number; stepType: string }[];
+  cpiEscalation: CpiTerms | null;
+}
+
+/**
+ * Calculate a lease's CPI adjustment on `adjustmentDate` from the rent in
+ * effect the day before and the stored index values
+ */
+async function adjustmentForLease(lease: CpiLease, adjustmentDate: Date): Promise<CpiAdjustmentResult> {
+  const terms = lease.cpiEscalation;
+  if (!terms) {
+    return { success: false, error: 'Lease has no CPI escalation terms' };
+  }
+
+  const dayBefore = new Date(adjustmentDate.getTime() - DAY_MS);
+  const currentMonthlyRent = contractualMonthlyRent(lease, dayBefore);
+  if (currentMonthlyRent === null) {
+    return { success: false, error: `No contractual rent before ${isoDate(adjustmentDate)}` };
+  }
+
+  const months = [
+    monthStart(adjustmentDate, -terms.lookbackMonths),
+    monthStart(adjustmentDate, -terms.lookbackMonths - 12),
+  ];
+  const values = await prisma.cpiIndexValue.findMany({
+    where: { series: terms.series, month: { in: months } },
+    select: { month: true, value: true },
+  });
+  const indexValues = new Map<string, number>(
+    values.map((row: { month: Date; value: number }) => [monthKey(row.month), row.value])
+  );
+
+  return calculateCpiAdjustment(terms, currentMonthlyRent, adjustmentDate, indexValues);
+}
+
+/**
+ * A lease's pending CPI adjustment (see pendingAdjustmentDate): the one due
+ * within its notice period or missed, else the next one. Null when the
+ * lease has no CPI terms, no start date, or no anniversary left.
+ */
+export async function computeLeaseCpiAdjustment(
+  leaseId: string,
+  today: Date = new Date()
+): Promise<CpiAdjustmentResult | null> {
+  const lease: CpiLease | null = await prisma.lease.findUnique({
+    where: { id: leaseId },
+    select: cpiLeaseSelect,
+  });
+  if (!lease || !lease.cpiEscalation || !lease.leaseStart) return null;
+
+  const adjustmentDate = pendingAdjustmentDate(
+    lease.leaseStart,
+    lease.leaseEnd,
+    appliedCpiDays(lease),
+    dueUntil(lease.cpiEscalation, today)
+  );
+  return adjustmentDate ? adjustmentForLease(lease, adjustmentDate) : null;
+}
+
+/**
+ * CPI adjustments falling within each lease's notice period, or already
+ * past, that have not been applied yet, soonest first. Adjustments missing
+ * index values are included with the error, so the gap can be filled.
+ */
+export async function findDueRentAdjustments(today: Date = new Date()): Promise<RentAdjustmentDue[]> {
+  const leases: CpiLease[] = await prisma.lease.findMany({
+    where: {
+      status: { in: ['ACTIVE', 'NOTICE_GIVEN'] },
+      leaseStart: { not: null },
+      cpiEscalation: { isNot: null },
+    },
+    select: cpiLeaseSelect,
+  });
+
+  const due: RentAdjustmentDue[] = [];
+  for (const lease of leases) {
+    const until = dueUntil(lease.cpiEscalation!, today);
+    const adjustmentDate = pendingAdjustmentDate(lease.leaseStart!, lease.leaseEnd, appliedCpiDays(lease), until);
+    if (!adjustmentDate || adjustmentDate > until) continue;
+
+    due.push({
+      leaseId: lease.id,
+      tenantName: lease.tenantName,
+      propertyName: lease.property.name,
+      suite: lease.suite,
+      adjustmentDate: isoDate(adjustmentDate),
+      result: await adjustmentForLease(lease, adjustmentDate),
+    });
+  }
+
+  return due.sort((a, b) => a.adjustmentDate.localeCompare(b.adjustmentDate));
+}
+
+/**
+ * Store an adjustment as a CPI rent step, replacing any derived or CPI step
+ * on the same day
+ */
+export async function applyCpiAdjustment(leaseId: string, adjustment: CpiAdjustment, squareFeet: number | null) {
+  const effectiveDate = new Date(adjustment.adjustmentDate);
+  const nextDay = new Date(effectiveDate.getTime() + 24 * 60 * 60 * 1000);
+  const annualRent = roundTo(adjustment.newMonthlyRent * 12, 2);
+
+  const [, rentStep] = await prisma.$transaction([
+    prisma.rentStep.deleteMany({
+      where: {
+        leaseId,
+        effectiveDate: { gte: effectiveDate, lt: nextDay },
+        source: { in: ['EXTRACTION', 'CPI'] },
+      },
+    }),
+    prisma.rentStep.create({
+      data: {
+        leaseId,
+        effectiveDate,
+        monthlyRent: adjustment.newMonthlyRent,
+        annualRent,
+        ratePerSquareFoot: squareFeet ? roundTo(annualRent / squareFeet, 2) : null,
+        stepType: 'CPI',
+        escalationPercent: adjustment.appliedPercent,
+        source: 'CPI',
+        note: describeCpiAdjustment(adjustment),
+      },
+    }),
+  ]);
+
+  return rentStep;
+}
+
+export interface CpiIndexRow {
+  series: string;
+  month: Date;
+  value: number;
+}
+
+/**
+ * Parse a CPI index CSV. Columns are `month` (YYYY-MM or a date; `date` and
+ * `period` are accepted too), `value` (or `index`) and an optional `series`
+ * that defaults to `defaultSeries`.
+ */
+export function parseCpiIndexCsv(
+  content: string,
+  defaultSeries: string = DEFAULT_CPI_SERIES
+): { rows: CpiIndexRow[]; errors: string[] } {
+  const records: Record<string, string>[] = parse(content, {
+    columns: (header: string[]) => header.map((column) => column.trim().toLowerCase()),
+    skip_empty_lines: true,
+    trim: true,
+  });
+
+  const rows: CpiIndexRow[] = [];
+  const errors: string[] = [];
+  records.forEach((record, index) => {
+    const line = index + 2; // After the header
+    const monthText = record.month || record.date || record.period || '';
+    const match = monthText.match(/^(\d{4})-(\d{1,2})/);
+    const value = parseFloat((record.value || record.index || '').replace(/,/g, ''));
+
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+      errors.push(`Line ${line}: month "${monthText}" is not YYYY-MM`);
+      return;
+    }
+    if (!isFinite(value) || value <= 0) {
+      errors.push(`Line ${line}: value must be a positive number`);
+      return;
+    }
+
+    rows.push({
+      series: record.series || defaultSeries,
+      month: new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1)),
+      value,
+    });
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * Insert or update index values; a later import of the same month wins
+ */
+export async function importCpiIndexValues(rows: CpiIndexRow[]): Promise<number> {
+  await prisma.$transaction(
+    rows.map((row) =>
+      prisma.cpiIndexValue.upsert({
+        where: { series_month: { series: row.series, month: row.month } },
+        update: { value: row.value },
+        create: row,
+      })
+    )
+  );
+  return rows.length;
+}
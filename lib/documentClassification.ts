@@ -9,6 +9,7 @@ import { callLLM } from './llm';
 export const VALID_DOCUMENT_TYPES = [
   'LEASE',
   'AMENDMENT',
+  'ASSIGNMENT',
   'COI',
   'INVOICE',
   'EMAIL',
@@ -36,7 +37,7 @@ export async function classifyDocument(params: {
   const prompt = buildClassificationPrompt(fileName, contentSample);
 
   try {
-    const response = await callLLM(prompt);
+    const response = await callLLM(prompt, { feature: 'DOCUMENT_CLASSIFICATION' });
 
     // Parse response - expecting format like "LEASE" or "LEASE (confidence: 0.95)"
     const cleanedResponse = response.trim().toUpperCase();
@@ -76,6 +77,7 @@ function buildClassificationPrompt(
 Classify the following document into ONE of these categories:
 - LEASE: Commercial lease agreement
 - AMENDMENT: Lease amendment or addendum
+- ASSIGNMENT: Assignment of lease to a new tenant (assignment and assumption agreement)
 - COI: Certificate of Insurance
 - INVOICE: Invoice or bill
 - EMAIL: Email correspondence
@@ -1,8 +1,45 @@
-import path from "path";
-import { prisma } from "@/lib/prisma";
-import { extractTextFromPdf, chunkText, embedChunks } from "@/lib/leaseIngestion";
+// Relative imports: this module also runs in the job worker (scripts/worker.ts)
+import { prisma } from "./prisma";
+import { chunkExtractedText, embedChunks, buildChunkMetadata } from "./leaseIngestion";
+import { defaultDocumentType, extractDocumentText, ExtractedAttachment, isSupportedMimeType } from "./formats";
+import { safeFileName, storeFileContent } from "./fileStorage";
+import { createUploadedDocument, findDuplicateDocument } from "./duplicateDocuments";
+import { withLocalFile } from "./storage";
+import { getEmbeddingModelInfo } from "./embeddings";
+import { invalidateVectorIndex, packEmbedding } from "./vectorIndex";
+import { enqueueDocumentJob } from "./jobs/queue";
+import { nonRetryableError } from "./jobs/errors";
 
-export async function ingestDocument(documentId: string) {
+/**
+ * Mark a document FAILED for a reason retrying cannot fix, and return the
+ * reason (recorded on the ingestion job, see lib/jobs/handlers)
+ */
+async function failIngestion(documentId: string, reason: string, extractionMethod?: string): Promise<string> {
+  console.warn("[ingestDocument]", reason, "for document", documentId);
+  await prisma.document.update({
+    where: { id: documentId },
+    data: { status: "FAILED", extractionMethod },
+  });
+  return reason;
+}
+
+/**
+ * Extract a stored file's text. A file that cannot be parsed (a corrupt
+ * DOCX, ZIP or MSG, a damaged PDF) fails the same way on every retry.
+ */
+async function readDocumentText(filePath: string, mimeType: string | null) {
+  try {
+    return await extractDocumentText(filePath, mimeType);
+  } catch (error) {
+    throw nonRetryableError(`Could not read the file: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Extract, chunk and embed a document. Returns why the document was marked
+ * FAILED when its content cannot be ingested, otherwise null.
+ */
+export async function ingestDocument(documentId: string): Promise<string | null> {
   console.log("[ingestDocument] Starting ingestion for document", documentId);
 
   const document = await prisma.document.findUnique({
@@ -11,60 +48,76 @@ export async function ingestDocument(documentId: string) {
 
   if (!document) {
     console.error("[ingestDocument] Document not found", documentId);
-    return;
+    return null;
   }
 
-  if (!document.filePath) {
-    console.error("[ingestDocument] Document has no filePath", documentId);
-    return;
+  if (!document.storageKey) {
+    console.error("[ingestDocument] Document has no storageKey", documentId);
+    return null;
   }
 
   try {
-    const absolutePath = path.isAbsolute(document.filePath)
-      ? document.filePath
-      : path.join(process.cwd(), document.filePath);
+    if (!isSupportedMimeType(document.mimeType)) {
+      return failIngestion(documentId, `Unsupported format: ${document.mimeType || "unknown"}`);
+    }
+
+    // Dispatches on mimeType; PDFs fall back to OCR when there is no usable text layer
+    const extraction = await withLocalFile(document.storageKey, (filePath) =>
+      readDocumentText(filePath, document.mimeType)
+    );
+    const fullText = extraction.text;
 
-    // extractTextFromPdf expects a file path string
-    const fullText = await extractTextFromPdf(absolutePath);
+    if (extraction.attachments?.length) {
+      await ingestAttachments(document, extraction.attachments);
+    }
 
     if (!fullText || !fullText.trim()) {
-      console.warn("[ingestDocument] No text extracted for document", documentId);
-      await prisma.document.update({
-        where: { id: documentId },
-        data: { status: "UPLOADED" },
-      });
-      return;
+      return failIngestion(
+        documentId,
+        "No text extracted (text layer empty, OCR unavailable or unreadable)",
+        extraction.method
+      );
     }
 
-    const chunks = chunkText(fullText);
+    const pageChunks = chunkExtractedText(extraction);
+    const chunks = pageChunks.map((chunk) => chunk.content);
 
     if (!chunks.length) {
-      console.warn("[ingestDocument] No chunks produced for document", documentId);
-      await prisma.document.update({
-        where: { id: documentId },
-        data: { status: "UPLOADED" },
-      });
-      return;
+      return failIngestion(documentId, "No text chunks produced from the extracted text", extraction.method);
     }
 
     // Create embeddings
     const embeddings = await embedChunks(chunks);
+    const embeddingInfo = getEmbeddingModelInfo();
 
     // Write DocumentChunk rows
     await prisma.documentChunk.deleteMany({ where: { documentId } });
 
+    const chunkMetadata = buildChunkMetadata(pageChunks, extraction);
+
     await prisma.documentChunk.createMany({
-      data: chunks.map((content, index) => ({
+      data: pageChunks.map((chunk, index) => ({
         documentId,
         chunkIndex: index,
-        content,
-        embedding: JSON.stringify(embeddings[index]),
+        content: chunk.content,
+        startPage: chunk.pages?.startPage,
+        endPage: chunk.pages?.endPage,
+        embeddingVector: packEmbedding(embeddings[index]),
+        embeddingModel: embeddingInfo.model,
+        embeddingDimensions: embeddingInfo.dimensions,
+        metadata: chunkMetadata[index],
       })),
     });
 
+    await invalidateVectorIndex("chunks");
+
     await prisma.document.update({
       where: { id: documentId },
-      data: { status: "EXTRACTED" },
+      data: {
+        status: "EXTRACTED",
+        extractionMethod: extraction.method,
+        ocrConfidence: extraction.ocr?.confidence ?? null,
+      },
     });
 
     console.log(
@@ -73,11 +126,76 @@ export async function ingestDocument(documentId: string) {
       "chunks:",
       chunks.length
     );
+    return null;
   } catch (err) {
+    // Surfaced to the job worker, which retries (unless the file is unreadable)
+    // and eventually marks the document FAILED
     console.error("[ingestDocument] Error ingesting document", documentId, err);
-    await prisma.document.update({
-      where: { id: documentId },
-      data: { status: "UPLOADED" },
-    });
+    throw err;
+  }
+}
+
+/**
+ * Store each email attachment as a child document (linked to the same
+ * lease/property and upload batch) and queue its ingestion. An attachment
+ * already stored as a document (e.g. the same lease forwarded twice, or the
+ * email being ingested again) is not added again: it is matched by content,
+ * or by file name among the email's attachments stored before hashing.
+ */
+async function ingestAttachments(
+  parent: { id: string; leaseId: string | null; propertyId: string | null; uploadBatchId: string | null },
+  attachments: ExtractedAttachment[]
+) {
+  const unhashedNames = (
+    await prisma.document.findMany({
+      where: { parentDocumentId: parent.id, contentHash: null },
+      select: { fileName: true },
+    })
+  ).map((child) => child.fileName);
+
+  for (const [index, attachment] of attachments.entries()) {
+    const safeName = safeFileName(attachment.fileName);
+    if (unhashedNames.some((name) => name.endsWith(`-${safeName}`))) {
+      console.log("[ingestDocument] Attachment", attachment.fileName, "of", parent.id, "is already stored");
+      continue;
+    }
+
+    const { existing } = await findDuplicateDocument(attachment.content);
+    if (existing) {
+      console.log("[ingestDocument] Attachment", attachment.fileName, "of", parent.id, "duplicates document", existing.id);
+      continue;
+    }
+
+    const stored = await storeFileContent(
+      attachment.content,
+      attachment.fileName,
+      attachment.mimeType,
+      { prefix: `${parent.id}-${index + 1}` }
+    );
+
+    const { document: child, existing: raced } = await createUploadedDocument(stored, () =>
+      prisma.document.create({
+        data: {
+          type: defaultDocumentType(stored.mimeType),
+          status: "PROCESSING",
+          storageKey: stored.storageKey,
+          fileName: stored.fileName,
+          mimeType: stored.mimeType,
+          contentHash: stored.contentHash,
+          parentDocumentId: parent.id,
+          leaseId: parent.leaseId,
+          propertyId: parent.propertyId,
+          uploadBatchId: parent.uploadBatchId,
+        },
+      })
+    );
+    if (!child) {
+      console.log("[ingestDocument] Attachment", attachment.fileName, "of", parent.id, "duplicates document", raced.id);
+      continue;
+    }
+
+    console.log("[ingestDocument] Created attachment document", child.id, "from", parent.id);
+
+    await enqueueDocumentJob("INGEST_DOCUMENT", child.id);
   }
 }
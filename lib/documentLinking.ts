@@ -0,0 +1,344 @@
+/**
+ * Document Linking
+ *
+ * Match a document to the Property and Lease it belongs to by finding
+ * tenant names, suites, property names and street addresses in its file
+ * name (including folder names from bulk upload archives), its opening text
+ * and extracted hints (an invoice's leaseIdHint and propertyName).
+ *
+ * Single uploads are linked automatically when the best match clears
+ * DOCUMENT_AUTO_LINK_THRESHOLD and no other lease comes close; the rest
+ * wait in the "needs linking" inbox. Bulk uploads only record the proposal,
+ * which is confirmed in the batch review grid.
+ */
+
+import { prisma } from './prisma';
+import { refreshLeaseFromChain } from './leaseReview';
+import { invalidateVectorIndex } from './vectorIndex';
+
+// Chunks of opening text to search: the parties and premises are named up front
+const CONTENT_CHUNKS = 8;
+
+const AUTO_LINK_THRESHOLD = parseFloat(process.env.DOCUMENT_AUTO_LINK_THRESHOLD || '0.6');
+
+// A runner-up pointing elsewhere within this margin makes the match ambiguous
+const AMBIGUITY_MARGIN = 0.1;
+
+// Legal suffixes and filler that do not identify a tenant or property
+const STOP_WORDS = new Set([
+  'the', 'and', 'of', 'llc', 'inc', 'corp', 'corporation', 'co', 'company',
+  'ltd', 'lp', 'llp', 'plc', 'dba', 'group', 'holdings',
+]);
+
+/**
+ * AUTO_LINKED: linked by the matcher. NEEDS_LINKING: candidates found but
+ * below the threshold or ambiguous. UNMATCHED: nothing found. CONFIRMED: a
+ * person linked the document (or chose to leave it unlinked).
+ */
+export type LinkStatus = 'AUTO_LINKED' | 'NEEDS_LINKING' | 'UNMATCHED' | 'CONFIRMED';
+
+export interface LinkableProperty {
+  id: string;
+  name: string;
+  address: string;
+}
+
+export interface LinkableLease {
+  id: string;
+  propertyId: string;
+  tenantName: string;
+  suite: string | null;
+}
+
+export interface LinkProposal {
+  propertyId: string;
+  leaseId: string | null;
+  confidence: number; // 0-1
+  reasons: string[];
+}
+
+export interface DocumentLinkResult {
+  linkStatus: LinkStatus;
+  proposal: LinkProposal | null;
+  ambiguous: boolean;
+}
+
+interface TextSource {
+  text: string;
+  label: string; // "file name", "document text", "extracted hint"
+  factor: number; // Scales the name's weight: text is weaker evidence than a name chosen by a person
+  partial: boolean; // Accept most of a multi-word name
+}
+
+/**
+ * Lowercase, strip punctuation and split camel case, so "VerdeCantina_Lease"
+ * and "Verde Cantina, LLC" compare as words
+ */
+function normalize(text: string): string {
+  return text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function significantWords(text: string): string[] {
+  return normalize(text)
+    .split(' ')
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Uploaded file names are stored as "[<prefix>-]<timestamp>-<name>"; drop the prefix and extension
+ */
+function fileNameForMatching(fileName: string): string {
+  return fileName.replace(/^.*?\d{13}-/, '').replace(/\.[a-z0-9]{2,5}$/i, '');
+}
+
+function containsPhrase(haystack: string, words: string[]): boolean {
+  return words.length > 0 && ` ${haystack} `.includes(` ${words.join(' ')} `);
+}
+
+/**
+ * Score the strongest appearance of a name across the sources
+ */
+function scoreName(
+  words: string[],
+  sources: TextSource[],
+  weight: number,
+  label: string,
+  allowPartial = true
+): { score: number; reasons: string[] } {
+  let best = { score: 0, reasons: [] as string[] };
+  if (words.length === 0) return best;
+
+  for (const source of sources) {
+    let score = 0;
+    let reason = '';
+
+    if (containsPhrase(source.text, words)) {
+      score = weight * source.factor;
+      reason = `${label} in ${source.label}`;
+    } else if (allowPartial && source.partial && words.length > 1) {
+      // Most of a multi-word name ("Verde_Lease.pdf" for Verde Cantina)
+      const sourceWords = new Set(source.text.split(' '));
+      const matched = words.filter((word) => sourceWords.has(word));
+      if (matched.length / words.length >= 0.5 && matched.some((word) => word.length >= 4)) {
+        score = weight * source.factor * 0.5;
+        reason = `Partial ${label.toLowerCase()} in ${source.label}`;
+      }
+    }
+
+    if (score > best.score) {
+      best = { score, reasons: [reason] };
+    }
+  }
+
+  return best;
+}
+
+function scoreSuite(suite: string | null, sources: TextSource[]): number {
+  if (!suite) return 0;
+  const number = normalize(suite).replace(/^(suite|ste|unit|space)\s+/, '');
+  if (!number) return 0;
+  const pattern = new RegExp(`\\b(suite|ste|unit|space) ${number}\\b`);
+  // Hints may be the bare suite number
+  return sources.some((source) => pattern.test(source.text) || (source.partial && source.text === number)) ? 0.1 : 0;
+}
+
+/**
+ * Rank link candidates for a document, best first. Empty when nothing in
+ * the file name, text or hints points at a known property.
+ */
+export function rankDocumentLinks(
+  document: { fileName: string; content: string; hints?: string[] },
+  properties: LinkableProperty[],
+  leases: LinkableLease[]
+): LinkProposal[] {
+  const sources: TextSource[] = [
+    { text: normalize(fileNameForMatching(document.fileName)), label: 'file name', factor: 1, partial: true },
+    { text: normalize(document.content), label: 'document text', factor: 0.75, partial: false },
+    ...(document.hints || [])
+      .filter((hint) => hint.trim())
+      .map((hint) => ({ text: normalize(hint), label: 'extracted hint', factor: 1, partial: true })),
+  ];
+
+  const propertyScores = new Map<string, { score: number; reasons: string[] }>();
+  for (const property of properties) {
+    const byName = scoreName(significantWords(property.name), sources, 0.5, 'Property name');
+    // Street line only: city/state/zip are shared by neighbouring properties
+    const byAddress = scoreName(
+      significantWords(property.address.split(',')[0]),
+      sources,
+      0.45,
+      'Property address',
+      false
+    );
+    const score = Math.min(byName.score + byAddress.score, 0.9);
+    if (score > 0) {
+      propertyScores.set(property.id, { score, reasons: [...byName.reasons, ...byAddress.reasons] });
+    }
+  }
+
+  const candidates: LinkProposal[] = [];
+
+  for (const lease of leases) {
+    const tenant = scoreName(significantWords(lease.tenantName), sources, 0.6, 'Tenant name');
+    const property = propertyScores.get(lease.propertyId);
+    const suite = scoreSuite(lease.suite, sources);
+
+    // The property and suite corroborate a tenant match (and separate one
+    // tenant's leases at different properties). Without the tenant name, a
+    // suite at a matched property still singles out a lease (invoices often
+    // name only the suite).
+    let confidence: number;
+    if (tenant.score > 0) {
+      confidence = tenant.score + suite + (property ? property.score * 0.5 : 0);
+    } else if (property && suite > 0) {
+      confidence = property.score + suite;
+    } else {
+      continue;
+    }
+
+    const reasons = [...tenant.reasons];
+    if (suite > 0) {
+      reasons.push(`${/^(suite|ste|unit|space)\b/i.test(lease.suite || '') ? '' : 'Suite '}${lease.suite} mentioned`);
+    }
+    if (property) reasons.push(...property.reasons);
+
+    candidates.push({
+      propertyId: lease.propertyId,
+      leaseId: lease.id,
+      confidence: Math.min(confidence, 0.99),
+      reasons,
+    });
+  }
+
+  for (const [propertyId, property] of Array.from(propertyScores.entries())) {
+    candidates.push({ propertyId, leaseId: null, confidence: property.score, reasons: property.reasons });
+  }
+
+  return candidates.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * True when a runner-up points at a different lease or property and scores
+ * within AMBIGUITY_MARGIN of the best match. A property-only candidate for
+ * the best lease's own property agrees with it.
+ */
+export function isAmbiguousMatch(candidates: LinkProposal[]): boolean {
+  const [best, ...others] = candidates;
+  if (!best) return false;
+  return others.some(
+    (other) =>
+      other.confidence >= best.confidence - AMBIGUITY_MARGIN &&
+      (other.propertyId !== best.propertyId || (other.leaseId !== null && other.leaseId !== best.leaseId))
+  );
+}
+
+/**
+ * Hints extracted from the document's structured data
+ */
+function extractedHints(extractedData: string | null): string[] {
+  if (!extractedData) return [];
+  try {
+    const data = JSON.parse(extractedData);
+    return [data?.invoice?.leaseIdHint, data?.invoice?.propertyName].filter(
+      (hint): hint is string => typeof hint === 'string'
+    );
+  } catch (error) {
+    console.error('[Linking] Error parsing extractedData:', error);
+    return [];
+  }
+}
+
+/**
+ * Match a document and store the proposal (proposedPropertyId,
+ * proposedLeaseId, linkConfidence, linkReason, linkStatus). Outside bulk
+ * uploads a confident, unambiguous match also sets leaseId/propertyId.
+ * Documents already linked to a lease or confirmed by a person are left
+ * alone; a document linked only to a property is matched against that
+ * property's leases.
+ */
+export async function proposeDocumentLinks(documentId: string): Promise<DocumentLinkResult | null> {
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    include: {
+      chunks: {
+        select: { content: true },
+        orderBy: { chunkIndex: 'asc' },
+        take: CONTENT_CHUNKS,
+      },
+    },
+  });
+
+  if (!document) {
+    throw new Error(`Document not found: ${documentId}`);
+  }
+  // Someone has already decided where this document belongs
+  if (document.leaseId || document.linkStatus === 'CONFIRMED') {
+    return null;
+  }
+
+  const [properties, leases] = await Promise.all([
+    prisma.property.findMany({
+      where: document.propertyId ? { id: document.propertyId } : {},
+      select: { id: true, name: true, address: true },
+    }),
+    prisma.lease.findMany({
+      where: document.propertyId ? { propertyId: document.propertyId } : {},
+      select: { id: true, propertyId: true, tenantName: true, suite: true },
+    }),
+  ]);
+
+  const candidates = rankDocumentLinks(
+    {
+      fileName: document.fileName,
+      content: document.chunks.map((chunk) => chunk.content).join('\n\n'),
+      hints: extractedHints(document.extractedData),
+    },
+    properties,
+    leases
+  );
+  const proposal = candidates[0] ?? null;
+  const ambiguous = isAmbiguousMatch(candidates);
+  const autoLink =
+    !document.uploadBatchId && !!proposal && !ambiguous && proposal.confidence >= AUTO_LINK_THRESHOLD;
+  const linkStatus: LinkStatus = autoLink ? 'AUTO_LINKED' : proposal ? 'NEEDS_LINKING' : 'UNMATCHED';
+
+  const reasons = proposal ? [...proposal.reasons] : [];
+  if (ambiguous) reasons.push('Other leases match almost as well');
+
+  await prisma.document.update({
+    where: { id: documentId },
+    data: {
+      proposedPropertyId: proposal?.propertyId ?? null,
+      proposedLeaseId: proposal?.leaseId ?? null,
+      linkConfidence: proposal ? Math.round(proposal.confidence * 100) / 100 : null,
+      linkReason: reasons.length > 0 ? reasons.join('; ') : null,
+      linkStatus,
+      ...(autoLink && proposal ? { propertyId: proposal.propertyId, leaseId: proposal.leaseId } : {}),
+    },
+  });
+
+  if (autoLink && proposal) {
+    // Chunk search filters on the document's lease and property
+    await invalidateVectorIndex('chunks');
+    if (proposal.leaseId) {
+      await refreshLeaseFromChain(proposal.leaseId, documentId);
+    }
+  }
+
+  if (proposal) {
+    const target = proposal.leaseId ? `lease ${proposal.leaseId}` : `property ${proposal.propertyId}`;
+    console.log(
+      `[Linking] Document ${documentId} -> ${target} (${proposal.confidence.toFixed(2)}${
+        ambiguous ? ', ambiguous' : ''
+      }): ${linkStatus}`
+    );
+  } else {
+    console.log(`[Linking] Document ${documentId}: no match`);
+  }
+
+  return { linkStatus, proposal, ambiguous };
+}
@@ -0,0 +1,77 @@
+/**
+ * Duplicate Uploads
+ *
+ * Files are recognised by the SHA-256 of their content (Document.contentHash),
+ * so uploading the same file again returns the document created the first
+ * time instead of storing, chunking and embedding it a second time.
+ * Documents uploaded before hashing was added have no hash and are not matched.
+ * Concurrent uploads of the same file are settled by the unique index on
+ * contentHash (see createUploadedDocument).
+ */
+
+import { prisma } from './prisma';
+import { deleteStoredFile, hashFileContent } from './fileStorage';
+
+export interface DuplicateDocument {
+  id: string;
+  fileName: string;
+  mimeType: string | null;
+  type: string;
+  status: string;
+  uploadedAt: Date;
+  leaseId: string | null;
+  propertyId: string | null;
+}
+
+const DUPLICATE_SELECT = {
+  id: true,
+  fileName: true,
+  mimeType: true,
+  type: true,
+  status: true,
+  uploadedAt: true,
+  leaseId: true,
+  propertyId: true,
+};
+
+/**
+ * Hash file content and look up the document already holding it
+ */
+export async function findDuplicateDocument(content: Buffer): Promise<{
+  contentHash: string;
+  existing: DuplicateDocument | null;
+}> {
+  const contentHash = hashFileContent(content);
+  const existing = await prisma.document.findUnique({
+    where: { contentHash },
+    select: DUPLICATE_SELECT,
+  });
+
+  return { contentHash, existing };
+}
+
+/**
+ * Create the document for a file that was just stored. Two uploads of the
+ * same content can both pass findDuplicateDocument; the one whose create
+ * loses on the unique contentHash deletes its stored copy and gets the
+ * winner's document back as `existing`.
+ */
+export async function createUploadedDocument<T>(
+  stored: { storageKey: string; contentHash: string },
+  create: () => Promise<T>
+): Promise<{ document: T; existing: null } | { document: null; existing: DuplicateDocument }> {
+  try {
+    return { document: await create(), existing: null };
+  } catch (error) {
+    if ((error as { code?: string }).code !== 'P2002') throw error;
+
+    const existing = await prisma.document.findUnique({
+      where: { contentHash: stored.contentHash },
+      select: DUPLICATE_SELECT,
+    });
+    if (!existing) throw error;
+
+    await deleteStoredFile(stored.storageKey);
+    return { document: null, existing };
+  }
+}
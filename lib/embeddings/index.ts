@@ -0,0 +1,70 @@
+/**
+ * Embedding Provider Registry
+ *
+ * Mirrors the LLM provider registry. The active provider comes from
+ * EMBEDDING_PROVIDER, falling back to "openai" when OPENAI_API_KEY is set and
+ * "local" otherwise, so retrieval keeps working without an OpenAI key.
+ *
+ * Every stored embedding records the model and dimensions that produced it,
+ * and retrieval filters on the active model so vectors from different models
+ * are never compared.
+ */
+
+import { openAIEmbeddingProvider } from './openai';
+import { localEmbeddingProvider } from './local';
+import { EmbeddingModelInfo, EmbeddingProvider } from './types';
+
+export * from './types';
+
+const EMBEDDING_PROVIDER =
+  process.env.EMBEDDING_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'local');
+
+// Rows embedded before model metadata was stored all came from OpenAI
+const LEGACY_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+const providers = new Map<string, EmbeddingProvider>();
+
+/**
+ * Register (or replace) an embedding provider under its name
+ */
+export function registerEmbeddingProvider(provider: EmbeddingProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Look up an embedding provider by name, defaulting to the configured one
+ */
+export function getEmbeddingProvider(name?: string): EmbeddingProvider {
+  const providerName = name || EMBEDDING_PROVIDER;
+  const provider = providers.get(providerName);
+
+  if (!provider) {
+    throw new Error(`Unsupported embedding provider: ${providerName}`);
+  }
+
+  return provider;
+}
+
+export function listEmbeddingProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Model metadata to store alongside embeddings from the active provider
+ */
+export function getEmbeddingModelInfo(name?: string): EmbeddingModelInfo {
+  const provider = getEmbeddingProvider(name);
+  return { model: provider.model, dimensions: provider.dimensions };
+}
+
+/**
+ * Prisma filter matching rows whose embeddings came from `model`
+ */
+export function embeddingModelFilter(model: string) {
+  return model === LEGACY_EMBEDDING_MODEL
+    ? { OR: [{ embeddingModel: model }, { embeddingModel: null }] }
+    : { embeddingModel: model };
+}
+
+registerEmbeddingProvider(openAIEmbeddingProvider);
+registerEmbeddingProvider(localEmbeddingProvider);
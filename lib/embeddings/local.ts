@@ -0,0 +1,85 @@
+/**
+ * Local Embedding Provider
+ *
+ * Dependency-free hashed bag-of-words vectors. Terms (unigrams plus adjacent
+ * bigrams) are hashed into a fixed number of signed buckets with sublinear
+ * term-frequency weights and the vector is L2-normalized, so cosine
+ * similarity measures weighted term overlap. Good enough for clause
+ * retrieval without network access; not comparable with model embeddings.
+ */
+
+import { EmbeddingProvider } from './types';
+
+const DIMENSIONS = 512;
+const BIGRAM_WEIGHT = 0.5;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have',
+  'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was',
+  'were', 'will', 'with', 'shall', 'such', 'any', 'all', 'which', 'who', 'what',
+  'does', 'do', 'if', 'but', 'not', 'no', 'so', 'than', 'then', 'there', 'these',
+  'those', 'into', 'upon', 'herein', 'hereof', 'hereunder', 'said', 'may', 'can',
+]);
+
+/**
+ * Lowercase, split on non-alphanumerics, drop stopwords and fold simple
+ * plurals so "repairs" matches "repair".
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’]s\b/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token))
+    .map((token) =>
+      token.length > 4 && token.endsWith('s') && !token.endsWith('ss')
+        ? token.slice(0, -1)
+        : token
+    );
+}
+
+// FNV-1a 32-bit
+function hashTerm(term: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    hash ^= term.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function embedText(text: string): number[] {
+  const tokens = tokenize(text);
+  const weights = new Map<string, number>();
+
+  for (let i = 0; i < tokens.length; i++) {
+    weights.set(tokens[i], (weights.get(tokens[i]) || 0) + 1);
+    if (i > 0) {
+      const bigram = `${tokens[i - 1]} ${tokens[i]}`;
+      weights.set(bigram, (weights.get(bigram) || 0) + BIGRAM_WEIGHT);
+    }
+  }
+
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  for (const [term, count] of weights) {
+    const hash = hashTerm(term);
+    // Low bits pick the bucket, the top bit picks the sign to spread collisions
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % DIMENSIONS] += sign * (1 + Math.log(count));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+export const localEmbeddingProvider: EmbeddingProvider = {
+  name: 'local',
+  model: `local-hashed-bow-${DIMENSIONS}`,
+  dimensions: DIMENSIONS,
+  minSimilarity: 0.05,
+  cacheable: false,
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(embedText);
+  },
+};
@@ -0,0 +1,46 @@
+/**
+ * OpenAI Embedding Provider
+ */
+
+import { EmbeddingProvider } from './types';
+
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+
+export const openAIEmbeddingProvider: EmbeddingProvider = {
+  name: 'openai',
+  model: 'text-embedding-3-small',
+  dimensions: 1536,
+  minSimilarity: 0.25,
+  cacheable: true,
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!OPENAI_API_KEY) {
+      throw new Error('OPENAI_API_KEY is not configured');
+    }
+
+    try {
+      const response = await fetch('https://api.openai.com/v1/embeddings', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${OPENAI_API_KEY}`,
+        },
+        body: JSON.stringify({
+          model: this.model,
+          input: texts,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`OpenAI API error: ${response.status} - ${error}`);
+      }
+
+      const data = await response.json();
+      return data.data.map((item: any) => item.embedding);
+    } catch (error) {
+      console.error('Error generating embeddings:', error);
+      throw new Error(`Failed to generate embeddings: ${(error as Error).message}`);
+    }
+  },
+};
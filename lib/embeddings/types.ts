@@ -0,0 +1,22 @@
+/**
+ * Embedding Provider Types
+ *
+ * Common contract implemented by every embedding provider registered with
+ * the embedding registry (OpenAI, local hashed bag-of-words).
+ */
+
+export interface EmbeddingProvider {
+  name: string;
+  model: string; // Stored on each embedded row as embeddingModel
+  dimensions: number;
+  /** Default similarity cutoff below which matches are noise for this model */
+  minSimilarity: number;
+  /** Whether results are worth caching (remote, billed providers) */
+  cacheable: boolean;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingModelInfo {
+  model: string;
+  dimensions: number;
+}
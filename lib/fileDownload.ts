@@ -0,0 +1,113 @@
+/**
+ * File Downloads
+ *
+ * Builds the Response that streams a stored file back to the browser, with
+ * byte-range support so PDF viewers can fetch pages as they need them.
+ * Only types the browser renders passively (PDF, images, plain text) are
+ * served inline; anything else, including HTML that could run script on
+ * our origin, is sent as an attachment.
+ */
+
+import { Readable } from 'stream';
+import { ByteRange, getStorageBackend } from './storage';
+
+const INLINE_MIME_TYPES = [
+  'application/pdf',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/tiff',
+  'text/plain',
+];
+
+/**
+ * Parse a single-range `Range: bytes=...` header against a file size.
+ * Returns null to serve the whole file (no header, or a multi-range or
+ * malformed one) and "unsatisfiable" when the range starts past the end.
+ */
+export function parseRangeHeader(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(size - parseInt(match[2], 10), 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  }
+
+  if (start >= size || start > end) {
+    return 'unsatisfiable';
+  }
+  return { start, end };
+}
+
+/**
+ * Content-Disposition with an ASCII fallback name and the UTF-8 original
+ */
+function contentDisposition(type: 'inline' | 'attachment', fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+/**
+ * Stream a stored file (or the requested range of it). Returns null when
+ * the file is missing from storage.
+ */
+export async function storedFileResponse(params: {
+  storageKey: string;
+  fileName: string;
+  mimeType: string | null;
+  rangeHeader: string | null;
+  download?: boolean; // Force an attachment even for inline-safe types
+}): Promise<Response | null> {
+  const { storageKey, fileName, rangeHeader, download } = params;
+  const backend = getStorageBackend();
+
+  const info = await backend.stat(storageKey);
+  if (!info) {
+    return null;
+  }
+
+  const mimeType = params.mimeType || info.contentType || 'application/octet-stream';
+  const inline = !download && INLINE_MIME_TYPES.includes(mimeType);
+  const headers: Record<string, string> = {
+    'Content-Type': mimeType,
+    'Content-Disposition': contentDisposition(inline ? 'inline' : 'attachment', fileName),
+    'Accept-Ranges': 'bytes',
+    'Cache-Control': 'private, max-age=300',
+    'X-Content-Type-Options': 'nosniff',
+  };
+
+  const range = parseRangeHeader(rangeHeader, info.size);
+  if (range === 'unsatisfiable') {
+    return new Response(null, {
+      status: 416,
+      headers: { ...headers, 'Content-Range': `bytes */${info.size}` },
+    });
+  }
+
+  const stream = await backend.getStream(storageKey, range ?? undefined);
+  const body = Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+
+  if (range) {
+    return new Response(body, {
+      status: 206,
+      headers: {
+        ...headers,
+        'Content-Length': String(range.end - range.start + 1),
+        'Content-Range': `bytes ${range.start}-${range.end}/${info.size}`,
+      },
+    });
+  }
+
+  return new Response(body, {
+    headers: { ...headers, 'Content-Length': String(info.size) },
+  });
+}
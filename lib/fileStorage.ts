@@ -1,17 +1,34 @@
 /**
  * File Storage Utilities
  *
- * Shared helpers for storing uploaded files
+ * Shared helpers for storing uploaded files in the configured storage
+ * backend (see lib/storage)
  */
 
-import { writeFile, mkdir } from 'fs/promises';
-import { join } from 'path';
-import { existsSync } from 'fs';
+import { createHash } from 'crypto';
+import { detectMimeType } from './formats';
+import { getStorageBackend } from './storage';
 
 export interface StoredFile {
-  filePath: string;
+  storageKey: string; // Key in the storage backend, saved as Document.storageKey
   fileName: string;
   mimeType: string;
+  contentHash: string; // SHA-256 of the content, unique per Document
+}
+
+/**
+ * SHA-256 of file content (hex), used to recognise a file uploaded before
+ */
+export function hashFileContent(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * A file name reduced to characters safe in a storage key. Stored files are
+ * named `[prefix-]timestamp-safeName`.
+ */
+export function safeFileName(fileName: string): string {
+  return fileName.replace(/[^a-zA-Z0-9.-]/g, '_');
 }
 
 /**
@@ -24,35 +41,54 @@ export async function storeUploadedFile(
     prefix?: string;
   }
 ): Promise<StoredFile> {
-  const subdirectory = options?.subdirectory || 'documents';
-  const prefix = options?.prefix || '';
+  const bytes = await file.arrayBuffer();
+  return storeFileContent(Buffer.from(bytes), file.name, file.type, options);
+}
 
-  // Create uploads directory if it doesn't exist
-  const uploadsDir = join(process.cwd(), 'uploads', subdirectory);
-  if (!existsSync(uploadsDir)) {
-    await mkdir(uploadsDir, { recursive: true });
+/**
+ * Store file content (an upload, or an attachment extracted from one).
+ * The MIME type is detected from the content, falling back to the name
+ * and the declared type.
+ */
+export async function storeFileContent(
+  content: Buffer,
+  originalFileName: string,
+  declaredType?: string | null,
+  options?: {
+    subdirectory?: string;
+    prefix?: string;
   }
+): Promise<StoredFile> {
+  const subdirectory = options?.subdirectory || 'documents';
+  const prefix = options?.prefix || '';
 
   // Generate unique filename
   const timestamp = Date.now();
-  const originalName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_');
+  const originalName = safeFileName(originalFileName);
   const fileName = prefix
     ? `${prefix}-${timestamp}-${originalName}`
     : `${timestamp}-${originalName}`;
-  const filePath = join(uploadsDir, fileName);
+  const storageKey = `${subdirectory}/${fileName}`;
+  const mimeType = detectMimeType(content, originalFileName, declaredType);
 
   // Save the file
-  const bytes = await file.arrayBuffer();
-  const buffer = Buffer.from(bytes);
-  await writeFile(filePath, buffer);
+  await getStorageBackend().put(storageKey, content, mimeType);
 
   return {
-    filePath,
+    storageKey,
     fileName,
-    mimeType: file.type || 'application/octet-stream',
+    mimeType,
+    contentHash: hashFileContent(content),
   };
 }
 
+/**
+ * Remove a stored file (e.g. when its document is deleted)
+ */
+export async function deleteStoredFile(storageKey: string): Promise<void> {
+  await getStorageBackend().delete(storageKey);
+}
+
 /**
  * Store a lease PDF file (legacy wrapper for backward compatibility)
  */
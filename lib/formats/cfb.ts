@@ -0,0 +1,165 @@
+/**
+ * Minimal Compound File Reader
+ *
+ * Outlook .msg files are OLE compound files (a FAT filesystem inside one
+ * file). This reads the directory tree and stream contents, which is all
+ * the MSG extractor needs; writing is not supported.
+ */
+
+const SIGNATURE = 'd0cf11e0a1b11ae1';
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECT = 0xffffffff;
+const NO_STREAM = 0xffffffff;
+const HEADER_DIFAT_ENTRIES = 109;
+
+export interface CompoundEntry {
+  id: number;
+  name: string;
+  type: 'storage' | 'stream' | 'root';
+  size: number;
+  startSector: number;
+  leftId: number;
+  rightId: number;
+  childId: number;
+}
+
+export interface CompoundFile {
+  root: CompoundEntry;
+  /** Direct children of a storage (or the root) */
+  children(entry: CompoundEntry): CompoundEntry[];
+  /** Contents of a stream */
+  read(entry: CompoundEntry): Buffer;
+}
+
+/**
+ * True when the buffer starts with the compound file signature
+ */
+export function isCompoundFile(buffer: Buffer): boolean {
+  return buffer.length >= 512 && buffer.toString('hex', 0, 8) === SIGNATURE;
+}
+
+export function openCompoundFile(buffer: Buffer): CompoundFile {
+  if (!isCompoundFile(buffer)) {
+    throw new Error('Not an OLE compound file');
+  }
+
+  const sectorSize = 1 << buffer.readUInt16LE(0x1e);
+  const miniSectorSize = 1 << buffer.readUInt16LE(0x20);
+  const firstDirectorySector = buffer.readUInt32LE(0x30);
+  const miniStreamCutoff = buffer.readUInt32LE(0x38);
+  const firstMiniFatSector = buffer.readUInt32LE(0x3c);
+  let difatSector = buffer.readUInt32LE(0x44);
+  const difatSectorCount = buffer.readUInt32LE(0x48);
+  const entriesPerSector = sectorSize / 4;
+
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+
+  // FAT sector locations: 109 in the header, the rest in chained DIFAT sectors
+  const fatSectors: number[] = [];
+  for (let i = 0; i < HEADER_DIFAT_ENTRIES; i++) {
+    fatSectors.push(buffer.readUInt32LE(0x4c + i * 4));
+  }
+  for (let i = 0; i < difatSectorCount && difatSector < END_OF_CHAIN; i++) {
+    const offset = sectorOffset(difatSector);
+    for (let j = 0; j < entriesPerSector - 1; j++) {
+      fatSectors.push(buffer.readUInt32LE(offset + j * 4));
+    }
+    difatSector = buffer.readUInt32LE(offset + (entriesPerSector - 1) * 4);
+  }
+
+  const fat: number[] = [];
+  for (const sector of fatSectors) {
+    if (sector === FREE_SECT || sector === END_OF_CHAIN) continue;
+    const offset = sectorOffset(sector);
+    for (let j = 0; j < entriesPerSector; j++) {
+      fat.push(buffer.readUInt32LE(offset + j * 4));
+    }
+  }
+
+  const chain = (table: number[], start: number): number[] => {
+    const sectors: number[] = [];
+    let sector = start;
+    // Bounded by the table size so a corrupt (cyclic) chain cannot loop forever
+    while (sector < END_OF_CHAIN && sector < table.length && sectors.length <= table.length) {
+      sectors.push(sector);
+      sector = table[sector];
+    }
+    return sectors;
+  };
+
+  const readSectors = (start: number): Buffer =>
+    Buffer.concat(
+      chain(fat, start).map((sector) =>
+        buffer.subarray(sectorOffset(sector), sectorOffset(sector) + sectorSize)
+      )
+    );
+
+  // Directory entries are 128 bytes each
+  const directory = readSectors(firstDirectorySector);
+  const entries: CompoundEntry[] = [];
+  for (let offset = 0; offset + 128 <= directory.length; offset += 128) {
+    const typeCode = directory[offset + 0x42];
+    const nameLength = directory.readUInt16LE(offset + 0x40);
+    entries.push({
+      id: entries.length,
+      name: directory.toString('utf16le', offset, offset + Math.max(0, nameLength - 2)),
+      type: typeCode === 5 ? 'root' : typeCode === 1 ? 'storage' : 'stream',
+      leftId: directory.readUInt32LE(offset + 0x44),
+      rightId: directory.readUInt32LE(offset + 0x48),
+      childId: directory.readUInt32LE(offset + 0x4c),
+      startSector: directory.readUInt32LE(offset + 0x74),
+      size: directory.readUInt32LE(offset + 0x78),
+    });
+  }
+
+  const root = entries[0];
+  if (!root || root.type !== 'root') {
+    throw new Error('Compound file has no root entry');
+  }
+
+  // Small streams live in the mini stream (held by the root entry), addressed by the mini FAT
+  const miniFatBuffer = firstMiniFatSector < END_OF_CHAIN ? readSectors(firstMiniFatSector) : Buffer.alloc(0);
+  const miniFat: number[] = [];
+  for (let offset = 0; offset + 4 <= miniFatBuffer.length; offset += 4) {
+    miniFat.push(miniFatBuffer.readUInt32LE(offset));
+  }
+  let miniStream: Buffer | null = null;
+
+  return {
+    root,
+
+    children(entry: CompoundEntry): CompoundEntry[] {
+      // Siblings form a binary tree rooted at the storage's child
+      const result: CompoundEntry[] = [];
+      const pending = [entry.childId];
+      const seen = new Set<number>();
+      while (pending.length > 0) {
+        const id = pending.pop()!;
+        if (id === NO_STREAM || id >= entries.length || seen.has(id)) continue;
+        seen.add(id);
+        const child = entries[id];
+        result.push(child);
+        pending.push(child.leftId, child.rightId);
+      }
+      return result.sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    read(entry: CompoundEntry): Buffer {
+      if (entry.type !== 'stream') {
+        throw new Error(`Not a stream: ${entry.name}`);
+      }
+      if (entry.size < miniStreamCutoff) {
+        if (!miniStream) {
+          miniStream = readSectors(root.startSector);
+        }
+        const stream = miniStream;
+        return Buffer.concat(
+          chain(miniFat, entry.startSector).map((sector) =>
+            stream.subarray(sector * miniSectorSize, (sector + 1) * miniSectorSize)
+          )
+        ).subarray(0, entry.size);
+      }
+      return readSectors(entry.startSector).subarray(0, entry.size);
+    },
+  };
+}
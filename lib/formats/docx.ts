@@ -0,0 +1,82 @@
+/**
+ * DOCX Extraction
+ *
+ * Reads the body of a Word document (word/document.xml). Paragraphs become
+ * lines, table cells are tab-separated, and pages are split on explicit
+ * page breaks and on the page breaks Word recorded when the file was last
+ * saved, so citations can point at a page.
+ */
+
+import { readFile } from 'fs/promises';
+import { PageText } from '../pageText';
+import { decodeEntities, documentTextFromPages } from './text';
+import { DocumentText, FormatExtractor } from './types';
+import { readZipEntry } from './zip';
+
+// Body elements that carry text or layout, in document order
+const BODY_TOKEN =
+  /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|cr)\s*\/>|<w:br(\s[^>]*)?\/>|<w:lastRenderedPageBreak\s*\/>|<\/w:(p|tc|tr)>/g;
+
+/**
+ * Split document.xml into page texts
+ */
+export function parseDocumentXml(xml: string): PageText[] {
+  const pages: PageText[] = [];
+  let current = '';
+
+  // Blank pages are kept as empty text so later page numbers stay right.
+  // Word also records a rendered break just after an explicit one; with no
+  // text between them it is the same break.
+  const breakPage = (rendered: boolean) => {
+    if (rendered && pages.length > 0 && !current.trim()) return;
+    pages.push({ pageNumber: pages.length + 1, text: current });
+    current = '';
+  };
+
+  for (const match of Array.from(xml.matchAll(BODY_TOKEN))) {
+    const [token, text, layout, breakAttributes, closingTag] = match;
+
+    if (text !== undefined) {
+      current += decodeEntities(text);
+    } else if (layout === 'tab') {
+      current += '\t';
+    } else if (layout === 'cr') {
+      current += '\n';
+    } else if (token.startsWith('<w:br')) {
+      if (breakAttributes && /w:type="page"/.test(breakAttributes)) {
+        breakPage(false);
+      } else {
+        current += '\n';
+      }
+    } else if (token.startsWith('<w:lastRenderedPageBreak')) {
+      breakPage(true);
+    } else if (closingTag === 'p' || closingTag === 'tr') {
+      current += '\n';
+    } else if (closingTag === 'tc') {
+      current = current.replace(/\n$/, '') + '\t';
+    }
+  }
+  // Nothing after the last break is not a page of its own
+  if (current.trim() || pages.length === 0) {
+    breakPage(false);
+  }
+
+  return pages.map((page) => ({
+    pageNumber: page.pageNumber,
+    text: page.text.replace(/[ \t]+\n/g, '\n').trim(),
+  }));
+}
+
+export const docxExtractor: FormatExtractor = {
+  name: 'docx',
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  extensions: ['docx'],
+
+  async extract(filePath: string): Promise<DocumentText> {
+    const documentXml = readZipEntry(await readFile(filePath), 'word/document.xml');
+    if (!documentXml) {
+      throw new Error('Not a Word document (word/document.xml missing)');
+    }
+    return documentTextFromPages(parseDocumentXml(documentXml.toString('utf8')));
+  },
+};
@@ -0,0 +1,255 @@
+/**
+ * Email Extraction (.eml)
+ *
+ * Parses RFC 822 / MIME messages. The indexed text is a header block (From,
+ * To, Cc, Date, Subject, attachment names) followed by the body, preferring
+ * the plain-text part over HTML. Attachments are returned separately so
+ * ingestion can store each one as a child document.
+ */
+
+import { readFile } from 'fs/promises';
+import { documentTextFromPages, htmlToText } from './text';
+import { DocumentText, ExtractedAttachment, FormatExtractor } from './types';
+
+export interface EmailMessage {
+  from?: string;
+  to?: string;
+  cc?: string;
+  date?: string;
+  subject?: string;
+  body: string;
+  attachments: ExtractedAttachment[];
+}
+
+interface MimePart {
+  headers: Map<string, string>; // Lower-cased names, unfolded values
+  body: string; // Raw body, one char per byte (latin1)
+}
+
+interface HeaderValue {
+  value: string; // e.g. "multipart/mixed"
+  params: Record<string, string>; // Lower-cased parameter names
+}
+
+/**
+ * Split a raw part into headers and body
+ */
+function parsePart(raw: string): MimePart {
+  const separator = raw.match(/\r?\n\r?\n/);
+  const headerBlock = separator ? raw.substring(0, separator.index) : raw;
+  const body = separator ? raw.substring(separator.index! + separator[0].length) : '';
+
+  const headers = new Map<string, string>();
+  for (const line of headerBlock.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.substring(0, colon).trim().toLowerCase();
+    // Keep the first occurrence (Received: and friends repeat)
+    if (!headers.has(name)) {
+      headers.set(name, line.substring(colon + 1).trim());
+    }
+  }
+
+  return { headers, body };
+}
+
+/**
+ * Parse a structured header such as Content-Type into value and parameters,
+ * including RFC 2231 extended parameters (filename*=UTF-8''...)
+ */
+function parseHeaderValue(header: string | undefined): HeaderValue {
+  if (!header) return { value: '', params: {} };
+
+  const [value, ...rest] = header.split(';');
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const equals = param.indexOf('=');
+    if (equals === -1) continue;
+    let name = param.substring(0, equals).trim().toLowerCase();
+    let paramValue = param.substring(equals + 1).trim().replace(/^"(.*)"$/, '$1');
+
+    if (name.endsWith('*')) {
+      name = name.slice(0, -1);
+      const extended = paramValue.match(/^([^']*)'[^']*'(.*)$/);
+      if (extended) {
+        paramValue = decodeCharset(
+          Buffer.from(decodeURIComponentBytes(extended[2]), 'latin1'),
+          extended[1] || 'utf-8'
+        );
+      }
+    }
+    params[name] = paramValue;
+  }
+
+  return { value: value.trim().toLowerCase(), params };
+}
+
+function decodeURIComponentBytes(text: string): string {
+  return text.replace(/%([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+/**
+ * Decode bytes in a named charset, falling back to UTF-8 for unknown ones
+ */
+function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return bytes.toString('utf8');
+  }
+}
+
+/**
+ * Undo Content-Transfer-Encoding
+ */
+function decodeTransferEncoding(body: string, encoding: string | undefined): Buffer {
+  switch ((encoding || '').toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return Buffer.from(
+        body
+          .replace(/=\r?\n/g, '')
+          .replace(/=([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+        'latin1'
+      );
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+}
+
+/**
+ * Decode RFC 2047 encoded words in a header (=?utf-8?B?...?=)
+ */
+export function decodeHeader(value: string | undefined): string | undefined {
+  if (!value) return value;
+  // Headers were read one char per byte; raw 8-bit headers are almost always UTF-8
+  return Buffer.from(value, 'latin1')
+    .toString('utf8')
+    .replace(/(\?=)\s+(=\?)/g, '$1$2') // Whitespace between encoded words is dropped
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, text: string) => {
+      const bytes =
+        encoding.toLowerCase() === 'b'
+          ? Buffer.from(text, 'base64')
+          : Buffer.from(
+              text
+                .replace(/_/g, ' ')
+                .replace(/=([0-9a-f]{2})/gi, (__, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+              'latin1'
+            );
+      return decodeCharset(bytes, charset);
+    });
+}
+
+/**
+ * Walk a MIME tree, collecting the first plain-text and HTML bodies and
+ * every attachment
+ */
+function collectParts(
+  part: MimePart,
+  found: { plain?: string; html?: string; attachments: ExtractedAttachment[] }
+): void {
+  const contentType = parseHeaderValue(part.headers.get('content-type') || 'text/plain');
+  const disposition = parseHeaderValue(part.headers.get('content-disposition'));
+  const fileName = decodeHeader(disposition.params.filename || contentType.params.name);
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+    const delimiter = `--${contentType.params.boundary}`;
+    const sections = part.body.split(delimiter).slice(1);
+    for (const section of sections) {
+      // The closing delimiter is followed by "--"
+      if (section.startsWith('--')) break;
+      collectParts(parsePart(section.replace(/^\r?\n/, '')), found);
+    }
+    return;
+  }
+
+  const content = decodeTransferEncoding(part.body, part.headers.get('content-transfer-encoding'));
+
+  // Inline images referenced from the HTML body (signature logos) are not documents
+  const isInlineImage =
+    disposition.value !== 'attachment' &&
+    contentType.value.startsWith('image/') &&
+    part.headers.has('content-id');
+
+  if (isInlineImage) return;
+
+  if (disposition.value === 'attachment' || fileName || contentType.value === 'message/rfc822') {
+    found.attachments.push({
+      fileName: fileName || (contentType.value === 'message/rfc822' ? 'attached-message.eml' : 'attachment'),
+      mimeType: contentType.value || 'application/octet-stream',
+      content,
+    });
+    return;
+  }
+
+  if (contentType.value === 'text/plain' && found.plain === undefined) {
+    found.plain = decodeCharset(content, contentType.params.charset);
+  } else if (contentType.value === 'text/html' && found.html === undefined) {
+    found.html = decodeCharset(content, contentType.params.charset);
+  }
+}
+
+/**
+ * Parse a raw RFC 822 message
+ */
+export function parseEml(raw: Buffer): EmailMessage {
+  const message = parsePart(raw.toString('latin1'));
+  const found: { plain?: string; html?: string; attachments: ExtractedAttachment[] } = {
+    attachments: [],
+  };
+  collectParts(message, found);
+
+  const body =
+    found.plain !== undefined && found.plain.trim()
+      ? found.plain
+      : found.html !== undefined
+        ? htmlToText(found.html)
+        : '';
+
+  return {
+    from: decodeHeader(message.headers.get('from')),
+    to: decodeHeader(message.headers.get('to')),
+    cc: decodeHeader(message.headers.get('cc')),
+    date: message.headers.get('date'),
+    subject: decodeHeader(message.headers.get('subject')),
+    body: body.replace(/\r\n/g, '\n').trim(),
+    attachments: found.attachments,
+  };
+}
+
+/**
+ * Indexed text for an email: header block, then body
+ */
+export function formatEmailText(message: EmailMessage): string {
+  const headerLines = [
+    message.from && `From: ${message.from}`,
+    message.to && `To: ${message.to}`,
+    message.cc && `Cc: ${message.cc}`,
+    message.date && `Date: ${message.date}`,
+    message.subject && `Subject: ${message.subject}`,
+    message.attachments.length > 0 &&
+      `Attachments: ${message.attachments.map((attachment) => attachment.fileName).join(', ')}`,
+  ].filter(Boolean);
+
+  return [headerLines.join('\n'), message.body].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Extraction result for a parsed email (one page, attachments split out)
+ */
+export function emailDocumentText(message: EmailMessage): DocumentText {
+  return documentTextFromPages([{ pageNumber: 1, text: formatEmailText(message) }], {
+    attachments: message.attachments,
+  });
+}
+
+export const emlExtractor: FormatExtractor = {
+  name: 'eml',
+  mimeTypes: ['message/rfc822'],
+  extensions: ['eml'],
+
+  async extract(filePath: string): Promise<DocumentText> {
+    return emailDocumentText(parseEml(await readFile(filePath)));
+  },
+};
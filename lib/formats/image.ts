@@ -0,0 +1,28 @@
+/**
+ * Image Extraction
+ *
+ * Photos and scans of documents (site inspection photos of notices, faxed
+ * work orders) are read with OCR. Without a Tesseract install the text is
+ * empty and ingestion marks the document FAILED.
+ */
+
+import { ocrImage } from '../ocr';
+import { documentTextFromPages } from './text';
+import { DocumentText, FormatExtractor } from './types';
+
+export const imageExtractor: FormatExtractor = {
+  name: 'image',
+  mimeTypes: ['image/png', 'image/jpeg', 'image/tiff', 'image/gif', 'image/bmp', 'image/webp'],
+  extensions: ['png', 'jpg', 'jpeg', 'tif', 'tiff', 'gif', 'bmp', 'webp'],
+
+  async extract(filePath: string): Promise<DocumentText> {
+    const ocr = await ocrImage(filePath);
+    if (!ocr) {
+      return documentTextFromPages([], { method: 'OCR' });
+    }
+    return documentTextFromPages(
+      ocr.pages.map(({ pageNumber, text }) => ({ pageNumber, text })),
+      { method: 'OCR', ocr }
+    );
+  },
+};
@@ -0,0 +1,141 @@
+/**
+ * Document Format Registry
+ *
+ * Uploads are dispatched to an extractor by MIME type. The type is sniffed
+ * from the file's leading bytes where the format has a signature, since
+ * browsers report nothing (or application/octet-stream) for .msg and often
+ * for .eml, then falls back to the file extension and the declared type.
+ */
+
+import { extname } from 'path';
+import { isCompoundFile } from './cfb';
+import { docxExtractor } from './docx';
+import { emlExtractor } from './email';
+import { imageExtractor } from './image';
+import { msgExtractor } from './msg';
+import { pdfExtractor } from './pdf';
+import { htmlExtractor, plainTextExtractor } from './text';
+import { DocumentText, FormatExtractor } from './types';
+import { isZip } from './zip';
+
+export * from './types';
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const MSG_MIME_TYPE = 'application/vnd.ms-outlook';
+const EMAIL_MIME_TYPES = ['message/rfc822', MSG_MIME_TYPE];
+const GENERIC_MIME_TYPE = 'application/octet-stream';
+
+// Extensions whose MIME type is not already implied by a registered extractor
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  doc: 'application/msword',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  htm: 'text/html',
+  zip: 'application/zip',
+};
+
+const extractors = new Map<string, FormatExtractor>();
+
+/**
+ * Register (or replace) an extractor under its name
+ */
+export function registerFormatExtractor(extractor: FormatExtractor): void {
+  extractors.set(extractor.name, extractor);
+}
+
+/**
+ * Extractor for a MIME type, or undefined when the format is not supported
+ */
+export function getFormatExtractor(mimeType: string | null | undefined): FormatExtractor | undefined {
+  const normalized = (mimeType || '').split(';')[0].trim().toLowerCase();
+  return Array.from(extractors.values()).find((extractor) => extractor.mimeTypes.includes(normalized));
+}
+
+/**
+ * Names of all registered extractors
+ */
+export function listFormatExtractors(): string[] {
+  return Array.from(extractors.keys());
+}
+
+export function isSupportedMimeType(mimeType: string | null | undefined): boolean {
+  return getFormatExtractor(mimeType) !== undefined;
+}
+
+function mimeTypeForExtension(fileName: string): string | undefined {
+  const extension = extname(fileName).substring(1).toLowerCase();
+  if (!extension) return undefined;
+  if (EXTENSION_MIME_TYPES[extension]) return EXTENSION_MIME_TYPES[extension];
+  return Array.from(extractors.values()).find((extractor) => extractor.extensions.includes(extension))
+    ?.mimeTypes[0];
+}
+
+/**
+ * Detect a file's MIME type from its signature, extension and declared type
+ */
+export function detectMimeType(content: Buffer, fileName: string, declaredType?: string | null): string {
+  const byExtension = mimeTypeForExtension(fileName);
+  const declared = declaredType && declaredType !== GENERIC_MIME_TYPE ? declaredType.toLowerCase() : undefined;
+  const header = content.subarray(0, 16);
+
+  if (header.toString('latin1', 0, 5) === '%PDF-') return 'application/pdf';
+  if (header.toString('hex', 0, 8) === '89504e470d0a1a0a') return 'image/png';
+  if (header.toString('hex', 0, 3) === 'ffd8ff') return 'image/jpeg';
+  if (header.toString('latin1', 0, 4) === 'GIF8') return 'image/gif';
+  if (['49492a00', '4d4d002a'].includes(header.toString('hex', 0, 4))) return 'image/tiff';
+  if (header.toString('latin1', 0, 4) === 'RIFF' && header.toString('latin1', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+
+  // Containers: tell Word documents and Outlook messages apart from other Office files
+  if (isZip(content)) {
+    return content.includes('word/document.xml') ? DOCX_MIME_TYPE : byExtension || declared || 'application/zip';
+  }
+  if (isCompoundFile(content)) {
+    return content.includes(Buffer.from('__substg1.0_', 'utf16le'))
+      ? MSG_MIME_TYPE
+      : byExtension || declared || GENERIC_MIME_TYPE;
+  }
+
+  if (byExtension) return byExtension;
+  if (declared) return declared;
+
+  // Text without an extension: an RFC 822 header block means a saved email
+  const sample = content.subarray(0, 4096);
+  if (sample.includes(0)) return GENERIC_MIME_TYPE;
+  const text = sample.toString('utf8');
+  if (/^From: /m.test(text) && /^(Subject|Date|To|Message-ID|MIME-Version): /m.test(text)) {
+    return 'message/rfc822';
+  }
+  return 'text/plain';
+}
+
+/**
+ * Document type to start from before classification, where the format alone decides it
+ */
+export function defaultDocumentType(mimeType: string | null | undefined): string {
+  return mimeType && EMAIL_MIME_TYPES.includes(mimeType) ? 'EMAIL' : 'OTHER';
+}
+
+/**
+ * Extract text with the extractor registered for the MIME type
+ */
+export async function extractDocumentText(filePath: string, mimeType: string | null | undefined): Promise<DocumentText> {
+  const extractor = getFormatExtractor(mimeType);
+  if (!extractor) {
+    throw new Error(`Unsupported document format: ${mimeType || 'unknown'}`);
+  }
+  return extractor.extract(filePath);
+}
+
+registerFormatExtractor(pdfExtractor);
+registerFormatExtractor(docxExtractor);
+registerFormatExtractor(emlExtractor);
+registerFormatExtractor(msgExtractor);
+registerFormatExtractor(plainTextExtractor);
+registerFormatExtractor(htmlExtractor);
+registerFormatExtractor(imageExtractor);
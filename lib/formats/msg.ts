@@ -0,0 +1,187 @@
+/**
+ * Outlook Message Extraction (.msg)
+ *
+ * An .msg file is a compound file holding MAPI properties as streams named
+ * __substg1.0_<property id><type>. Headers and body are read from those;
+ * attachments live in __attach_version1.0_#N storages. An attached message
+ * (an email forwarded as an attachment) becomes a plain-text attachment.
+ */
+
+import { readFile } from 'fs/promises';
+import { CompoundEntry, CompoundFile, openCompoundFile } from './cfb';
+import { emailDocumentText, EmailMessage, formatEmailText } from './email';
+import { htmlToText } from './text';
+import { DocumentText, ExtractedAttachment, FormatExtractor } from './types';
+
+// MAPI property ids
+const PR_SUBJECT = '0037';
+const PR_CLIENT_SUBMIT_TIME = 0x0039;
+const PR_MESSAGE_DELIVERY_TIME = 0x0e06;
+const PR_SENDER_NAME = '0C1A';
+const PR_SENDER_EMAIL_ADDRESS = '0C1F';
+const PR_SENDER_SMTP_ADDRESS = '5D01';
+const PR_DISPLAY_TO = '0E04';
+const PR_DISPLAY_CC = '0E03';
+const PR_BODY = '1000';
+const PR_HTML = '1013';
+const PR_ATTACH_DATA = '3701';
+const PR_ATTACH_FILENAME = '3704';
+const PR_ATTACH_LONG_FILENAME = '3707';
+const PR_ATTACH_MIME_TAG = '370E';
+const PR_DISPLAY_NAME = '3001';
+
+// MAPI property types
+const PT_UNICODE = '001F';
+const PT_STRING8 = '001E';
+const PT_BINARY = '0102';
+const PT_OBJECT = '000D';
+const PT_SYSTIME = 0x0040;
+
+const PROPERTY_STREAM = '__properties_version1.0';
+// Fixed-size header before the property entries, by storage kind
+const PROPERTY_HEADER_TOP_LEVEL = 32;
+const PROPERTY_HEADER_EMBEDDED = 24;
+
+// Milliseconds between 1601-01-01 (FILETIME epoch) and 1970-01-01
+const FILETIME_EPOCH_OFFSET_MS = 11644473600000;
+
+interface MsgStorage {
+  children(): CompoundEntry[];
+  entry(propertyId: string, type: string): CompoundEntry | undefined;
+  binary(propertyId: string): Buffer | undefined;
+  string(propertyId: string): string | undefined;
+  /** A PT_SYSTIME property from the fixed-size property stream */
+  time(propertyId: number, headerSize: number): Date | undefined;
+}
+
+/**
+ * Property accessors for a message or attachment storage
+ */
+function openMsgStorage(file: CompoundFile, storage: CompoundEntry): MsgStorage {
+  const entries = new Map(file.children(storage).map((entry) => [entry.name.toUpperCase(), entry]));
+
+  const entry = (propertyId: string, type: string) => entries.get(`__SUBSTG1.0_${propertyId}${type}`);
+
+  const readStream = (propertyId: string, type: string): Buffer | undefined => {
+    const stream = entry(propertyId, type);
+    return stream && stream.type === 'stream' ? file.read(stream) : undefined;
+  };
+
+  return {
+    children: () => Array.from(entries.values()),
+    entry,
+    binary: (propertyId) => readStream(propertyId, PT_BINARY),
+
+    string(propertyId) {
+      const unicode = readStream(propertyId, PT_UNICODE);
+      if (unicode) return unicode.toString('utf16le').replace(/\0+$/, '');
+      const ansi = readStream(propertyId, PT_STRING8);
+      if (ansi) return new TextDecoder('windows-1252').decode(ansi).replace(/\0+$/, '');
+      return undefined;
+    },
+
+    time(propertyId, headerSize) {
+      const stream = entries.get(PROPERTY_STREAM.toUpperCase());
+      if (!stream || stream.type !== 'stream') return undefined;
+
+      // 16-byte entries: tag (id << 16 | type), flags, 8-byte value
+      const properties = file.read(stream);
+      for (let offset = headerSize; offset + 16 <= properties.length; offset += 16) {
+        const tag = properties.readUInt32LE(offset);
+        if (tag >>> 16 !== propertyId || (tag & 0xffff) !== PT_SYSTIME) continue;
+        const fileTime = properties.readUInt32LE(offset + 12) * 2 ** 32 + properties.readUInt32LE(offset + 8);
+        return new Date(fileTime / 10000 - FILETIME_EPOCH_OFFSET_MS);
+      }
+      return undefined;
+    },
+  };
+}
+
+function readAttachment(file: CompoundFile, entry: CompoundEntry): ExtractedAttachment | null {
+  const attachment = openMsgStorage(file, entry);
+  const fileName =
+    attachment.string(PR_ATTACH_LONG_FILENAME) ||
+    attachment.string(PR_ATTACH_FILENAME) ||
+    attachment.string(PR_DISPLAY_NAME);
+
+  const data = attachment.binary(PR_ATTACH_DATA);
+  if (data) {
+    return {
+      fileName: fileName || 'attachment',
+      mimeType: attachment.string(PR_ATTACH_MIME_TAG) || 'application/octet-stream',
+      content: data,
+    };
+  }
+
+  // An attached message is stored as a nested storage rather than bytes
+  const embedded = attachment.entry(PR_ATTACH_DATA, PT_OBJECT);
+  if (embedded && embedded.type === 'storage') {
+    const message = readMessage(file, embedded, PROPERTY_HEADER_EMBEDDED);
+    const name = (message.subject || fileName || 'attached message').replace(/[\\/:*?"<>|]/g, '_');
+    return {
+      fileName: `${name}.txt`,
+      mimeType: 'text/plain',
+      content: Buffer.from(formatEmailText(message), 'utf8'),
+    };
+  }
+
+  return null;
+}
+
+function readMessage(file: CompoundFile, storage: CompoundEntry, propertyHeaderSize: number): EmailMessage {
+  const message = openMsgStorage(file, storage);
+
+  const senderName = message.string(PR_SENDER_NAME);
+  // PR_SENDER_EMAIL_ADDRESS is an Exchange (X.500) address for internal senders
+  const emailAddress = message.string(PR_SENDER_EMAIL_ADDRESS);
+  const senderAddress =
+    message.string(PR_SENDER_SMTP_ADDRESS) || (emailAddress?.includes('@') ? emailAddress : undefined);
+  const from =
+    senderName && senderAddress && senderName !== senderAddress
+      ? `${senderName} <${senderAddress}>`
+      : senderName || senderAddress;
+
+  const sentAt =
+    message.time(PR_CLIENT_SUBMIT_TIME, propertyHeaderSize) ||
+    message.time(PR_MESSAGE_DELIVERY_TIME, propertyHeaderSize);
+
+  let body = message.string(PR_BODY);
+  if (!body || !body.trim()) {
+    const html = message.binary(PR_HTML)?.toString('utf8') ?? message.string(PR_HTML);
+    body = html ? htmlToText(html) : '';
+  }
+
+  const attachments = message
+    .children()
+    .filter((entry) => entry.type === 'storage' && entry.name.startsWith('__attach_version1.0_'))
+    .map((entry) => readAttachment(file, entry))
+    .filter((attachment): attachment is ExtractedAttachment => attachment !== null);
+
+  return {
+    from,
+    to: message.string(PR_DISPLAY_TO) || undefined,
+    cc: message.string(PR_DISPLAY_CC) || undefined,
+    date: sentAt ? sentAt.toUTCString() : undefined,
+    subject: message.string(PR_SUBJECT),
+    body: body.replace(/\r\n/g, '\n').trim(),
+    attachments,
+  };
+}
+
+/**
+ * Parse an Outlook .msg file
+ */
+export function parseMsg(buffer: Buffer): EmailMessage {
+  const file = openCompoundFile(buffer);
+  return readMessage(file, file.root, PROPERTY_HEADER_TOP_LEVEL);
+}
+
+export const msgExtractor: FormatExtractor = {
+  name: 'msg',
+  mimeTypes: ['application/vnd.ms-outlook'],
+  extensions: ['msg'],
+
+  async extract(filePath: string): Promise<DocumentText> {
+    return emailDocumentText(parseMsg(await readFile(filePath)));
+  },
+};
@@ -0,0 +1,15 @@
+/**
+ * PDF Extraction
+ *
+ * Per-page text layer with OCR fallback (see extractPdfText).
+ */
+
+import { extractPdfText } from '../leaseIngestion';
+import { FormatExtractor } from './types';
+
+export const pdfExtractor: FormatExtractor = {
+  name: 'pdf',
+  mimeTypes: ['application/pdf'],
+  extensions: ['pdf'],
+  extract: extractPdfText,
+};
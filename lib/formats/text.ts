@@ -0,0 +1,97 @@
+/**
+ * Plain Text and HTML Extraction
+ *
+ * Also holds the text helpers shared by the other extractors.
+ */
+
+import { readFile } from 'fs/promises';
+import { joinPages, PageText } from '../pageText';
+import { DocumentText, FormatExtractor } from './types';
+
+/**
+ * Build an extraction from page texts (a single page for unpaginated formats)
+ */
+export function documentTextFromPages(
+  pages: PageText[],
+  extra: Partial<DocumentText> = {}
+): DocumentText {
+  const { text, ranges } = joinPages(pages);
+  return { text, pageCount: pages.length, pages, pageRanges: ranges, method: 'TEXT_LAYER', ...extra };
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Decode XML/HTML character references (&amp;, &#8217;, &#x2019;)
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.substring(2), 16)
+          : parseInt(entity.substring(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Reduce HTML to readable text, keeping paragraph and line breaks
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6]|blockquote)>/gi, '\n\n')
+    .replace(/<\/t[dh]>/gi, '\t')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Decode a text buffer, honoring a UTF-16 byte order mark
+ */
+export function decodeTextBuffer(buffer: Buffer): string {
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return buffer.toString('utf16le', 2);
+  }
+  if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return buffer.toString('utf8', 3);
+  }
+  return buffer.toString('utf8');
+}
+
+export const plainTextExtractor: FormatExtractor = {
+  name: 'text',
+  mimeTypes: ['text/plain', 'text/markdown', 'text/csv'],
+  extensions: ['txt', 'md', 'csv'],
+
+  async extract(filePath: string): Promise<DocumentText> {
+    const text = decodeTextBuffer(await readFile(filePath)).replace(/\r\n/g, '\n');
+    return documentTextFromPages([{ pageNumber: 1, text }]);
+  },
+};
+
+export const htmlExtractor: FormatExtractor = {
+  name: 'html',
+  mimeTypes: ['text/html'],
+  extensions: ['html', 'htm'],
+
+  async extract(filePath: string): Promise<DocumentText> {
+    const text = htmlToText(decodeTextBuffer(await readFile(filePath)));
+    return documentTextFromPages([{ pageNumber: 1, text }]);
+  },
+};
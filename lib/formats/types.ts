@@ -0,0 +1,37 @@
+/**
+ * Document Format Types
+ *
+ * Common contract implemented by every extractor registered with the format
+ * registry (PDF, DOCX, email, plain text, images).
+ */
+
+import type { OcrResult } from '../ocr';
+import type { PageRange, PageText } from '../pageText';
+
+/**
+ * Text extracted from an uploaded file, in the same shape as a PDF
+ * extraction so every format shares the chunking and embedding path.
+ * Formats without real pages (email, plain text) report a single page.
+ */
+export interface DocumentText {
+  text: string; // Page texts joined with blank lines
+  pageCount: number;
+  pages: PageText[];
+  pageRanges: PageRange[];
+  method: 'TEXT_LAYER' | 'OCR'; // TEXT_LAYER = embedded/native text
+  ocr?: OcrResult; // Present when method is OCR
+  attachments?: ExtractedAttachment[]; // Files embedded in the document (email attachments)
+}
+
+export interface ExtractedAttachment {
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+export interface FormatExtractor {
+  name: string; // e.g. "pdf", "docx"
+  mimeTypes: string[]; // MIME types this extractor handles
+  extensions: string[]; // Lower-case file extensions, without the dot
+  extract(filePath: string): Promise<DocumentText>;
+}
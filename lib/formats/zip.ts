@@ -0,0 +1,123 @@
+/**
+ * Minimal ZIP Reader
+ *
+ * Office Open XML files (DOCX) are ZIP archives, as are bulk uploads. Only
+ * what those need is supported: the central directory plus stored and
+ * deflated entries. Entries are never inflated past the size the central
+ * directory declares, and entries declaring more than maxBytes are refused
+ * before inflating, so a ZIP bomb cannot exhaust memory.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+// Largest entry read unless the caller sets its own limit
+const DEFAULT_MAX_ENTRY_BYTES = 100 * 1024 * 1024;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number; // As declared by the central directory
+  localHeaderOffset: number;
+}
+
+/**
+ * True when the buffer starts with a ZIP local file header
+ */
+export function isZip(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER;
+}
+
+/**
+ * List the entries in a ZIP archive's central directory
+ */
+export function listZipEntries(buffer: Buffer): ZipEntry[] {
+  // The end-of-central-directory record sits in the last 22 bytes plus an
+  // optional comment of up to 64 KB
+  const searchStart = Math.max(0, buffer.length - 22 - 0xffff);
+  let eocd = -1;
+  for (let offset = buffer.length - 22; offset >= searchStart; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a ZIP archive (end of central directory not found)');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+
+    entries.push({
+      name: buffer.toString('utf8', offset + 46, offset + 46 + nameLength),
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      uncompressedSize: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Read one entry's contents, or null when the archive has no such entry
+ */
+export function readZipEntry(buffer: Buffer, name: string): Buffer | null {
+  const entry = listZipEntries(buffer).find((candidate) => candidate.name === name);
+  return entry ? readZipEntryData(buffer, entry) : null;
+}
+
+/**
+ * Read the contents of an entry returned by listZipEntries. Throws when the
+ * entry is larger than `maxBytes` uncompressed.
+ */
+export function readZipEntryData(
+  buffer: Buffer,
+  entry: ZipEntry,
+  maxBytes: number = DEFAULT_MAX_ENTRY_BYTES
+): Buffer {
+  if (entry.uncompressedSize > maxBytes) {
+    throw new Error(`ZIP entry ${entry.name} is larger than ${Math.floor(maxBytes / (1024 * 1024))} MB uncompressed`);
+  }
+
+  const header = entry.localHeaderOffset;
+  if (buffer.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt ZIP entry: ${entry.name}`);
+  }
+  // The local header's name/extra lengths can differ from the central directory's
+  const dataStart = header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28);
+  const data = buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === METHOD_STORED) return data;
+  if (entry.method === METHOD_DEFLATED) {
+    try {
+      return inflateRawSync(data, { maxOutputLength: Math.max(1, entry.uncompressedSize) });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+        throw new Error(`Corrupt ZIP entry: ${entry.name} inflates past its declared size`);
+      }
+      throw error;
+    }
+  }
+  throw new Error(`Unsupported ZIP compression method ${entry.method} for ${entry.name}`);
+}
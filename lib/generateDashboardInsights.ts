@@ -1,4 +1,7 @@
-import { callLLM } from './llm';
+import { callLLMStructured } from './llm';
+import { s } from './schema';
+
+const insightsSchema = s.array(s.string());
 
 export async function generateDashboardInsights(data: {
   totals: {
@@ -99,34 +102,19 @@ Return ONLY a valid JSON array of strings (no other text). Each insight should b
 Example format:
 ["Insight 1 about expirations", "Insight 2 about documents", "Insight 3 about critical dates"]`;
 
-    // Call LLM
-    const response = await callLLM(prompt);
-
-    // Parse JSON response
-    let insights: string[];
-    try {
-      // Try to extract JSON array from response
-      const jsonMatch = response.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        insights = JSON.parse(jsonMatch[0]);
-      } else {
-        // Fallback: try parsing entire response
-        insights = JSON.parse(response);
-      }
-
-      // Validate it's an array of strings
-      if (!Array.isArray(insights) || !insights.every((i) => typeof i === 'string')) {
-        console.error('Invalid insights format:', insights);
-        return [];
-      }
+    // Call LLM and validate it returned an array of strings
+    const result = await callLLMStructured(prompt, insightsSchema, {
+      feature: 'DASHBOARD_INSIGHTS',
+    });
 
-      // Limit to 5 insights
-      return insights.slice(0, 5);
-    } catch (parseError) {
-      console.error('Error parsing LLM response:', parseError);
-      console.error('Response was:', response);
+    if (!result.success) {
+      console.error('Invalid insights format:', result.issues);
+      console.error('Response was:', result.raw);
       return [];
     }
+
+    // Limit to 5 insights
+    return result.data.slice(0, 5);
   } catch (error) {
     console.error('Error generating dashboard insights:', error);
     return [];
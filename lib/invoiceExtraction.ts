@@ -1,4 +1,5 @@
-import { callLLM } from './llm';
+import { callLLMStructured } from './llm';
+import { s, Schema } from './schema';
 
 export type InvoiceExtractionResult = {
   vendorName?: string;
@@ -17,6 +18,27 @@ export type InvoiceExtractionResult = {
   notes?: string;
 };
 
+export const invoiceExtractionSchema: Schema<InvoiceExtractionResult> = s.object({
+  vendorName: s.optional(s.string()),
+  invoiceNumber: s.optional(s.string()),
+  invoiceDate: s.optional(s.string()),
+  dueDate: s.optional(s.string()),
+  totalAmount: s.optional(s.number()),
+  currency: s.optional(s.string()),
+  lineItems: s.optional(
+    s.array(
+      s.object({
+        description: s.optional(s.string()),
+        amount: s.optional(s.number()),
+        category: s.optional(s.string()),
+      })
+    )
+  ),
+  propertyName: s.optional(s.string()),
+  leaseIdHint: s.optional(s.string()),
+  notes: s.optional(s.string()),
+});
+
 export async function extractInvoiceData(
   content: string
 ): Promise<InvoiceExtractionResult | null> {
@@ -60,39 +82,34 @@ Guidelines:
 
 JSON:`;
 
-    // Call LLM
-    const response = await callLLM(prompt);
-
-    // Parse JSON response
-    try {
-      // Try to extract JSON from response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        console.error('No JSON found in LLM response:', response);
-        return null;
-      }
+    // Call LLM and validate the response
+    const result = await callLLMStructured(prompt, invoiceExtractionSchema, {
+      feature: 'INVOICE_EXTRACTION',
+    });
 
-      const extracted = JSON.parse(jsonMatch[0]) as InvoiceExtractionResult;
+    if (!result.success) {
+      console.error('Invoice extraction response failed validation:', result.issues);
+      console.error('Response was:', result.raw);
+      return null;
+    }
 
-      // Validate that we got at least some data
-      if (
-        !extracted.vendorName &&
-        !extracted.invoiceNumber &&
-        !extracted.totalAmount &&
-        (!extracted.lineItems || extracted.lineItems.length === 0)
-      ) {
-        console.warn('No meaningful invoice data extracted');
-        return null;
-      }
+    const extracted = result.data;
 
-      return extracted;
-    } catch (parseError) {
-      console.error('Error parsing invoice extraction JSON:', parseError);
-      console.error('Response was:', response);
+    // Validate that we got at least some data
+    if (
+      !extracted.vendorName &&
+      !extracted.invoiceNumber &&
+      !extracted.totalAmount &&
+      (!extracted.lineItems || extracted.lineItems.length === 0)
+    ) {
+      console.warn('No meaningful invoice data extracted');
       return null;
     }
+
+    return extracted;
   } catch (error) {
+    // Provider and network errors propagate so the job can retry
     console.error('Error extracting invoice data:', error);
-    return null;
+    throw error;
   }
 }
@@ -0,0 +1,40 @@
+/**
+ * Job Status Polling (browser)
+ *
+ * Routes that enqueue work answer 202 with `{ jobId }`; the UI polls
+ * /api/jobs/[id] until the job finishes.
+ */
+
+import { isJobFinished, JobSummary } from './types';
+
+const DEFAULT_POLL_INTERVAL_MS = 1500;
+
+/**
+ * Poll a job until it SUCCEEDS or FAILS, calling onUpdate with each status.
+ * Resolves with the final job; rejects on HTTP errors or when aborted.
+ */
+export async function waitForJob(
+  jobId: string,
+  options?: { intervalMs?: number; onUpdate?: (job: JobSummary) => void; signal?: AbortSignal }
+): Promise<JobSummary> {
+  const intervalMs = options?.intervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+
+  for (;;) {
+    const response = await fetch(`/api/jobs/${jobId}`, { signal: options?.signal });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Failed to load job ${jobId}`);
+    }
+
+    const job = data.job as JobSummary;
+    options?.onUpdate?.(job);
+    if (isJobFinished(job.status)) {
+      return job;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    if (options?.signal?.aborted) {
+      throw new Error('Job polling aborted');
+    }
+  }
+}
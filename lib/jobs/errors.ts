@@ -0,0 +1,20 @@
+/**
+ * Job Errors
+ *
+ * Errors thrown by a job handler are retried with backoff. An error marked
+ * non-retryable fails the job at once; modules the handlers call use it for
+ * failures a retry cannot fix (an unreadable file, a response that does not
+ * match its schema).
+ */
+
+/**
+ * An error that fails the job at once: retrying cannot help (missing
+ * document, wrong type, nothing to extract from)
+ */
+export function nonRetryableError(message: string): Error {
+  return Object.assign(new Error(message), { retryable: false });
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return (error as { retryable?: boolean } | null)?.retryable !== false;
+}
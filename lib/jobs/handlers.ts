@@ -0,0 +1,259 @@
+/**
+ * Job Handlers
+ *
+ * One handler per job type, registered by type. Each receives the job's
+ * payload and returns a JSON-serializable result stored on the job. Thrown
+ * errors are retried unless created with nonRetryableError() (see ./errors).
+ */
+
+import { prisma } from '../prisma';
+import { ingestDocument } from '../documentIngestion';
+import { classifyDocument } from '../documentClassification';
+import { proposeDocumentLinks } from '../documentLinking';
+import { extractLeaseAbstract } from '../leaseExtraction';
+import { LEASE_CHAIN_DOCUMENT_TYPES, documentEffectiveDate } from '../leaseDocumentChain';
+import { refreshLeaseFromChain } from '../leaseReview';
+import { extractInvoiceData } from '../invoiceExtraction';
+import { extractWorkOrder } from '../workOrderExtraction';
+import { invalidateVectorIndex } from '../vectorIndex';
+import { enqueueDocumentJob } from './queue';
+import { nonRetryableError } from './errors';
+import { DocumentJobPayload, JobType } from './types';
+
+export type JobHandler = (payload: unknown) => Promise<unknown>;
+
+const handlers = new Map<JobType, JobHandler>();
+
+/**
+ * Register (or replace) the handler for a job type
+ */
+export function registerJobHandler(type: JobType, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+export function getJobHandler(type: string): JobHandler | undefined {
+  return handlers.get(type as JobType);
+}
+
+/**
+ * Job types with a registered handler
+ */
+export function listJobHandlers(): JobType[] {
+  return Array.from(handlers.keys());
+}
+
+function documentIdFrom(payload: unknown): string {
+  const documentId = (payload as DocumentJobPayload | null)?.documentId;
+  if (typeof documentId !== 'string' || !documentId) {
+    throw nonRetryableError('Job payload is missing documentId');
+  }
+  return documentId;
+}
+
+/**
+ * Load a document's chunk text, checking its type
+ */
+async function loadDocumentForExtraction(documentId: string, expectedType: string | string[]) {
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    include: {
+      chunks: {
+        select: { chunkIndex: true, content: true, startPage: true },
+        orderBy: { chunkIndex: 'asc' },
+      },
+    },
+  });
+
+  if (!document) {
+    throw nonRetryableError(`Document not found: ${documentId}`);
+  }
+  const expectedTypes = Array.isArray(expectedType) ? expectedType : [expectedType];
+  if (!expectedTypes.includes(document.type)) {
+    throw nonRetryableError(`Document type is ${document.type}, expected ${expectedTypes.join(' or ')}`);
+  }
+  if (document.chunks.length === 0) {
+    throw nonRetryableError('No document content available for extraction');
+  }
+
+  return document;
+}
+
+function parseExtractedData(extractedData: string | null): Record<string, unknown> {
+  if (!extractedData) return {};
+  try {
+    return JSON.parse(extractedData);
+  } catch (error) {
+    console.error('[Jobs] Error parsing extractedData:', error);
+    return {};
+  }
+}
+
+async function handleIngestDocument(payload: unknown) {
+  const documentId = documentIdFrom(payload);
+  const failure = await ingestDocument(documentId);
+  if (failure) {
+    // Recorded on the job so the document page can say why
+    throw nonRetryableError(failure);
+  }
+
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    select: {
+      status: true,
+      leaseId: true,
+      uploadBatchId: true,
+      _count: { select: { chunks: true, attachments: true } },
+    },
+  });
+
+  // Bulk uploads are classified, then matched; other unlinked documents are matched right away
+  if (document) {
+    if (document.uploadBatchId) {
+      await enqueueDocumentJob('CLASSIFY_DOCUMENT', documentId);
+    } else if (!document.leaseId) {
+      await enqueueDocumentJob('PROPOSE_DOCUMENT_LINKS', documentId);
+    }
+  }
+
+  return {
+    chunksCreated: document?._count.chunks ?? 0,
+    attachmentsCreated: document?._count.attachments ?? 0,
+  };
+}
+
+async function handleClassifyDocument(payload: unknown) {
+  const documentId = documentIdFrom(payload);
+
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    include: {
+      chunks: {
+        select: { content: true },
+        orderBy: { chunkIndex: 'asc' },
+        take: 3, // Get first 3 chunks for sample
+      },
+    },
+  });
+
+  if (!document) {
+    throw nonRetryableError(`Document not found: ${documentId}`);
+  }
+
+  const contentSample = document.chunks.map((c) => c.content).join('\n\n');
+  const result = await classifyDocument({
+    fileName: document.fileName,
+    contentSample: contentSample || undefined,
+  });
+
+  await prisma.document.update({
+    where: { id: documentId },
+    data: { type: result.type },
+  });
+  if (result.type !== document.type) {
+    await invalidateVectorIndex('chunks');
+  }
+
+  if (document.uploadBatchId) {
+    await enqueueDocumentJob('PROPOSE_DOCUMENT_LINKS', documentId);
+  }
+
+  return { type: result.type, previousType: document.type, confidence: result.confidence };
+}
+
+async function handleProposeDocumentLinks(payload: unknown) {
+  const documentId = documentIdFrom(payload);
+  const result = await proposeDocumentLinks(documentId);
+  return result ?? { skipped: 'Document is already linked' };
+}
+
+async function handleExtractLease(payload: unknown) {
+  const documentId = documentIdFrom(payload);
+  const document = await loadDocumentForExtraction(documentId, LEASE_CHAIN_DOCUMENT_TYPES);
+
+  console.log(
+    `[Extract] Extracting ${document.type.toLowerCase()} abstract from document ${documentId} (${document.chunks.length} chunks)`
+  );
+  const { data: extractedData, citations } = await extractLeaseAbstract(document.chunks, document.type);
+
+  await prisma.document.update({
+    where: { id: documentId },
+    data: {
+      extractedData: JSON.stringify(extractedData),
+      extractionCitations: JSON.stringify(citations),
+      effectiveDate: documentEffectiveDate({ type: document.type, effectiveDate: null }, extractedData),
+    },
+  });
+
+  // Queue the lease fields the whole chain now changes (an amendment
+  // overrides the original) for review; nothing is applied until accepted
+  let changeSet: { id: string; _count: { changes: number } } | null = null;
+  let rentSteps = 0;
+  if (document.leaseId && extractedData) {
+    ({ changeSet, rentSteps } = await refreshLeaseFromChain(document.leaseId, documentId));
+  }
+
+  return {
+    extractedData,
+    changeSetId: changeSet?.id ?? null,
+    proposedChanges: changeSet?._count.changes ?? 0,
+    rentSteps,
+  };
+}
+
+async function handleExtractInvoice(payload: unknown) {
+  const documentId = documentIdFrom(payload);
+  const document = await loadDocumentForExtraction(documentId, 'INVOICE');
+
+  const content = document.chunks.map((chunk) => chunk.content).join('\n\n');
+  const result = await extractInvoiceData(content.slice(0, 15000));
+
+  // The response was cached, so a retry would fail the same way
+  if (!result) {
+    throw nonRetryableError('Failed to extract invoice data. The content may not contain valid invoice information.');
+  }
+
+  // Merge with existing extractedData
+  const updatedData = { ...parseExtractedData(document.extractedData), invoice: result };
+  await prisma.document.update({
+    where: { id: documentId },
+    data: { extractedData: JSON.stringify(updatedData) },
+  });
+
+  // The invoice's leaseIdHint/propertyName can place a document the text alone could not
+  if (!document.leaseId) {
+    await enqueueDocumentJob('PROPOSE_DOCUMENT_LINKS', documentId);
+  }
+
+  return { invoiceExtracted: true };
+}
+
+async function handleExtractWorkOrder(payload: unknown) {
+  const documentId = documentIdFrom(payload);
+  const document = await loadDocumentForExtraction(documentId, 'WORK_ORDER');
+
+  const content = document.chunks.map((chunk) => chunk.content).join('\n\n');
+  const result = await extractWorkOrder(content.slice(0, 15000));
+
+  // The response was cached, so a retry would fail the same way
+  if (!result) {
+    throw nonRetryableError(
+      'Failed to extract work order data. The content may not contain valid work order information.'
+    );
+  }
+
+  // Merge with existing extractedData
+  const updatedData = { ...parseExtractedData(document.extractedData), workOrder: result };
+  await prisma.document.update({
+    where: { id: documentId },
+    data: { extractedData: JSON.stringify(updatedData) },
+  });
+
+  return { workOrderExtracted: true };
+}
+
+registerJobHandler('INGEST_DOCUMENT', handleIngestDocument);
+registerJobHandler('CLASSIFY_DOCUMENT', handleClassifyDocument);
+registerJobHandler('EXTRACT_LEASE', handleExtractLease);
+registerJobHandler('EXTRACT_INVOICE', handleExtractInvoice);
+registerJobHandler('EXTRACT_WORK_ORDER', handleExtractWorkOrder);
+registerJobHandler('PROPOSE_DOCUMENT_LINKS', handleProposeDocumentLinks);
@@ -0,0 +1,18 @@
+/**
+ * Background Jobs
+ *
+ * Server-side entry point: enqueue from routes, run from the worker.
+ * Browser code should import from ./client and ./types instead.
+ */
+
+export * from './types';
+export {
+  enqueueJob,
+  enqueueDocumentJob,
+  getJobSummary,
+  listJobSummaries,
+  releaseStaleJobs,
+} from './queue';
+export { registerJobHandler, listJobHandlers } from './handlers';
+export { nonRetryableError } from './errors';
+export { runNextJob, runWorker, defaultWorkerId } from './worker';
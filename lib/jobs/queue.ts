@@ -0,0 +1,289 @@
+/**
+ * Durable Job Queue
+ *
+ * Jobs live in the Job table, so they survive restarts and are shared by
+ * every process using the database. Routes enqueue work and return at once;
+ * the worker (scripts/worker.ts) claims jobs one at a time. A claim is a
+ * conditional update on a QUEUED row, so two workers never run the same job.
+ * The worker refreshes its lock while the job runs; a job whose lock goes
+ * stale is released to another worker, and the first worker's outcome is
+ * then discarded. Failed jobs are retried with exponential backoff until
+ * maxAttempts.
+ */
+
+import { prisma } from '../prisma';
+import { JobStatus, JobSummary, JobType } from './types';
+
+const JOB_MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10);
+// RUNNING jobs whose worker died are released after this long
+const JOB_LOCK_TIMEOUT_MINUTES = parseInt(process.env.JOB_LOCK_TIMEOUT_MINUTES || '15', 10);
+
+// How often a worker refreshes the lock of the job it is running
+export const JOB_LOCK_REFRESH_INTERVAL_MS = Math.min(60 * 1000, (JOB_LOCK_TIMEOUT_MINUTES * 60 * 1000) / 3);
+
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 15 * 60 * 1000;
+
+export interface ClaimedJob {
+  id: string;
+  type: string;
+  payload: unknown;
+  attempts: number; // Including the current attempt
+  maxAttempts: number;
+  documentId: string | null;
+  lockedBy: string; // The claiming worker
+}
+
+/**
+ * Add a job to the queue
+ */
+export async function enqueueJob(
+  type: JobType,
+  payload: Record<string, unknown>,
+  options?: { documentId?: string; maxAttempts?: number; runAt?: Date }
+): Promise<{ id: string; status: JobStatus }> {
+  const job = await prisma.job.create({
+    data: {
+      type,
+      payload: JSON.stringify(payload),
+      documentId: options?.documentId ?? null,
+      maxAttempts: options?.maxAttempts ?? JOB_MAX_ATTEMPTS,
+      runAt: options?.runAt ?? new Date(),
+    },
+    select: { id: true },
+  });
+
+  console.log(`[Jobs] Enqueued ${type} job ${job.id}`);
+  return { id: job.id, status: 'QUEUED' };
+}
+
+/**
+ * Enqueue a job for a document, reusing a job of the same type that is
+ * still queued or running (double-clicks, re-uploads)
+ */
+export async function enqueueDocumentJob(
+  type: JobType,
+  documentId: string
+): Promise<{ id: string; status: JobStatus }> {
+  const active = await prisma.job.findFirst({
+    where: { type, documentId, status: { in: ['QUEUED', 'RUNNING'] } },
+    select: { id: true, status: true },
+  });
+  if (active) {
+    return { id: active.id, status: active.status as JobStatus };
+  }
+  return enqueueJob(type, { documentId }, { documentId });
+}
+
+/**
+ * Claim the oldest due job, or null when none is waiting
+ */
+export async function claimNextJob(workerId: string): Promise<ClaimedJob | null> {
+  // Another worker may win the race for a candidate; try the next one
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const candidate = await prisma.job.findFirst({
+      where: { status: 'QUEUED', runAt: { lte: new Date() } },
+      orderBy: [{ runAt: 'asc' }, { createdAt: 'asc' }],
+      select: { id: true },
+    });
+    if (!candidate) return null;
+
+    const claimed = await prisma.job.updateMany({
+      where: { id: candidate.id, status: 'QUEUED' },
+      data: {
+        status: 'RUNNING',
+        lockedAt: new Date(),
+        lockedBy: workerId,
+        attempts: { increment: 1 },
+      },
+    });
+    if (claimed.count === 0) continue;
+
+    const job = await prisma.job.findUniqueOrThrow({ where: { id: candidate.id } });
+    let payload: unknown = null;
+    try {
+      payload = JSON.parse(job.payload);
+    } catch (error) {
+      console.error(`[Jobs] Invalid payload for job ${job.id}:`, error);
+    }
+
+    return {
+      id: job.id,
+      type: job.type,
+      payload,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      documentId: job.documentId,
+      lockedBy: workerId,
+    };
+  }
+  return null;
+}
+
+// The claimed job's row, as long as its worker still holds the lock
+function heldLock(job: ClaimedJob) {
+  return { id: job.id, status: 'RUNNING', lockedBy: job.lockedBy };
+}
+
+/**
+ * Keep a running job's lock fresh so it is not released as stale. Returns
+ * false when the job was released to another worker in the meantime.
+ */
+export async function refreshJobLock(job: ClaimedJob): Promise<boolean> {
+  const refreshed = await prisma.job.updateMany({
+    where: heldLock(job),
+    data: { lockedAt: new Date() },
+  });
+  return refreshed.count > 0;
+}
+
+/**
+ * Record a successful attempt. Returns false when the job was released to
+ * another worker meanwhile; its outcome is then left to that worker.
+ */
+export async function completeJob(job: ClaimedJob, result: unknown): Promise<boolean> {
+  const completed = await prisma.job.updateMany({
+    where: heldLock(job),
+    data: {
+      status: 'SUCCEEDED',
+      result: result === undefined ? null : JSON.stringify(result),
+      lastError: null,
+      lockedAt: null,
+      lockedBy: null,
+      completedAt: new Date(),
+    },
+  });
+  return completed.count > 0;
+}
+
+/**
+ * Record a failed attempt. `willRetry` is true when the job will be retried,
+ * false when it has used up its attempts (or `retry` is false) and is FAILED.
+ * `recorded` is false when the job was released to another worker meanwhile.
+ */
+export async function failJob(
+  job: ClaimedJob,
+  error: unknown,
+  retry = true
+): Promise<{ recorded: boolean; willRetry: boolean }> {
+  const message = error instanceof Error ? error.message : String(error);
+  const willRetry = retry && job.attempts < job.maxAttempts;
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1), RETRY_MAX_DELAY_MS);
+
+  const failed = await prisma.job.updateMany({
+    where: heldLock(job),
+    data: willRetry
+      ? {
+          status: 'QUEUED',
+          lastError: message,
+          lockedAt: null,
+          lockedBy: null,
+          runAt: new Date(Date.now() + delay),
+        }
+      : {
+          status: 'FAILED',
+          lastError: message,
+          lockedAt: null,
+          lockedBy: null,
+          completedAt: new Date(),
+        },
+  });
+
+  return { recorded: failed.count > 0, willRetry };
+}
+
+/**
+ * Return RUNNING jobs whose worker stopped responding to the queue
+ */
+export async function releaseStaleJobs(): Promise<number> {
+  const cutoff = new Date(Date.now() - JOB_LOCK_TIMEOUT_MINUTES * 60 * 1000);
+  const released = await prisma.job.updateMany({
+    where: { status: 'RUNNING', lockedAt: { lt: cutoff } },
+    data: { status: 'QUEUED', lockedAt: null, lockedBy: null },
+  });
+  if (released.count > 0) {
+    console.warn(`[Jobs] Released ${released.count} stale job(s)`);
+  }
+  return released.count;
+}
+
+const jobSummarySelect = {
+  id: true,
+  type: true,
+  status: true,
+  attempts: true,
+  maxAttempts: true,
+  lastError: true,
+  result: true,
+  documentId: true,
+  createdAt: true,
+  updatedAt: true,
+  completedAt: true,
+  document: { select: { status: true } },
+} as const;
+
+type JobSummaryRow = {
+  id: string;
+  type: string;
+  status: string;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  result: string | null;
+  documentId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+  document: { status: string } | null;
+};
+
+function toJobSummary(job: JobSummaryRow): JobSummary {
+  let result: unknown = null;
+  if (job.result) {
+    try {
+      result = JSON.parse(job.result);
+    } catch (error) {
+      console.error(`[Jobs] Invalid result for job ${job.id}:`, error);
+    }
+  }
+
+  return {
+    id: job.id,
+    type: job.type as JobSummary['type'],
+    status: job.status as JobSummary['status'],
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    lastError: job.lastError,
+    result,
+    documentId: job.documentId,
+    documentStatus: job.document?.status ?? null,
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString(),
+    completedAt: job.completedAt ? job.completedAt.toISOString() : null,
+  };
+}
+
+export async function getJobSummary(jobId: string): Promise<JobSummary | null> {
+  const job = await prisma.job.findUnique({ where: { id: jobId }, select: jobSummarySelect });
+  return job ? toJobSummary(job) : null;
+}
+
+/**
+ * Recent jobs, newest first, optionally for one document or status
+ */
+export async function listJobSummaries(filters: {
+  documentId?: string;
+  status?: JobStatus[];
+  limit?: number;
+}): Promise<JobSummary[]> {
+  const jobs = await prisma.job.findMany({
+    where: {
+      ...(filters.documentId ? { documentId: filters.documentId } : {}),
+      ...(filters.status?.length ? { status: { in: filters.status } } : {}),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: filters.limit ?? 50,
+    select: jobSummarySelect,
+  });
+  return jobs.map(toJobSummary);
+}
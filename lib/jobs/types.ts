@@ -0,0 +1,54 @@
+/**
+ * Background Job Types
+ *
+ * Shared by the queue, the worker and the browser (job status polling),
+ * so nothing here may import server-only modules.
+ */
+
+export const JOB_TYPES = [
+  'INGEST_DOCUMENT',
+  'CLASSIFY_DOCUMENT',
+  'EXTRACT_LEASE',
+  'EXTRACT_INVOICE',
+  'EXTRACT_WORK_ORDER',
+  'PROPOSE_DOCUMENT_LINKS',
+] as const;
+
+export type JobType = (typeof JOB_TYPES)[number];
+
+export const JOB_STATUSES = ['QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED'] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+/**
+ * Payload of every document job
+ */
+export interface DocumentJobPayload {
+  documentId: string;
+}
+
+/**
+ * Job as returned by the job status endpoints
+ */
+export interface JobSummary {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  result: unknown; // Handler result, once SUCCEEDED
+  documentId: string | null;
+  documentStatus: string | null; // Current Document.status, for document jobs
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export function isJobType(type: string): type is JobType {
+  return (JOB_TYPES as readonly string[]).includes(type);
+}
+
+export function isJobFinished(status: string): boolean {
+  return status === 'SUCCEEDED' || status === 'FAILED';
+}
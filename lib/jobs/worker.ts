@@ -0,0 +1,147 @@
+/**
+ * Job Worker
+ *
+ * Claims and runs queued jobs. Ingestion jobs drive Document.status:
+ * PROCESSING while the job runs (and between retries), EXTRACTED on success
+ * and FAILED once the job has used up its attempts. Unreadable files (no
+ * text, no chunks, unsupported format) fail at once, with the reason as the
+ * job's error. Other document jobs (classification, linking, extraction)
+ * run on an ingested document; their failures are recorded on the job only.
+ */
+
+import { hostname } from 'os';
+import { prisma } from '../prisma';
+import { getJobHandler } from './handlers';
+import { isRetryableError, nonRetryableError } from './errors';
+import {
+  claimNextJob,
+  ClaimedJob,
+  completeJob,
+  failJob,
+  JOB_LOCK_REFRESH_INTERVAL_MS,
+  refreshJobLock,
+  releaseStaleJobs,
+} from './queue';
+
+const JOB_POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000', 10);
+const STALE_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Job types whose outcome is the document's processing status
+const DOCUMENT_STATUS_JOB_TYPES: string[] = ['INGEST_DOCUMENT'];
+
+export function defaultWorkerId(): string {
+  return `${hostname()}:${process.pid}`;
+}
+
+async function runJob(job: ClaimedJob): Promise<void> {
+  const handler = getJobHandler(job.type);
+  const startedAt = Date.now();
+  const documentId = DOCUMENT_STATUS_JOB_TYPES.includes(job.type) ? job.documentId : null;
+
+  if (documentId) {
+    await prisma.document.updateMany({
+      where: { id: documentId },
+      data: { status: 'PROCESSING' },
+    });
+  }
+
+  // Long jobs (OCR, map-reduce extraction) must not be released as stale
+  const lockRefresh = setInterval(() => {
+    refreshJobLock(job)
+      .then((held) => {
+        if (!held) console.warn(`[Worker] Lost the lock on ${job.type} job ${job.id}`);
+      })
+      .catch((error) => console.error(`[Worker] Could not refresh the lock on job ${job.id}:`, error));
+  }, JOB_LOCK_REFRESH_INTERVAL_MS);
+
+  try {
+    if (!handler) {
+      throw nonRetryableError(`No handler registered for job type ${job.type}`);
+    }
+
+    const result = await handler(job.payload);
+    clearInterval(lockRefresh);
+    if (!(await completeJob(job, result))) {
+      console.warn(`[Worker] ${job.type} job ${job.id} finished after another worker took it over`);
+      return;
+    }
+
+    if (documentId) {
+      await prisma.document.updateMany({
+        where: { id: documentId, status: 'PROCESSING' },
+        data: { status: 'EXTRACTED' },
+      });
+    }
+
+    console.log(`[Worker] ${job.type} job ${job.id} succeeded in ${Date.now() - startedAt}ms`);
+  } catch (error) {
+    clearInterval(lockRefresh);
+    const { recorded, willRetry } = await failJob(job, error, isRetryableError(error));
+    if (!recorded) {
+      console.warn(`[Worker] ${job.type} job ${job.id} failed after another worker took it over:`, error);
+      return;
+    }
+
+    if (documentId && !willRetry) {
+      await prisma.document.updateMany({
+        where: { id: documentId },
+        data: { status: 'FAILED' },
+      });
+    }
+
+    console.error(
+      `[Worker] ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}${
+        willRetry ? ', will retry' : ''
+      }):`,
+      error
+    );
+  }
+}
+
+/**
+ * Run the next due job, if any. Returns false when the queue was empty.
+ */
+export async function runNextJob(workerId: string = defaultWorkerId()): Promise<boolean> {
+  const job = await claimNextJob(workerId);
+  if (!job) return false;
+  await runJob(job);
+  return true;
+}
+
+/**
+ * Process jobs until `shouldStop` returns true, polling while the queue is
+ * empty. The current job always finishes before the loop exits.
+ */
+export async function runWorker(options?: {
+  workerId?: string;
+  pollIntervalMs?: number;
+  shouldStop?: () => boolean;
+}): Promise<void> {
+  const workerId = options?.workerId || defaultWorkerId();
+  const pollIntervalMs = options?.pollIntervalMs ?? JOB_POLL_INTERVAL_MS;
+  const shouldStop = options?.shouldStop ?? (() => false);
+  let lastStaleCheck = 0;
+
+  console.log(`[Worker] ${workerId} started (polling every ${pollIntervalMs}ms)`);
+
+  while (!shouldStop()) {
+    let ranJob = false;
+    try {
+      if (Date.now() - lastStaleCheck > STALE_CHECK_INTERVAL_MS) {
+        await releaseStaleJobs();
+        lastStaleCheck = Date.now();
+      }
+
+      ranJob = await runNextJob(workerId);
+    } catch (error) {
+      // Queue bookkeeping failed (e.g. database locked); back off and retry
+      console.error('[Worker] Error polling job queue:', error);
+    }
+
+    if (!ranJob && !shouldStop()) {
+      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+  }
+
+  console.log(`[Worker] ${workerId} stopped`);
+}
@@ -0,0 +1,284 @@
+/**
+ * Lease Document Chain
+ *
+ * A lease's LEASE, AMENDMENT and ASSIGNMENT documents form an ordered
+ * chain: the original lease first, then amendments and assignments by
+ * effective date. The current effective terms fold the chain's extracted
+ * data in that order, so a later document's rent, term and option fields
+ * override earlier ones, and every field records the document it came from.
+ */
+
+import { prisma } from './prisma';
+import type { ExtractedLeaseData, ExtractionCitations, FieldCitation } from './leaseExtraction';
+
+export const LEASE_CHAIN_DOCUMENT_TYPES = ['LEASE', 'AMENDMENT', 'ASSIGNMENT'];
+
+export const EFFECTIVE_TERM_FIELDS = [
+  'tenantName',
+  'propertyName',
+  'suite',
+  'baseRent',
+  'rentCurrency',
+  'startDate',
+  'endDate',
+  'escalationType',
+  'escalationRate',
+  'camType',
+  'camCap',
+  'rentSchedule',
+  'renewalOptions',
+  'criticalDates',
+  'securityDeposit',
+  'guarantor',
+  'freeRent',
+  'tiAllowance',
+  'percentageRent',
+  'expansionRights',
+  'terminationRights',
+  'coTenancy',
+  'exclusives',
+  'radiusRestriction',
+  'holdover',
+  'assignmentTerms',
+] as const;
+
+export type EffectiveTermField = (typeof EFFECTIVE_TERM_FIELDS)[number];
+
+export interface ChainDocument {
+  id: string;
+  fileName: string;
+  type: string;
+  uploadedAt: Date;
+  effectiveDate: Date | null;
+  extractedData: string | null;
+  extractionCitations?: string | null;
+}
+
+export interface ChainEntry {
+  documentId: string;
+  fileName: string;
+  type: string;
+  label: string; // "Original Lease", "Amendment 2", "Assignment 1"
+  chainIndex: number;
+  effectiveDate: string | null; // YYYY-MM-DD
+  extracted: boolean; // Has lease data to contribute
+}
+
+export interface TermProvenance {
+  documentId: string;
+  fileName: string;
+  label: string;
+  effectiveDate: string | null;
+  citation?: FieldCitation; // Quote, chunk and page within that document
+}
+
+export interface EffectiveLeaseTerms {
+  terms: Pick<ExtractedLeaseData, EffectiveTermField>;
+  provenance: Partial<Record<EffectiveTermField, TermProvenance>>;
+  chain: ChainEntry[];
+}
+
+function parseExtractedLeaseData(extractedData: string | null): ExtractedLeaseData | null {
+  if (!extractedData) return null;
+  try {
+    return JSON.parse(extractedData);
+  } catch (error) {
+    console.error('[LeaseChain] Error parsing extractedData:', error);
+    return null;
+  }
+}
+
+function parseExtractionCitations(extractionCitations: string | null | undefined): ExtractionCitations {
+  if (!extractionCitations) return {};
+  try {
+    return JSON.parse(extractionCitations);
+  } catch (error) {
+    console.error('[LeaseChain] Error parsing extractionCitations:', error);
+    return {};
+  }
+}
+
+function validDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * When a document takes effect: the stored date, else the extracted
+ * effective date, else (for the lease itself) its start date
+ */
+export function documentEffectiveDate(
+  document: Pick<ChainDocument, 'type' | 'effectiveDate'>,
+  data: ExtractedLeaseData | null
+): Date | null {
+  return (
+    document.effectiveDate ||
+    validDate(data?.effectiveDate) ||
+    (document.type === 'LEASE' ? validDate(data?.startDate) : null)
+  );
+}
+
+function hasValue(value: unknown): boolean {
+  if (value === null || value === undefined || value === '') return false;
+  return !Array.isArray(value) || value.length > 0;
+}
+
+/**
+ * Order a lease's documents into its chain. Leases come first; amendments
+ * and assignments follow by effective date (upload date when unknown), then
+ * amendment number.
+ */
+export function orderLeaseDocumentChain<T extends ChainDocument>(documents: T[]): T[] {
+  const keyed = documents.map((document) => {
+    const data = parseExtractedLeaseData(document.extractedData);
+    return {
+      document,
+      rank: document.type === 'LEASE' ? 0 : 1,
+      date: (documentEffectiveDate(document, data) || document.uploadedAt).getTime(),
+      amendmentNumber: data?.amendmentNumber ?? Number.MAX_SAFE_INTEGER,
+    };
+  });
+
+  return keyed
+    .sort(
+      (a, b) =>
+        a.rank - b.rank ||
+        a.date - b.date ||
+        a.amendmentNumber - b.amendmentNumber ||
+        a.document.uploadedAt.getTime() - b.document.uploadedAt.getTime()
+    )
+    .map((entry) => entry.document);
+}
+
+/**
+ * Fold a lease's documents into its current effective terms
+ */
+export function computeEffectiveTerms(documents: ChainDocument[]): EffectiveLeaseTerms {
+  const terms: Record<string, unknown> = {};
+  const provenance: Partial<Record<EffectiveTermField, TermProvenance>> = {};
+  const chain: ChainEntry[] = [];
+  let amendments = 0;
+  let assignments = 0;
+
+  orderLeaseDocumentChain(documents).forEach((document, chainIndex) => {
+    const data = parseExtractedLeaseData(document.extractedData);
+    const effectiveDate = documentEffectiveDate(document, data);
+
+    let label: string;
+    if (document.type === 'AMENDMENT') {
+      amendments++;
+      label = `Amendment ${data?.amendmentNumber ?? amendments}`;
+    } else if (document.type === 'ASSIGNMENT') {
+      assignments++;
+      label = `Assignment ${assignments}`;
+    } else {
+      label = chainIndex === 0 ? 'Original Lease' : 'Restated Lease';
+    }
+
+    const entry: ChainEntry = {
+      documentId: document.id,
+      fileName: document.fileName,
+      type: document.type,
+      label,
+      chainIndex,
+      effectiveDate: effectiveDate ? effectiveDate.toISOString().split('T')[0] : null,
+      extracted: !!data,
+    };
+    chain.push(entry);
+
+    if (!data) return;
+    const citations = parseExtractionCitations(document.extractionCitations);
+    for (const field of EFFECTIVE_TERM_FIELDS) {
+      if (hasValue(data[field])) {
+        terms[field] = data[field];
+        provenance[field] = {
+          documentId: document.id,
+          fileName: document.fileName,
+          label,
+          effectiveDate: entry.effectiveDate,
+          citation: citations[field],
+        };
+      }
+    }
+  });
+
+  return { terms: terms as EffectiveLeaseTerms['terms'], provenance, chain };
+}
+
+async function loadChainDocuments(leaseId: string) {
+  return prisma.document.findMany({
+    where: {
+      leaseId,
+      type: { in: LEASE_CHAIN_DOCUMENT_TYPES },
+      status: { not: 'FAILED' },
+    },
+    select: {
+      id: true,
+      fileName: true,
+      type: true,
+      uploadedAt: true,
+      effectiveDate: true,
+      extractedData: true,
+      extractionCitations: true,
+      chainIndex: true,
+      supersedesDocumentId: true,
+    },
+  });
+}
+
+/**
+ * The extracted data of each chain document, in chain order, for
+ * consumers that need the history rather than the folded terms
+ */
+export async function loadLeaseChainExtractions(
+  leaseId: string
+): Promise<{ entry: ChainEntry; data: ExtractedLeaseData }[]> {
+  const documents = await loadChainDocuments(leaseId);
+  const { chain } = computeEffectiveTerms(documents);
+  const extractedById = new Map<string, string | null>(
+    documents.map((document: ChainDocument) => [document.id, document.extractedData])
+  );
+
+  return chain.flatMap((entry) => {
+    const data = parseExtractedLeaseData(extractedById.get(entry.documentId) ?? null);
+    return data ? [{ entry, data }] : [];
+  });
+}
+
+/**
+ * Current effective terms of a lease, with provenance and its document chain
+ */
+export async function loadEffectiveLeaseTerms(leaseId: string): Promise<EffectiveLeaseTerms> {
+  return computeEffectiveTerms(await loadChainDocuments(leaseId));
+}
+
+/**
+ * Re-order a lease's chain and store each document's effective date,
+ * position and the document it supersedes. Run after a chain document is
+ * extracted, or linked to or unlinked from the lease.
+ */
+export async function rebuildLeaseDocumentChain(leaseId: string): Promise<ChainEntry[]> {
+  const documents = await loadChainDocuments(leaseId);
+  const { chain } = computeEffectiveTerms(documents);
+  const byId = new Map(documents.map((document) => [document.id, document]));
+
+  for (const entry of chain) {
+    const document = byId.get(entry.documentId)!;
+    const supersedesDocumentId = entry.chainIndex > 0 ? chain[entry.chainIndex - 1].documentId : null;
+    const effectiveDate = entry.effectiveDate ? new Date(entry.effectiveDate) : null;
+
+    if (
+      document.chainIndex !== entry.chainIndex ||
+      document.supersedesDocumentId !== supersedesDocumentId ||
+      document.effectiveDate?.getTime() !== effectiveDate?.getTime()
+    ) {
+      await prisma.document.update({
+        where: { id: document.id },
+        data: { chainIndex: entry.chainIndex, supersedesDocumentId, effectiveDate },
+      });
+    }
+  }
+
+  return chain;
+}
@@ -1,12 +1,37 @@
 /**
  * Lease Data Extraction
  *
- * Extract structured data from lease documents using LLM
+ * Extract a full lease abstract (economic and legal terms) from lease
+ * documents using the LLM. Long documents are map-reduced: the chunks are
+ * packed into excerpts that fit the prompt, each excerpt is extracted on its
+ * own, and the partial results are merged into one abstract.
  */
 
-import { callLLM } from './llm';
+import { callLLMStructured } from './llm';
+import { nonRetryableError } from './jobs/errors';
+import { findQuoteSpan } from './pageText';
+import { s, Schema } from './schema';
+
+export const CRITICAL_DATE_TYPES = [
+  'LEASE_EXPIRATION',
+  'RENEWAL_DEADLINE',
+  'NOTICE_DEADLINE',
+  'COI_EXPIRATION',
+] as const;
+
+export type CriticalDateType = (typeof CRITICAL_DATE_TYPES)[number];
+
+export const EXPANSION_RIGHT_TYPES = ['EXPANSION', 'ROFO', 'ROFR'] as const;
+
+export type ExpansionRightType = (typeof EXPANSION_RIGHT_TYPES)[number];
+
+export const TERMINATION_PARTIES = ['TENANT', 'LANDLORD', 'EITHER'] as const;
+
+export type TerminationParty = (typeof TERMINATION_PARTIES)[number];
 
 export interface ExtractedLeaseData {
+  effectiveDate?: string; // ISO; when an amendment or assignment takes effect
+  amendmentNumber?: number; // 1 for the First Amendment, etc.
   tenantName?: string;
   propertyName?: string;
   suite?: string;
@@ -18,50 +43,490 @@ export interface ExtractedLeaseData {
   escalationRate?: number;
   camType?: string;
   camCap?: number | null;
+  rentSchedule?: {
+    effectiveDate: string; // ISO; the step applies from this date to the next step
+    monthlyRent: number;
+    ratePerSquareFoot?: number; // Annual rent per SF, as stated
+  }[];
   renewalOptions?: {
     months: number;
     deadline: string; // ISO
     noticeMonths?: number;
   }[];
   criticalDates?: {
-    type: 'LEASE_EXPIRATION' | 'RENEWAL_DEADLINE' | 'NOTICE_DEADLINE' | 'COI_EXPIRATION';
+    type: CriticalDateType;
     date: string; // ISO
     description?: string;
   }[];
+  securityDeposit?: {
+    amount?: number;
+    form?: string; // "Cash", "Letter of credit"
+    burnDown?: string; // Scheduled reductions, if any
+  };
+  guarantor?: {
+    name?: string;
+    type?: string; // "Personal", "Corporate"
+    capAmount?: number; // Maximum liability, when limited
+    terms?: string;
+  };
+  freeRent?: {
+    months?: number;
+    description?: string; // Which months, and whether additional rent is also abated
+  };
+  tiAllowance?: {
+    amount?: number; // Total dollars
+    perSquareFoot?: number;
+    deadline?: string; // ISO; date by which it must be claimed
+    description?: string;
+  };
+  percentageRent?: {
+    rate?: number; // % of gross sales
+    naturalBreakpoint?: boolean;
+    breakpoints?: {
+      threshold: number; // Annual gross sales above which `rate` applies
+      rate: number; // %
+    }[];
+    description?: string;
+  };
+  expansionRights?: {
+    type: ExpansionRightType;
+    space?: string;
+    deadline?: string; // ISO
+    description?: string;
+  }[];
+  terminationRights?: {
+    party: TerminationParty;
+    earliestDate?: string; // ISO
+    noticeMonths?: number;
+    fee?: number;
+    description?: string;
+  }[];
+  coTenancy?: {
+    requirement?: string; // e.g. anchor open and operating, % of GLA occupied
+    remedy?: string; // e.g. rent reduction, right to terminate
+  };
+  exclusives?: {
+    use: string;
+    exceptions?: string;
+  }[];
+  radiusRestriction?: {
+    miles?: number;
+    description?: string;
+  };
+  holdover?: {
+    rentPercent?: number; // Holdover rent as % of the last rent
+    description?: string;
+  };
+  assignmentTerms?: {
+    consentRequired?: boolean;
+    consentStandard?: string; // e.g. "not unreasonably withheld"
+    recaptureRight?: boolean;
+    profitSharePercent?: number;
+    description?: string;
+  };
 }
 
+export type ExtractedLeaseField = keyof ExtractedLeaseData;
+
 /**
- * Extract structured data from a lease document
+ * Where an extracted field's value was read: the chunk and page containing
+ * the quote the LLM gave as evidence, and its confidence in the value
  */
-export async function extractLeaseData(
-  documentText: string
-): Promise<ExtractedLeaseData> {
-  const prompt = buildExtractionPrompt(documentText);
-
-  try {
-    const response = await callLLM(prompt);
-
-    // Try to parse JSON from response
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      console.warn('LLM did not return valid JSON for lease extraction');
-      return {};
+export interface FieldCitation {
+  chunkIndex: number | null; // null when the quote was not found in the document
+  page: number | null;
+  quote: string;
+  confidence: number; // 0-1
+}
+
+export type ExtractionCitations = Partial<Record<ExtractedLeaseField, FieldCitation>>;
+
+export interface LeaseExtractionResult {
+  data: ExtractedLeaseData;
+  citations: ExtractionCitations; // Stored as Document.extractionCitations
+}
+
+/**
+ * A document chunk to extract from
+ */
+export interface ExtractionChunk {
+  chunkIndex: number;
+  content: string;
+  startPage: number | null;
+}
+
+const extractedLeaseDataShape = {
+  effectiveDate: s.optional(s.string()),
+  amendmentNumber: s.optional(s.number()),
+  tenantName: s.optional(s.string()),
+  propertyName: s.optional(s.string()),
+  suite: s.optional(s.string()),
+  baseRent: s.optional(s.number()),
+  rentCurrency: s.optional(s.string()),
+  startDate: s.optional(s.string()),
+  endDate: s.optional(s.string()),
+  escalationType: s.optional(s.string()),
+  escalationRate: s.optional(s.number()),
+  camType: s.optional(s.string()),
+  camCap: s.optional(s.number()),
+  rentSchedule: s.optional(
+    s.array(
+      s.object({
+        effectiveDate: s.string(),
+        monthlyRent: s.number(),
+        ratePerSquareFoot: s.optional(s.number()),
+      })
+    )
+  ),
+  renewalOptions: s.optional(
+    s.array(
+      s.object({
+        months: s.number(),
+        deadline: s.string(),
+        noticeMonths: s.optional(s.number()),
+      })
+    )
+  ),
+  criticalDates: s.optional(
+    s.array(
+      s.object({
+        type: s.enumeration(CRITICAL_DATE_TYPES),
+        date: s.string(),
+        description: s.optional(s.string()),
+      })
+    )
+  ),
+  securityDeposit: s.optional(
+    s.object({
+      amount: s.optional(s.number()),
+      form: s.optional(s.string()),
+      burnDown: s.optional(s.string()),
+    })
+  ),
+  guarantor: s.optional(
+    s.object({
+      name: s.optional(s.string()),
+      type: s.optional(s.string()),
+      capAmount: s.optional(s.number()),
+      terms: s.optional(s.string()),
+    })
+  ),
+  freeRent: s.optional(
+    s.object({
+      months: s.optional(s.number()),
+      description: s.optional(s.string()),
+    })
+  ),
+  tiAllowance: s.optional(
+    s.object({
+      amount: s.optional(s.number()),
+      perSquareFoot: s.optional(s.number()),
+      deadline: s.optional(s.string()),
+      description: s.optional(s.string()),
+    })
+  ),
+  percentageRent: s.optional(
+    s.object({
+      rate: s.optional(s.number()),
+      naturalBreakpoint: s.optional(s.boolean()),
+      breakpoints: s.optional(
+        s.array(
+          s.object({
+            threshold: s.number(),
+            rate: s.number(),
+          })
+        )
+      ),
+      description: s.optional(s.string()),
+    })
+  ),
+  expansionRights: s.optional(
+    s.array(
+      s.object({
+        type: s.enumeration(EXPANSION_RIGHT_TYPES, {
+          aliases: {
+            RIGHT_OF_FIRST_OFFER: 'ROFO',
+            RIGHT_OF_FIRST_REFUSAL: 'ROFR',
+            EXPANSION_OPTION: 'EXPANSION',
+          },
+        }),
+        space: s.optional(s.string()),
+        deadline: s.optional(s.string()),
+        description: s.optional(s.string()),
+      })
+    )
+  ),
+  terminationRights: s.optional(
+    s.array(
+      s.object({
+        party: s.enumeration(TERMINATION_PARTIES, { aliases: { BOTH: 'EITHER', MUTUAL: 'EITHER' } }),
+        earliestDate: s.optional(s.string()),
+        noticeMonths: s.optional(s.number()),
+        fee: s.optional(s.number()),
+        description: s.optional(s.string()),
+      })
+    )
+  ),
+  coTenancy: s.optional(
+    s.object({
+      requirement: s.optional(s.string()),
+      remedy: s.optional(s.string()),
+    })
+  ),
+  exclusives: s.optional(
+    s.array(
+      s.object({
+        use: s.string(),
+        exceptions: s.optional(s.string()),
+      })
+    )
+  ),
+  radiusRestriction: s.optional(
+    s.object({
+      miles: s.optional(s.number()),
+      description: s.optional(s.string()),
+    })
+  ),
+  holdover: s.optional(
+    s.object({
+      rentPercent: s.optional(s.number()),
+      description: s.optional(s.string()),
+    })
+  ),
+  assignmentTerms: s.optional(
+    s.object({
+      consentRequired: s.optional(s.boolean()),
+      consentStandard: s.optional(s.string()),
+      recaptureRight: s.optional(s.boolean()),
+      profitSharePercent: s.optional(s.number()),
+      description: s.optional(s.string()),
+    })
+  ),
+};
+
+/**
+ * Runtime schema for ExtractedLeaseData - the annotation keeps it in sync
+ * with the interface above
+ */
+export const extractedLeaseDataSchema: Schema<ExtractedLeaseData> = s.object(extractedLeaseDataShape);
+
+const EXTRACTED_LEASE_FIELDS = Object.keys(extractedLeaseDataShape) as ExtractedLeaseField[];
+
+// The LLM's answer: the data plus a quote backing each field
+const extractionResponseSchema = s.object({
+  ...extractedLeaseDataShape,
+  citations: s.optional(
+    s.array(
+      s.object({
+        field: s.string(),
+        quote: s.string(),
+        confidence: s.optional(s.number()),
+      })
+    )
+  ),
+});
+
+// Longest excerpt sent in one extraction prompt (~2,500 tokens)
+const MAP_EXCERPT_CHARS = 10000;
+
+// Confidence assumed when the LLM cites a field without rating it
+const DEFAULT_CITATION_CONFIDENCE = 0.5;
+
+interface Excerpt {
+  text: string;
+  chunks: ExtractionChunk[];
+}
+
+/**
+ * Extract the abstract of a whole document from its chunks (map-reduce:
+ * one extraction per excerpt, merged with mergeLeaseExtractions), with a
+ * citation for each field. For an AMENDMENT or ASSIGNMENT only the terms
+ * the document changes are extracted.
+ */
+export async function extractLeaseAbstract(
+  chunks: ExtractionChunk[],
+  documentType: string = 'LEASE'
+): Promise<LeaseExtractionResult> {
+  const excerpts = packExcerpts(chunks, MAP_EXCERPT_CHARS);
+  const partials: LeaseExtractionResult[] = [];
+
+  for (const [index, excerpt] of excerpts.entries()) {
+    const { data, quotes } = await extractLeaseData(excerpt.text, documentType, {
+      index,
+      count: excerpts.length,
+    });
+    partials.push({ data, citations: locateCitations(data, quotes, excerpt.chunks) });
+  }
+
+  // Like the values, the first excerpt to cite a field wins
+  const citations: ExtractionCitations = {};
+  for (const partial of partials) {
+    for (const [field, citation] of Object.entries(partial.citations) as [ExtractedLeaseField, FieldCitation][]) {
+      if (!citations[field]) citations[field] = citation;
     }
+  }
+
+  return { data: mergeLeaseExtractions(partials.map((partial) => partial.data)), citations };
+}
 
-    const extracted = JSON.parse(jsonMatch[0]) as ExtractedLeaseData;
-    return extracted;
-  } catch (error) {
-    console.error('Error extracting lease data:', error);
-    return {};
+/**
+ * Pack consecutive chunks into excerpts of at most `maxChars` (a longer
+ * chunk becomes an excerpt of its own, cut to size)
+ */
+function packExcerpts(chunks: ExtractionChunk[], maxChars: number): Excerpt[] {
+  const excerpts: Excerpt[] = [];
+  let current: Excerpt | null = null;
+
+  for (const chunk of chunks) {
+    if (current && current.text.length + chunk.content.length + 2 > maxChars) {
+      excerpts.push(current);
+      current = null;
+    }
+    if (current) {
+      current.text = `${current.text}\n\n${chunk.content}`;
+      current.chunks.push(chunk);
+    } else {
+      current = { text: chunk.content.slice(0, maxChars), chunks: [chunk] };
+    }
+  }
+  if (current) excerpts.push(current);
+
+  return excerpts;
+}
+
+/**
+ * Resolve the LLM's quotes to the chunks (and pages) they appear in. A
+ * quote that cannot be found is kept, but its confidence is halved.
+ */
+function locateCitations(
+  data: ExtractedLeaseData,
+  quotes: { field: string; quote: string; confidence?: number }[],
+  chunks: ExtractionChunk[]
+): ExtractionCitations {
+  const citations: ExtractionCitations = {};
+
+  for (const { field, quote, confidence } of quotes) {
+    const key = field as ExtractedLeaseField;
+    if (!EXTRACTED_LEASE_FIELDS.includes(key) || isEmptyValue(data[key]) || citations[key]) {
+      continue;
+    }
+
+    const chunk = chunks.find((candidate) => findQuoteSpan(candidate.content, quote));
+    const rated = Math.min(Math.max(confidence ?? DEFAULT_CITATION_CONFIDENCE, 0), 1);
+    citations[key] = {
+      chunkIndex: chunk?.chunkIndex ?? null,
+      page: chunk?.startPage ?? null,
+      quote,
+      confidence: chunk ? rated : rated / 2,
+    };
+  }
+
+  return citations;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.values(value as object).every(isEmptyValue);
+  return false;
+}
+
+/**
+ * Merge two partial values: lists are combined without duplicates, objects
+ * field by field, and otherwise the first value found wins (the basic lease
+ * information summary comes first in most leases)
+ */
+function mergeValues(first: unknown, second: unknown): unknown {
+  if (isEmptyValue(first)) return second;
+  if (isEmptyValue(second)) return first;
+
+  if (Array.isArray(first) && Array.isArray(second)) {
+    const seen = new Set(first.map((item) => JSON.stringify(item)));
+    return [...first, ...second.filter((item) => !seen.has(JSON.stringify(item)))];
   }
+
+  if (typeof first === 'object' && typeof second === 'object' && !Array.isArray(first)) {
+    const merged: Record<string, unknown> = { ...(first as Record<string, unknown>) };
+    for (const [key, value] of Object.entries(second as Record<string, unknown>)) {
+      merged[key] = mergeValues(merged[key], value);
+    }
+    return merged;
+  }
+
+  return first;
+}
+
+/**
+ * Reduce step: combine per-excerpt extractions into one abstract
+ */
+export function mergeLeaseExtractions(partials: ExtractedLeaseData[]): ExtractedLeaseData {
+  return partials.reduce<ExtractedLeaseData>(
+    (merged, partial) => mergeValues(merged, partial) as ExtractedLeaseData,
+    {}
+  );
 }
 
-function buildExtractionPrompt(documentText: string): string {
+/**
+ * Extract structured data from one piece of lease text, with the quotes the
+ * LLM cites for each field. `excerpt` marks it as part of a longer
+ * document, so absent terms are not guessed at. Throws when the response
+ * does not match the schema.
+ */
+export async function extractLeaseData(
+  documentText: string,
+  documentType: string = 'LEASE',
+  excerpt?: { index: number; count: number }
+): Promise<{ data: ExtractedLeaseData; quotes: { field: string; quote: string; confidence?: number }[] }> {
+  const prompt = buildExtractionPrompt(documentText, documentType, excerpt);
+
+  // Provider and network errors propagate so the caller (or job) can retry
+  const result = await callLLMStructured(prompt, extractionResponseSchema, {
+    feature: 'LEASE_EXTRACTION',
+  });
+
+  // An abstract missing this excerpt's terms would look complete, so the
+  // extraction fails instead. The response is cached; retrying cannot help.
+  if (!result.success) {
+    const part = excerpt && excerpt.count > 1 ? ` for excerpt ${excerpt.index + 1} of ${excerpt.count}` : '';
+    throw nonRetryableError(`LLM response${part} did not match the lease extraction schema: ${result.error}`);
+  }
+
+  const { citations, ...data } = result.data;
+  return { data, quotes: citations ?? [] };
+}
+
+const CHANGE_DOCUMENT_INSTRUCTIONS: Record<string, string> = {
+  AMENDMENT: `
+THIS DOCUMENT IS A LEASE AMENDMENT:
+- Set "effectiveDate" to the date the amendment takes effect and "amendmentNumber" to its number (1 for a First Amendment)
+- Include ONLY the terms this amendment adds or changes (e.g. a new rent, an extended end date, new renewal options); omit everything it leaves unchanged
+`,
+  ASSIGNMENT: `
+THIS DOCUMENT IS A LEASE ASSIGNMENT:
+- Set "effectiveDate" to the date the assignment takes effect
+- Set "tenantName" to the assignee (the new tenant)
+- Include ONLY the terms the assignment changes; omit everything it leaves unchanged
+`,
+};
+
+function buildExtractionPrompt(
+  documentText: string,
+  documentType: string,
+  excerpt?: { index: number; count: number }
+): string {
   // Limit text to ~10k characters to avoid token limits
-  const truncatedText = documentText.substring(0, 10000);
+  const truncatedText = documentText.substring(0, MAP_EXCERPT_CHARS);
+  const excerptNote =
+    excerpt && excerpt.count > 1
+      ? `
+THIS IS EXCERPT ${excerpt.index + 1} OF ${excerpt.count} OF THE DOCUMENT:
+- Extract only terms stated in this excerpt; the other excerpts are extracted separately
+- Omit every field this excerpt does not address
+`
+      : '';
 
   return `You are a commercial real estate lease analyst. Extract structured data from the following lease document.
-
+${CHANGE_DOCUMENT_INSTRUCTIONS[documentType] || ''}${excerptNote}
 LEASE DOCUMENT TEXT:
 ${truncatedText}
 
@@ -69,6 +534,8 @@ Extract the following information in JSON format. Only include fields where you
 
 Return ONLY valid JSON with this structure:
 {
+  "effectiveDate": "2024-01-01",
+  "amendmentNumber": 1,
   "tenantName": "Name of the tenant",
   "propertyName": "Name or address of the property",
   "suite": "Suite or unit number",
@@ -80,6 +547,10 @@ Return ONLY valid JSON with this structure:
   "escalationRate": 3.0,
   "camType": "Triple Net" or "Modified Gross" or "Full Service",
   "camCap": 5.0,
+  "rentSchedule": [
+    { "effectiveDate": "2024-01-01", "monthlyRent": 5000.00, "ratePerSquareFoot": 30.00 },
+    { "effectiveDate": "2025-01-01", "monthlyRent": 5150.00, "ratePerSquareFoot": 30.90 }
+  ],
   "renewalOptions": [
     {
       "months": 60,
@@ -98,6 +569,36 @@ Return ONLY valid JSON with this structure:
       "date": "2029-06-30",
       "description": "Renewal option deadline"
     }
+  ],
+  "securityDeposit": { "amount": 15000.00, "form": "Cash" or "Letter of credit", "burnDown": "Reduces by half after month 24" },
+  "guarantor": { "name": "Name of the guarantor", "type": "Personal" or "Corporate", "capAmount": 100000.00, "terms": "Guaranty limited to the first 3 lease years" },
+  "freeRent": { "months": 3, "description": "Base rent abated for months 1-3; additional rent still payable" },
+  "tiAllowance": { "amount": 250000.00, "perSquareFoot": 50.00, "deadline": "2025-06-30", "description": "Paid on completion of tenant's work" },
+  "percentageRent": {
+    "rate": 6.0,
+    "naturalBreakpoint": false,
+    "breakpoints": [{ "threshold": 1000000.00, "rate": 6.0 }],
+    "description": "6% of annual gross sales above $1,000,000"
+  },
+  "expansionRights": [
+    { "type": "EXPANSION" or "ROFO" or "ROFR", "space": "Suite 210", "deadline": "2026-12-31", "description": "Right of first offer on adjacent space" }
+  ],
+  "terminationRights": [
+    { "party": "TENANT" or "LANDLORD" or "EITHER", "earliestDate": "2027-01-01", "noticeMonths": 9, "fee": 75000.00, "description": "Early termination with unamortized TI and commissions" }
+  ],
+  "coTenancy": { "requirement": "Anchor tenant open and operating", "remedy": "Rent reduced to 50% until cured; may terminate after 12 months" },
+  "exclusives": [{ "use": "Sale of coffee and espresso drinks", "exceptions": "Incidental sales by grocery anchor" }],
+  "radiusRestriction": { "miles": 3, "description": "Tenant may not operate another store within 3 miles" },
+  "holdover": { "rentPercent": 150, "description": "150% of the last monthly base rent, month to month" },
+  "assignmentTerms": {
+    "consentRequired": true,
+    "consentStandard": "Not unreasonably withheld",
+    "recaptureRight": true,
+    "profitSharePercent": 50,
+    "description": "Transfers to affiliates permitted without consent"
+  },
+  "citations": [
+    { "field": "baseRent", "quote": "Tenant shall pay monthly Base Rent of $5,000.00", "confidence": 0.95 }
   ]
 }
 
@@ -107,6 +608,9 @@ INSTRUCTIONS:
 - Extract numeric values without currency symbols
 - If information is not found, omit the field or use null
 - Be conservative: only extract what you're confident about
+- Percentages are numbers without the % sign (6.0 for 6%)
+- Include "rentSchedule" only when the document lists the rent for each period (a rent table or scheduled step-ups)
+- For EVERY field you return, add a "citations" entry with the field name, a short verbatim quote (under 200 characters) from the document text that states it, and your confidence in the value from 0 to 1
 
 YOUR JSON RESPONSE:`;
 }
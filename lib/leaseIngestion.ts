@@ -7,24 +7,137 @@
 import { readFile } from 'fs/promises';
 import pdf from 'pdf-parse';
 import { prisma } from './prisma';
+import { buildCacheKey, getCachedValues, isLLMCacheEnabled, setCachedValue } from './llmCache';
+import { getEmbeddingModelInfo, getEmbeddingProvider } from './embeddings';
+import { invalidateVectorIndex, packEmbedding, searchVectorIndex } from './vectorIndex';
+import { buildChunkOcrMetadata, isOcrEnabled, isTextLayerSparse, ocrPdf, OcrResult } from './ocr';
+import { withLocalFile } from './storage';
+import { createUploadedDocument, DuplicateDocument } from './duplicateDocuments';
+import { ChunkPageSpan, joinPages, locateChunkPages, PageRange, PageText } from './pageText';
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-const EMBEDDING_MODEL = 'text-embedding-3-small'; // 1536 dimensions
 const CHUNK_SIZE = 3500; // ~800-1000 tokens
 const CHUNK_OVERLAP = 350; // ~80-100 tokens overlap
+const LEASE_DOCUMENT_TYPES = ['LEASE', 'AMENDMENT', 'ASSIGNMENT'];
+
+export interface PdfTextResult {
+  text: string; // Page texts joined with blank lines
+  pageCount: number;
+  pages: PageText[];
+  pageRanges: PageRange[]; // Offsets of each page within `text`
+  method: 'TEXT_LAYER' | 'OCR';
+  ocr?: OcrResult; // Present when method is OCR
+}
 
 /**
- * Extract text from a PDF file
+ * pdf-parse's default page renderer, collecting each page's text as well
  */
-export async function extractTextFromPdf(filePath: string): Promise<string> {
+function collectPageText(pages: PageText[]) {
+  return async (pageData: any): Promise<string> => {
+    const textContent = await pageData.getTextContent({
+      normalizeWhitespace: false,
+      disableCombineTextItems: false,
+    });
+
+    let lastY: number | undefined;
+    let text = '';
+    for (const item of textContent.items) {
+      if (lastY === item.transform[5] || !lastY) {
+        text += item.str;
+      } else {
+        text += '\n' + item.str;
+      }
+      lastY = item.transform[5];
+    }
+
+    pages.push({ pageNumber: pageData.pageNumber ?? pages.length + 1, text });
+    return text;
+  };
+}
+
+/**
+ * Extract per-page text from a PDF, falling back to OCR when the text layer
+ * is empty or sparse (scanned documents)
+ */
+export async function extractPdfText(filePath: string): Promise<PdfTextResult> {
+  const pages: PageText[] = [];
+  let pageCount: number;
   try {
     const dataBuffer = await readFile(filePath);
-    const pdfData = await pdf(dataBuffer);
-    return pdfData.text;
+    const pdfData = await pdf(dataBuffer, { pagerender: collectPageText(pages) });
+    pageCount = pdfData.numpages;
   } catch (error) {
     console.error('Error extracting text from PDF:', error);
     throw new Error(`Failed to extract text from PDF: ${(error as Error).message}`);
   }
+
+  pages.sort((a, b) => a.pageNumber - b.pageNumber);
+  const textLayer = joinPages(pages);
+
+  if (!isOcrEnabled() || !isTextLayerSparse(textLayer.text, pageCount)) {
+    return { ...textLayer, pageRanges: textLayer.ranges, pageCount, pages, method: 'TEXT_LAYER' };
+  }
+
+  console.log(
+    `[Ingestion] Text layer is sparse (${textLayer.text.length} chars, ${pageCount} pages); running OCR`
+  );
+  const ocr = await ocrPdf(filePath, pageCount);
+  const ocrText = ocr ? joinPages(ocr.pages) : null;
+
+  // Keep whichever source recovered more text
+  if (ocr && ocrText && ocrText.text.length > textLayer.text.length) {
+    return {
+      text: ocrText.text,
+      pageRanges: ocrText.ranges,
+      pageCount,
+      pages: ocr.pages.map(({ pageNumber, text }) => ({ pageNumber, text })),
+      method: 'OCR',
+      ocr,
+    };
+  }
+
+  return { text: textLayer.text, pageRanges: textLayer.ranges, pageCount, pages, method: 'TEXT_LAYER' };
+}
+
+/**
+ * Extract text from a PDF file (with OCR fallback, see extractPdfText)
+ */
+export async function extractTextFromPdf(filePath: string): Promise<string> {
+  const { text } = await extractPdfText(filePath);
+  return text;
+}
+
+/**
+ * Chunk an extraction with chunkText(), tagging each chunk with the pages
+ * it spans (null when it could not be placed)
+ */
+export function chunkExtractedText(
+  extraction: PdfTextResult,
+  options?: { maxChars?: number; overlapChars?: number }
+): Array<{ content: string; pages: ChunkPageSpan | null }> {
+  const chunks = chunkText(extraction.text, options);
+  const spans = locateChunkPages(chunks, extraction.pages);
+  return chunks.map((content, index) => ({ content, pages: spans[index] }));
+}
+
+/**
+ * Chunk metadata for an extraction: start/end page, plus OCR page confidence
+ * when the text came from OCR, merged with any extra fields
+ */
+export function buildChunkMetadata(
+  chunks: Array<{ pages: ChunkPageSpan | null }>,
+  extraction: PdfTextResult,
+  extra: Record<string, unknown> = {}
+): Array<string | null> {
+  const spans = chunks.map((chunk) => chunk.pages);
+  const ocrMetadata = extraction.ocr ? buildChunkOcrMetadata(spans, extraction.ocr) : null;
+  return chunks.map((chunk, index) => {
+    const metadata = {
+      ...extra,
+      ...(chunk.pages || {}),
+      ...(ocrMetadata ? ocrMetadata[index] : {}),
+    };
+    return Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : null;
+  });
 }
 
 /**
@@ -88,41 +201,58 @@ export function chunkText(
 }
 
 /**
- * Generate embeddings for text chunks using OpenAI
+ * Generate embeddings for text chunks with the configured embedding provider
+ * (see lib/embeddings). Chunks already embedded with the same model are served
+ * from the LLM cache; pass { cache: false } to force fresh embeddings.
  */
-export async function embedChunks(chunks: string[]): Promise<number[][]> {
-  if (!OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY is not configured');
-  }
-
+export async function embedChunks(
+  chunks: string[],
+  options?: { cache?: boolean; provider?: string }
+): Promise<number[][]> {
   if (chunks.length === 0) {
     return [];
   }
 
-  try {
-    const response = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: EMBEDDING_MODEL,
-        input: chunks,
-      }),
-    });
+  const provider = getEmbeddingProvider(options?.provider);
+  const useCache = provider.cacheable && options?.cache !== false && isLLMCacheEnabled();
+  if (!useCache) {
+    return provider.embed(chunks);
+  }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} - ${error}`);
+  const keys = chunks.map((chunk) =>
+    buildCacheKey('EMBEDDING', provider.name, provider.model, chunk)
+  );
+  const cached = await getCachedValues(keys);
+
+  const missingIndexes = chunks
+    .map((_, index) => index)
+    .filter((index) => !cached.has(keys[index]));
+
+  const fresh =
+    missingIndexes.length > 0
+      ? await provider.embed(missingIndexes.map((index) => chunks[index]))
+      : [];
+
+  const embeddings: number[][] = [];
+  let freshIndex = 0;
+  for (let i = 0; i < chunks.length; i++) {
+    const hit = cached.get(keys[i]);
+    if (hit !== undefined) {
+      embeddings.push(JSON.parse(hit) as number[]);
+    } else {
+      const embedding = fresh[freshIndex++];
+      embeddings.push(embedding);
+      await setCachedValue({
+        key: keys[i],
+        kind: 'EMBEDDING',
+        provider: provider.name,
+        model: provider.model,
+        value: JSON.stringify(embedding),
+      });
     }
-
-    const data = await response.json();
-    return data.data.map((item: any) => item.embedding);
-  } catch (error) {
-    console.error('Error generating embeddings:', error);
-    throw new Error(`Failed to generate embeddings: ${(error as Error).message}`);
   }
+
+  return embeddings;
 }
 
 /**
@@ -166,16 +296,18 @@ export function cosineSimilarity(a: number[], b: number[]): number {
  */
 export async function ingestLeaseDocument(params: {
   leaseId: string;
-  filePath: string;
+  storageKey: string;
   fileName: string;
+  contentHash?: string; // Stored on a new Document (see lib/duplicateDocuments)
   documentId?: string; // Optional: reuse existing document
 }): Promise<{
   chunksCreated: number;
   success: boolean;
   documentId?: string;
+  duplicateOf?: DuplicateDocument; // A concurrent upload of the same file created the document first
   error?: string;
 }> {
-  const { leaseId, filePath, fileName, documentId: existingDocumentId } = params;
+  const { leaseId, storageKey, fileName, contentHash, documentId: existingDocumentId } = params;
 
   try {
     console.log(`[Ingestion] Starting ingestion for lease ${leaseId}`);
@@ -191,17 +323,30 @@ export async function ingestLeaseDocument(params: {
     }
 
     // Step 1: Extract text from PDF
-    console.log(`[Ingestion] Extracting text from ${filePath}`);
-    const text = await extractTextFromPdf(filePath);
+    console.log(`[Ingestion] Extracting text from ${storageKey}`);
+    const extraction = await withLocalFile(storageKey, extractPdfText);
+    const { text } = extraction;
 
     if (!text || text.trim().length === 0) {
       console.warn(`[Ingestion] No text extracted from PDF for lease ${leaseId}`);
-      return { chunksCreated: 0, success: true };
+      if (existingDocumentId) {
+        await prisma.document.update({
+          where: { id: existingDocumentId },
+          data: { status: 'FAILED', extractionMethod: extraction.method },
+        });
+      }
+      return {
+        chunksCreated: 0,
+        success: false,
+        documentId: existingDocumentId,
+        error: 'No text could be extracted from the PDF (text layer empty and OCR unavailable or unreadable)',
+      };
     }
 
     // Step 2: Chunk the text
-    console.log(`[Ingestion] Chunking text (${text.length} characters)`);
-    const chunks = chunkText(text);
+    console.log(`[Ingestion] Chunking text (${text.length} characters, ${extraction.pageCount} pages)`);
+    const pageChunks = chunkExtractedText(extraction);
+    const chunks = pageChunks.map((chunk) => chunk.content);
     console.log(`[Ingestion] Created ${chunks.length} chunks`);
 
     if (chunks.length === 0) {
@@ -212,6 +357,7 @@ export async function ingestLeaseDocument(params: {
     // Step 3: Generate embeddings
     console.log(`[Ingestion] Generating embeddings for ${chunks.length} chunks`);
     const embeddings = await embedChunks(chunks);
+    const embeddingInfo = getEmbeddingModelInfo();
 
     if (embeddings.length !== chunks.length) {
       throw new Error(
@@ -223,19 +369,32 @@ export async function ingestLeaseDocument(params: {
     let documentId = existingDocumentId;
     if (!documentId) {
       console.log(`[Ingestion] Creating new Document record`);
-      const document = await prisma.document.create({
-        data: {
-          type: 'LEASE',
-          status: 'PROCESSING',
-          filePath,
-          fileName,
-          mimeType: 'application/pdf',
-          leaseId,
-          propertyId: lease.propertyId,
-          extractedData: JSON.stringify({ text }),
-        },
-      });
-      documentId = document.id;
+      const create = () =>
+        prisma.document.create({
+          data: {
+            type: 'LEASE',
+            status: 'PROCESSING',
+            storageKey,
+            fileName,
+            mimeType: 'application/pdf',
+            contentHash,
+            leaseId,
+            propertyId: lease.propertyId,
+            extractedData: JSON.stringify({ text, pages: extraction.pageRanges }),
+            extractionMethod: extraction.method,
+            ocrConfidence: extraction.ocr?.confidence,
+          },
+        });
+      if (!contentHash) {
+        documentId = (await create()).id;
+      } else {
+        const { document, existing } = await createUploadedDocument({ storageKey, contentHash }, create);
+        if (!document) {
+          console.log(`[Ingestion] ${fileName} was stored concurrently as document ${existing.id}`);
+          return { chunksCreated: 0, success: true, documentId: existing.id, duplicateOf: existing };
+        }
+        documentId = document.id;
+      }
     }
 
     // Step 5: Delete existing chunks for this document (idempotent)
@@ -246,20 +405,31 @@ export async function ingestLeaseDocument(params: {
 
     // Step 6: Store chunks and embeddings
     console.log(`[Ingestion] Storing ${chunks.length} chunks in database`);
+    const chunkMetadata = buildChunkMetadata(pageChunks, extraction, { leaseId });
     await prisma.documentChunk.createMany({
-      data: chunks.map((content, index) => ({
+      data: pageChunks.map((chunk, index) => ({
         documentId,
         chunkIndex: index,
-        content,
-        embedding: JSON.stringify(embeddings[index]),
-        metadata: JSON.stringify({ leaseId }),
+        content: chunk.content,
+        startPage: chunk.pages?.startPage,
+        endPage: chunk.pages?.endPage,
+        embeddingVector: packEmbedding(embeddings[index]),
+        embeddingModel: embeddingInfo.model,
+        embeddingDimensions: embeddingInfo.dimensions,
+        metadata: chunkMetadata[index],
       })),
     });
 
+    await invalidateVectorIndex('chunks');
+
     // Step 7: Update document status to EXTRACTED
     await prisma.document.update({
       where: { id: documentId },
-      data: { status: 'EXTRACTED' },
+      data: {
+        status: 'EXTRACTED',
+        extractionMethod: extraction.method,
+        ocrConfidence: extraction.ocr?.confidence ?? null,
+      },
     });
 
     console.log(
@@ -290,54 +460,87 @@ export async function retrieveRelevantChunks(params: {
   topK?: number;
 }): Promise<
   Array<{
+    documentId: string;
     chunkIndex: number;
     content: string;
     similarity: number;
+    startPage: number | null;
+    endPage: number | null;
   }>
 > {
   const { leaseId, query, topK = 5 } = params;
 
   try {
-    // Get all chunks for this lease using the new Document model
-    const chunks = await prisma.documentChunk.findMany({
-      where: {
-        document: {
-          leaseId,
-          type: { in: ['LEASE', 'AMENDMENT'] },
-        },
-      },
-      orderBy: { chunkIndex: 'asc' },
+    // Rank this lease's chunks against the warm vector index
+    const queryEmbedding = await embedQuery(query);
+    const hits = await searchVectorIndex('chunks', queryEmbedding, {
+      filter: { leaseIds: [leaseId], documentTypes: LEASE_DOCUMENT_TYPES },
+      topK,
     });
 
-    if (chunks.length === 0) {
+    if (hits.length === 0) {
       return [];
     }
 
-    // Generate embedding for the query
-    const queryEmbedding = await embedQuery(query);
-
-    // Compute similarity for each chunk
-    const chunksWithSimilarity = chunks.map((chunk) => {
-      const chunkEmbedding = JSON.parse(chunk.embedding) as number[];
-      const similarity = cosineSimilarity(queryEmbedding, chunkEmbedding);
-
-      return {
-        chunkIndex: chunk.chunkIndex,
-        content: chunk.content,
-        similarity,
-      };
+    const chunks = await prisma.documentChunk.findMany({
+      where: { id: { in: hits.map((hit) => hit.id) } },
+      select: {
+        id: true,
+        documentId: true,
+        chunkIndex: true,
+        content: true,
+        startPage: true,
+        endPage: true,
+      },
+    });
+    const chunksById = new Map(chunks.map((chunk) => [chunk.id, chunk]));
+
+    return hits.flatMap((hit) => {
+      const chunk = chunksById.get(hit.id);
+      return chunk
+        ? [
+            {
+              documentId: chunk.documentId,
+              chunkIndex: chunk.chunkIndex,
+              content: chunk.content,
+              similarity: hit.similarity,
+              startPage: chunk.startPage,
+              endPage: chunk.endPage,
+            },
+          ]
+        : [];
     });
-
-    // Sort by similarity (descending) and take top K
-    chunksWithSimilarity.sort((a, b) => b.similarity - a.similarity);
-
-    return chunksWithSimilarity.slice(0, topK);
   } catch (error) {
     console.error(`Error retrieving chunks for lease ${leaseId}:`, error);
     return [];
   }
 }
 
+/**
+ * Most recently uploaded LEASE document per lease, for linking clause
+ * citations (which carry a page number but no document) to a viewer
+ */
+export async function getLeaseDocumentIds(leaseIds: string[]): Promise<Map<string, string>> {
+  const documentIds = new Map<string, string>();
+  if (leaseIds.length === 0) {
+    return documentIds;
+  }
+
+  const documents = await prisma.document.findMany({
+    where: { leaseId: { in: leaseIds }, type: 'LEASE' },
+    select: { id: true, leaseId: true },
+    orderBy: { uploadedAt: 'desc' },
+  });
+
+  for (const document of documents) {
+    if (document.leaseId && !documentIds.has(document.leaseId)) {
+      documentIds.set(document.leaseId, document.id);
+    }
+  }
+
+  return documentIds;
+}
+
 /**
  * Retrieved chunk with lease and property context for cross-lease search
  */
@@ -346,9 +549,12 @@ export interface RetrievedChunkWithLease {
   propertyId: string | null;
   tenantName: string;
   propertyName: string | null;
+  documentId: string;
   chunkIndex: number;
   content: string;
   similarity: number;
+  startPage: number | null;
+  endPage: number | null;
 }
 
 /**
@@ -367,14 +573,26 @@ export async function retrieveRelevantChunksForLeaseIds(params: {
   }
 
   try {
-    // Get all chunks for these leases with lease and property info
+    // Rank every chunk of these leases, then cap per lease
+    const queryEmbedding = await embedQuery(query);
+    const hits = await searchVectorIndex('chunks', queryEmbedding, {
+      filter: { leaseIds, documentTypes: LEASE_DOCUMENT_TYPES },
+    });
+
+    const perLease = new Map<string, number>();
+    const selected = hits.filter((hit) => {
+      const count = perLease.get(hit.meta.leaseId!) || 0;
+      if (count >= maxChunksPerLease) return false;
+      perLease.set(hit.meta.leaseId!, count + 1);
+      return true;
+    }).slice(0, topK);
+
+    if (selected.length === 0) {
+      return [];
+    }
+
     const chunks = await prisma.documentChunk.findMany({
-      where: {
-        document: {
-          leaseId: { in: leaseIds },
-          type: { in: ['LEASE', 'AMENDMENT'] },
-        },
-      },
+      where: { id: { in: selected.map((hit) => hit.id) } },
       include: {
         document: {
           include: {
@@ -387,49 +605,28 @@ export async function retrieveRelevantChunksForLeaseIds(params: {
         },
       },
     });
+    const chunksById = new Map(chunks.map((chunk) => [chunk.id, chunk]));
 
-    if (chunks.length === 0) {
-      return [];
-    }
+    const results: RetrievedChunkWithLease[] = [];
+    for (const hit of selected) {
+      const chunk = chunksById.get(hit.id);
+      if (!chunk?.document.lease) continue;
 
-    // Generate embedding for the query
-    const queryEmbedding = await embedQuery(query);
-
-    // Compute similarity for each chunk
-    const chunksWithSimilarity = chunks.map((chunk) => {
-      const chunkEmbedding = JSON.parse(chunk.embedding) as number[];
-      const similarity = cosineSimilarity(queryEmbedding, chunkEmbedding);
-
-      return {
+      results.push({
         leaseId: chunk.document.leaseId!,
-        propertyId: chunk.document.lease!.propertyId,
-        tenantName: chunk.document.lease!.tenantName,
-        propertyName: chunk.document.lease!.property?.name || null,
+        propertyId: chunk.document.lease.propertyId,
+        tenantName: chunk.document.lease.tenantName,
+        propertyName: chunk.document.lease.property?.name || null,
+        documentId: chunk.documentId,
         chunkIndex: chunk.chunkIndex,
         content: chunk.content,
-        similarity,
-      };
-    });
-
-    // Group by leaseId and keep top N per lease
-    const groupedByLease = new Map<string, RetrievedChunkWithLease[]>();
-    for (const chunk of chunksWithSimilarity) {
-      const existing = groupedByLease.get(chunk.leaseId) || [];
-      existing.push(chunk);
-      groupedByLease.set(chunk.leaseId, existing);
-    }
-
-    // Sort each group by similarity and limit per lease
-    const limitedChunks: RetrievedChunkWithLease[] = [];
-    for (const [, leaseChunks] of groupedByLease) {
-      leaseChunks.sort((a, b) => b.similarity - a.similarity);
-      limitedChunks.push(...leaseChunks.slice(0, maxChunksPerLease));
+        similarity: hit.similarity,
+        startPage: chunk.startPage,
+        endPage: chunk.endPage,
+      });
     }
 
-    // Sort all results by similarity and take topK overall
-    limitedChunks.sort((a, b) => b.similarity - a.similarity);
-
-    return limitedChunks.slice(0, topK);
+    return results;
   } catch (error) {
     console.error('Error retrieving chunks for multiple leases:', error);
     return [];
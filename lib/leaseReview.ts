@@ -0,0 +1,382 @@
+/**
+ * Lease Review
+ *
+ * Lease extraction never writes to the Lease directly. After each
+ * extraction the lease's effective terms (see lib/leaseDocumentChain) are
+ * compared with the Lease record, and the fields that differ become a
+ * pending change set. An analyst accepts, edits or rejects each field;
+ * only accepted and edited values are applied, and every decision records
+ * who made it and when.
+ */
+
+import { prisma } from './prisma';
+import { loadEffectiveLeaseTerms, rebuildLeaseDocumentChain, EffectiveLeaseTerms } from './leaseDocumentChain';
+import { rebuildExtractedRentSteps } from './rentSchedule';
+import type { FieldCitation } from './leaseExtraction';
+
+export const LEASE_REVIEW_DECISIONS = ['ACCEPTED', 'EDITED', 'REJECTED'] as const;
+
+export type LeaseReviewDecision = (typeof LEASE_REVIEW_DECISIONS)[number];
+
+type LeaseReviewValue = string | number;
+
+export type LeaseReviewFieldName = 'baseRent' | 'leaseStart' | 'leaseEnd' | 'suite';
+
+interface LeaseReviewField {
+  label: string;
+  kind: 'number' | 'date' | 'text';
+  // The proposed value from the effective terms, if any
+  proposed: (terms: EffectiveLeaseTerms['terms']) => LeaseReviewValue | undefined;
+  // Where the value came from in the chain
+  term: 'baseRent' | 'startDate' | 'endDate' | 'suite';
+}
+
+/**
+ * Lease columns that extraction can change, keyed by Lease field
+ */
+export const LEASE_REVIEW_FIELDS: Record<LeaseReviewFieldName, LeaseReviewField> = {
+  baseRent: {
+    label: 'Base Rent (monthly)',
+    kind: 'number',
+    term: 'baseRent',
+    proposed: (terms) => terms.baseRent,
+  },
+  leaseStart: {
+    label: 'Lease Start',
+    kind: 'date',
+    term: 'startDate',
+    proposed: (terms) => isoDate(terms.startDate),
+  },
+  leaseEnd: {
+    label: 'Lease End',
+    kind: 'date',
+    term: 'endDate',
+    proposed: (terms) => isoDate(terms.endDate),
+  },
+  suite: {
+    label: 'Suite',
+    kind: 'text',
+    term: 'suite',
+    proposed: (terms) => terms.suite || undefined,
+  },
+};
+
+export interface LeaseFieldChangeReview {
+  id: string;
+  field: LeaseReviewFieldName;
+  label: string;
+  kind: 'number' | 'date' | 'text';
+  currentValue: LeaseReviewValue | null;
+  proposedValue: LeaseReviewValue;
+  sourceDocumentId: string | null;
+  citation: FieldCitation | null;
+  decision: LeaseReviewDecision | 'PENDING';
+  appliedValue: LeaseReviewValue | null;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+}
+
+export interface LeaseChangeSetReview {
+  id: string;
+  status: string;
+  createdAt: string;
+  reviewedAt: string | null;
+  reviewedBy: string | null;
+  lease: { id: string; tenantName: string; suite: string | null; propertyName: string };
+  document: { id: string; fileName: string; type: string } | null;
+  changes: LeaseFieldChangeReview[];
+}
+
+function isoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString().split('T')[0];
+}
+
+function isReviewField(field: string): field is LeaseReviewFieldName {
+  return Object.prototype.hasOwnProperty.call(LEASE_REVIEW_FIELDS, field);
+}
+
+/**
+ * The Lease's current value of a review field, in review form
+ */
+function currentLeaseValue(
+  lease: { baseRent: number | null; leaseStart: Date | null; leaseEnd: Date | null; suite: string | null },
+  field: LeaseReviewFieldName
+): LeaseReviewValue | null {
+  switch (field) {
+    case 'baseRent':
+      return lease.baseRent;
+    case 'leaseStart':
+      return lease.leaseStart ? lease.leaseStart.toISOString().split('T')[0] : null;
+    case 'leaseEnd':
+      return lease.leaseEnd ? lease.leaseEnd.toISOString().split('T')[0] : null;
+    case 'suite':
+      return lease.suite;
+  }
+}
+
+/**
+ * Validate an analyst's edited value. Returns undefined when it is not a
+ * valid value for the field.
+ */
+export function parseLeaseReviewValue(field: LeaseReviewFieldName, value: unknown): LeaseReviewValue | undefined {
+  switch (LEASE_REVIEW_FIELDS[field].kind) {
+    case 'number': {
+      const amount = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[$,]/g, ''));
+      return isFinite(amount) && amount >= 0 ? amount : undefined;
+    }
+    case 'date':
+      return typeof value === 'string' ? isoDate(value) : undefined;
+    case 'text':
+      return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  }
+}
+
+function parseJson<T>(value: string | null): T | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    console.error('[LeaseReview] Error parsing stored value:', error);
+    return null;
+  }
+}
+
+/**
+ * Bring a lease up to date with its document chain after a chain document
+ * is extracted, linked or unlinked: re-order the chain, queue the lease
+ * fields it now changes for review and rebuild the extracted rent steps.
+ * `documentId` is the document that prompted it, if any.
+ */
+export async function refreshLeaseFromChain(leaseId: string, documentId: string | null) {
+  await rebuildLeaseDocumentChain(leaseId);
+  const changeSet = await proposeLeaseChanges(leaseId, documentId);
+  if (changeSet) {
+    console.log(
+      `[LeaseReview] Queued ${changeSet._count.changes} lease field change(s) for review (change set ${changeSet.id})`
+    );
+  }
+  // Rebuilt again when the review changes the lease dates
+  const rentSteps = await rebuildExtractedRentSteps(leaseId);
+  return { changeSet, rentSteps };
+}
+
+/**
+ * Compare a lease's effective terms with its record and queue the fields
+ * that differ for review. Pending change sets for the lease are superseded,
+ * since the new one is built from the whole chain. Returns null when the
+ * record already matches.
+ */
+export async function proposeLeaseChanges(leaseId: string, documentId: string | null) {
+  const lease = await prisma.lease.findUnique({
+    where: { id: leaseId },
+    select: { id: true, baseRent: true, leaseStart: true, leaseEnd: true, suite: true },
+  });
+  if (!lease) {
+    throw new Error(`Lease not found: ${leaseId}`);
+  }
+
+  const { terms, provenance } = await loadEffectiveLeaseTerms(leaseId);
+
+  const changes: {
+    field: LeaseReviewFieldName;
+    currentValue: string | null;
+    proposedValue: string;
+    sourceDocumentId: string | null;
+    citation: string | null;
+  }[] = [];
+  for (const field of Object.keys(LEASE_REVIEW_FIELDS) as LeaseReviewFieldName[]) {
+    const definition = LEASE_REVIEW_FIELDS[field];
+    const proposed = definition.proposed(terms);
+    const current = currentLeaseValue(lease, field);
+    if (proposed === undefined || proposed === current) continue;
+
+    const source = provenance[definition.term];
+    changes.push({
+      field,
+      currentValue: current === null ? null : JSON.stringify(current),
+      proposedValue: JSON.stringify(proposed),
+      sourceDocumentId: source?.documentId ?? null,
+      citation: source?.citation ? JSON.stringify(source.citation) : null,
+    });
+  }
+
+  return prisma.$transaction(async (tx) => {
+    await tx.leaseChangeSet.updateMany({
+      where: { leaseId, status: 'PENDING' },
+      data: { status: 'SUPERSEDED' },
+    });
+
+    if (changes.length === 0) return null;
+
+    return tx.leaseChangeSet.create({
+      data: {
+        leaseId,
+        documentId,
+        changes: { create: changes },
+      },
+      select: { id: true, _count: { select: { changes: true } } },
+    });
+  });
+}
+
+const changeSetInclude = {
+  lease: {
+    select: { id: true, tenantName: true, suite: true, property: { select: { name: true } } },
+  },
+  document: { select: { id: true, fileName: true, type: true } },
+  changes: { orderBy: { createdAt: 'asc' as const } },
+};
+
+interface ChangeSetRecord {
+  id: string;
+  status: string;
+  createdAt: Date;
+  reviewedAt: Date | null;
+  reviewedBy: string | null;
+  lease: { id: string; tenantName: string; suite: string | null; property: { name: string } };
+  document: { id: string; fileName: string; type: string } | null;
+  changes: {
+    id: string;
+    field: string;
+    currentValue: string | null;
+    proposedValue: string;
+    sourceDocumentId: string | null;
+    citation: string | null;
+    decision: string;
+    appliedValue: string | null;
+    reviewedBy: string | null;
+    reviewedAt: Date | null;
+  }[];
+}
+
+function toChangeSetReview(changeSet: ChangeSetRecord): LeaseChangeSetReview {
+  return {
+    id: changeSet.id,
+    status: changeSet.status,
+    createdAt: changeSet.createdAt.toISOString(),
+    reviewedAt: changeSet.reviewedAt?.toISOString() ?? null,
+    reviewedBy: changeSet.reviewedBy,
+    lease: {
+      id: changeSet.lease.id,
+      tenantName: changeSet.lease.tenantName,
+      suite: changeSet.lease.suite,
+      propertyName: changeSet.lease.property.name,
+    },
+    document: changeSet.document,
+    changes: changeSet.changes
+      .filter((change) => isReviewField(change.field))
+      .map((change) => {
+        const field = change.field as LeaseReviewFieldName;
+        return {
+          id: change.id,
+          field,
+          label: LEASE_REVIEW_FIELDS[field].label,
+          kind: LEASE_REVIEW_FIELDS[field].kind,
+          currentValue: parseJson<LeaseReviewValue>(change.currentValue),
+          proposedValue: parseJson<LeaseReviewValue>(change.proposedValue)!,
+          sourceDocumentId: change.sourceDocumentId,
+          citation: parseJson<FieldCitation>(change.citation),
+          decision: change.decision as LeaseFieldChangeReview['decision'],
+          appliedValue: parseJson<LeaseReviewValue>(change.appliedValue),
+          reviewedBy: change.reviewedBy,
+          reviewedAt: change.reviewedAt?.toISOString() ?? null,
+        };
+      }),
+  };
+}
+
+export async function loadLeaseChangeSet(changeSetId: string): Promise<LeaseChangeSetReview | null> {
+  const changeSet = await prisma.leaseChangeSet.findUnique({
+    where: { id: changeSetId },
+    include: changeSetInclude,
+  });
+  return changeSet ? toChangeSetReview(changeSet) : null;
+}
+
+/**
+ * Change sets for the review queue, newest first
+ */
+export async function listLeaseChangeSets(filters: { status?: string[]; leaseId?: string } = {}) {
+  const changeSets = await prisma.leaseChangeSet.findMany({
+    where: {
+      ...(filters.status && filters.status.length > 0 ? { status: { in: filters.status } } : {}),
+      ...(filters.leaseId ? { leaseId: filters.leaseId } : {}),
+    },
+    include: changeSetInclude,
+    orderBy: { createdAt: 'desc' },
+    take: 100,
+  });
+  return changeSets.map(toChangeSetReview);
+}
+
+export interface LeaseFieldDecision {
+  changeId: string;
+  decision: LeaseReviewDecision;
+  value?: LeaseReviewValue; // Parsed edited value, for EDITED
+}
+
+/**
+ * Record an analyst's decisions on pending fields of a change set and apply
+ * the accepted and edited values to the Lease. The change set is REVIEWED
+ * once no field is left pending.
+ */
+export async function applyLeaseReviewDecisions(
+  changeSet: LeaseChangeSetReview,
+  reviewer: string,
+  decisions: LeaseFieldDecision[]
+): Promise<{ applied: number; rejected: number; status: string }> {
+  const changesById = new Map(changeSet.changes.map((change) => [change.id, change]));
+  const reviewedAt = new Date();
+  const leaseUpdate: Record<string, unknown> = {};
+  let applied = 0;
+  let rejected = 0;
+
+  const changeUpdates = decisions.map((decision) => {
+    const change = changesById.get(decision.changeId)!;
+    let appliedValue: LeaseReviewValue | null = null;
+
+    if (decision.decision === 'REJECTED') {
+      rejected++;
+    } else {
+      appliedValue = decision.decision === 'EDITED' ? decision.value! : change.proposedValue;
+      leaseUpdate[change.field] = LEASE_REVIEW_FIELDS[change.field].kind === 'date'
+        ? new Date(appliedValue)
+        : appliedValue;
+      applied++;
+    }
+
+    return prisma.leaseFieldChange.update({
+      where: { id: change.id },
+      data: {
+        decision: decision.decision,
+        appliedValue: appliedValue === null ? null : JSON.stringify(appliedValue),
+        reviewedBy: reviewer,
+        reviewedAt,
+      },
+    });
+  });
+
+  const decided = new Set(decisions.map((decision) => decision.changeId));
+  const complete = changeSet.changes.every((change) => change.decision !== 'PENDING' || decided.has(change.id));
+  const status = complete ? 'REVIEWED' : changeSet.status;
+
+  await prisma.$transaction([
+    ...changeUpdates,
+    ...(Object.keys(leaseUpdate).length > 0
+      ? [prisma.lease.update({ where: { id: changeSet.lease.id }, data: leaseUpdate })]
+      : []),
+    prisma.leaseChangeSet.update({
+      where: { id: changeSet.id },
+      data: complete ? { status, reviewedBy: reviewer, reviewedAt } : {},
+    }),
+  ]);
+
+  // Derived rent steps start from the lease dates and base rent
+  if (Object.keys(leaseUpdate).length > 0) {
+    await rebuildExtractedRentSteps(changeSet.lease.id);
+  }
+
+  return { applied, rejected, status };
+}
@@ -5,10 +5,14 @@
  * Goal: produce 100-250 chunks per lease (instead of 12-20).
  */
 
+import { locateChunkPages, PageText } from '../pageText';
+
 export interface ClauseChunk {
   text: string;
   sectionLabel?: string;
-  pageNumber?: number;
+  pageNumber?: number; // Page the chunk starts on (same as startPage)
+  startPage?: number;
+  endPage?: number;
 }
 
 // Heading patterns for legal/lease documents
@@ -173,9 +177,10 @@ function splitBySentences(text: string): string[] {
 
 /**
  * Main chunking function
- * Takes raw PDF text and produces clause-sized chunks
+ * Takes raw PDF text and produces clause-sized chunks. Pass the per-page
+ * text the raw text was joined from to tag chunks with their pages.
  */
-export function chunkLeaseText(rawText: string): ClauseChunk[] {
+export function chunkLeaseText(rawText: string, pages?: PageText[]): ClauseChunk[] {
   if (!rawText || rawText.length < 100) {
     return [];
   }
@@ -210,6 +215,22 @@ export function chunkLeaseText(rawText: string): ClauseChunk[] {
     return true;
   });
 
+  // Step 4: Tag chunks with the pages they came from
+  if (pages && pages.length > 0) {
+    const spans = locateChunkPages(
+      filteredChunks.map((chunk) => chunk.text),
+      pages
+    );
+    filteredChunks.forEach((chunk, index) => {
+      const span = spans[index];
+      if (span) {
+        chunk.pageNumber = span.startPage;
+        chunk.startPage = span.startPage;
+        chunk.endPage = span.endPage;
+      }
+    });
+  }
+
   return filteredChunks;
 }
 
@@ -222,6 +243,7 @@ export function getChunkingStats(chunks: ClauseChunk[]): {
   minLength: number;
   maxLength: number;
   withSectionLabel: number;
+  withPageNumber: number;
 } {
   if (chunks.length === 0) {
     return {
@@ -230,6 +252,7 @@ export function getChunkingStats(chunks: ClauseChunk[]): {
       minLength: 0,
       maxLength: 0,
       withSectionLabel: 0,
+      withPageNumber: 0,
     };
   }
 
@@ -240,5 +263,6 @@ export function getChunkingStats(chunks: ClauseChunk[]): {
     minLength: Math.min(...lengths),
     maxLength: Math.max(...lengths),
     withSectionLabel: chunks.filter((c) => c.sectionLabel).length,
+    withPageNumber: chunks.filter((c) => c.pageNumber).length,
   };
 }
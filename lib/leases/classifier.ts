@@ -5,7 +5,8 @@
  * Optimized for commercial real estate (CRE) lease analysis.
  */
 
-import { callLLM } from '../llm';
+import { callLLMStructured } from '../llm';
+import { s } from '../schema';
 
 // Valid topics for lease clauses - CRE-specific
 export const CLAUSE_TOPICS = [
@@ -57,6 +58,16 @@ export interface ClauseClassification {
   confidence: number;
 }
 
+const clauseClassificationSchema = s.object({
+  topic: s.enumeration(CLAUSE_TOPICS, {
+    aliases: { GENERAL_MAINTENANCE: 'MAINTENANCE' },
+    fallback: 'OTHER',
+  }),
+  responsibleParty: s.enumeration(RESPONSIBLE_PARTIES, { fallback: 'UNKNOWN' }),
+  sectionLabel: s.nullable(s.string()),
+  confidence: s.optional(s.number()),
+});
+
 /**
  * Build the classification prompt - optimized for CRE lease analysis
  */
@@ -117,48 +128,22 @@ export async function classifyClause(
   const prompt = buildClassificationPrompt(chunkText, sectionLabel);
 
   try {
-    const response = await callLLM(prompt);
-
-    // Parse the JSON response
-    const cleanedResponse = response
-      .trim()
-      .replace(/^```json\s*/i, '')
-      .replace(/```\s*$/i, '')
-      .trim();
-
-    const parsed = JSON.parse(cleanedResponse);
-
-    // Validate and normalize the topic
-    let topic: ClauseTopic = 'OTHER';
-    if (parsed.topic && CLAUSE_TOPICS.includes(parsed.topic)) {
-      topic = parsed.topic;
-    } else if (parsed.topic) {
-      // Try to map common variations
-      const normalizedTopic = parsed.topic.toUpperCase().replace(/\s+/g, '_');
-      if (normalizedTopic === 'GENERAL_MAINTENANCE') {
-        topic = 'MAINTENANCE';
-      } else if (CLAUSE_TOPICS.includes(normalizedTopic as ClauseTopic)) {
-        topic = normalizedTopic as ClauseTopic;
-      }
-    }
+    const result = await callLLMStructured(prompt, clauseClassificationSchema, {
+      feature: 'CLAUSE_CLASSIFICATION',
+    });
 
-    // Validate and normalize the responsible party
-    let responsibleParty: ResponsibleParty = 'UNKNOWN';
-    if (parsed.responsibleParty && RESPONSIBLE_PARTIES.includes(parsed.responsibleParty)) {
-      responsibleParty = parsed.responsibleParty;
-    } else if (parsed.responsibleParty) {
-      const normalizedParty = parsed.responsibleParty.toUpperCase();
-      if (RESPONSIBLE_PARTIES.includes(normalizedParty as ResponsibleParty)) {
-        responsibleParty = normalizedParty as ResponsibleParty;
-      }
+    if (!result.success) {
+      throw new Error(`Invalid classification response: ${result.error}`);
     }
 
+    const parsed = result.data;
+
     // Extract section label (prefer passed-in label, fall back to parsed)
     const extractedLabel = sectionLabel || parsed.sectionLabel || null;
 
     return {
-      topic,
-      responsibleParty,
+      topic: parsed.topic,
+      responsibleParty: parsed.responsibleParty,
       sectionLabel: extractedLabel,
       confidence:
         typeof parsed.confidence === 'number'
@@ -0,0 +1,90 @@
+/**
+ * Hybrid Clause Retrieval
+ *
+ * Combines BM25 keyword search (exact terms, section numbers) with vector
+ * similarity (paraphrases) using reciprocal-rank fusion, so a clause ranked
+ * well by either retriever surfaces.
+ */
+
+import { searchClausesByVector, ClauseSearchFilters, ClauseSearchResult } from './vectorStore';
+import { searchClausesByKeyword } from './keywordIndex';
+
+export const RETRIEVAL_MODES = ['vector', 'keyword', 'hybrid'] as const;
+export type RetrievalMode = (typeof RETRIEVAL_MODES)[number];
+
+// Standard RRF damping constant; larger values flatten the rank curve
+const RRF_K = 60;
+const CANDIDATES_PER_RETRIEVER = 50;
+
+/**
+ * Fuse ranked result lists: score = sum of 1 / (k + rank) over lists. Each
+ * result's similarity becomes its fused score relative to the best one.
+ */
+export function reciprocalRankFusion(
+  lists: ClauseSearchResult[][],
+  k: number = RRF_K
+): ClauseSearchResult[] {
+  const fused = new Map<string, ClauseSearchResult>();
+
+  for (const list of lists) {
+    list.forEach((result, index) => {
+      const contribution = 1 / (k + index + 1);
+      const existing = fused.get(result.clauseId);
+      if (existing) {
+        existing.fusedScore = (existing.fusedScore || 0) + contribution;
+        existing.keywordScore = existing.keywordScore ?? result.keywordScore;
+      } else {
+        fused.set(result.clauseId, { ...result, fusedScore: contribution });
+      }
+    });
+  }
+
+  const results = Array.from(fused.values()).sort((a, b) => (b.fusedScore || 0) - (a.fusedScore || 0));
+  const topScore = results.length > 0 ? results[0].fusedScore || 0 : 0;
+  for (const result of results) {
+    result.similarity = topScore > 0 ? (result.fusedScore || 0) / topScore : 0;
+  }
+  return results;
+}
+
+/**
+ * Search clauses with both retrievers and fuse the rankings
+ */
+export async function searchClausesHybrid(
+  params: ClauseSearchFilters & { query: string; topK?: number }
+): Promise<ClauseSearchResult[]> {
+  const { topK = 10 } = params;
+
+  const [vectorResults, keywordResults] = await Promise.all([
+    searchClausesByVector({ ...params, topK: CANDIDATES_PER_RETRIEVER }).catch((error) => {
+      console.error('[HybridSearch] Vector retrieval failed:', error);
+      return [] as ClauseSearchResult[];
+    }),
+    searchClausesByKeyword({ ...params, topK: CANDIDATES_PER_RETRIEVER }).catch((error) => {
+      console.error('[HybridSearch] Keyword retrieval failed:', error);
+      return [] as ClauseSearchResult[];
+    }),
+  ]);
+
+  return reciprocalRankFusion([vectorResults, keywordResults]).slice(0, topK);
+}
+
+/**
+ * Run clause search with the requested retrieval mode
+ */
+export function searchClauses(
+  params: ClauseSearchFilters & { query: string; topK?: number; retrieval?: RetrievalMode }
+): Promise<ClauseSearchResult[]> {
+  switch (params.retrieval) {
+    case 'keyword':
+      return searchClausesByKeyword(params);
+    case 'hybrid':
+      return searchClausesHybrid(params);
+    default:
+      return searchClausesByVector(params);
+  }
+}
+
+export function parseRetrievalMode(value: unknown): RetrievalMode | undefined {
+  return RETRIEVAL_MODES.find((mode) => mode === value);
+}
@@ -0,0 +1,117 @@
+/**
+ * Keyword Index for Lease Clauses
+ *
+ * SQLite FTS5 index over LeaseClause section labels and text, ranked with
+ * BM25. The virtual table and the triggers that keep it in sync with
+ * LeaseClause are not part of the Prisma schema; they are created (and
+ * backfilled) by the add_lease_clause_fts migration, so every writer (API,
+ * scripts, cascading deletes) stays indexed without extra calls.
+ */
+
+import { prisma } from '@/lib/prisma';
+import {
+  buildClauseWhere,
+  toClauseSearchResult,
+  ClauseSearchFilters,
+  ClauseSearchResult,
+} from './vectorStore';
+
+const FTS_TABLE = 'LeaseClauseFts';
+
+// Section labels count double: "Section 4.2" or "Exclusive Use" in a heading is a strong signal
+const SECTION_LABEL_WEIGHT = 2.0;
+const TEXT_WEIGHT = 1.0;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for',
+  'from', 'has', 'have', 'how', 'in', 'is', 'it', 'of', 'on', 'or', 'our',
+  'shall', 'the', 'this', 'to', 'under', 'was', 'we', 'what', 'when', 'where',
+  'which', 'who', 'whom', 'why', 'will', 'with', 'lease', 'tenant', 'landlord',
+]);
+
+/**
+ * Turn a free-text question into an FTS5 MATCH expression. Terms are quoted
+ * (so punctuation can't break the query) and OR'd; BM25 ranks clauses that
+ * match more of them higher. Section references like "4.2" become phrases.
+ */
+export function buildKeywordQuery(question: string): string | null {
+  const lowered = question.toLowerCase();
+  const parts: string[] = [];
+
+  for (const ref of lowered.match(/\d+(?:\.\d+)+/g) || []) {
+    parts.push(`"${ref.split('.').join(' ')}"`);
+  }
+
+  const terms = lowered
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term.length > 1 && !STOPWORDS.has(term));
+
+  for (const term of new Set(terms)) {
+    parts.push(`"${term}"`);
+  }
+
+  return parts.length > 0 ? parts.join(' OR ') : null;
+}
+
+/**
+ * Search clauses by keyword relevance (BM25)
+ */
+export async function searchClausesByKeyword(
+  params: ClauseSearchFilters & { query: string; topK?: number }
+): Promise<ClauseSearchResult[]> {
+  const { query, leaseId, topK = 10 } = params;
+
+  const match = buildKeywordQuery(query);
+  if (!match) {
+    return [];
+  }
+
+  // Lease scoping happens in SQL; remaining filters are applied below, so
+  // over-fetch when they are present
+  const hasOtherFilters =
+    !!params.propertyId || !!params.tenantName || !!params.topics?.length || !!params.responsibleParty;
+  const limit = hasOtherFilters ? topK * 10 : topK;
+
+  const ranked = await prisma.$queryRawUnsafe<Array<{ clauseId: string; score: number }>>(
+    `SELECT f."clauseId" AS "clauseId", -bm25("${FTS_TABLE}", 0.0, ${SECTION_LABEL_WEIGHT}, ${TEXT_WEIGHT}) AS "score"
+     FROM "${FTS_TABLE}" f
+     JOIN "LeaseClause" c ON c."id" = f."clauseId"
+     WHERE "${FTS_TABLE}" MATCH ?${leaseId ? ' AND c."leaseId" = ?' : ''}
+     ORDER BY "score" DESC
+     LIMIT ?`,
+    ...(leaseId ? [match, leaseId, limit] : [match, limit])
+  );
+
+  if (ranked.length === 0) {
+    return [];
+  }
+
+  const clauses = await prisma.leaseClause.findMany({
+    where: {
+      ...buildClauseWhere(params),
+      id: { in: ranked.map((r) => r.clauseId) },
+    },
+    include: {
+      lease: {
+        include: {
+          property: true,
+        },
+      },
+    },
+  });
+  const clausesById = new Map(clauses.map((clause) => [clause.id, clause]));
+
+  // Similarity is BM25 relative to the best match, so it lands in (0, 1]
+  const topScore = Number(ranked[0].score);
+
+  const results: ClauseSearchResult[] = [];
+  for (const { clauseId, score } of ranked) {
+    const clause = clausesById.get(clauseId);
+    if (!clause) continue;
+    const similarity = topScore > 0 ? Number(score) / topScore : 0;
+    results.push({ ...toClauseSearchResult(clause, similarity), keywordScore: Number(score) });
+    if (results.length >= topK) break;
+  }
+
+  return results;
+}
@@ -0,0 +1,272 @@
+/**
+ * Lease Assistant Conversation Threads
+ *
+ * Persists assistant Q&A as threads of turns, scoped to a lease, a property
+ * or the whole portfolio. Follow-up questions ("and what about the roof?")
+ * are rewritten into standalone questions against the prior turns before
+ * clause retrieval, so search sees the full intent.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { callLLM } from '@/lib/llm';
+
+export const THREAD_SCOPES = ['LEASE', 'PROPERTY', 'PORTFOLIO'] as const;
+export type ThreadScope = (typeof THREAD_SCOPES)[number];
+
+// Prior turns given to the rewriter; older ones rarely change the meaning
+const MAX_HISTORY_TURNS = 4;
+const MAX_TITLE_LENGTH = 80;
+
+export interface ThreadTurn {
+  id: string;
+  question: string;
+  standaloneQuestion: string;
+  answer: string;
+  responsibleParty: string | null;
+  citations: unknown[];
+  createdAt: string;
+}
+
+export interface ThreadSummary {
+  id: string;
+  title: string;
+  scope: ThreadScope;
+  leaseId: string | null;
+  propertyId: string | null;
+  tenantName?: string;
+  propertyName?: string;
+  turnCount: number;
+  updatedAt: string;
+}
+
+export interface ThreadDetail extends ThreadSummary {
+  turns: ThreadTurn[];
+}
+
+export function parseThreadScope(value: unknown): ThreadScope | undefined {
+  return THREAD_SCOPES.find((scope) => scope === value);
+}
+
+/**
+ * Title a thread after its first question
+ */
+export function threadTitle(question: string): string {
+  const title = question.trim().replace(/\s+/g, ' ');
+  return title.length > MAX_TITLE_LENGTH ? title.substring(0, MAX_TITLE_LENGTH - 3) + '...' : title;
+}
+
+const threadInclude = {
+  lease: { select: { tenantName: true } },
+  property: { select: { name: true } },
+  _count: { select: { turns: true } },
+} as const;
+
+function toThreadSummary(thread: {
+  id: string;
+  title: string;
+  scope: string;
+  leaseId: string | null;
+  propertyId: string | null;
+  updatedAt: Date;
+  lease: { tenantName: string } | null;
+  property: { name: string } | null;
+  _count: { turns: number };
+}): ThreadSummary {
+  return {
+    id: thread.id,
+    title: thread.title,
+    scope: parseThreadScope(thread.scope) || 'PORTFOLIO',
+    leaseId: thread.leaseId,
+    propertyId: thread.propertyId,
+    tenantName: thread.lease?.tenantName,
+    propertyName: thread.property?.name,
+    turnCount: thread._count.turns,
+    updatedAt: thread.updatedAt.toISOString(),
+  };
+}
+
+function toThreadTurn(turn: {
+  id: string;
+  question: string;
+  standaloneQuestion: string;
+  answer: string;
+  responsibleParty: string | null;
+  citations: string | null;
+  createdAt: Date;
+}): ThreadTurn {
+  let citations: unknown[] = [];
+  if (turn.citations) {
+    try {
+      citations = JSON.parse(turn.citations);
+    } catch (error) {
+      console.error('[Threads] Error parsing citations for turn', turn.id, error);
+    }
+  }
+
+  return {
+    id: turn.id,
+    question: turn.question,
+    standaloneQuestion: turn.standaloneQuestion,
+    answer: turn.answer,
+    responsibleParty: turn.responsibleParty,
+    citations,
+    createdAt: turn.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Create an empty thread. LEASE threads need a leaseId and PROPERTY threads
+ * a propertyId; PORTFOLIO threads ignore both.
+ */
+export async function createThread(params: {
+  scope: ThreadScope;
+  title: string;
+  leaseId?: string;
+  propertyId?: string;
+}): Promise<ThreadSummary> {
+  const { scope, title } = params;
+  const leaseId = scope === 'LEASE' ? params.leaseId : undefined;
+  const propertyId = scope === 'PROPERTY' ? params.propertyId : undefined;
+
+  if (scope === 'LEASE' && !leaseId) {
+    throw new Error('leaseId is required for LEASE threads');
+  }
+  if (scope === 'PROPERTY' && !propertyId) {
+    throw new Error('propertyId is required for PROPERTY threads');
+  }
+
+  const thread = await prisma.assistantThread.create({
+    data: { scope, title: threadTitle(title), leaseId, propertyId },
+    include: threadInclude,
+  });
+
+  return toThreadSummary(thread);
+}
+
+/**
+ * Most recently active threads, optionally narrowed to a scope, lease or property
+ */
+export async function listThreads(
+  filters: { scope?: ThreadScope; leaseId?: string; propertyId?: string; limit?: number } = {}
+): Promise<ThreadSummary[]> {
+  const { scope, leaseId, propertyId, limit = 50 } = filters;
+
+  const threads = await prisma.assistantThread.findMany({
+    where: {
+      ...(scope ? { scope } : {}),
+      ...(leaseId ? { leaseId } : {}),
+      ...(propertyId ? { propertyId } : {}),
+    },
+    include: threadInclude,
+    orderBy: { updatedAt: 'desc' },
+    take: limit,
+  });
+
+  return threads.map(toThreadSummary);
+}
+
+/**
+ * A thread with its turns, oldest first
+ */
+export async function getThread(threadId: string): Promise<ThreadDetail | null> {
+  const thread = await prisma.assistantThread.findUnique({
+    where: { id: threadId },
+    include: {
+      ...threadInclude,
+      turns: { orderBy: { createdAt: 'asc' } },
+    },
+  });
+
+  if (!thread) {
+    return null;
+  }
+
+  return {
+    ...toThreadSummary(thread),
+    turns: thread.turns.map(toThreadTurn),
+  };
+}
+
+/**
+ * Record a completed turn and bump the thread to the top of the sidebar
+ */
+export async function appendTurn(
+  threadId: string,
+  turn: {
+    question: string;
+    standaloneQuestion: string;
+    answer: string;
+    responsibleParty?: string;
+    citations: unknown[];
+  }
+): Promise<ThreadTurn> {
+  const created = await prisma.assistantTurn.create({
+    data: {
+      threadId,
+      question: turn.question,
+      standaloneQuestion: turn.standaloneQuestion,
+      answer: turn.answer,
+      responsibleParty: turn.responsibleParty,
+      citations: JSON.stringify(turn.citations),
+    },
+  });
+
+  await prisma.assistantThread.update({
+    where: { id: threadId },
+    data: { updatedAt: new Date() },
+  });
+
+  return toThreadTurn(created);
+}
+
+export async function deleteThread(threadId: string): Promise<void> {
+  await prisma.assistantThread.delete({ where: { id: threadId } });
+}
+
+/**
+ * Rewrite a follow-up into a standalone question using the prior turns.
+ * The first question of a thread is returned unchanged, as is the original
+ * question if the rewrite fails.
+ */
+export async function rewriteFollowUpQuestion(
+  question: string,
+  history: Array<{ question: string; answer: string }>
+): Promise<string> {
+  const trimmed = question.trim();
+  if (history.length === 0) {
+    return trimmed;
+  }
+
+  const conversation = history
+    .slice(-MAX_HISTORY_TURNS)
+    .map(
+      (turn) =>
+        `User: ${turn.question}\nAssistant: ${turn.answer.substring(0, 500)}${turn.answer.length > 500 ? '...' : ''}`
+    )
+    .join('\n\n');
+
+  const prompt = `Rewrite the follow-up question so it can be understood without the conversation.
+
+CONVERSATION:
+${conversation}
+
+FOLLOW-UP QUESTION:
+${trimmed}
+
+Resolve pronouns and elliptical references ("it", "that clause", "what about the roof?") using the conversation, keeping the tenant, property and topic the user is asking about.
+If the follow-up is already standalone, return it unchanged.
+Return ONLY the rewritten question, with no preamble.`;
+
+  try {
+    const rewritten = await callLLM(prompt, {
+      feature: 'QUESTION_REWRITE',
+      temperature: 0,
+      maxTokens: 200,
+    });
+    const cleaned = rewritten.trim().replace(/^["']|["']$/g, '');
+    return cleaned || trimmed;
+  } catch (error) {
+    console.error('[Threads] Error rewriting follow-up question:', error);
+    return trimmed;
+  }
+}
@@ -1,12 +1,15 @@
 /**
  * Vector Store Abstraction for Lease Clauses
  *
- * Stores and retrieves clause embeddings using the existing SQLite + in-memory
- * cosine similarity approach (same as DocumentChunk).
+ * Stores clause embeddings as packed Float32 blobs in SQLite and searches
+ * them through the warm in-process index in lib/vectorIndex.ts (same as
+ * DocumentChunk).
  */
 
 import { prisma } from '@/lib/prisma';
-import { embedChunks, embedQuery, cosineSimilarity } from '@/lib/leaseIngestion';
+import { embedChunks, embedQuery } from '@/lib/leaseIngestion';
+import { getEmbeddingModelInfo, getEmbeddingProvider } from '@/lib/embeddings';
+import { invalidateVectorIndex, packEmbedding, searchVectorIndex } from '@/lib/vectorIndex';
 import { ClauseTopic, ResponsibleParty } from './classifier';
 
 export interface LeaseClauseMetadata {
@@ -26,13 +29,88 @@ export interface ClauseSearchResult {
   text: string;
   textSnippet: string;
   pageNumber: number | null;
-  similarity: number;
+  similarity: number; // Cosine similarity, or for keyword/hybrid the BM25/fused score relative to the top result
+  keywordScore?: number; // BM25 relevance (higher is better), keyword/hybrid retrieval only
+  fusedScore?: number; // Reciprocal-rank fusion score, hybrid retrieval only
   // Joined from lease
   tenantName?: string;
   propertyName?: string;
   propertyId?: string;
 }
 
+export interface ClauseSearchFilters {
+  leaseId?: string;
+  propertyId?: string;
+  tenantName?: string;
+  topics?: ClauseTopic[];
+  responsibleParty?: ResponsibleParty;
+}
+
+/**
+ * Build the Prisma where clause shared by vector and keyword search
+ */
+export function buildClauseWhere(filters: ClauseSearchFilters): any {
+  const { leaseId, propertyId, tenantName, topics, responsibleParty } = filters;
+  const where: any = {};
+
+  if (leaseId) {
+    where.leaseId = leaseId;
+  }
+
+  if (topics && topics.length > 0) {
+    where.topic = { in: topics };
+  }
+
+  if (responsibleParty) {
+    where.responsibleParty = responsibleParty;
+  }
+
+  // If filtering by property or tenant, we need to join through lease
+  if (propertyId || tenantName) {
+    where.lease = {};
+    if (propertyId) {
+      where.lease.propertyId = propertyId;
+    }
+    if (tenantName) {
+      where.lease.tenantName = tenantName;
+    }
+  }
+
+  return where;
+}
+
+/**
+ * Map a clause row (with lease and property) to a search result
+ */
+export function toClauseSearchResult(
+  clause: {
+    id: string;
+    leaseId: string;
+    topic: string;
+    responsibleParty: string;
+    sectionLabel: string | null;
+    text: string;
+    pageNumber: number | null;
+    lease: { tenantName: string; propertyId: string; property: { name: string } | null };
+  },
+  similarity: number
+): ClauseSearchResult {
+  return {
+    clauseId: clause.id,
+    leaseId: clause.leaseId,
+    topic: clause.topic,
+    responsibleParty: clause.responsibleParty,
+    sectionLabel: clause.sectionLabel,
+    text: clause.text,
+    textSnippet: clause.text.substring(0, 300) + (clause.text.length > 300 ? '...' : ''),
+    pageNumber: clause.pageNumber,
+    similarity,
+    tenantName: clause.lease.tenantName,
+    propertyName: clause.lease.property?.name || undefined,
+    propertyId: clause.lease.propertyId,
+  };
+}
+
 /**
  * Upsert (create or update) a lease clause with its embedding
  */
@@ -51,6 +129,7 @@ export async function upsertLeaseClauseEmbedding(params: {
   // Generate embedding
   const embeddings = await embedChunks([text]);
   const embedding = embeddings[0];
+  const embeddingInfo = getEmbeddingModelInfo();
 
   if (clauseId) {
     // Update existing clause
@@ -62,9 +141,12 @@ export async function upsertLeaseClauseEmbedding(params: {
         responsibleParty,
         sectionLabel,
         pageNumber,
-        embedding: JSON.stringify(embedding),
+        embeddingVector: packEmbedding(embedding),
+        embeddingModel: embeddingInfo.model,
+        embeddingDimensions: embeddingInfo.dimensions,
       },
     });
+    await invalidateVectorIndex('clauses');
     return clauseId;
   } else {
     // Create new clause
@@ -76,9 +158,12 @@ export async function upsertLeaseClauseEmbedding(params: {
         responsibleParty,
         sectionLabel,
         pageNumber,
-        embedding: JSON.stringify(embedding),
+        embeddingVector: packEmbedding(embedding),
+        embeddingModel: embeddingInfo.model,
+        embeddingDimensions: embeddingInfo.dimensions,
       },
     });
+    await invalidateVectorIndex('clauses');
     return clause.id;
   }
 }
@@ -101,6 +186,7 @@ export async function upsertLeaseClausesBatch(
   // Generate embeddings in batch
   const texts = clauses.map((c) => c.text);
   const embeddings = await embedChunks(texts);
+  const embeddingInfo = getEmbeddingModelInfo();
 
   // Create all clauses
   const clauseIds: string[] = [];
@@ -113,11 +199,14 @@ export async function upsertLeaseClausesBatch(
         responsibleParty: clauses[i].responsibleParty,
         sectionLabel: clauses[i].sectionLabel,
         pageNumber: clauses[i].pageNumber,
-        embedding: JSON.stringify(embeddings[i]),
+        embeddingVector: packEmbedding(embeddings[i]),
+        embeddingModel: embeddingInfo.model,
+        embeddingDimensions: embeddingInfo.dimensions,
       },
     });
     clauseIds.push(clause.id);
   }
+  await invalidateVectorIndex('clauses');
 
   return clauseIds;
 }
@@ -125,56 +214,38 @@ export async function upsertLeaseClausesBatch(
 /**
  * Search for relevant clauses using vector similarity
  */
-export async function searchClausesByVector(params: {
-  query: string;
-  leaseId?: string;
-  propertyId?: string;
-  tenantName?: string;
-  topics?: ClauseTopic[];
-  responsibleParty?: ResponsibleParty;
-  topK?: number;
-  minSimilarity?: number;
-}): Promise<ClauseSearchResult[]> {
-  const {
-    query,
-    leaseId,
-    propertyId,
-    tenantName,
-    topics,
-    responsibleParty,
-    topK = 10,
-    minSimilarity = 0.3,
-  } = params;
-
-  // Build where clause for filtering
-  const where: any = {};
-
-  if (leaseId) {
-    where.leaseId = leaseId;
-  }
-
-  if (topics && topics.length > 0) {
-    where.topic = { in: topics };
+export async function searchClausesByVector(
+  params: ClauseSearchFilters & {
+    query: string;
+    topK?: number;
+    minSimilarity?: number; // Defaults to the embedding provider's cutoff
   }
+): Promise<ClauseSearchResult[]> {
+  const { query, topK = 10 } = params;
+  const embeddingProvider = getEmbeddingProvider();
+  const minSimilarity = params.minSimilarity ?? embeddingProvider.minSimilarity;
 
-  if (responsibleParty) {
-    where.responsibleParty = responsibleParty;
-  }
+  // Rank against the warm index (active embedding model only)
+  const queryEmbedding = await embedQuery(query);
+  const hits = await searchVectorIndex('clauses', queryEmbedding, {
+    filter: {
+      leaseIds: params.leaseId ? [params.leaseId] : undefined,
+      propertyId: params.propertyId,
+      tenantName: params.tenantName,
+      topics: params.topics,
+      responsibleParty: params.responsibleParty,
+    },
+    topK,
+    minSimilarity,
+  });
 
-  // If filtering by property or tenant, we need to join through lease
-  if (propertyId || tenantName) {
-    where.lease = {};
-    if (propertyId) {
-      where.lease.propertyId = propertyId;
-    }
-    if (tenantName) {
-      where.lease.tenantName = tenantName;
-    }
+  if (hits.length === 0) {
+    return [];
   }
 
-  // Fetch clauses with their embeddings
+  // Load clause rows for the hits only; rows deleted since the index was built drop out
   const clauses = await prisma.leaseClause.findMany({
-    where,
+    where: { id: { in: hits.map((hit) => hit.id) } },
     include: {
       lease: {
         include: {
@@ -183,44 +254,17 @@ export async function searchClausesByVector(params: {
       },
     },
   });
+  const clausesById = new Map(clauses.map((clause) => [clause.id, clause]));
 
-  if (clauses.length === 0) {
-    return [];
-  }
-
-  // Generate query embedding
-  const queryEmbedding = await embedQuery(query);
-
-  // Compute similarity for each clause
   const results: ClauseSearchResult[] = [];
-
-  for (const clause of clauses) {
-    if (!clause.embedding) continue;
-
-    const clauseEmbedding = JSON.parse(clause.embedding) as number[];
-    const similarity = cosineSimilarity(queryEmbedding, clauseEmbedding);
-
-    if (similarity >= minSimilarity) {
-      results.push({
-        clauseId: clause.id,
-        leaseId: clause.leaseId,
-        topic: clause.topic,
-        responsibleParty: clause.responsibleParty,
-        sectionLabel: clause.sectionLabel,
-        text: clause.text,
-        textSnippet: clause.text.substring(0, 300) + (clause.text.length > 300 ? '...' : ''),
-        pageNumber: clause.pageNumber,
-        similarity,
-        tenantName: clause.lease.tenantName,
-        propertyName: clause.lease.property?.name || undefined,
-        propertyId: clause.lease.propertyId,
-      });
+  for (const hit of hits) {
+    const clause = clausesById.get(hit.id);
+    if (clause) {
+      results.push(toClauseSearchResult(clause, hit.similarity));
     }
   }
 
-  // Sort by similarity (descending) and take topK
-  results.sort((a, b) => b.similarity - a.similarity);
-  return results.slice(0, topK);
+  return results;
 }
 
 /**
@@ -252,20 +296,7 @@ export async function getClausesForLease(
     orderBy: { createdAt: 'asc' },
   });
 
-  return clauses.map((clause) => ({
-    clauseId: clause.id,
-    leaseId: clause.leaseId,
-    topic: clause.topic,
-    responsibleParty: clause.responsibleParty,
-    sectionLabel: clause.sectionLabel,
-    text: clause.text,
-    textSnippet: clause.text.substring(0, 300) + (clause.text.length > 300 ? '...' : ''),
-    pageNumber: clause.pageNumber,
-    similarity: 1.0, // Not from search
-    tenantName: clause.lease.tenantName,
-    propertyName: clause.lease.property?.name || undefined,
-    propertyId: clause.lease.propertyId,
-  }));
+  return clauses.map((clause) => toClauseSearchResult(clause, 1.0)); // Not from search
 }
 
 /**
@@ -275,5 +306,6 @@ export async function deleteClausesForLease(leaseId: string): Promise<number> {
   const result = await prisma.leaseClause.deleteMany({
     where: { leaseId },
   });
+  await invalidateVectorIndex('clauses');
   return result.count;
 }
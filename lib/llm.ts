@@ -2,98 +2,225 @@
  * LLM Abstraction Layer
  *
  * This module provides a simple interface to call different LLM providers.
- * Currently supports Anthropic (Claude) and OpenAI (GPT).
+ * Providers live in lib/providers and are looked up by name:
+ * - "anthropic" (Claude)
+ * - "openai" (GPT)
+ * - "local" (deterministic offline stub, no API key required)
  *
- * Set LLM_PROVIDER in your .env file to either "anthropic" or "openai"
- * and provide the corresponding API key.
+ * Set LLM_PROVIDER in your .env file to one of the above and provide the
+ * corresponding API key. LLM_MODEL optionally overrides the provider's
+ * default model.
+ *
+ * callLLMStructured() validates JSON responses against a schema from
+ * lib/schema.ts and retries with the validation errors when they don't match.
  */
 
-const LLM_PROVIDER = process.env.LLM_PROVIDER || 'anthropic';
-const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+import { getLLMProvider, LLMResponse, LLMTokenHandler } from './providers';
+import { Schema, SchemaIssue, parseWithSchema } from './schema';
+import { LLMFeature, recordLLMCall } from './llmLedger';
+import { buildCacheKey, getCachedValue, isLLMCacheEnabled, setCachedValue } from './llmCache';
+
+const LLM_MODEL = process.env.LLM_MODEL;
+
+export interface CallLLMOptions {
+  feature?: LLMFeature; // Tag recorded in the LLM call ledger (default OTHER)
+  provider?: string;
+  model?: string;
+  system?: string;
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean;
+  cache?: boolean; // Set false to bypass the response cache for this call
+  onToken?: LLMTokenHandler; // Stream text deltas as they are generated
+}
+
+/**
+ * Call the configured LLM with a prompt and return the full provider response
+ * (text, resolved model and token usage when available). Identical calls are
+ * served from the response cache; every call is recorded in the LLM call ledger.
+ *
+ * With `onToken`, text is streamed as it is generated (providers without
+ * streaming support, and cache hits, deliver the whole text as one token).
+ */
+export async function completeLLM(
+  prompt: string,
+  options: CallLLMOptions = {}
+): Promise<LLMResponse> {
+  const provider = getLLMProvider(options.provider);
+  // LLM_MODEL only applies to the default provider
+  const model = options.model || (options.provider ? undefined : LLM_MODEL);
+  const feature = options.feature || 'OTHER';
+  const request = {
+    prompt,
+    system: options.system,
+    model,
+    temperature: options.temperature,
+    maxTokens: options.maxTokens,
+    jsonMode: options.jsonMode,
+  };
+  const startedAt = Date.now();
+
+  const useCache = options.cache !== false && isLLMCacheEnabled();
+  const resolvedModel = model || provider.defaultModel;
+  const cacheKey = buildCacheKey('COMPLETION', provider.name, resolvedModel, {
+    ...request,
+    model: resolvedModel,
+  });
+
+  if (useCache) {
+    const cached = await getCachedValue(cacheKey);
+    if (cached !== null) {
+      await recordLLMCall({
+        feature,
+        provider: provider.name,
+        model: resolvedModel,
+        latencyMs: Date.now() - startedAt,
+        status: 'CACHED',
+      });
+      options.onToken?.(cached);
+      return { text: cached, model: resolvedModel };
+    }
+  }
+
+  try {
+    let response: LLMResponse;
+    if (!options.onToken) {
+      response = await provider.complete(request);
+    } else if (provider.stream) {
+      response = await provider.stream(request, options.onToken);
+    } else {
+      response = await provider.complete(request);
+      options.onToken(response.text);
+    }
+
+    if (useCache) {
+      await setCachedValue({
+        key: cacheKey,
+        kind: 'COMPLETION',
+        provider: provider.name,
+        model: resolvedModel,
+        value: response.text,
+      });
+    }
+
+    await recordLLMCall({
+      feature,
+      provider: provider.name,
+      model: response.model,
+      promptTokens: response.usage?.inputTokens,
+      responseTokens: response.usage?.outputTokens,
+      latencyMs: Date.now() - startedAt,
+      status: 'SUCCESS',
+    });
+
+    return response;
+  } catch (error) {
+    await recordLLMCall({
+      feature,
+      provider: provider.name,
+      model: resolvedModel,
+      latencyMs: Date.now() - startedAt,
+      status: 'ERROR',
+      error: (error as Error).message,
+    });
+    throw error;
+  }
+}
 
 /**
  * Call the configured LLM with a prompt and return the response.
  * @param prompt The input prompt for the LLM
+ * @param options Optional provider, model, system prompt and sampling settings
  * @returns The LLM's response as a string
  */
-export async function callLLM(prompt: string): Promise<string> {
-  if (LLM_PROVIDER === 'anthropic') {
-    return callAnthropic(prompt);
-  } else if (LLM_PROVIDER === 'openai') {
-    return callOpenAI(prompt);
-  } else {
-    throw new Error(`Unsupported LLM provider: ${LLM_PROVIDER}`);
-  }
+export async function callLLM(prompt: string, options?: CallLLMOptions): Promise<string> {
+  const response = await completeLLM(prompt, options);
+  return response.text;
+}
+
+export interface StructuredCallOptions extends CallLLMOptions {
+  maxAttempts?: number; // Total attempts including repair retries (default 3)
 }
 
+export type StructuredResult<T> =
+  | { success: true; data: T; attempts: number }
+  | {
+      success: false;
+      error: string;
+      issues: SchemaIssue[];
+      raw: string;
+      attempts: number;
+    };
+
 /**
- * Call Anthropic's Claude API
+ * Call the LLM and validate its JSON response against a schema.
+ *
+ * Invalid responses are retried with the validation errors fed back to the
+ * model. Provider errors (network, auth) are thrown; responses that still
+ * fail validation after the last attempt are returned as a typed failure.
  */
-async function callAnthropic(prompt: string): Promise<string> {
-  if (!ANTHROPIC_API_KEY) {
-    throw new Error('ANTHROPIC_API_KEY is not set in environment variables');
-  }
+export async function callLLMStructured<T>(
+  prompt: string,
+  schema: Schema<T>,
+  options: StructuredCallOptions = {}
+): Promise<StructuredResult<T>> {
+  const { maxAttempts = 3, ...callOptions } = options;
 
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': ANTHROPIC_API_KEY,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: 'claude-3-5-sonnet-20241022',
-      max_tokens: 2048,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    }),
-  });
+  let currentPrompt = prompt;
+  let raw = '';
+  let issues: SchemaIssue[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    raw = await callLLM(currentPrompt, {
+      // JSON mode only supports a top-level object
+      jsonMode: schema.kind === 'object',
+      ...callOptions,
+    });
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Anthropic API error: ${response.status} - ${error}`);
+    const parsed = parseWithSchema(raw, schema);
+    if (parsed.data !== undefined) {
+      return { success: true, data: parsed.data, attempts: attempt };
+    }
+
+    issues = parsed.issues;
+    console.warn(
+      `[LLM] Structured response failed validation (attempt ${attempt}/${maxAttempts}):`,
+      issues.map((i) => `${i.path || '(root)'}: ${i.message}`).join('; ')
+    );
+    currentPrompt = buildRepairPrompt(prompt, raw, issues, schema);
   }
 
-  const data = await response.json();
-  return data.content[0].text;
+  return {
+    success: false,
+    error: 'LLM response did not match the expected schema',
+    issues,
+    raw,
+    attempts: maxAttempts,
+  };
 }
 
 /**
- * Call OpenAI's GPT API
+ * Re-ask the original prompt with the previous answer and its validation errors
  */
-async function callOpenAI(prompt: string): Promise<string> {
-  if (!OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY is not set in environment variables');
-  }
+function buildRepairPrompt(
+  originalPrompt: string,
+  previousResponse: string,
+  issues: SchemaIssue[],
+  schema: Schema<unknown>
+): string {
+  return `${originalPrompt}
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: 'gpt-4-turbo-preview',
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      max_tokens: 2048,
-    }),
-  });
+---
+Your previous response could not be used:
+"""
+${previousResponse.substring(0, 4000)}
+"""
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} - ${error}`);
-  }
+Validation errors:
+${issues.map((i) => `- ${i.path || '(root)'}: ${i.message}`).join('\n')}
+
+The response must be valid JSON matching this shape:
+${schema.describe()}
 
-  const data = await response.json();
-  return data.choices[0].message.content;
+Return ONLY the corrected JSON, no explanation.`;
 }
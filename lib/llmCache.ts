@@ -0,0 +1,114 @@
+/**
+ * LLM Response Cache
+ *
+ * Content-addressed cache (LlmCacheEntry table) in front of LLM completions
+ * and embeddings. Entries are keyed by a SHA-256 hash of the provider, model,
+ * call settings and input text, so re-running indexing or extraction over
+ * unchanged documents makes no outbound calls.
+ *
+ * LLM_CACHE_DISABLED=true turns the cache off; LLM_CACHE_TTL_HOURS sets the
+ * entry lifetime (default 720 hours / 30 days, 0 = never expire).
+ */
+
+import { createHash } from 'crypto';
+import { prisma } from './prisma';
+
+const LLM_CACHE_DISABLED = process.env.LLM_CACHE_DISABLED === 'true';
+const LLM_CACHE_TTL_HOURS = parseFloat(process.env.LLM_CACHE_TTL_HOURS || '720');
+
+export type CacheKind = 'COMPLETION' | 'EMBEDDING';
+
+export function isLLMCacheEnabled(): boolean {
+  return !LLM_CACHE_DISABLED;
+}
+
+/**
+ * Build a cache key from the identifying parts of a call
+ */
+export function buildCacheKey(
+  kind: CacheKind,
+  provider: string,
+  model: string,
+  input: unknown
+): string {
+  return createHash('sha256')
+    .update(JSON.stringify([kind, provider, model, input]))
+    .digest('hex');
+}
+
+function expiryDate(): Date | null {
+  if (!LLM_CACHE_TTL_HOURS || LLM_CACHE_TTL_HOURS <= 0) return null;
+  return new Date(Date.now() + LLM_CACHE_TTL_HOURS * 60 * 60 * 1000);
+}
+
+/**
+ * Look up cached values for a set of keys. Expired entries are ignored.
+ * Returns a map of key -> value for hits only.
+ */
+export async function getCachedValues(keys: string[]): Promise<Map<string, string>> {
+  const hits = new Map<string, string>();
+  if (keys.length === 0) return hits;
+
+  try {
+    const entries = await prisma.llmCacheEntry.findMany({
+      where: {
+        key: { in: keys },
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+      select: { key: true, value: true },
+    });
+
+    for (const entry of entries) {
+      hits.set(entry.key, entry.value);
+    }
+
+    if (entries.length > 0) {
+      await prisma.llmCacheEntry.updateMany({
+        where: { key: { in: entries.map((e) => e.key) } },
+        data: { hits: { increment: 1 } },
+      });
+    }
+  } catch (error) {
+    console.error('[LLM Cache] Lookup failed:', error);
+  }
+
+  return hits;
+}
+
+export async function getCachedValue(key: string): Promise<string | null> {
+  const hits = await getCachedValues([key]);
+  return hits.get(key) ?? null;
+}
+
+/**
+ * Store (or refresh) a cached value. Never throws.
+ */
+export async function setCachedValue(entry: {
+  key: string;
+  kind: CacheKind;
+  provider: string;
+  model: string;
+  value: string;
+}): Promise<void> {
+  const expiresAt = expiryDate();
+
+  try {
+    await prisma.llmCacheEntry.upsert({
+      where: { key: entry.key },
+      create: { ...entry, expiresAt },
+      update: { value: entry.value, expiresAt },
+    });
+  } catch (error) {
+    console.error('[LLM Cache] Write failed:', error);
+  }
+}
+
+/**
+ * Delete expired entries (or everything, with `all`)
+ */
+export async function purgeLLMCache(options?: { all?: boolean }): Promise<number> {
+  const result = await prisma.llmCacheEntry.deleteMany({
+    where: options?.all ? {} : { expiresAt: { lte: new Date() } },
+  });
+  return result.count;
+}
@@ -0,0 +1,192 @@
+/**
+ * LLM Call Ledger
+ *
+ * Records every LLM provider call (feature, model, tokens, latency, status)
+ * in the LlmCall table and aggregates spend by feature and by day for the
+ * admin usage page.
+ */
+
+import { prisma } from './prisma';
+
+const LLM_LEDGER_DISABLED = process.env.LLM_LEDGER_DISABLED === 'true';
+
+export const LLM_FEATURES = [
+  'LEASE_EXTRACTION',
+  'CLAUSE_CLASSIFICATION',
+  'DOCUMENT_CLASSIFICATION',
+  'INVOICE_EXTRACTION',
+  'WORK_ORDER_EXTRACTION',
+  'MAINTENANCE_EMAIL_INTAKE',
+  'MAINTENANCE_EMAIL_DRAFTS',
+  'DASHBOARD_INSIGHTS',
+  'TENANT_COMMUNICATION',
+  'LEASE_QA',
+  'PORTFOLIO_QA',
+  'RERANK',
+  'QUESTION_REWRITE',
+  'OTHER',
+] as const;
+
+export type LLMFeature = (typeof LLM_FEATURES)[number];
+
+/**
+ * USD per 1M tokens. Models not listed are recorded without a cost.
+ */
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'gpt-4-turbo-preview': { input: 10, output: 30 },
+  'local-stub': { input: 0, output: 0 },
+};
+
+export function estimateCostUsd(
+  model: string,
+  promptTokens?: number | null,
+  responseTokens?: number | null
+): number | null {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing || promptTokens == null || responseTokens == null) {
+    return null;
+  }
+  return (promptTokens * pricing.input + responseTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Record a single LLM call. Never throws - ledger failures must not break
+ * the feature that made the call.
+ */
+export async function recordLLMCall(call: {
+  feature: LLMFeature;
+  provider: string;
+  model: string;
+  promptTokens?: number;
+  responseTokens?: number;
+  latencyMs: number;
+  status: 'SUCCESS' | 'ERROR' | 'CACHED';
+  error?: string;
+}): Promise<void> {
+  if (LLM_LEDGER_DISABLED) return;
+
+  try {
+    await prisma.llmCall.create({
+      data: {
+        feature: call.feature,
+        provider: call.provider,
+        model: call.model,
+        promptTokens: call.promptTokens ?? null,
+        responseTokens: call.responseTokens ?? null,
+        latencyMs: call.latencyMs,
+        costUsd: estimateCostUsd(call.model, call.promptTokens, call.responseTokens),
+        status: call.status,
+        error: call.error?.substring(0, 1000) ?? null,
+      },
+    });
+  } catch (error) {
+    console.error('[LLM Ledger] Failed to record call:', error);
+  }
+}
+
+export interface LLMUsageBucket {
+  calls: number;
+  errors: number;
+  cacheHits: number;
+  promptTokens: number;
+  responseTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+}
+
+export interface LLMUsageSummary {
+  from: string; // ISO
+  to: string; // ISO
+  totals: LLMUsageBucket;
+  byFeature: Array<{ feature: string } & LLMUsageBucket>;
+  byDay: Array<{ day: string } & LLMUsageBucket>; // day = YYYY-MM-DD (UTC)
+}
+
+function emptyBucket(): LLMUsageBucket {
+  return {
+    calls: 0,
+    errors: 0,
+    cacheHits: 0,
+    promptTokens: 0,
+    responseTokens: 0,
+    costUsd: 0,
+    avgLatencyMs: 0,
+  };
+}
+
+function addToBucket(
+  bucket: LLMUsageBucket,
+  call: {
+    status: string;
+    promptTokens: number | null;
+    responseTokens: number | null;
+    costUsd: number | null;
+    latencyMs: number;
+  }
+): void {
+  // Running mean keeps the bucket self-contained
+  bucket.avgLatencyMs += (call.latencyMs - bucket.avgLatencyMs) / (bucket.calls + 1);
+  bucket.calls += 1;
+  if (call.status === 'ERROR') bucket.errors += 1;
+  if (call.status === 'CACHED') bucket.cacheHits += 1;
+  bucket.promptTokens += call.promptTokens || 0;
+  bucket.responseTokens += call.responseTokens || 0;
+  bucket.costUsd += call.costUsd || 0;
+}
+
+/**
+ * Aggregate recorded calls over the last `days` days
+ */
+export async function getLLMUsageSummary(params?: {
+  days?: number;
+  feature?: string;
+}): Promise<LLMUsageSummary> {
+  const days = params?.days || 30;
+  const to = new Date();
+  const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+
+  const calls = await prisma.llmCall.findMany({
+    where: {
+      createdAt: { gte: from },
+      ...(params?.feature ? { feature: params.feature } : {}),
+    },
+    select: {
+      feature: true,
+      status: true,
+      promptTokens: true,
+      responseTokens: true,
+      costUsd: true,
+      latencyMs: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const totals = emptyBucket();
+  const byFeature = new Map<string, LLMUsageBucket>();
+  const byDay = new Map<string, LLMUsageBucket>();
+
+  for (const call of calls) {
+    addToBucket(totals, call);
+
+    const featureBucket = byFeature.get(call.feature) || emptyBucket();
+    addToBucket(featureBucket, call);
+    byFeature.set(call.feature, featureBucket);
+
+    const day = call.createdAt.toISOString().split('T')[0];
+    const dayBucket = byDay.get(day) || emptyBucket();
+    addToBucket(dayBucket, call);
+    byDay.set(day, dayBucket);
+  }
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    totals,
+    byFeature: Array.from(byFeature.entries())
+      .map(([feature, bucket]) => ({ feature, ...bucket }))
+      .sort((a, b) => b.costUsd - a.costUsd || b.calls - a.calls),
+    byDay: Array.from(byDay.entries()).map(([day, bucket]) => ({ day, ...bucket })),
+  };
+}
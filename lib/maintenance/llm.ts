@@ -1,7 +1,8 @@
 // LLM Helpers for Maintenance Module
 // Uses CRE-specific language: property, building, suite/space, occupier, vendor, asset manager
 
-import { callLLM } from '@/lib/llm';
+import { callLLMStructured } from '@/lib/llm';
+import { s, Schema } from '@/lib/schema';
 import {
   ExtractedWorkOrder,
   WorkOrderDecisions,
@@ -23,6 +24,32 @@ const VALID_CATEGORIES: IssueCategory[] = [
 
 const VALID_PRIORITIES: Priority[] = ['LOW', 'MEDIUM', 'HIGH', 'EMERGENCY'];
 
+// Unknown categories/severities are normalized rather than rejected
+const extractedWorkOrderSchema: Schema<ExtractedWorkOrder> = s.object({
+  propertyName: s.optional(s.string()),
+  spaceLabel: s.optional(s.string()),
+  occupierName: s.optional(s.string()),
+  occupierEmail: s.optional(s.string()),
+  issueCategory: s.enumeration(VALID_CATEGORIES, { fallback: 'OTHER' }),
+  description: s.string(),
+  severity: s.enumeration(VALID_PRIORITIES, { fallback: 'MEDIUM' }),
+  accessConstraints: s.optional(s.string()),
+  reportedAt: s.optional(s.string()),
+});
+
+const emailDraftSchema = s.optional(
+  s.object({
+    subject: s.optional(s.string()),
+    body: s.optional(s.string()),
+  })
+);
+
+const maintenanceDraftsSchema = s.object({
+  occupierAcknowledgement: emailDraftSchema,
+  vendorDispatch: emailDraftSchema,
+  internalNote: emailDraftSchema,
+});
+
 /**
  * Extract structured work order details from raw email text
  */
@@ -62,36 +89,12 @@ ${rawEmailText}
 
 Return ONLY the JSON object, no additional text.`;
 
-  const response = await callLLM(prompt);
-
-  // Parse JSON from response
-  try {
-    // Try to extract JSON from response
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in LLM response');
-    }
-
-    const parsed = JSON.parse(jsonMatch[0]);
+  const result = await callLLMStructured(prompt, extractedWorkOrderSchema, {
+    feature: 'MAINTENANCE_EMAIL_INTAKE',
+  });
 
-    // Validate and normalize the response
-    return {
-      propertyName: parsed.propertyName || undefined,
-      spaceLabel: parsed.spaceLabel || undefined,
-      occupierName: parsed.occupierName || undefined,
-      occupierEmail: parsed.occupierEmail || undefined,
-      issueCategory: VALID_CATEGORIES.includes(parsed.issueCategory)
-        ? parsed.issueCategory
-        : 'OTHER',
-      description: parsed.description || 'No description provided',
-      severity: VALID_PRIORITIES.includes(parsed.severity)
-        ? parsed.severity
-        : 'MEDIUM',
-      accessConstraints: parsed.accessConstraints || undefined,
-      reportedAt: parsed.reportedAt || undefined,
-    };
-  } catch (error) {
-    console.error('Failed to parse LLM response:', error);
+  if (!result.success) {
+    console.error('Failed to parse LLM response:', result.issues);
     // Return a default extraction with the raw text as description
     return {
       issueCategory: 'OTHER',
@@ -99,6 +102,8 @@ Return ONLY the JSON object, no additional text.`;
       severity: 'MEDIUM',
     };
   }
+
+  return result.data;
 }
 
 /**
@@ -191,32 +196,12 @@ REQUIREMENTS:
 
 Return ONLY the JSON object.`;
 
-  const response = await callLLM(prompt);
-
-  try {
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in LLM response');
-    }
+  const result = await callLLMStructured(prompt, maintenanceDraftsSchema, {
+    feature: 'MAINTENANCE_EMAIL_DRAFTS',
+  });
 
-    const parsed = JSON.parse(jsonMatch[0]);
-
-    return {
-      occupierAcknowledgement: {
-        subject: parsed.occupierAcknowledgement?.subject || `Work Order Received - ${extracted.issueCategory} Issue`,
-        body: parsed.occupierAcknowledgement?.body || generateFallbackOccupierEmail(input),
-      },
-      vendorDispatch: {
-        subject: parsed.vendorDispatch?.subject || `Service Request - ${decisions.priority} Priority`,
-        body: parsed.vendorDispatch?.body || generateFallbackVendorEmail(input),
-      },
-      internalNote: {
-        subject: parsed.internalNote?.subject || `Internal: ${extracted.issueCategory} - ${occupierName}`,
-        body: parsed.internalNote?.body || generateFallbackInternalNote(input),
-      },
-    };
-  } catch (error) {
-    console.error('Failed to parse LLM draft response:', error);
+  if (!result.success) {
+    console.error('Failed to parse LLM draft response:', result.issues);
     // Return fallback drafts
     return {
       occupierAcknowledgement: {
@@ -233,6 +218,23 @@ Return ONLY the JSON object.`;
       },
     };
   }
+
+  const parsed = result.data;
+
+  return {
+    occupierAcknowledgement: {
+      subject: parsed.occupierAcknowledgement?.subject || `Work Order Received - ${extracted.issueCategory} Issue`,
+      body: parsed.occupierAcknowledgement?.body || generateFallbackOccupierEmail(input),
+    },
+    vendorDispatch: {
+      subject: parsed.vendorDispatch?.subject || `Service Request - ${decisions.priority} Priority`,
+      body: parsed.vendorDispatch?.body || generateFallbackVendorEmail(input),
+    },
+    internalNote: {
+      subject: parsed.internalNote?.subject || `Internal: ${extracted.issueCategory} - ${occupierName}`,
+      body: parsed.internalNote?.body || generateFallbackInternalNote(input),
+    },
+  };
 }
 
 // Fallback email generators for when LLM fails
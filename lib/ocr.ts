@@ -0,0 +1,244 @@
+/**
+ * OCR Fallback for Scanned PDFs
+ *
+ * Scanned leases have no text layer, so pdf-parse returns nothing (or a few
+ * stray characters per page). When that happens, pages are rasterized with
+ * poppler's `pdftoppm` and read with the local Tesseract engine (uploaded
+ * images go straight to Tesseract). Both are invoked as binaries, so nothing
+ * leaves the machine; when either is missing OCR is skipped with a warning
+ * and ingestion continues with the text layer.
+ */
+
+import { execFile } from 'child_process';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+import { ChunkPageSpan } from './pageText';
+
+const execFileAsync = promisify(execFile);
+
+const OCR_DISABLED = process.env.OCR_DISABLED === 'true';
+const TESSERACT_PATH = process.env.TESSERACT_PATH || 'tesseract';
+const PDFTOPPM_PATH = process.env.PDFTOPPM_PATH || 'pdftoppm';
+const OCR_LANGUAGE = process.env.OCR_LANGUAGE || 'eng';
+const OCR_DPI = parseInt(process.env.OCR_DPI || '300', 10);
+// Below this many text-layer characters per page, treat the PDF as scanned
+const OCR_MIN_CHARS_PER_PAGE = parseInt(process.env.OCR_MIN_CHARS_PER_PAGE || '200', 10);
+
+const MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+export interface OcrPage {
+  pageNumber: number; // 1-based
+  text: string;
+  confidence: number; // Mean word confidence, 0-1
+}
+
+export interface OcrResult {
+  engine: string; // e.g. "tesseract 5.3.0"
+  pages: OcrPage[];
+  confidence: number; // Mean over pages with text, 0-1
+}
+
+/**
+ * Per-chunk OCR details stored in DocumentChunk.metadata
+ */
+export interface ChunkOcrMetadata {
+  ocr: true;
+  ocrEngine: string;
+  ocrConfidence: number; // Lowest confidence among the pages the chunk spans
+  ocrPages: Array<{ pageNumber: number; confidence: number }>;
+}
+
+/**
+ * True when the text layer is empty or too sparse to be a real text PDF
+ */
+export function isTextLayerSparse(text: string, pageCount: number): boolean {
+  const characters = text.replace(/\s+/g, '').length;
+  return characters < Math.max(1, pageCount) * OCR_MIN_CHARS_PER_PAGE;
+}
+
+export function isOcrEnabled(): boolean {
+  return !OCR_DISABLED;
+}
+
+function isMissingBinary(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+let engineVersion: Promise<string | null> | null = null;
+
+/**
+ * Tesseract version string, or null when the binary is not installed
+ */
+function getEngineVersion(): Promise<string | null> {
+  if (!engineVersion) {
+    engineVersion = execFileAsync(TESSERACT_PATH, ['--version'])
+      .then(({ stdout, stderr }) => {
+        // Older releases print the version to stderr
+        const firstLine = (stdout || stderr).split('\n')[0].trim();
+        return firstLine || 'tesseract';
+      })
+      .catch((error) => {
+        if (!isMissingBinary(error)) {
+          console.error('[OCR] Error checking Tesseract version:', error);
+        }
+        return null;
+      });
+  }
+  return engineVersion;
+}
+
+/**
+ * Parse Tesseract TSV output into page text (one line per OCR line) and the
+ * mean confidence of recognized words
+ */
+export function parseTesseractTsv(tsv: string): { text: string; confidence: number } {
+  const lines = new Map<string, string[]>();
+  let confidenceSum = 0;
+  let wordCount = 0;
+
+  for (const row of tsv.split('\n').slice(1)) {
+    const columns = row.split('\t');
+    // level, page, block, paragraph, line, word, left, top, width, height, conf, text
+    if (columns.length < 12 || columns[0] !== '5') continue;
+
+    const word = columns[11].trim();
+    const confidence = parseFloat(columns[10]);
+    if (!word || Number.isNaN(confidence) || confidence < 0) continue;
+
+    const lineKey = `${columns[2]}:${columns[3]}:${columns[4]}`;
+    if (!lines.has(lineKey)) {
+      lines.set(lineKey, []);
+    }
+    lines.get(lineKey)!.push(word);
+    confidenceSum += confidence;
+    wordCount++;
+  }
+
+  return {
+    text: Array.from(lines.values())
+      .map((words) => words.join(' '))
+      .join('\n'),
+    confidence: wordCount > 0 ? Math.round((confidenceSum / wordCount) * 10) / 1000 : 0,
+  };
+}
+
+/**
+ * OCR every page of a PDF. Returns null when OCR is disabled or the engine
+ * is not installed. Pages are rasterized and read one at a time, so only one
+ * page image is held in the work directory at once.
+ */
+export async function ocrPdf(filePath: string, pageCount: number): Promise<OcrResult | null> {
+  if (OCR_DISABLED) {
+    return null;
+  }
+
+  const engine = await getEngineVersion();
+  if (!engine) {
+    console.warn(
+      `[OCR] Tesseract not found at "${TESSERACT_PATH}"; skipping OCR. Install tesseract-ocr or set TESSERACT_PATH.`
+    );
+    return null;
+  }
+
+  const workDir = await mkdtemp(join(tmpdir(), 'lease-ocr-'));
+  const imagePath = join(workDir, 'page.png');
+
+  try {
+    const pages: OcrPage[] = [];
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page = String(pageNumber);
+      try {
+        // -singlefile writes page.png rather than a name numbered by page count
+        await execFileAsync(
+          PDFTOPPM_PATH,
+          ['-r', String(OCR_DPI), '-png', '-f', page, '-l', page, '-singlefile', filePath, join(workDir, 'page')],
+          { maxBuffer: MAX_OUTPUT_BYTES }
+        );
+      } catch (error) {
+        if (isMissingBinary(error)) {
+          console.warn(
+            `[OCR] pdftoppm not found at "${PDFTOPPM_PATH}"; skipping OCR. Install poppler-utils or set PDFTOPPM_PATH.`
+          );
+          return null;
+        }
+        throw error;
+      }
+
+      const { stdout } = await execFileAsync(TESSERACT_PATH, [imagePath, 'stdout', '-l', OCR_LANGUAGE, 'tsv'], {
+        maxBuffer: MAX_OUTPUT_BYTES,
+      });
+      await rm(imagePath, { force: true });
+
+      const { text, confidence } = parseTesseractTsv(stdout);
+      pages.push({ pageNumber, text, confidence });
+    }
+
+    const pagesWithText = pages.filter((page) => page.text.trim().length > 0);
+    const confidence =
+      pagesWithText.length > 0
+        ? pagesWithText.reduce((sum, page) => sum + page.confidence, 0) / pagesWithText.length
+        : 0;
+
+    console.log(
+      `[OCR] Read ${pages.length} pages from ${filePath} (mean confidence ${(confidence * 100).toFixed(0)}%)`
+    );
+
+    return { engine, pages, confidence: Math.round(confidence * 1000) / 1000 };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * OCR a single image (PNG, JPEG, TIFF, ...). Returns null when OCR is
+ * disabled or the engine is not installed.
+ */
+export async function ocrImage(filePath: string): Promise<OcrResult | null> {
+  if (OCR_DISABLED) {
+    return null;
+  }
+
+  const engine = await getEngineVersion();
+  if (!engine) {
+    console.warn(
+      `[OCR] Tesseract not found at "${TESSERACT_PATH}"; skipping OCR. Install tesseract-ocr or set TESSERACT_PATH.`
+    );
+    return null;
+  }
+
+  const { stdout } = await execFileAsync(TESSERACT_PATH, [filePath, 'stdout', '-l', OCR_LANGUAGE, 'tsv'], {
+    maxBuffer: MAX_OUTPUT_BYTES,
+  });
+  const { text, confidence } = parseTesseractTsv(stdout);
+
+  console.log(`[OCR] Read image ${filePath} (confidence ${(confidence * 100).toFixed(0)}%)`);
+
+  return { engine, pages: [{ pageNumber: 1, text, confidence }], confidence };
+}
+
+/**
+ * Chunk metadata recording the confidence of the OCR pages each chunk spans
+ * (see locateChunkPages in lib/pageText.ts)
+ */
+export function buildChunkOcrMetadata(
+  spans: Array<ChunkPageSpan | null>,
+  ocr: OcrResult
+): ChunkOcrMetadata[] {
+  return spans.map((span) => {
+    const ocrPages = span
+      ? ocr.pages
+          .filter((page) => page.pageNumber >= span.startPage && page.pageNumber <= span.endPage)
+          .map((page) => ({ pageNumber: page.pageNumber, confidence: page.confidence }))
+      : [];
+
+    return {
+      ocr: true,
+      ocrEngine: ocr.engine,
+      ocrConfidence:
+        ocrPages.length > 0 ? Math.min(...ocrPages.map((page) => page.confidence)) : ocr.confidence,
+      ocrPages,
+    };
+  });
+}
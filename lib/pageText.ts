@@ -0,0 +1,144 @@
+/**
+ * Page-Aware Text
+ *
+ * Extraction keeps each PDF page's text, and the full document text is the
+ * pages joined with blank lines. Chunkers reshape whitespace, so chunks are
+ * mapped back to pages by searching whitespace-normalized text.
+ */
+
+export interface PageText {
+  pageNumber: number; // 1-based
+  text: string;
+}
+
+export interface PageRange {
+  pageNumber: number;
+  start: number; // Offset of the page's first character in the joined text
+  end: number; // Offset just past its last character
+}
+
+export interface ChunkPageSpan {
+  startPage: number;
+  endPage: number;
+}
+
+const PAGE_SEPARATOR = '\n\n';
+// Prefix length used when a chunk was re-joined and no longer matches verbatim
+const FALLBACK_PREFIX_CHARS = 80;
+// Longest quote carried in a citation link
+const MAX_QUOTE_CHARS = 300;
+
+/**
+ * Join page texts into one document text, recording each page's offsets
+ */
+export function joinPages(pages: PageText[]): { text: string; ranges: PageRange[] } {
+  const ranges: PageRange[] = [];
+  let text = '';
+
+  for (const page of pages) {
+    const pageText = page.text.trim();
+    if (!pageText) continue;
+    if (text) text += PAGE_SEPARATOR;
+    ranges.push({ pageNumber: page.pageNumber, start: text.length, end: text.length + pageText.length });
+    text += pageText;
+  }
+
+  return { text, ranges };
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Find the first and last page each chunk came from. Chunks are expected in
+ * document order (overlap is fine); a chunk that cannot be found maps to null.
+ */
+export function locateChunkPages(chunks: string[], pages: PageText[]): Array<ChunkPageSpan | null> {
+  // Page ranges over the whitespace-normalized document
+  const ranges: PageRange[] = [];
+  let normalizedText = '';
+  for (const page of pages) {
+    const pageText = normalize(page.text);
+    if (!pageText) continue;
+    if (normalizedText) normalizedText += ' ';
+    ranges.push({
+      pageNumber: page.pageNumber,
+      start: normalizedText.length,
+      end: normalizedText.length + pageText.length,
+    });
+    normalizedText += pageText;
+  }
+
+  let cursor = 0;
+
+  return chunks.map((chunk) => {
+    const needle = normalize(chunk);
+    if (!needle || ranges.length === 0) return null;
+
+    let start = normalizedText.indexOf(needle, cursor);
+    if (start === -1) {
+      start = normalizedText.indexOf(needle.substring(0, FALLBACK_PREFIX_CHARS), cursor);
+    }
+    if (start === -1) {
+      start = normalizedText.indexOf(needle.substring(0, FALLBACK_PREFIX_CHARS));
+    }
+    if (start === -1) return null;
+
+    // Chunks may overlap, so the next one can start inside this one
+    cursor = start + 1;
+    const end = Math.min(start + needle.length, normalizedText.length);
+
+    const spanned = ranges.filter((range) => range.start < end && range.end > start);
+    if (spanned.length === 0) return null;
+
+    return {
+      startPage: spanned[0].pageNumber,
+      endPage: spanned[spanned.length - 1].pageNumber,
+    };
+  });
+}
+
+/**
+ * Human-readable page label, e.g. "p. 4" or "pp. 4-5"
+ */
+export function formatPageSpan(startPage?: number | null, endPage?: number | null): string | null {
+  if (!startPage) return null;
+  return endPage && endPage !== startPage ? `pp. ${startPage}-${endPage}` : `p. ${startPage}`;
+}
+
+/**
+ * Link to a document's detail page, scrolled to its viewer opened at
+ * `page`. `chunkIndex` picks the cited chunk exactly, and `quote` (a clause
+ * or snippet) is highlighted in it and searched for in the PDF viewer.
+ */
+export function documentPageHref(
+  documentId: string,
+  page?: number | null,
+  cite?: { chunkIndex?: number | null; quote?: string | null }
+): string {
+  const params = new URLSearchParams();
+  if (page) params.set('page', String(page));
+  if (cite?.chunkIndex !== undefined && cite.chunkIndex !== null) params.set('chunk', String(cite.chunkIndex));
+  if (cite?.quote) params.set('quote', cite.quote.replace(/\s+/g, ' ').trim().slice(0, MAX_QUOTE_CHARS));
+
+  const query = params.toString();
+  return query ? `/documents/${documentId}?${query}#cited-page` : `/documents/${documentId}`;
+}
+
+/**
+ * Locate a quoted passage in chunk text, ignoring case and differences in
+ * whitespace. Returns the [start, end) offsets in `text`, or null.
+ */
+export function findQuoteSpan(text: string, quote: string): [number, number] | null {
+  const words = quote.replace(/(\.\.\.|…)\s*$/, '').trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+
+  const escaped = words.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  // Snippets are often cut mid-word; fall back to a shorter prefix of the quote
+  for (const count of [escaped.length, Math.min(escaped.length, 12), Math.min(escaped.length, 6)]) {
+    const match = new RegExp(escaped.slice(0, count).join('\\s+'), 'i').exec(text);
+    if (match) return [match.index, match.index + match[0].length];
+  }
+  return null;
+}
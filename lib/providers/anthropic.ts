@@ -0,0 +1,118 @@
+/**
+ * Anthropic (Claude) LLM Provider
+ */
+
+import {
+  DEFAULT_MAX_TOKENS,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMTokenHandler,
+} from './types';
+import { readServerSentEvents } from '../sse';
+
+const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
+
+/**
+ * POST to the Messages API. Anthropic has no native JSON mode, so JSON
+ * requests prefill the assistant turn with "{" (callers prepend it back).
+ */
+async function postMessages(request: LLMRequest, model: string, stream: boolean): Promise<Response> {
+  if (!ANTHROPIC_API_KEY) {
+    throw new Error('ANTHROPIC_API_KEY is not set in environment variables');
+  }
+
+  const messages: Array<{ role: 'user' | 'assistant'; content: string }> = [
+    {
+      role: 'user',
+      content: request.prompt,
+    },
+  ];
+
+  if (request.jsonMode) {
+    messages.push({ role: 'assistant', content: '{' });
+  }
+
+  const response = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': ANTHROPIC_API_KEY,
+      'anthropic-version': '2023-06-01',
+    },
+    body: JSON.stringify({
+      model,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      ...(request.system ? { system: request.system } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(stream ? { stream: true } : {}),
+      messages,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Anthropic API error: ${response.status} - ${error}`);
+  }
+
+  return response;
+}
+
+export const anthropicProvider: LLMProvider = {
+  name: 'anthropic',
+  defaultModel: 'claude-3-5-sonnet-20241022',
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.model || this.defaultModel;
+    const response = await postMessages(request, model, false);
+
+    const data = await response.json();
+    const text: string = data.content[0].text;
+
+    return {
+      text: request.jsonMode ? `{${text}` : text,
+      model: data.model || model,
+      usage: data.usage
+        ? {
+            inputTokens: data.usage.input_tokens,
+            outputTokens: data.usage.output_tokens,
+          }
+        : undefined,
+    };
+  },
+
+  async stream(request: LLMRequest, onToken: LLMTokenHandler): Promise<LLMResponse> {
+    const model = request.model || this.defaultModel;
+    const response = await postMessages(request, model, true);
+
+    let text = request.jsonMode ? '{' : '';
+    if (text) onToken(text);
+    let resolvedModel = model;
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+
+    for await (const { event, data } of readServerSentEvents(response.body!)) {
+      const payload = JSON.parse(data);
+      if (event === 'message_start') {
+        resolvedModel = payload.message?.model || model;
+        inputTokens = payload.message?.usage?.input_tokens;
+      } else if (event === 'content_block_delta' && payload.delta?.type === 'text_delta') {
+        text += payload.delta.text;
+        onToken(payload.delta.text);
+      } else if (event === 'message_delta') {
+        outputTokens = payload.usage?.output_tokens;
+      } else if (event === 'error') {
+        throw new Error(`Anthropic stream error: ${payload.error?.message || data}`);
+      }
+    }
+
+    return {
+      text,
+      model: resolvedModel,
+      usage:
+        inputTokens !== undefined && outputTokens !== undefined
+          ? { inputTokens, outputTokens }
+          : undefined,
+    };
+  },
+};
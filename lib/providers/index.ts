@@ -0,0 +1,55 @@
+/**
+ * LLM Provider Registry
+ *
+ * Providers register themselves by name. The active provider is chosen per
+ * call, falling back to LLM_PROVIDER ("anthropic" by default).
+ */
+
+import { anthropicProvider } from './anthropic';
+import { openAIProvider } from './openai';
+import { localProvider } from './local';
+import { LLMProvider } from './types';
+
+export * from './types';
+export {
+  enqueueLocalLLMResponse,
+  addLocalLLMScript,
+  resetLocalLLM,
+  type LocalLLMScript,
+} from './local';
+
+const LLM_PROVIDER = process.env.LLM_PROVIDER || 'anthropic';
+
+const providers = new Map<string, LLMProvider>();
+
+/**
+ * Register (or replace) a provider under its name
+ */
+export function registerLLMProvider(provider: LLMProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Look up a provider by name, defaulting to the configured LLM_PROVIDER
+ */
+export function getLLMProvider(name?: string): LLMProvider {
+  const providerName = name || LLM_PROVIDER;
+  const provider = providers.get(providerName);
+
+  if (!provider) {
+    throw new Error(`Unsupported LLM provider: ${providerName}`);
+  }
+
+  return provider;
+}
+
+/**
+ * Names of all registered providers
+ */
+export function listLLMProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+registerLLMProvider(anthropicProvider);
+registerLLMProvider(openAIProvider);
+registerLLMProvider(localProvider);
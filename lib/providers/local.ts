@@ -0,0 +1,142 @@
+/**
+ * Local LLM Provider
+ *
+ * Deterministic, network-free provider for offline development and tests.
+ * Responses are resolved in this order:
+ * 1. One-shot responses queued with enqueueLocalLLMResponse()
+ * 2. Scripts registered with addLocalLLMScript()
+ * 3. Fixtures loaded from the JSON file named by LLM_LOCAL_FIXTURES
+ * 4. Built-in responders for the app's own prompts (see localFixtures.ts)
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { LLMProvider, LLMRequest, LLMResponse, LLMTokenHandler } from './types';
+import { BUILT_IN_RESPONDERS, defaultLocalResponse } from './localFixtures';
+
+const LLM_LOCAL_FIXTURES = process.env.LLM_LOCAL_FIXTURES;
+
+export interface LocalLLMScript {
+  match: string | RegExp | ((request: LLMRequest) => boolean);
+  response: string | ((request: LLMRequest) => string);
+}
+
+// Shape of each entry in the LLM_LOCAL_FIXTURES JSON file
+interface LocalLLMFixtureEntry {
+  match?: string; // Substring of the prompt
+  pattern?: string; // Regular expression source, tested against the prompt
+  response: string;
+}
+
+const queuedResponses: string[] = [];
+const scripts: LocalLLMScript[] = [];
+let fileFixtures: LocalLLMScript[] | null = null;
+
+/**
+ * Queue a response that will be returned by the next local call, regardless of prompt
+ */
+export function enqueueLocalLLMResponse(response: string): void {
+  queuedResponses.push(response);
+}
+
+/**
+ * Register a scripted response. Later scripts take precedence over earlier ones.
+ */
+export function addLocalLLMScript(script: LocalLLMScript): void {
+  scripts.unshift(script);
+}
+
+/**
+ * Remove all queued responses and registered scripts
+ */
+export function resetLocalLLM(): void {
+  queuedResponses.length = 0;
+  scripts.length = 0;
+  fileFixtures = null;
+}
+
+function matches(script: LocalLLMScript, request: LLMRequest): boolean {
+  if (typeof script.match === 'string') {
+    return request.prompt.includes(script.match);
+  }
+  if (script.match instanceof RegExp) {
+    return script.match.test(request.prompt);
+  }
+  return script.match(request);
+}
+
+function resolveScript(script: LocalLLMScript, request: LLMRequest): string {
+  return typeof script.response === 'string' ? script.response : script.response(request);
+}
+
+function loadFileFixtures(): LocalLLMScript[] {
+  if (fileFixtures) return fileFixtures;
+  fileFixtures = [];
+
+  if (!LLM_LOCAL_FIXTURES) return fileFixtures;
+
+  if (!existsSync(LLM_LOCAL_FIXTURES)) {
+    console.warn(`[LocalLLM] Fixture file not found: ${LLM_LOCAL_FIXTURES}`);
+    return fileFixtures;
+  }
+
+  try {
+    const entries = JSON.parse(readFileSync(LLM_LOCAL_FIXTURES, 'utf-8')) as LocalLLMFixtureEntry[];
+    for (const entry of entries) {
+      if (entry.pattern) {
+        fileFixtures.push({ match: new RegExp(entry.pattern, 'i'), response: entry.response });
+      } else if (entry.match) {
+        fileFixtures.push({ match: entry.match, response: entry.response });
+      }
+    }
+  } catch (error) {
+    console.error('[LocalLLM] Error loading fixture file:', error);
+  }
+
+  return fileFixtures;
+}
+
+/**
+ * Rough token estimate (~4 characters per token) so usage stays comparable
+ * with the hosted providers
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export const localProvider: LLMProvider = {
+  name: 'local',
+  defaultModel: 'local-stub',
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    let text: string | undefined = queuedResponses.shift();
+
+    if (text === undefined) {
+      const script = [...scripts, ...loadFileFixtures(), ...BUILT_IN_RESPONDERS].find((s) =>
+        matches(s, request)
+      );
+      text = script ? resolveScript(script, request) : defaultLocalResponse(request);
+    }
+
+    return {
+      text,
+      model: request.model || this.defaultModel,
+      usage: {
+        inputTokens: estimateTokens((request.system || '') + request.prompt),
+        outputTokens: estimateTokens(text),
+      },
+    };
+  },
+
+  /**
+   * Emits the complete() response word by word, yielding to the event loop
+   * between words so streaming consumers see incremental output
+   */
+  async stream(request: LLMRequest, onToken: LLMTokenHandler): Promise<LLMResponse> {
+    const response = await this.complete(request);
+    for (const piece of response.text.match(/\S+\s*|\s+/g) || []) {
+      onToken(piece);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    return response;
+  },
+};
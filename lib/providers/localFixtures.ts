@@ -0,0 +1,340 @@
+/**
+ * Built-in responders for the local LLM provider
+ *
+ * Each responder recognises one of the app's prompts by a stable marker
+ * phrase and answers with a deterministic, keyword-driven response in the
+ * format that prompt asks for. They are intentionally simple - enough to run
+ * extraction, classification and Q&A flows end to end without network access.
+ */
+
+import type { LocalLLMScript } from './local';
+import type { LLMRequest } from './types';
+import { tokenize } from '../embeddings/local';
+
+/**
+ * Return the prompt text between two markers (or to the end if `end` is missing)
+ */
+function between(prompt: string, start: string, end?: string): string {
+  const startIndex = prompt.indexOf(start);
+  if (startIndex === -1) return '';
+  const from = startIndex + start.length;
+  const endIndex = end ? prompt.indexOf(end, from) : -1;
+  return (endIndex === -1 ? prompt.slice(from) : prompt.slice(from, endIndex)).trim();
+}
+
+function firstMatch(text: string, pattern: RegExp): string | undefined {
+  const match = text.match(pattern);
+  return match ? match[1].trim() : undefined;
+}
+
+function pickByKeywords<T extends string>(
+  text: string,
+  table: Array<[T, string[]]>,
+  fallback: T
+): T {
+  const lower = text.toLowerCase();
+  for (const [value, keywords] of table) {
+    if (keywords.some((kw) => lower.includes(kw))) {
+      return value;
+    }
+  }
+  return fallback;
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? undefined : parsed.toISOString().split('T')[0];
+}
+
+function parseAmount(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const amount = parseFloat(value.replace(/,/g, ''));
+  return isNaN(amount) ? undefined : amount;
+}
+
+/**
+ * The object, or undefined when none of its fields were found
+ */
+function optionalObject<T extends object>(value: T): T | undefined {
+  return Object.values(value).some((field) => field !== undefined) ? value : undefined;
+}
+
+/**
+ * Cite each extracted field with the first line of the text mentioning its
+ * value (or, for an object, its first value), as the lease extraction
+ * prompt asks. Values the text spells differently (ISO dates) go uncited.
+ */
+function citeFields(text: string, extracted: Record<string, unknown>) {
+  const lines = text.split('\n').map((line) => line.trim()).filter(Boolean);
+  const citations: { field: string; quote: string; confidence: number }[] = [];
+
+  for (const [field, value] of Object.entries(extracted)) {
+    const first = value && typeof value === 'object' ? Object.values(value).find((v) => v !== undefined) : value;
+    if (first === undefined || first === null) continue;
+    const needle = typeof first === 'number' ? first.toLocaleString('en-US') : String(first);
+    const line = lines.find((candidate) => candidate.includes(needle));
+    if (line) citations.push({ field, quote: line.slice(0, 200), confidence: 0.5 });
+  }
+  return citations;
+}
+
+const DATE_PATTERN =
+  /((?:January|February|March|April|May|June|July|August|September|October|November|December)\s+\d{1,2},\s+\d{4}|\d{4}-\d{2}-\d{2})/gi;
+
+const CLAUSE_TOPIC_KEYWORDS: Array<[string, string[]]> = [
+  ['HVAC', ['hvac', 'heating', 'air conditioning', 'ventilation']],
+  ['ROOF', ['roof']],
+  ['STRUCTURE', ['structural', 'foundation', 'exterior walls']],
+  ['CAM', ['common area', 'operating expenses', 'cam ']],
+  ['INSURANCE', ['insurance', 'insured']],
+  ['INDEMNITY', ['indemnif', 'hold harmless']],
+  ['PARKING', ['parking']],
+  ['SIGNAGE', ['signage', 'sign ']],
+  ['UTILITIES', ['utilities', 'utility']],
+  ['RENEWAL_OPTIONS', ['renewal', 'option to extend', 'extension term']],
+  ['RENT_ESCALATION', ['escalat', 'increase', 'cpi']],
+  ['TERMINATION', ['terminat']],
+  ['DEFAULT', ['default', 'cure period']],
+  ['EXCLUSIVITY', ['exclusive']],
+  ['USE', ['permitted use', 'prohibited use']],
+  ['REPAIRS', ['repair']],
+  ['MAINTENANCE', ['maintain', 'maintenance']],
+];
+
+const ISSUE_CATEGORY_KEYWORDS: Array<[string, string[]]> = [
+  ['LIFE_SAFETY', ['fire', 'smoke', 'gas leak', 'sprinkler', 'egress']],
+  ['ROOFING', ['roof', 'ceiling leak', 'water coming through the ceiling']],
+  ['HVAC', ['hvac', 'air conditioning', 'heat', 'a/c', 'cooling']],
+  ['PLUMBING', ['plumbing', 'toilet', 'drain', 'pipe', 'water heater', 'sink']],
+  ['ELECTRICAL', ['electrical', 'power', 'outlet', 'breaker', 'lights']],
+];
+
+const SEVERITY_KEYWORDS: Array<[string, string[]]> = [
+  ['EMERGENCY', ['emergency', 'fire', 'flood', 'gas leak', 'burning smell']],
+  ['HIGH', ['urgent', 'asap', 'immediately', 'leak', 'outage']],
+  ['LOW', ['cosmetic', 'when convenient', 'no rush']],
+];
+
+function respondClauseClassification(request: LLMRequest): string {
+  const clause = between(request.prompt, 'CLAUSE TEXT:\n"""', '"""');
+  const lower = clause.toLowerCase();
+
+  const landlordDuties = (lower.match(/landlord shall/g) || []).length;
+  const tenantDuties = (lower.match(/tenant shall/g) || []).length;
+  let responsibleParty = 'UNKNOWN';
+  if (landlordDuties > 0 && tenantDuties > 0) {
+    responsibleParty = 'SHARED';
+  } else if (landlordDuties > 0) {
+    responsibleParty = 'LANDLORD';
+  } else if (tenantDuties > 0) {
+    responsibleParty = 'TENANT';
+  }
+
+  return JSON.stringify({
+    topic: pickByKeywords(clause, CLAUSE_TOPIC_KEYWORDS, 'OTHER'),
+    responsibleParty,
+    sectionLabel: firstMatch(clause, /^((?:ARTICLE|SECTION)\s+[\dIVXLC.]+[^.\n]{0,60})/im) || null,
+    confidence: 0.5,
+  });
+}
+
+const AMENDMENT_ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+const SINGLE_DATE = '([A-Z][a-z]+\\s+\\d{1,2},\\s+\\d{4}|\\d{4}-\\d{2}-\\d{2})';
+const EFFECTIVE_DATE_PATTERN = new RegExp(`effective(?:\\s+as\\s+of|\\s+date)?[:\\s]+${SINGLE_DATE}`, 'i');
+const NEW_END_DATE_PATTERN = new RegExp(`(?:extended|expire|expiration)[^.]*?\\b(?:to|on|through)\\s+${SINGLE_DATE}`, 'i');
+
+function respondLeaseExtraction(request: LLMRequest): string {
+  const text = between(request.prompt, 'LEASE DOCUMENT TEXT:', 'Extract the following information');
+  const dates = text.match(DATE_PATTERN) || [];
+
+  // Amendments and assignments: only the effective date and what changes
+  if (/THIS DOCUMENT IS A LEASE (AMENDMENT|ASSIGNMENT)/.test(request.prompt)) {
+    const ordinal = firstMatch(text, new RegExp(`\\b(${AMENDMENT_ORDINALS.join('|')})\\s+amendment`, 'i'));
+    const changes = {
+      effectiveDate: toIsoDate(firstMatch(text, EFFECTIVE_DATE_PATTERN) || dates[0]),
+      amendmentNumber: ordinal ? AMENDMENT_ORDINALS.indexOf(ordinal.toLowerCase()) + 1 : undefined,
+      tenantName: firstMatch(text, /Assignee:\s*([^\n,]+)/i),
+      baseRent: parseAmount(firstMatch(text, /\$([\d,]+(?:\.\d{2})?)\s*(?:per month|monthly)/i)),
+      endDate: toIsoDate(firstMatch(text, NEW_END_DATE_PATTERN)),
+    };
+    return JSON.stringify({ ...changes, citations: citeFields(text, changes) });
+  }
+
+  const extracted = {
+    tenantName: firstMatch(text, /Tenant:\s*([^\n,]+)/i),
+    propertyName: firstMatch(text, /Property:\s*([^\n]+)/i),
+    suite: firstMatch(text, /Suite\s+([A-Z0-9-]+)/i),
+    baseRent: parseAmount(firstMatch(text, /\$([\d,]+(?:\.\d{2})?)\s*(?:per month|monthly)/i)),
+    rentCurrency: 'USD',
+    startDate: toIsoDate(dates[0]),
+    endDate: toIsoDate(dates.length > 1 ? dates[dates.length - 1] : undefined),
+    escalationRate: parseAmount(firstMatch(text, /(\d+(?:\.\d+)?)\s*%\s*(?:annual|per annum|each year)/i)),
+    securityDeposit: optionalObject({
+      amount: parseAmount(firstMatch(text, /security deposit[^$\n]*\$([\d,]+(?:\.\d{2})?)/i)),
+    }),
+    tiAllowance: optionalObject({
+      amount: parseAmount(firstMatch(text, /(?:improvement|TI) allowance[^$\n]*\$([\d,]+(?:\.\d{2})?)/i)),
+    }),
+    percentageRent: optionalObject({
+      rate: parseAmount(firstMatch(text, /(\d+(?:\.\d+)?)\s*%\s*of (?:annual )?gross sales/i)),
+    }),
+    holdover: optionalObject({
+      rentPercent: parseAmount(firstMatch(text, /holdover[^%\n]*?(\d{3})\s*%/i)),
+    }),
+  };
+
+  return JSON.stringify({ ...extracted, citations: citeFields(text, extracted) });
+}
+
+function respondInvoiceExtraction(request: LLMRequest): string {
+  const text = between(request.prompt, 'Invoice Text:', 'Extract the following information');
+  const total = parseAmount(firstMatch(text, /total(?: due| amount)?[:\s]*\$?([\d,]+(?:\.\d{2})?)/i));
+
+  return JSON.stringify({
+    vendorName: firstMatch(text, /^([^\n]+)/),
+    invoiceNumber: firstMatch(text, /invoice\s*(?:#|no\.?|number)[:\s]*([\w-]+)/i),
+    invoiceDate: toIsoDate(firstMatch(text, /invoice date[:\s]*([^\n]+)/i)),
+    dueDate: toIsoDate(firstMatch(text, /due date[:\s]*([^\n]+)/i)),
+    totalAmount: total,
+    currency: 'USD',
+  });
+}
+
+function respondWorkOrderDocument(request: LLMRequest): string {
+  const text = between(request.prompt, 'Document Text:', 'Extract the following information');
+  const category = pickByKeywords(text, ISSUE_CATEGORY_KEYWORDS, 'GENERAL');
+
+  return JSON.stringify({
+    issueType: category.charAt(0) + category.slice(1).toLowerCase().replace('_', ' '),
+    priority: pickByKeywords(text, SEVERITY_KEYWORDS, 'MEDIUM'),
+    summary: text.split('\n').find((line) => line.trim().length > 0)?.slice(0, 120),
+    fullDescription: text.slice(0, 500),
+    affectedArea: firstMatch(text, /(Suite\s+[A-Z0-9-]+)/i),
+  });
+}
+
+function respondMaintenanceEmail(request: LLMRequest): string {
+  const email = between(request.prompt, 'EMAIL TEXT:', 'Return ONLY the JSON object');
+
+  return JSON.stringify({
+    spaceLabel: firstMatch(email, /((?:Suite|Bay|Unit)\s+[A-Z0-9-]+)/i),
+    occupierEmail: firstMatch(email, /([\w.+-]+@[\w-]+\.[\w.]+)/),
+    issueCategory: pickByKeywords(email, ISSUE_CATEGORY_KEYWORDS, 'GENERAL'),
+    description: email.slice(0, 500),
+    severity: pickByKeywords(email, SEVERITY_KEYWORDS, 'MEDIUM'),
+  });
+}
+
+function respondDocumentClassification(request: LLMRequest): string {
+  const fileName = between(request.prompt, 'Filename:', '\n');
+  const sample = between(request.prompt, 'Content Preview:', 'INSTRUCTIONS:');
+
+  return pickByKeywords(
+    `${fileName} ${sample.slice(0, 300)}`,
+    [
+      ['AMENDMENT', ['amendment', 'addendum']],
+      ['ASSIGNMENT', ['assignment and assumption', 'assignment of lease']],
+      ['LEASE', ['lease']],
+      ['COI', ['certificate of insurance', 'coi', 'acord']],
+      ['INVOICE', ['invoice', 'bill']],
+      ['WORK_ORDER', ['work order', 'work_order', 'maintenance request']],
+      ['RENT_ROLL', ['rent roll', 'rent_roll']],
+      ['ABSTRACT', ['abstract']],
+      ['EMAIL', ['from:', 'subject:', '.eml']],
+    ],
+    'OTHER'
+  );
+}
+
+function respondDashboardInsights(request: LLMRequest): string {
+  const insights: string[] = [];
+
+  try {
+    const summary = JSON.parse(between(request.prompt, 'Portfolio Summary:', 'Focus on:'));
+    insights.push(
+      `${summary.expirations.next90Days} lease(s) expire in the next 90 days and ${summary.expirations.next12Months} in the next 12 months.`
+    );
+    insights.push(
+      `${summary.criticalDates.upcomingNext60Days} critical date(s) fall within the next 60 days.`
+    );
+    insights.push(
+      `${summary.documentHealth.atRisk} lease(s) are at risk and ${summary.documentHealth.needsReview} need document review.`
+    );
+  } catch {
+    insights.push('Portfolio summary unavailable in offline mode.');
+  }
+
+  return JSON.stringify(insights);
+}
+
+function respondTenantCommunication(request: LLMRequest): string {
+  const intent = between(request.prompt, 'Communication Type:', '\n');
+  const context = between(request.prompt, 'Context Information:', 'Write a professional');
+  const tenant = firstMatch(context, /Tenant:\s*([^\n]+)/) || 'Valued Tenant';
+  const property = firstMatch(context, /Property:\s*([^\n]+)/) || 'the property';
+
+  return JSON.stringify({
+    subject: `${intent.replace(/_/g, ' ')} - ${property}`,
+    body: `Dear ${tenant},\n\n${context}\n\nPlease contact our office with any questions.\n\nBest regards,\nProperty Management`,
+  });
+}
+
+function respondRerank(request: LLMRequest): string {
+  const questionTerms = new Set(tokenize(between(request.prompt, 'QUESTION:', 'PASSAGES:')));
+  const passages = between(request.prompt, 'PASSAGES:', 'Score each passage').split(/\n(?=\[\d+\])/);
+
+  const scores = passages.map((passage, i) => {
+    const terms = new Set(tokenize(passage));
+    const overlap = Array.from(questionTerms).filter((term) => terms.has(term)).length;
+    return {
+      index: i + 1,
+      score: questionTerms.size > 0 ? Math.round((10 * overlap) / questionTerms.size) : 0,
+    };
+  });
+
+  return JSON.stringify({ scores });
+}
+
+function respondQuestionRewrite(request: LLMRequest): string {
+  const followUp = between(request.prompt, 'FOLLOW-UP QUESTION:', '\n\n');
+  const previous = Array.from(
+    between(request.prompt, 'CONVERSATION:', 'FOLLOW-UP QUESTION:').matchAll(/^User: (.*)$/gm)
+  ).pop()?.[1];
+
+  // No LLM to resolve references: carry the previous question along for retrieval
+  return previous ? `${followUp} (following up on: ${previous})` : followUp;
+}
+
+export const BUILT_IN_RESPONDERS: LocalLLMScript[] = [
+  { match: 'Classify this lease clause', response: respondClauseClassification },
+  { match: 'Extract structured data from the following lease document', response: respondLeaseExtraction },
+  { match: 'invoice processing system', response: respondInvoiceExtraction },
+  { match: 'tenant email or report to create a work order', response: respondWorkOrderDocument },
+  { match: 'email from an occupier (tenant) reporting a maintenance issue', response: respondMaintenanceEmail },
+  { match: 'document classification system', response: respondDocumentClassification },
+  { match: 'actionable insights as a JSON array', response: respondDashboardInsights },
+  { match: 'drafting an email to a tenant', response: respondTenantCommunication },
+  { match: 'Rate how relevant each passage is', response: respondRerank },
+  { match: 'Rewrite the follow-up question', response: respondQuestionRewrite },
+];
+
+/**
+ * Fallback when nothing matched: answer Q&A-style prompts from the first
+ * context excerpt, and everything else with an empty JSON object or a notice
+ */
+export function defaultLocalResponse(request: LLMRequest): string {
+  if (request.jsonMode) {
+    return '{}';
+  }
+
+  const question = between(request.prompt, 'USER QUESTION:', '\n\n');
+  if (question) {
+    const excerpt = request.prompt.match(/\[(?:Context )?1[.\]][^\n]*\n([\s\S]{0,400})/);
+    return excerpt
+      ? `Summary (local provider): the most relevant excerpt for "${question}" reads:\n\n${excerpt[1].trim()}`
+      : `The local provider has no document context to answer "${question}".`;
+  }
+
+  return 'Local LLM provider: no scripted response matched this prompt.';
+}
@@ -0,0 +1,109 @@
+/**
+ * OpenAI (GPT) LLM Provider
+ */
+
+import {
+  DEFAULT_MAX_TOKENS,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMTokenHandler,
+} from './types';
+import { readServerSentEvents } from '../sse';
+
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+
+/**
+ * POST to the Chat Completions API
+ */
+async function postChatCompletion(
+  request: LLMRequest,
+  model: string,
+  stream: boolean
+): Promise<Response> {
+  if (!OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY is not set in environment variables');
+  }
+
+  const messages: Array<{ role: 'system' | 'user'; content: string }> = [];
+  if (request.system) {
+    messages.push({ role: 'system', content: request.system });
+  }
+  messages.push({ role: 'user', content: request.prompt });
+
+  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${OPENAI_API_KEY}`,
+    },
+    body: JSON.stringify({
+      model,
+      messages,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`OpenAI API error: ${response.status} - ${error}`);
+  }
+
+  return response;
+}
+
+export const openAIProvider: LLMProvider = {
+  name: 'openai',
+  defaultModel: 'gpt-4-turbo-preview',
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.model || this.defaultModel;
+    const response = await postChatCompletion(request, model, false);
+
+    const data = await response.json();
+
+    return {
+      text: data.choices[0].message.content,
+      model: data.model || model,
+      usage: data.usage
+        ? {
+            inputTokens: data.usage.prompt_tokens,
+            outputTokens: data.usage.completion_tokens,
+          }
+        : undefined,
+    };
+  },
+
+  async stream(request: LLMRequest, onToken: LLMTokenHandler): Promise<LLMResponse> {
+    const model = request.model || this.defaultModel;
+    const response = await postChatCompletion(request, model, true);
+
+    let text = '';
+    let resolvedModel = model;
+    let usage: LLMResponse['usage'];
+
+    for await (const { data } of readServerSentEvents(response.body!)) {
+      if (data === '[DONE]') break;
+
+      const chunk = JSON.parse(data);
+      resolvedModel = chunk.model || resolvedModel;
+      const delta: string | undefined = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onToken(delta);
+      }
+      // Sent in a final chunk with no choices when include_usage is set
+      if (chunk.usage) {
+        usage = {
+          inputTokens: chunk.usage.prompt_tokens,
+          outputTokens: chunk.usage.completion_tokens,
+        };
+      }
+    }
+
+    return { text, model: resolvedModel, usage };
+  },
+};
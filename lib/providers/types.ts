@@ -0,0 +1,38 @@
+/**
+ * LLM Provider Types
+ *
+ * Common contract implemented by every LLM provider registered with the
+ * provider registry (Anthropic, OpenAI, local stub).
+ */
+
+export interface LLMRequest {
+  prompt: string;
+  system?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean; // Ask the provider to return a single JSON object
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string;
+  usage?: LLMUsage;
+}
+
+export type LLMTokenHandler = (text: string) => void;
+
+export interface LLMProvider {
+  name: string;
+  defaultModel: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  /** Stream text deltas to onToken, resolving with the full response. Optional. */
+  stream?(request: LLMRequest, onToken: LLMTokenHandler): Promise<LLMResponse>;
+}
+
+export const DEFAULT_MAX_TOKENS = 2048;
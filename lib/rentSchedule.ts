@@ -0,0 +1,262 @@
+/**
+ * Rent Schedule
+ *
+ * A lease's contractual rent is a list of RentSteps: each sets the monthly
+ * rent from its effective date until the next step. Steps are entered by
+ * hand or derived from the document chain. A document with a rent table
+ * contributes the table. Otherwise each document's base rent applies from
+ * its effective date, raised on every lease anniversary by a fixed
+ * percentage escalation. CPI adjustments are added as they fall due (see
+ * lib/cpiEscalation). Manual and CPI steps are never overwritten by derived
+ * ones.
+ */
+
+import { prisma } from './prisma';
+import { ChainEntry, loadLeaseChainExtractions } from './leaseDocumentChain';
+import type { ExtractedLeaseData } from './leaseExtraction';
+
+export const RENT_STEP_TYPES = ['FIXED', 'PERCENTAGE', 'CPI'] as const;
+
+export type RentStepType = (typeof RENT_STEP_TYPES)[number];
+
+export interface RentScheduleLease {
+  baseRent: number | null; // Used when the lease has no steps
+  leaseEnd: Date | null;
+  rentSteps: { effectiveDate: Date; monthlyRent: number }[];
+}
+
+export interface DerivedRentStep {
+  effectiveDate: Date;
+  monthlyRent: number;
+  ratePerSquareFoot: number | null;
+  stepType: RentStepType;
+  escalationPercent: number | null;
+  documentId: string | null;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function utcDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function addYears(date: Date, years: number): Date {
+  const result = new Date(date);
+  result.setUTCFullYear(result.getUTCFullYear() + years);
+  return result;
+}
+
+/**
+ * Escalation types that follow an index rather than a fixed rate
+ */
+export function isCpiEscalation(escalationType: string | undefined): boolean {
+  return !!escalationType && /\bcpi\b|consumer price|\bindex\b/i.test(escalationType);
+}
+
+/**
+ * Contractual monthly rent on `date`: the latest step in effect, or the
+ * lease's base rent when it has no schedule. Null before the first step and
+ * after the lease ends.
+ */
+export function contractualMonthlyRent(lease: RentScheduleLease, date: Date = new Date()): number | null {
+  if (lease.leaseEnd && date.getTime() > lease.leaseEnd.getTime()) return null;
+  if (lease.rentSteps.length === 0) return lease.baseRent;
+
+  let current: { effectiveDate: Date; monthlyRent: number } | null = null;
+  for (const step of lease.rentSteps) {
+    const effective = step.effectiveDate.getTime();
+    if (effective <= date.getTime() && (!current || effective >= current.effectiveDate.getTime())) {
+      current = step;
+    }
+  }
+  return current ? current.monthlyRent : null;
+}
+
+/**
+ * Contractual rent on `date`, annualized
+ */
+export function contractualAnnualRent(lease: RentScheduleLease, date: Date = new Date()): number | null {
+  const monthly = contractualMonthlyRent(lease, date);
+  return monthly === null ? null : roundCents(monthly * 12);
+}
+
+/**
+ * Fill in the monthly, annual and per-SF figures of a step from whichever
+ * were given. Returns null when no rent figure can be worked out.
+ */
+export function rentStepAmounts(
+  input: { monthlyRent?: number | null; annualRent?: number | null; ratePerSquareFoot?: number | null },
+  squareFeet: number | null
+): { monthlyRent: number; annualRent: number; ratePerSquareFoot: number | null } | null {
+  let annualRent: number | null = null;
+  if (input.monthlyRent != null) {
+    annualRent = input.monthlyRent * 12;
+  } else if (input.annualRent != null) {
+    annualRent = input.annualRent;
+  } else if (input.ratePerSquareFoot != null && squareFeet) {
+    annualRent = input.ratePerSquareFoot * squareFeet;
+  }
+  if (annualRent === null || !isFinite(annualRent) || annualRent < 0) return null;
+
+  return {
+    monthlyRent: roundCents(input.monthlyRent ?? annualRent / 12),
+    annualRent: roundCents(annualRent),
+    ratePerSquareFoot:
+      input.ratePerSquareFoot ?? (squareFeet ? roundCents(annualRent / squareFeet) : null),
+  };
+}
+
+/**
+ * Derive rent steps from a lease's chain extractions (in chain order)
+ */
+export function deriveRentSteps(
+  chain: { entry: ChainEntry; data: ExtractedLeaseData }[],
+  lease: { leaseStart: Date | null; leaseEnd: Date | null; squareFeet: number | null }
+): DerivedRentStep[] {
+  let steps: DerivedRentStep[] = [];
+  let escalationType: string | undefined;
+  let escalationRate: number | undefined;
+  let hasRentTable = false;
+  const leaseStart = lease.leaseStart ?? utcDate(chain[0]?.data.startDate);
+
+  const perSquareFoot = (monthlyRent: number) =>
+    lease.squareFeet ? roundCents((monthlyRent * 12) / lease.squareFeet) : null;
+
+  for (const { entry, data } of chain) {
+    escalationType = data.escalationType ?? escalationType;
+    escalationRate = data.escalationRate ?? escalationRate;
+
+    // A later document replaces the schedule from the date it takes effect
+    const table = (data.rentSchedule || [])
+      .map((row) => ({ row, date: utcDate(row.effectiveDate) }))
+      .filter((item): item is { row: typeof item.row; date: Date } => item.date !== null);
+    if (table.length > 0) {
+      hasRentTable = true;
+      const from = Math.min(...table.map((item) => item.date.getTime()));
+      steps = steps.filter((step) => step.effectiveDate.getTime() < from);
+      // Table rows are contractual dollar amounts, not percentage increases
+      table.forEach(({ row, date }) =>
+        steps.push({
+          effectiveDate: date,
+          monthlyRent: row.monthlyRent,
+          ratePerSquareFoot: row.ratePerSquareFoot ?? perSquareFoot(row.monthlyRent),
+          stepType: 'FIXED',
+          escalationPercent: null,
+          documentId: entry.documentId,
+        })
+      );
+      continue;
+    }
+
+    const from = entry.chainIndex === 0 && leaseStart ? leaseStart : utcDate(entry.effectiveDate);
+    if (data.baseRent !== undefined && from) {
+      steps = steps.filter((step) => step.effectiveDate.getTime() < from.getTime());
+      steps.push({
+        effectiveDate: from,
+        monthlyRent: data.baseRent,
+        ratePerSquareFoot: perSquareFoot(data.baseRent),
+        stepType: 'FIXED',
+        escalationPercent: null,
+        documentId: entry.documentId,
+      });
+    }
+  }
+
+  steps.sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+
+  // Annual percentage increases on each anniversary, unless the rent was
+  // reset by a document in the year before it. Rent tables already include
+  // their increases; CPI increases depend on the index.
+  if (
+    hasRentTable ||
+    !escalationRate ||
+    isCpiEscalation(escalationType) ||
+    !leaseStart ||
+    !lease.leaseEnd ||
+    steps.length === 0
+  ) {
+    return steps;
+  }
+
+  const explicit = [...steps];
+  for (let year = 1; addYears(leaseStart, year) <= lease.leaseEnd; year++) {
+    const anniversary = addYears(leaseStart, year);
+    const yearBefore = addYears(anniversary, -1);
+    const reset = explicit.some((step) => step.effectiveDate > yearBefore && step.effectiveDate <= anniversary);
+    const prior = [...steps].reverse().find((step) => step.effectiveDate < anniversary);
+    if (reset || !prior) continue;
+
+    const monthlyRent = roundCents(prior.monthlyRent * (1 + escalationRate / 100));
+    steps.push({
+      effectiveDate: anniversary,
+      monthlyRent,
+      ratePerSquareFoot: perSquareFoot(monthlyRent),
+      stepType: 'PERCENTAGE',
+      escalationPercent: escalationRate,
+      documentId: prior.documentId,
+    });
+    steps.sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+  }
+
+  return steps;
+}
+
+/**
+ * Replace a lease's extracted rent steps with ones derived from its current
+ * document chain, skipping dates that have a manual or CPI step. Returns the
+ * number of steps created.
+ */
+export async function rebuildExtractedRentSteps(leaseId: string): Promise<number> {
+  const lease = await prisma.lease.findUnique({
+    where: { id: leaseId },
+    select: {
+      leaseStart: true,
+      leaseEnd: true,
+      squareFeet: true,
+      rentSteps: { where: { source: { not: 'EXTRACTION' } }, select: { effectiveDate: true } },
+    },
+  });
+  if (!lease) {
+    throw new Error(`Lease not found: ${leaseId}`);
+  }
+
+  const keptDates = new Set(lease.rentSteps.map((step) => step.effectiveDate.getTime()));
+  const steps = deriveRentSteps(await loadLeaseChainExtractions(leaseId), lease).filter(
+    (step) => !keptDates.has(step.effectiveDate.getTime())
+  );
+
+  await prisma.$transaction([
+    prisma.rentStep.deleteMany({ where: { leaseId, source: 'EXTRACTION' } }),
+    ...steps.map((step) =>
+      prisma.rentStep.create({
+        data: {
+          leaseId,
+          effectiveDate: step.effectiveDate,
+          monthlyRent: step.monthlyRent,
+          annualRent: roundCents(step.monthlyRent * 12),
+          ratePerSquareFoot: step.ratePerSquareFoot,
+          stepType: step.stepType,
+          escalationPercent: step.escalationPercent,
+          source: 'EXTRACTION',
+          documentId: step.documentId,
+        },
+      })
+    ),
+  ]);
+
+  return steps.length;
+}
+
+/**
+ * A lease's rent steps, oldest first
+ */
+export async function listRentSteps(leaseId: string) {
+  return prisma.rentStep.findMany({
+    where: { leaseId },
+    orderBy: { effectiveDate: 'asc' },
+  });
+}
@@ -0,0 +1,182 @@
+/**
+ * Retrieval Re-ranking
+ *
+ * Optional second stage for Q&A retrieval: scores each candidate passage
+ * against the question, drops the ones that don't address it and reorders
+ * the rest. Two scorers are available:
+ * - lexical: local, weighted coverage of the question's terms (no LLM call)
+ * - llm: the model rates each passage 0-10 (falls back to lexical on failure)
+ *
+ * Scores are normalized to 0-1 so they can be shown next to the retrieval
+ * score on citations.
+ */
+
+import { callLLMStructured } from './llm';
+import { s } from './schema';
+import { tokenize } from './embeddings/local';
+
+export const RERANK_MODES = ['none', 'lexical', 'llm'] as const;
+export type RerankMode = (typeof RERANK_MODES)[number];
+
+const DEFAULT_MIN_SCORE: Record<Exclude<RerankMode, 'none'>, number> = {
+  lexical: 0.15,
+  llm: 0.3,
+};
+
+const MAX_PASSAGE_CHARS = 800;
+
+export interface RerankedItem<T> {
+  item: T;
+  rerankScore: number;
+}
+
+export function parseRerankMode(value: unknown): RerankMode | undefined {
+  return RERANK_MODES.find((mode) => mode === value);
+}
+
+/**
+ * Score passages by how much of the question they cover. Question terms are
+ * weighted by rarity across the candidate set, so a passage matching the
+ * distinctive terms ("radius", "co-tenancy") beats one matching only common
+ * ones; a matching section label or an adjacent-term phrase adds a bonus.
+ */
+export function scoreLexical(
+  question: string,
+  passages: Array<{ text: string; label?: string | null }>
+): number[] {
+  const questionTerms = Array.from(new Set(tokenize(question)));
+  if (questionTerms.length === 0 || passages.length === 0) {
+    return passages.map(() => 0);
+  }
+
+  const passageTerms = passages.map((p) => new Set(tokenize(p.text)));
+  const labelTerms = passages.map((p) => new Set(tokenize(p.label || '')));
+
+  const weights = questionTerms.map((term) => {
+    const df = passageTerms.filter((terms) => terms.has(term)).length;
+    return Math.log(1 + (passages.length + 1) / (df + 0.5));
+  });
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+  const questionTokens = tokenize(question);
+  const bigrams = questionTokens.slice(1).map((token, i) => `${questionTokens[i]} ${token}`);
+
+  return passages.map((passage, index) => {
+    let matched = 0;
+    questionTerms.forEach((term, i) => {
+      if (passageTerms[index].has(term) || labelTerms[index].has(term)) {
+        matched += weights[i];
+      }
+    });
+    let score = matched / totalWeight;
+
+    if (questionTerms.some((term) => labelTerms[index].has(term))) {
+      score += 0.1;
+    }
+    if (bigrams.length > 0) {
+      const passageText = tokenize(passage.text).join(' ');
+      const phraseHits = bigrams.filter((bigram) => passageText.includes(bigram)).length;
+      score += 0.1 * (phraseHits / bigrams.length);
+    }
+
+    return Math.min(1, score);
+  });
+}
+
+const relevanceSchema = s.object({
+  scores: s.array(
+    s.object({
+      index: s.number(),
+      score: s.number(),
+    })
+  ),
+});
+
+async function scoreWithLLM(
+  question: string,
+  passages: Array<{ text: string; label?: string | null }>
+): Promise<number[] | null> {
+  const passageList = passages
+    .map((p, i) => {
+      const header = p.label ? `[${i + 1}] (${p.label})` : `[${i + 1}]`;
+      return `${header}\n${p.text.substring(0, MAX_PASSAGE_CHARS)}`;
+    })
+    .join('\n\n');
+
+  const prompt = `Rate how relevant each passage is to answering the question.
+
+QUESTION:
+${question}
+
+PASSAGES:
+${passageList}
+
+Score each passage from 0 (unrelated) to 10 (directly answers the question).
+Return ONLY JSON of the form {"scores": [{"index": 1, "score": 7}, ...]} with one entry per passage.`;
+
+  const result = await callLLMStructured(prompt, relevanceSchema, {
+    feature: 'RERANK',
+    temperature: 0,
+    maxTokens: 1024,
+  });
+
+  if (!result.success) {
+    console.warn('[Reranker] LLM scores did not validate:', result.error);
+    return null;
+  }
+
+  const scores = passages.map(() => 0);
+  for (const { index, score } of result.data.scores) {
+    if (index >= 1 && index <= passages.length) {
+      scores[index - 1] = Math.max(0, Math.min(10, score)) / 10;
+    }
+  }
+  return scores;
+}
+
+/**
+ * Re-rank retrieved items against the question. Items scoring below
+ * `minScore` are dropped; the rest are returned best first, at most `topK`.
+ * With mode "none" the input order is kept and every item scores 1.
+ */
+export async function rerank<T>(
+  question: string,
+  items: T[],
+  options: {
+    mode: RerankMode;
+    getText: (item: T) => string;
+    getLabel?: (item: T) => string | null | undefined;
+    topK?: number;
+    minScore?: number;
+  }
+): Promise<RerankedItem<T>[]> {
+  const { mode, getText, getLabel, topK = items.length } = options;
+
+  if (mode === 'none' || items.length === 0) {
+    return items.slice(0, topK).map((item) => ({ item, rerankScore: 1 }));
+  }
+
+  const passages = items.map((item) => ({ text: getText(item), label: getLabel?.(item) }));
+
+  let scores: number[] | null = null;
+  let scorer: Exclude<RerankMode, 'none'> = mode;
+  if (mode === 'llm') {
+    try {
+      scores = await scoreWithLLM(question, passages);
+    } catch (error) {
+      console.error('[Reranker] LLM scoring failed, using lexical scores:', error);
+    }
+  }
+  if (!scores) {
+    scores = scoreLexical(question, passages);
+    scorer = 'lexical';
+  }
+
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE[scorer];
+
+  return items
+    .map((item, index) => ({ item, rerankScore: Math.round(scores![index] * 1000) / 1000 }))
+    .filter((ranked) => ranked.rerankScore >= minScore)
+    .sort((a, b) => b.rerankScore - a.rerankScore)
+    .slice(0, topK);
+}
@@ -0,0 +1,252 @@
+/**
+ * Lightweight Schema Validation
+ *
+ * Minimal runtime schemas for validating structured LLM output against the
+ * TypeScript shapes the rest of the app relies on. Parsing is lenient where a
+ * value can be repaired without guessing (numeric strings, enum casing,
+ * null for optional fields) and reports every remaining problem as an issue
+ * so it can be fed back to the model.
+ */
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface Schema<T, Optional extends boolean = boolean> {
+  readonly kind: 'string' | 'number' | 'boolean' | 'enum' | 'array' | 'object';
+  readonly optional: Optional;
+  /** TypeScript-like description used in prompts */
+  describe(): string;
+  /** Parse and normalize a value, pushing problems onto `issues` */
+  parse(value: unknown, path: string, issues: SchemaIssue[]): T | undefined;
+}
+
+export type Infer<S> = S extends Schema<infer T, boolean> ? T : never;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type ObjectOutput<Shape extends Record<string, Schema<unknown>>> = Simplify<
+  {
+    [K in keyof Shape as Shape[K] extends Schema<unknown, true> ? K : never]?: Infer<Shape[K]>;
+  } & {
+    [K in keyof Shape as Shape[K] extends Schema<unknown, true> ? never : K]: Infer<Shape[K]>;
+  }
+>;
+
+function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function string(): Schema<string, false> {
+  return {
+    kind: 'string',
+    optional: false,
+    describe: () => 'string',
+    parse(value, path, issues) {
+      if (typeof value === 'string') return value;
+      if (typeof value === 'number') return String(value);
+      issues.push({ path, message: `expected string, got ${typeName(value)}` });
+      return undefined;
+    },
+  };
+}
+
+function number(): Schema<number, false> {
+  return {
+    kind: 'number',
+    optional: false,
+    describe: () => 'number',
+    parse(value, path, issues) {
+      if (typeof value === 'number' && isFinite(value)) return value;
+      if (typeof value === 'string') {
+        // Repair values like "$5,000.00" or "3.5%"
+        const cleaned = value.replace(/[$,%\s]/g, '');
+        const parsed = parseFloat(cleaned);
+        if (cleaned.length > 0 && !isNaN(parsed) && /^-?[\d.]+$/.test(cleaned)) {
+          return parsed;
+        }
+      }
+      issues.push({ path, message: `expected number, got ${JSON.stringify(value)}` });
+      return undefined;
+    },
+  };
+}
+
+function boolean(): Schema<boolean, false> {
+  return {
+    kind: 'boolean',
+    optional: false,
+    describe: () => 'boolean',
+    parse(value, path, issues) {
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      issues.push({ path, message: `expected boolean, got ${typeName(value)}` });
+      return undefined;
+    },
+  };
+}
+
+/**
+ * String enum. Matching is case-insensitive and treats spaces/hyphens as
+ * underscores. `aliases` map known variants onto allowed values; `fallback`
+ * is used instead of reporting an issue when nothing matches.
+ */
+function enumeration<const V extends string>(
+  values: readonly V[],
+  options?: { aliases?: Record<string, V>; fallback?: V }
+): Schema<V, false> {
+  return {
+    kind: 'enum',
+    optional: false,
+    describe: () => values.map((v) => JSON.stringify(v)).join(' | '),
+    parse(value, path, issues) {
+      if (typeof value === 'string') {
+        const normalized = value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+        const match = values.find((v) => v.toUpperCase() === normalized);
+        if (match) return match;
+        if (options?.aliases?.[normalized]) return options.aliases[normalized];
+      }
+      if (options?.fallback !== undefined) return options.fallback;
+      issues.push({
+        path,
+        message: `expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`,
+      });
+      return undefined;
+    },
+  };
+}
+
+function array<T>(item: Schema<T>): Schema<T[], false> {
+  return {
+    kind: 'array',
+    optional: false,
+    describe: () => `Array<${item.describe()}>`,
+    parse(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected array, got ${typeName(value)}` });
+        return undefined;
+      }
+      const result: T[] = [];
+      value.forEach((entry, index) => {
+        const parsed = item.parse(entry, `${path}[${index}]`, issues);
+        if (parsed !== undefined) result.push(parsed);
+      });
+      return result;
+    },
+  };
+}
+
+function object<Shape extends Record<string, Schema<unknown>>>(
+  shape: Shape
+): Schema<ObjectOutput<Shape>, false> {
+  return {
+    kind: 'object',
+    optional: false,
+    describe: () =>
+      `{ ${Object.entries(shape)
+        .map(([key, field]) => `"${key}"${field.optional ? '?' : ''}: ${field.describe()}`)
+        .join(', ')} }`,
+    parse(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `expected object, got ${typeName(value)}` });
+        return undefined;
+      }
+      const input = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(shape)) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        const parsed = field.parse(input[key], fieldPath, issues);
+        if (parsed !== undefined) result[key] = parsed;
+      }
+      return result as ObjectOutput<Shape>;
+    },
+  };
+}
+
+/**
+ * Field may be omitted. null and empty strings are treated as omitted.
+ */
+function optional<T>(inner: Schema<T>): Schema<T | undefined, true> {
+  return {
+    kind: inner.kind,
+    optional: true,
+    describe: inner.describe,
+    parse(value, path, issues) {
+      if (value === undefined || value === null || value === '') return undefined;
+      return inner.parse(value, path, issues);
+    },
+  };
+}
+
+/**
+ * Field is required but may be null. Omitted values are read as null.
+ */
+function nullable<T>(inner: Schema<T>): Schema<T | null, false> {
+  return {
+    kind: inner.kind,
+    optional: false,
+    describe: () => `${inner.describe()} | null`,
+    parse(value, path, issues) {
+      if (value === undefined || value === null) return null;
+      return inner.parse(value, path, issues) ?? null;
+    },
+  };
+}
+
+export const s = {
+  string,
+  number,
+  boolean,
+  enumeration,
+  array,
+  object,
+  optional,
+  nullable,
+};
+
+/**
+ * Pull the JSON payload out of a model response: strips markdown code
+ * fences and surrounding prose, and removes trailing commas.
+ */
+export function extractJson(text: string): unknown {
+  const unfenced = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/```\s*$/i, '')
+    .trim();
+
+  const objectStart = unfenced.indexOf('{');
+  const arrayStart = unfenced.indexOf('[');
+  const isArray = arrayStart !== -1 && (objectStart === -1 || arrayStart < objectStart);
+  const start = isArray ? arrayStart : objectStart;
+  const end = unfenced.lastIndexOf(isArray ? ']' : '}');
+
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON found in LLM response');
+  }
+
+  const candidate = unfenced.slice(start, end + 1).replace(/,\s*([}\]])/g, '$1');
+  return JSON.parse(candidate);
+}
+
+/**
+ * Parse a raw model response against a schema
+ */
+export function parseWithSchema<T>(
+  text: string,
+  schema: Schema<T>
+): { data?: T; issues: SchemaIssue[] } {
+  let json: unknown;
+  try {
+    json = extractJson(text);
+  } catch (error) {
+    return { issues: [{ path: '', message: (error as Error).message }] };
+  }
+
+  const issues: SchemaIssue[] = [];
+  const data = schema.parse(json, '', issues);
+  return issues.length === 0 ? { data, issues } : { issues };
+}
@@ -0,0 +1,149 @@
+/**
+ * Server-Sent Events
+ *
+ * Shared helpers for streaming Q&A answers:
+ * - readServerSentEvents() parses an SSE byte stream (provider streaming
+ *   APIs, and our own routes on the client)
+ * - createEventStream() builds a text/event-stream Response for a route
+ * - postEventStream() calls a streaming route from the browser
+ *
+ * Our Q&A routes emit `token` events ({ text }) while the answer is being
+ * generated, then a single `done` event carrying the same JSON body the
+ * non-streaming route returns (answer, citations/sources, mode). Failures
+ * after the stream has started arrive as an `error` event.
+ */
+
+export interface ServerSentEvent {
+  event: string; // "message" when the event has no name
+  data: string;
+}
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+/**
+ * Parse an SSE byte stream into events
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseBlock = (block: string): ServerSentEvent | null => {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    }
+    return data.length > 0 ? { event, data: data.join('\n') } : null;
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        const parsed = parseBlock(block);
+        if (parsed) yield parsed;
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+
+    const parsed = parseBlock(buffer);
+    if (parsed) yield parsed;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * True when the caller asked for a streamed response, via
+ * `Accept: text/event-stream` or `stream: true` in the request body
+ */
+export function wantsEventStream(request: Request, body?: { stream?: unknown }): boolean {
+  return (
+    body?.stream === true || (request.headers.get('accept') || '').includes('text/event-stream')
+  );
+}
+
+/**
+ * Build a streaming Response. `run` sends events until it resolves; a thrown
+ * error is reported as an `error` event before the stream closes.
+ */
+export function createEventStream(run: (send: SendEvent) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await run(send);
+      } catch (error) {
+        console.error('[SSE] Error while streaming:', error);
+        send('error', { error: 'Failed to process question', details: (error as Error).message });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+/**
+ * POST to a streaming route, calling onToken for each `token` event.
+ * Resolves with the `done` payload (or the JSON body if the route answered
+ * without streaming) and rejects on HTTP errors or an `error` event.
+ */
+export async function postEventStream<T>(
+  url: string,
+  body: Record<string, unknown>,
+  onToken: (text: string) => void
+): Promise<T> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+  });
+
+  const contentType = res.headers.get('content-type') || '';
+  if (!res.ok || !contentType.includes('text/event-stream') || !res.body) {
+    const data = await res.json();
+    if (!res.ok) {
+      throw new Error(data.error || 'Failed to get answer');
+    }
+    return data as T;
+  }
+
+  for await (const { event, data } of readServerSentEvents(res.body)) {
+    const payload = JSON.parse(data);
+    if (event === 'token') {
+      onToken(payload.text);
+    } else if (event === 'done') {
+      return payload as T;
+    } else if (event === 'error') {
+      throw new Error(payload.error || 'Failed to get answer');
+    }
+  }
+
+  throw new Error('Stream ended before the answer was complete');
+}
@@ -0,0 +1,104 @@
+/**
+ * Storage Backend Registry
+ *
+ * Mirrors the LLM and embedding provider registries. The active backend
+ * comes from STORAGE_BACKEND: "local" (default, files under ./uploads) or
+ * "s3" (S3-compatible object storage, needed when more than one instance
+ * serves the app). Documents record a storage key (Document.storageKey),
+ * never a filesystem path, so the backend can be swapped after running
+ * `npm run storage:migrate`.
+ */
+
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, isAbsolute, join, relative, sep } from 'path';
+import { Readable } from 'stream';
+import { localStorageBackend } from './local';
+import { s3StorageBackend } from './s3';
+import { StorageBackend } from './types';
+
+export * from './types';
+
+const STORAGE_BACKEND = process.env.STORAGE_BACKEND || 'local';
+
+const backends = new Map<string, StorageBackend>();
+
+/**
+ * Register (or replace) a storage backend under its name
+ */
+export function registerStorageBackend(backend: StorageBackend): void {
+  backends.set(backend.name, backend);
+}
+
+/**
+ * Look up a storage backend by name, defaulting to the configured one
+ */
+export function getStorageBackend(name?: string): StorageBackend {
+  const backendName = name || STORAGE_BACKEND;
+  const backend = backends.get(backendName);
+
+  if (!backend) {
+    throw new Error(`Unsupported storage backend: ${backendName}`);
+  }
+
+  return backend;
+}
+
+export function listStorageBackends(): string[] {
+  return Array.from(backends.keys());
+}
+
+async function streamToBuffer(stream: Readable): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  for await (const part of stream) {
+    parts.push(Buffer.isBuffer(part) ? part : Buffer.from(part));
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Read a stored file into memory
+ */
+export async function readStoredFile(key: string): Promise<Buffer> {
+  return streamToBuffer(await getStorageBackend().getStream(key));
+}
+
+/**
+ * Run `fn` with a path to the stored file on this machine. Extractors and
+ * the OCR binaries need a real file, so remote objects are downloaded to a
+ * temporary directory that is removed afterwards.
+ */
+export async function withLocalFile<T>(key: string, fn: (filePath: string) => Promise<T>): Promise<T> {
+  const backend = getStorageBackend();
+  if (backend.localPath) {
+    return fn(backend.localPath(key));
+  }
+
+  const workDir = await mkdtemp(join(tmpdir(), 'storage-'));
+  try {
+    const filePath = join(workDir, basename(key));
+    await writeFile(filePath, await readStoredFile(key));
+    return await fn(filePath);
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Storage key for a file path recorded before storage keys were introduced
+ * (absolute, or relative to the working directory, under ./uploads).
+ * Returns null when the path is outside ./uploads.
+ */
+export function storageKeyFromLegacyPath(filePath: string): string | null {
+  const uploadsDir = join(process.cwd(), 'uploads');
+  const absolutePath = isAbsolute(filePath) ? filePath : join(process.cwd(), filePath);
+  const key = relative(uploadsDir, absolutePath);
+
+  if (!key || key.startsWith('..') || isAbsolute(key)) {
+    return null;
+  }
+  return key.split(sep).join('/');
+}
+
+registerStorageBackend(localStorageBackend);
+registerStorageBackend(s3StorageBackend);
@@ -0,0 +1,93 @@
+/**
+ * Local Filesystem Storage Backend
+ *
+ * Keeps files under STORAGE_LOCAL_ROOT (default ./uploads). Only suitable
+ * for a single instance; multi-instance deployments use the S3 backend.
+ * Signed URLs point at /api/storage/[...key] and carry an HMAC of the key
+ * and expiry, keyed by STORAGE_SIGNING_SECRET.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, rm, stat, writeFile } from 'fs/promises';
+import { dirname, join, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { ByteRange, StorageBackend, StoredObjectInfo } from './types';
+
+const STORAGE_LOCAL_ROOT = resolve(process.env.STORAGE_LOCAL_ROOT || join(process.cwd(), 'uploads'));
+const STORAGE_SIGNING_SECRET = process.env.STORAGE_SIGNING_SECRET || '';
+
+/**
+ * Absolute path of a key, refusing keys that escape the storage root
+ */
+function resolveKeyPath(key: string): string {
+  const path = resolve(STORAGE_LOCAL_ROOT, key);
+  if (!path.startsWith(STORAGE_LOCAL_ROOT + sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return path;
+}
+
+function signKey(key: string, expires: number): string {
+  if (!STORAGE_SIGNING_SECRET) {
+    throw new Error('STORAGE_SIGNING_SECRET is not configured');
+  }
+  return createHmac('sha256', STORAGE_SIGNING_SECRET).update(`${key}\n${expires}`).digest('hex');
+}
+
+/**
+ * Check the expiry and signature query parameters of a local signed URL
+ */
+export function verifyLocalSignedUrl(key: string, expires: string | null, signature: string | null): boolean {
+  const expiresAt = Number(expires);
+  if (!STORAGE_SIGNING_SECRET || !signature || !Number.isFinite(expiresAt) || expiresAt * 1000 < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signKey(key, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export const localStorageBackend: StorageBackend = {
+  name: 'local',
+
+  async put(key: string, content: Buffer): Promise<void> {
+    const path = resolveKeyPath(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, content);
+  },
+
+  async getStream(key: string, range?: ByteRange): Promise<Readable> {
+    const path = resolveKeyPath(key);
+    // Surface a missing file here rather than as a stream error
+    await stat(path);
+    return createReadStream(path, range ? { start: range.start, end: range.end } : undefined);
+  },
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const info = await stat(resolveKeyPath(key));
+      return info.isFile() ? { size: info.size } : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async delete(key: string): Promise<void> {
+    await rm(resolveKeyPath(key), { force: true });
+  },
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const path = key.split('/').map(encodeURIComponent).join('/');
+    return `/api/storage/${path}?expires=${expires}&signature=${signKey(key, expires)}`;
+  },
+
+  localPath(key: string): string {
+    return resolveKeyPath(key);
+  },
+};
@@ -0,0 +1,219 @@
+/**
+ * S3-Compatible Storage Backend
+ *
+ * Talks to AWS S3 or any S3-compatible service (MinIO, Ceph, R2) over its
+ * REST API, signing requests with AWS Signature Version 4. Set S3_ENDPOINT
+ * to point at a non-AWS service; custom endpoints use path-style URLs
+ * (http://host:9000/bucket/key) unless S3_FORCE_PATH_STYLE is "false".
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { ByteRange, StorageBackend, StoredObjectInfo } from './types';
+
+const S3_REGION = process.env.S3_REGION || 'us-east-1';
+const S3_BUCKET = process.env.S3_BUCKET || '';
+const S3_ENDPOINT = process.env.S3_ENDPOINT || '';
+const S3_ACCESS_KEY_ID = process.env.S3_ACCESS_KEY_ID || '';
+const S3_SECRET_ACCESS_KEY = process.env.S3_SECRET_ACCESS_KEY || '';
+const S3_FORCE_PATH_STYLE = process.env.S3_FORCE_PATH_STYLE
+  ? process.env.S3_FORCE_PATH_STYLE === 'true'
+  : Boolean(S3_ENDPOINT);
+
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * encodeURIComponent plus the characters SigV4 also requires escaped
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function objectUrl(key: string): URL {
+  if (!S3_BUCKET) {
+    throw new Error('S3_BUCKET is not configured');
+  }
+
+  const endpoint = new URL(S3_ENDPOINT || `https://s3.${S3_REGION}.amazonaws.com`);
+  const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+  if (S3_FORCE_PATH_STYLE) {
+    endpoint.pathname = `${endpoint.pathname.replace(/\/$/, '')}/${S3_BUCKET}/${encodedKey}`;
+  } else {
+    endpoint.hostname = `${S3_BUCKET}.${endpoint.hostname}`;
+    endpoint.pathname = `/${encodedKey}`;
+  }
+  return endpoint;
+}
+
+/**
+ * "20241120T010031Z" and "20241120" for a signing time
+ */
+function signingDates(now: Date): { amzDate: string; dateStamp: string } {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  return { amzDate, dateStamp: amzDate.slice(0, 8) };
+}
+
+/**
+ * SigV4 signature over a request whose query string and headers are final
+ */
+function signRequest(params: {
+  method: string;
+  url: URL;
+  headers: Record<string, string>; // Lower-case names, all signed
+  payloadHash: string;
+  amzDate: string;
+  dateStamp: string;
+}): { signature: string; signedHeaders: string; credentialScope: string } {
+  const { method, url, headers, payloadHash, amzDate, dateStamp } = params;
+
+  const canonicalQuery = Array.from(url.searchParams.entries())
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+  const headerNames = Object.keys(headers).sort();
+  const canonicalHeaders = headerNames.map((name) => `${name}:${headers[name].trim()}\n`).join('');
+  const signedHeaders = headerNames.join(';');
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const credentialScope = `${dateStamp}/${S3_REGION}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, credentialScope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${S3_SECRET_ACCESS_KEY}`, dateStamp), S3_REGION), 's3'), 'aws4_request');
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return { signature, signedHeaders, credentialScope };
+}
+
+async function s3Request(
+  method: string,
+  key: string,
+  options?: { body?: Buffer; headers?: Record<string, string> }
+): Promise<Response> {
+  if (!S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    throw new Error('S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be configured');
+  }
+
+  const url = objectUrl(key);
+  const { amzDate, dateStamp } = signingDates(new Date());
+  const payloadHash = options?.body ? sha256Hex(options.body) : sha256Hex('');
+
+  const signedHeaders: Record<string, string> = {
+    host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  const signing = signRequest({ method, url, headers: signedHeaders, payloadHash, amzDate, dateStamp });
+
+  return fetch(url, {
+    method,
+    headers: {
+      ...options?.headers,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      Authorization:
+        `AWS4-HMAC-SHA256 Credential=${S3_ACCESS_KEY_ID}/${signing.credentialScope}, ` +
+        `SignedHeaders=${signing.signedHeaders}, Signature=${signing.signature}`,
+    },
+    body: options?.body ? new Uint8Array(options.body) : undefined,
+  });
+}
+
+async function s3Error(response: Response, action: string, key: string): Promise<Error> {
+  const body = await response.text().catch(() => '');
+  return new Error(`S3 ${action} failed for ${key}: ${response.status} - ${body.slice(0, 500)}`);
+}
+
+export const s3StorageBackend: StorageBackend = {
+  name: 's3',
+
+  async put(key: string, content: Buffer, contentType?: string): Promise<void> {
+    const response = await s3Request('PUT', key, {
+      body: content,
+      headers: { 'Content-Type': contentType || 'application/octet-stream' },
+    });
+    if (!response.ok) {
+      throw await s3Error(response, 'PUT', key);
+    }
+  },
+
+  async getStream(key: string, range?: ByteRange): Promise<Readable> {
+    const response = await s3Request('GET', key, {
+      headers: range ? { Range: `bytes=${range.start}-${range.end}` } : undefined,
+    });
+    if (!response.ok || !response.body) {
+      throw await s3Error(response, 'GET', key);
+    }
+    return Readable.fromWeb(response.body as NodeReadableStream<Uint8Array>);
+  },
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    const response = await s3Request('HEAD', key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw await s3Error(response, 'HEAD', key);
+    }
+    return {
+      size: Number(response.headers.get('content-length') || 0),
+      contentType: response.headers.get('content-type') || undefined,
+    };
+  },
+
+  async delete(key: string): Promise<void> {
+    const response = await s3Request('DELETE', key);
+    // S3 answers 204 whether or not the object existed
+    if (!response.ok && response.status !== 404) {
+      throw await s3Error(response, 'DELETE', key);
+    }
+  },
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    if (!S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be configured');
+    }
+
+    const url = objectUrl(key);
+    const { amzDate, dateStamp } = signingDates(new Date());
+    const credentialScope = `${dateStamp}/${S3_REGION}/s3/aws4_request`;
+
+    url.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256');
+    url.searchParams.set('X-Amz-Credential', `${S3_ACCESS_KEY_ID}/${credentialScope}`);
+    url.searchParams.set('X-Amz-Date', amzDate);
+    url.searchParams.set('X-Amz-Expires', String(expiresInSeconds));
+    url.searchParams.set('X-Amz-SignedHeaders', 'host');
+
+    const { signature } = signRequest({
+      method: 'GET',
+      url,
+      headers: { host: url.host },
+      payloadHash: UNSIGNED_PAYLOAD,
+      amzDate,
+      dateStamp,
+    });
+    url.searchParams.set('X-Amz-Signature', signature);
+
+    return url.toString();
+  },
+};
@@ -0,0 +1,36 @@
+/**
+ * Storage Backend Types
+ *
+ * Common contract implemented by every storage backend registered with the
+ * storage registry (local filesystem, S3-compatible object storage). Files
+ * are addressed by a storage key such as "documents/1732100000000-lease.pdf",
+ * which is what Document.storageKey holds.
+ */
+
+import { Readable } from 'stream';
+
+export interface StoredObjectInfo {
+  size: number; // Bytes
+  contentType?: string;
+}
+
+export interface ByteRange {
+  start: number; // Inclusive
+  end: number; // Inclusive
+}
+
+export interface StorageBackend {
+  name: string;
+  put(key: string, content: Buffer, contentType?: string): Promise<void>;
+  /** Stream the object, or the given byte range of it */
+  getStream(key: string, range?: ByteRange): Promise<Readable>;
+  /** Size and type of the object, or null when it does not exist */
+  stat(key: string): Promise<StoredObjectInfo | null>;
+  delete(key: string): Promise<void>;
+  /** Time-limited URL the object can be downloaded from without a session */
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+  /** Path of the object on this machine, for backends that keep files locally */
+  localPath?(key: string): string;
+}
+
+export const DEFAULT_SIGNED_URL_EXPIRY_SECONDS = 15 * 60;
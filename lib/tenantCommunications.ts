@@ -1,4 +1,5 @@
-import { callLLM } from './llm';
+import { callLLMStructured } from './llm';
+import { s, Schema } from './schema';
 
 export type CommunicationIntent =
   | 'RENEWAL_NOTICE'
@@ -16,6 +17,7 @@ export type DraftCommunicationInput = {
   leaseEndDate?: string;
   workOrderSummary?: string;
   invoiceSummary?: string;
+  rentAdjustmentSummary?: string; // Computed new rent and how it was derived
   additionalContext?: string;
 };
 
@@ -24,6 +26,11 @@ export type DraftCommunicationResult = {
   body: string;
 };
 
+const draftCommunicationSchema: Schema<DraftCommunicationResult> = s.object({
+  subject: s.string(),
+  body: s.string(),
+});
+
 export async function draftTenantCommunication(
   input: DraftCommunicationInput
 ): Promise<DraftCommunicationResult> {
@@ -52,6 +59,9 @@ export async function draftTenantCommunication(
     if (input.invoiceSummary) {
       contextParts.push(`Invoice: ${input.invoiceSummary}`);
     }
+    if (input.rentAdjustmentSummary) {
+      contextParts.push(`Rent Adjustment: ${input.rentAdjustmentSummary}`);
+    }
     if (input.additionalContext) {
       contextParts.push(`Additional Context: ${input.additionalContext}`);
     }
@@ -68,7 +78,7 @@ export async function draftTenantCommunication(
         intentGuidance = 'Write a friendly reminder email about an upcoming lease renewal deadline. Be courteous and helpful, emphasizing the timeline and next steps.';
         break;
       case 'RENT_ADJUSTMENT':
-        intentGuidance = 'Write a professional email notifying the tenant about a rent adjustment. Be clear, transparent, and reference the lease agreement. Maintain a respectful and professional tone.';
+        intentGuidance = 'Write a professional email notifying the tenant about a rent adjustment. Be clear, transparent, and reference the lease agreement. State the new rent, its effective date and how it was calculated when given. Maintain a respectful and professional tone.';
         break;
       case 'WORK_ORDER_UPDATE':
         intentGuidance = 'Write an update email about a work order or maintenance issue. Be clear about the status, timeline, and any actions the tenant needs to take. Show empathy for any inconvenience.';
@@ -102,31 +112,18 @@ Return ONLY valid JSON in this exact format (no markdown, no explanation):
 
 JSON:`;
 
-    // Call LLM
-    const response = await callLLM(prompt);
-
-    // Parse JSON response
-    try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        console.error('No JSON found in LLM response:', response);
-        return getFallbackCommunication(input);
-      }
-
-      const result = JSON.parse(jsonMatch[0]) as DraftCommunicationResult;
-
-      // Validate that we got both fields
-      if (!result.subject || !result.body) {
-        console.warn('Missing subject or body in response');
-        return getFallbackCommunication(input);
-      }
-
-      return result;
-    } catch (parseError) {
-      console.error('Error parsing communication JSON:', parseError);
-      console.error('Response was:', response);
+    // Call LLM and validate that we got both fields
+    const result = await callLLMStructured(prompt, draftCommunicationSchema, {
+      feature: 'TENANT_COMMUNICATION',
+    });
+
+    if (!result.success) {
+      console.error('Error parsing communication JSON:', result.issues);
+      console.error('Response was:', result.raw);
       return getFallbackCommunication(input);
     }
+
+    return result.data;
   } catch (error) {
     console.error('Error drafting tenant communication:', error);
     return getFallbackCommunication(input);
@@ -151,7 +148,7 @@ function getFallbackCommunication(input: DraftCommunicationInput): DraftCommunic
       break;
     case 'RENT_ADJUSTMENT':
       subject = `Important: Rent Adjustment Notice for ${propertyName}`;
-      body = `Dear ${tenantName},\n\nWe are writing to inform you of an upcoming rent adjustment for your lease at ${propertyName}.\n\nPlease contact us if you have any questions.\n\nBest regards,\nProperty Management`;
+      body = `Dear ${tenantName},\n\nWe are writing to inform you of an upcoming rent adjustment for your lease at ${propertyName}.${input.rentAdjustmentSummary ? `\n\n${input.rentAdjustmentSummary}` : ''}\n\nPlease contact us if you have any questions.\n\nBest regards,\nProperty Management`;
       break;
     case 'WORK_ORDER_UPDATE':
       subject = `Maintenance Update - ${propertyName}`;
@@ -33,7 +33,7 @@ export interface DashboardSummary {
   alerts?: Alert[];
 }
 
-export type AlertType = 'LEASE_EXPIRING' | 'NO_DOCUMENT' | 'HIGH_RISK';
+export type AlertType = 'LEASE_EXPIRING' | 'NO_DOCUMENT' | 'HIGH_RISK' | 'RENT_ADJUSTMENT_DUE';
 export type AlertSeverity = 'HIGH' | 'MEDIUM' | 'LOW';
 
 export interface Alert {
@@ -45,15 +45,21 @@ export interface Alert {
   leaseId?: string;
   propertyId?: string;
   dueDate?: string; // ISO string
+  newMonthlyRent?: number; // RENT_ADJUSTMENT_DUE: the computed rent from dueDate
 }
 
 export interface LeaseQuestionResponse {
   answer: string;
   mode: 'rag' | 'metadata_only';
+  retrieval?: 'vector' | 'keyword' | 'hybrid';
   sourceChunks?: {
     chunkIndex: number;
     snippet: string;
     similarity?: number;
+    sectionLabel?: string | null; // Set when retrieved from lease clauses
+    documentId?: string; // Document to open at the cited page
+    startPage?: number | null;
+    endPage?: number | null;
   }[];
   metadata?: {
     tenantName: string;
@@ -71,14 +77,19 @@ export interface PortfolioSourceChunk {
   tenantName: string;
   propertyId: string | null;
   propertyName: string | null;
+  documentId?: string;
   chunkIndex: number;
+  startPage?: number | null;
+  endPage?: number | null;
   snippet: string;
-  similarity: number;
+  similarity: number; // Retrieval score
+  rerankScore?: number; // 0-1, present when re-ranking is enabled
 }
 
 export interface PortfolioQuestionResponse {
   answer: string;
   mode: 'rag' | 'no_documents';
   scope: 'portfolio' | 'property';
+  rerank?: 'none' | 'lexical' | 'llm';
   sourceChunks: PortfolioSourceChunk[];
 }
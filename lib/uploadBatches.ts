@@ -0,0 +1,73 @@
+/**
+ * Upload Batches
+ *
+ * Loads a bulk upload batch for the review grid: each document with its
+ * processing state and proposed Property/Lease link.
+ */
+
+import { prisma } from './prisma';
+
+export interface UploadBatchDocument {
+  id: string;
+  fileName: string;
+  type: string;
+  status: string;
+  activeJobs: number; // Queued/running jobs (ingestion, classification, matching)
+  lastError: string | null;
+  propertyId: string | null;
+  leaseId: string | null;
+  proposedPropertyId: string | null;
+  proposedLeaseId: string | null;
+  linkConfidence: number | null;
+  linkReason: string | null;
+}
+
+export interface UploadBatchReview {
+  id: string;
+  name: string | null;
+  status: string;
+  createdAt: string;
+  committedAt: string | null;
+  documents: UploadBatchDocument[];
+}
+
+export async function loadUploadBatch(batchId: string): Promise<UploadBatchReview | null> {
+  const batch = await prisma.uploadBatch.findUnique({
+    where: { id: batchId },
+    include: {
+      documents: {
+        orderBy: { fileName: 'asc' },
+        include: {
+          jobs: {
+            select: { status: true, lastError: true },
+            orderBy: { createdAt: 'desc' },
+          },
+        },
+      },
+    },
+  });
+
+  if (!batch) return null;
+
+  return {
+    id: batch.id,
+    name: batch.name,
+    status: batch.status,
+    createdAt: batch.createdAt.toISOString(),
+    committedAt: batch.committedAt?.toISOString() ?? null,
+    documents: batch.documents.map((doc) => ({
+      id: doc.id,
+      fileName: doc.fileName,
+      type: doc.type,
+      status: doc.status,
+      activeJobs: doc.jobs.filter((job) => job.status === 'QUEUED' || job.status === 'RUNNING').length,
+      lastError: doc.jobs.find((job) => job.status === 'FAILED')?.lastError ?? null,
+      propertyId: doc.propertyId,
+      leaseId: doc.leaseId,
+      proposedPropertyId: doc.proposedPropertyId,
+      proposedLeaseId: doc.proposedLeaseId,
+      linkConfidence: doc.linkConfidence,
+      linkReason: doc.linkReason,
+    })),
+  };
+}
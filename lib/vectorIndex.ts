@@ -0,0 +1,306 @@
+/**
+ * In-Process Vector Index
+ *
+ * Embeddings are stored as packed little-endian Float32 blobs
+ * (embeddingVector) on LeaseClause and DocumentChunk. Each index is loaded
+ * once per process for the active embedding model, with vector norms
+ * precomputed, and kept warm until a write invalidates it. Searches are a
+ * filtered brute-force scan over typed arrays - no per-query database read or
+ * JSON parsing.
+ *
+ * Writers call invalidateVectorIndex(), which drops the local index and bumps
+ * the kind's VectorIndexVersion row. Every lookup compares that row with the
+ * version the index was loaded at, so writes from other processes (the job
+ * worker, scripts/index-leases.ts) are seen on the next search. Indexes older
+ * than VECTOR_INDEX_TTL_SECONDS (default 300) are reloaded regardless.
+ */
+
+import { prisma } from './prisma';
+import { embeddingModelFilter, getEmbeddingModelInfo } from './embeddings';
+
+const VECTOR_INDEX_TTL_MS = parseFloat(process.env.VECTOR_INDEX_TTL_SECONDS || '300') * 1000;
+
+export type VectorIndexKind = 'clauses' | 'chunks';
+
+export interface VectorIndexMeta {
+  leaseId: string | null;
+  propertyId: string | null;
+  tenantName: string | null;
+  topic?: string; // clauses only
+  responsibleParty?: string; // clauses only
+  documentType?: string; // chunks only
+}
+
+interface VectorIndexEntry {
+  id: string;
+  vector: Float32Array;
+  norm: number;
+  meta: VectorIndexMeta;
+}
+
+interface LoadedIndex {
+  model: string;
+  version: number; // VectorIndexVersion when loading started
+  loadedAt: number;
+  entries: VectorIndexEntry[];
+}
+
+export interface VectorIndexFilter {
+  leaseIds?: string[];
+  propertyId?: string;
+  tenantName?: string;
+  topics?: string[];
+  responsibleParty?: string;
+  documentTypes?: string[];
+}
+
+export interface VectorIndexHit {
+  id: string;
+  similarity: number;
+  meta: VectorIndexMeta;
+}
+
+// Survives dev-server hot reloads, like the Prisma client
+const globalForVectorIndex = globalThis as unknown as {
+  vectorIndexes: Map<VectorIndexKind, Promise<LoadedIndex>> | undefined;
+};
+
+const indexes =
+  globalForVectorIndex.vectorIndexes ?? new Map<VectorIndexKind, Promise<LoadedIndex>>();
+
+if (process.env.NODE_ENV !== 'production') globalForVectorIndex.vectorIndexes = indexes;
+
+/**
+ * Pack an embedding into a Float32 blob for storage
+ */
+export function packEmbedding(embedding: number[]): Buffer {
+  const buffer = Buffer.alloc(embedding.length * 4);
+  embedding.forEach((value, i) => buffer.writeFloatLE(value, i * 4));
+  return buffer;
+}
+
+/**
+ * Unpack a stored Float32 blob
+ */
+export function unpackEmbedding(blob: Uint8Array): Float32Array {
+  const view = new DataView(blob.buffer, blob.byteOffset, blob.byteLength);
+  const vector = new Float32Array(blob.byteLength / 4);
+  for (let i = 0; i < vector.length; i++) {
+    vector[i] = view.getFloat32(i * 4, true);
+  }
+  return vector;
+}
+
+/**
+ * Decode a row's embedding, preferring the packed blob over the legacy JSON column
+ */
+export function decodeStoredEmbedding(row: {
+  embedding?: string | null;
+  embeddingVector?: Uint8Array | null;
+}): Float32Array | null {
+  if (row.embeddingVector && row.embeddingVector.byteLength > 0) {
+    return unpackEmbedding(row.embeddingVector);
+  }
+  if (row.embedding) {
+    return Float32Array.from(JSON.parse(row.embedding) as number[]);
+  }
+  return null;
+}
+
+function vectorNorm(vector: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < vector.length; i++) {
+    sum += vector[i] * vector[i];
+  }
+  return Math.sqrt(sum);
+}
+
+function toEntry(
+  id: string,
+  row: { embedding?: string | null; embeddingVector?: Uint8Array | null },
+  meta: VectorIndexMeta
+): VectorIndexEntry | null {
+  const vector = decodeStoredEmbedding(row);
+  if (!vector) return null;
+  return { id, vector, norm: vectorNorm(vector), meta };
+}
+
+/**
+ * The kind's current VectorIndexVersion (0 before the first write)
+ */
+async function currentVersion(kind: VectorIndexKind): Promise<number> {
+  const row = await prisma.vectorIndexVersion.findUnique({ where: { kind } });
+  return row ? row.version : 0;
+}
+
+async function loadClauseIndex(model: string, version: number): Promise<LoadedIndex> {
+  const clauses = await prisma.leaseClause.findMany({
+    where: embeddingModelFilter(model),
+    select: {
+      id: true,
+      leaseId: true,
+      topic: true,
+      responsibleParty: true,
+      embedding: true,
+      embeddingVector: true,
+      lease: { select: { propertyId: true, tenantName: true } },
+    },
+  });
+
+  const entries: VectorIndexEntry[] = [];
+  for (const clause of clauses) {
+    const entry = toEntry(clause.id, clause, {
+      leaseId: clause.leaseId,
+      propertyId: clause.lease.propertyId,
+      tenantName: clause.lease.tenantName,
+      topic: clause.topic,
+      responsibleParty: clause.responsibleParty,
+    });
+    if (entry) entries.push(entry);
+  }
+
+  return { model, version, loadedAt: Date.now(), entries };
+}
+
+async function loadChunkIndex(model: string, version: number): Promise<LoadedIndex> {
+  const chunks = await prisma.documentChunk.findMany({
+    where: embeddingModelFilter(model),
+    select: {
+      id: true,
+      embedding: true,
+      embeddingVector: true,
+      document: {
+        select: {
+          type: true,
+          leaseId: true,
+          propertyId: true,
+          lease: { select: { propertyId: true, tenantName: true } },
+        },
+      },
+    },
+  });
+
+  const entries: VectorIndexEntry[] = [];
+  for (const chunk of chunks) {
+    const entry = toEntry(chunk.id, chunk, {
+      leaseId: chunk.document.leaseId,
+      propertyId: chunk.document.lease?.propertyId ?? chunk.document.propertyId,
+      tenantName: chunk.document.lease?.tenantName ?? null,
+      documentType: chunk.document.type,
+    });
+    if (entry) entries.push(entry);
+  }
+
+  return { model, version, loadedAt: Date.now(), entries };
+}
+
+/**
+ * Get the warm index for `kind`, (re)loading it if missing, written to since
+ * it was loaded, expired or built for a different embedding model
+ */
+async function getIndex(kind: VectorIndexKind): Promise<LoadedIndex> {
+  const { model } = getEmbeddingModelInfo();
+  const version = await currentVersion(kind);
+  const current = indexes.get(kind);
+
+  if (current) {
+    const index = await current.catch(() => null);
+    if (
+      index &&
+      index.model === model &&
+      index.version === version &&
+      Date.now() - index.loadedAt < VECTOR_INDEX_TTL_MS
+    ) {
+      return index;
+    }
+    // Another caller may already have started a reload
+    if (indexes.get(kind) !== current) {
+      return getIndex(kind);
+    }
+  }
+
+  const started = Date.now();
+  const loading =
+    kind === 'clauses' ? loadClauseIndex(model, version) : loadChunkIndex(model, version);
+  indexes.set(kind, loading);
+
+  try {
+    const index = await loading;
+    console.log(
+      `[VectorIndex] Loaded ${index.entries.length} ${kind} for ${model} in ${Date.now() - started}ms`
+    );
+    return index;
+  } catch (error) {
+    if (indexes.get(kind) === loading) indexes.delete(kind);
+    throw error;
+  }
+}
+
+/**
+ * Drop a warm index and bump its version so the next search in every
+ * process reloads it. Call after writing or deleting embeddings, or changing
+ * the lease, property or type they are filtered by.
+ */
+export async function invalidateVectorIndex(kind?: VectorIndexKind): Promise<void> {
+  const kinds: VectorIndexKind[] = kind ? [kind] : ['clauses', 'chunks'];
+
+  for (const k of kinds) {
+    indexes.delete(k);
+    await prisma.vectorIndexVersion.upsert({
+      where: { kind: k },
+      create: { kind: k, version: 1 },
+      update: { version: { increment: 1 } },
+    });
+  }
+}
+
+function matchesFilter(meta: VectorIndexMeta, filter: VectorIndexFilter): boolean {
+  if (filter.leaseIds && (!meta.leaseId || !filter.leaseIds.includes(meta.leaseId))) return false;
+  if (filter.propertyId && meta.propertyId !== filter.propertyId) return false;
+  if (filter.tenantName && meta.tenantName !== filter.tenantName) return false;
+  if (filter.topics && filter.topics.length > 0 && !filter.topics.includes(meta.topic || '')) {
+    return false;
+  }
+  if (filter.responsibleParty && meta.responsibleParty !== filter.responsibleParty) return false;
+  if (filter.documentTypes && !filter.documentTypes.includes(meta.documentType || '')) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Filtered top-K cosine similarity search. Omit topK to get every match,
+ * sorted by similarity.
+ */
+export async function searchVectorIndex(
+  kind: VectorIndexKind,
+  query: number[],
+  options?: { filter?: VectorIndexFilter; topK?: number; minSimilarity?: number }
+): Promise<VectorIndexHit[]> {
+  const index = await getIndex(kind);
+  const filter = options?.filter || {};
+  const minSimilarity = options?.minSimilarity ?? -1;
+
+  const queryVector = Float32Array.from(query);
+  const queryNorm = vectorNorm(queryVector);
+  if (queryNorm === 0) return [];
+
+  const hits: VectorIndexHit[] = [];
+  for (const entry of index.entries) {
+    if (entry.vector.length !== queryVector.length || entry.norm === 0) continue;
+    if (!matchesFilter(entry.meta, filter)) continue;
+
+    let dot = 0;
+    for (let i = 0; i < queryVector.length; i++) {
+      dot += queryVector[i] * entry.vector[i];
+    }
+    const similarity = dot / (queryNorm * entry.norm);
+
+    if (similarity >= minSimilarity) {
+      hits.push({ id: entry.id, similarity, meta: entry.meta });
+    }
+  }
+
+  hits.sort((a, b) => b.similarity - a.similarity);
+  return options?.topK !== undefined ? hits.slice(0, options.topK) : hits;
+}
@@ -1,4 +1,5 @@
-import { callLLM } from './llm';
+import { callLLMStructured } from './llm';
+import { s, Schema } from './schema';
 
 export type WorkOrderExtractionResult = {
   issueType?: string;
@@ -13,6 +14,19 @@ export type WorkOrderExtractionResult = {
   suggestedNextSteps?: string[];
 };
 
+export const workOrderExtractionSchema: Schema<WorkOrderExtractionResult> = s.object({
+  issueType: s.optional(s.string()),
+  priority: s.optional(s.enumeration(['LOW', 'MEDIUM', 'HIGH', 'EMERGENCY'] as const)),
+  summary: s.optional(s.string()),
+  fullDescription: s.optional(s.string()),
+  affectedArea: s.optional(s.string()),
+  recommendedVendor: s.optional(s.string()),
+  tenantName: s.optional(s.string()),
+  propertyName: s.optional(s.string()),
+  detectedRisk: s.optional(s.array(s.string())),
+  suggestedNextSteps: s.optional(s.array(s.string())),
+});
+
 export async function extractWorkOrder(
   content: string
 ): Promise<WorkOrderExtractionResult | null> {
@@ -50,39 +64,34 @@ Guidelines:
 
 JSON:`;
 
-    // Call LLM
-    const response = await callLLM(prompt);
-
-    // Parse JSON response
-    try {
-      // Try to extract JSON from response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        console.error('No JSON found in LLM response:', response);
-        return null;
-      }
+    // Call LLM and validate the response
+    const result = await callLLMStructured(prompt, workOrderExtractionSchema, {
+      feature: 'WORK_ORDER_EXTRACTION',
+    });
 
-      const extracted = JSON.parse(jsonMatch[0]) as WorkOrderExtractionResult;
+    if (!result.success) {
+      console.error('Work order extraction response failed validation:', result.issues);
+      console.error('Response was:', result.raw);
+      return null;
+    }
 
-      // Validate that we got at least some data
-      if (
-        !extracted.issueType &&
-        !extracted.summary &&
-        !extracted.fullDescription &&
-        !extracted.affectedArea
-      ) {
-        console.warn('No meaningful work order data extracted');
-        return null;
-      }
+    const extracted = result.data;
 
-      return extracted;
-    } catch (parseError) {
-      console.error('Error parsing work order extraction JSON:', parseError);
-      console.error('Response was:', response);
+    // Validate that we got at least some data
+    if (
+      !extracted.issueType &&
+      !extracted.summary &&
+      !extracted.fullDescription &&
+      !extracted.affectedArea
+    ) {
+      console.warn('No meaningful work order data extracted');
       return null;
     }
+
+    return extracted;
   } catch (error) {
+    // Provider and network errors propagate so the job can retry
     console.error('Error extracting work order data:', error);
-    return null;
+    throw error;
   }
 }
@@ -0,0 +1,233 @@
+-- CreateTable
+CREATE TABLE "MonthlyNOISnapshot" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "month" DATETIME NOT NULL,
+    "portfolio" TEXT NOT NULL DEFAULT 'DEFAULT',
+    "noi" REAL NOT NULL,
+    "revenue" REAL,
+    "expenses" REAL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "Space" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "propertyId" TEXT NOT NULL,
+    "spaceLabel" TEXT NOT NULL,
+    "floor" TEXT,
+    "areaSqft" INTEGER,
+    "useType" TEXT,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Space_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "Occupier" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "spaceId" TEXT NOT NULL,
+    "legalName" TEXT NOT NULL,
+    "brandName" TEXT,
+    "primaryContactName" TEXT,
+    "primaryContactEmail" TEXT,
+    "primaryContactPhone" TEXT,
+    "storeNumber" TEXT,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Occupier_spaceId_fkey" FOREIGN KEY ("spaceId") REFERENCES "Space" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "Vendor" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "trade" TEXT NOT NULL,
+    "email" TEXT,
+    "phone" TEXT,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "WorkOrder" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "propertyId" TEXT NOT NULL,
+    "spaceId" TEXT,
+    "occupierId" TEXT,
+    "assignedVendorId" TEXT,
+    "status" TEXT NOT NULL,
+    "priority" TEXT NOT NULL,
+    "issueCategory" TEXT NOT NULL,
+    "businessImpact" TEXT,
+    "summary" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "requiresOwnerApproval" BOOLEAN NOT NULL DEFAULT false,
+    "estimatedCost" REAL,
+    "maxApprovedCost" REAL,
+    "sourceEmailText" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "dueAt" DATETIME,
+    "vendorConfirmedAt" DATETIME,
+    "notes" TEXT,
+    CONSTRAINT "WorkOrder_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "WorkOrder_spaceId_fkey" FOREIGN KEY ("spaceId") REFERENCES "Space" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "WorkOrder_occupierId_fkey" FOREIGN KEY ("occupierId") REFERENCES "Occupier" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "WorkOrder_assignedVendorId_fkey" FOREIGN KEY ("assignedVendorId") REFERENCES "Vendor" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "Message" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "workOrderId" TEXT NOT NULL,
+    "recipientType" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sentAt" DATETIME,
+    "meta" TEXT,
+    CONSTRAINT "Message_workOrderId_fkey" FOREIGN KEY ("workOrderId") REFERENCES "WorkOrder" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ScheduledAction" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "workOrderId" TEXT NOT NULL,
+    "actionType" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "scheduledFor" DATETIME NOT NULL,
+    "payload" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "executedAt" DATETIME,
+    CONSTRAINT "ScheduledAction_workOrderId_fkey" FOREIGN KEY ("workOrderId") REFERENCES "WorkOrder" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "LeaseClause" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "leaseId" TEXT NOT NULL,
+    "topic" TEXT NOT NULL,
+    "responsibleParty" TEXT NOT NULL,
+    "sectionLabel" TEXT,
+    "text" TEXT NOT NULL,
+    "embedding" TEXT,
+    "pageNumber" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "LeaseClause_leaseId_fkey" FOREIGN KEY ("leaseId") REFERENCES "Lease" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Property" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "type" TEXT,
+    "timeZone" TEXT NOT NULL DEFAULT 'America/New_York',
+    "ownerEntity" TEXT,
+    "assetManager" TEXT,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+INSERT INTO "new_Property" ("address", "createdAt", "id", "name", "updatedAt") SELECT "address", "createdAt", "id", "name", "updatedAt" FROM "Property";
+DROP TABLE "Property";
+ALTER TABLE "new_Property" RENAME TO "Property";
+CREATE INDEX "Property_name_idx" ON "Property"("name");
+CREATE TABLE "new_Lease" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "propertyId" TEXT NOT NULL,
+    "tenantName" TEXT NOT NULL,
+    "suite" TEXT,
+    "squareFeet" INTEGER,
+    "baseRent" REAL,
+    "leaseStart" DATETIME,
+    "leaseEnd" DATETIME,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Lease_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Lease" ("baseRent", "createdAt", "id", "leaseEnd", "leaseStart", "propertyId", "squareFeet", "suite", "tenantName", "updatedAt") SELECT "baseRent", "createdAt", "id", "leaseEnd", "leaseStart", "propertyId", "squareFeet", "suite", "tenantName", "updatedAt" FROM "Lease";
+DROP TABLE "Lease";
+ALTER TABLE "new_Lease" RENAME TO "Lease";
+CREATE INDEX "Lease_propertyId_idx" ON "Lease"("propertyId");
+CREATE INDEX "Lease_tenantName_idx" ON "Lease"("tenantName");
+CREATE INDEX "Lease_status_idx" ON "Lease"("status");
+CREATE INDEX "Lease_leaseEnd_idx" ON "Lease"("leaseEnd");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "MonthlyNOISnapshot_portfolio_idx" ON "MonthlyNOISnapshot"("portfolio");
+
+-- CreateIndex
+CREATE INDEX "MonthlyNOISnapshot_month_idx" ON "MonthlyNOISnapshot"("month");
+
+-- CreateIndex
+CREATE INDEX "Space_propertyId_idx" ON "Space"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "Space_spaceLabel_idx" ON "Space"("spaceLabel");
+
+-- CreateIndex
+CREATE INDEX "Occupier_spaceId_idx" ON "Occupier"("spaceId");
+
+-- CreateIndex
+CREATE INDEX "Occupier_legalName_idx" ON "Occupier"("legalName");
+
+-- CreateIndex
+CREATE INDEX "Occupier_brandName_idx" ON "Occupier"("brandName");
+
+-- CreateIndex
+CREATE INDEX "Vendor_trade_idx" ON "Vendor"("trade");
+
+-- CreateIndex
+CREATE INDEX "Vendor_name_idx" ON "Vendor"("name");
+
+-- CreateIndex
+CREATE INDEX "WorkOrder_propertyId_idx" ON "WorkOrder"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "WorkOrder_spaceId_idx" ON "WorkOrder"("spaceId");
+
+-- CreateIndex
+CREATE INDEX "WorkOrder_occupierId_idx" ON "WorkOrder"("occupierId");
+
+-- CreateIndex
+CREATE INDEX "WorkOrder_status_idx" ON "WorkOrder"("status");
+
+-- CreateIndex
+CREATE INDEX "WorkOrder_priority_idx" ON "WorkOrder"("priority");
+
+-- CreateIndex
+CREATE INDEX "Message_workOrderId_idx" ON "Message"("workOrderId");
+
+-- CreateIndex
+CREATE INDEX "Message_recipientType_idx" ON "Message"("recipientType");
+
+-- CreateIndex
+CREATE INDEX "ScheduledAction_workOrderId_idx" ON "ScheduledAction"("workOrderId");
+
+-- CreateIndex
+CREATE INDEX "ScheduledAction_status_idx" ON "ScheduledAction"("status");
+
+-- CreateIndex
+CREATE INDEX "ScheduledAction_scheduledFor_idx" ON "ScheduledAction"("scheduledFor");
+
+-- CreateIndex
+CREATE INDEX "LeaseClause_leaseId_idx" ON "LeaseClause"("leaseId");
+
+-- CreateIndex
+CREATE INDEX "LeaseClause_topic_idx" ON "LeaseClause"("topic");
+
+-- CreateIndex
+CREATE INDEX "LeaseClause_responsibleParty_idx" ON "LeaseClause"("responsibleParty");
+
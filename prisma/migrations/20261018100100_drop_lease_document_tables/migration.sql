@@ -0,0 +1,10 @@
+-- DropTable
+PRAGMA foreign_keys=off;
+DROP TABLE "LeaseDocument";
+PRAGMA foreign_keys=on;
+
+-- DropTable
+PRAGMA foreign_keys=off;
+DROP TABLE "LeaseDocumentChunk";
+PRAGMA foreign_keys=on;
+
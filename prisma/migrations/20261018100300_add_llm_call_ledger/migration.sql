@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "LlmCall" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "feature" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptTokens" INTEGER,
+    "responseTokens" INTEGER,
+    "latencyMs" INTEGER NOT NULL,
+    "costUsd" REAL,
+    "status" TEXT NOT NULL,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "LlmCall_feature_idx" ON "LlmCall"("feature");
+
+-- CreateIndex
+CREATE INDEX "LlmCall_createdAt_idx" ON "LlmCall"("createdAt");
+
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "LlmCacheEntry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "key" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" DATETIME
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LlmCacheEntry_key_key" ON "LlmCacheEntry"("key");
+
+-- CreateIndex
+CREATE INDEX "LlmCacheEntry_kind_idx" ON "LlmCacheEntry"("kind");
+
+-- CreateIndex
+CREATE INDEX "LlmCacheEntry_expiresAt_idx" ON "LlmCacheEntry"("expiresAt");
+
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "DocumentChunk" ADD COLUMN "embeddingDimensions" INTEGER;
+ALTER TABLE "DocumentChunk" ADD COLUMN "embeddingModel" TEXT;
+
+-- AlterTable
+ALTER TABLE "LeaseClause" ADD COLUMN "embeddingDimensions" INTEGER;
+ALTER TABLE "LeaseClause" ADD COLUMN "embeddingModel" TEXT;
+
+-- CreateIndex
+CREATE INDEX "LeaseClause_embeddingModel_idx" ON "LeaseClause"("embeddingModel");
+
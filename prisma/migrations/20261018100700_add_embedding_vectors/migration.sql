@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "LeaseClause" ADD COLUMN "embeddingVector" BLOB;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_DocumentChunk" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "documentId" TEXT NOT NULL,
+    "chunkIndex" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "embedding" TEXT,
+    "embeddingVector" BLOB,
+    "embeddingModel" TEXT,
+    "embeddingDimensions" INTEGER,
+    "metadata" TEXT,
+    CONSTRAINT "DocumentChunk_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_DocumentChunk" ("chunkIndex", "content", "documentId", "embedding", "embeddingDimensions", "embeddingModel", "id", "metadata") SELECT "chunkIndex", "content", "documentId", "embedding", "embeddingDimensions", "embeddingModel", "id", "metadata" FROM "DocumentChunk";
+DROP TABLE "DocumentChunk";
+ALTER TABLE "new_DocumentChunk" RENAME TO "DocumentChunk";
+CREATE INDEX "DocumentChunk_documentId_idx" ON "DocumentChunk"("documentId");
+CREATE INDEX "DocumentChunk_documentId_chunkIndex_idx" ON "DocumentChunk"("documentId", "chunkIndex");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
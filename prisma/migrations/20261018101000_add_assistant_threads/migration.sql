@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "AssistantThread" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "leaseId" TEXT,
+    "propertyId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "AssistantThread_leaseId_fkey" FOREIGN KEY ("leaseId") REFERENCES "Lease" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "AssistantThread_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "AssistantTurn" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "threadId" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "standaloneQuestion" TEXT NOT NULL,
+    "answer" TEXT NOT NULL,
+    "responsibleParty" TEXT,
+    "citations" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "AssistantTurn_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "AssistantThread" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "AssistantThread_scope_idx" ON "AssistantThread"("scope");
+
+-- CreateIndex
+CREATE INDEX "AssistantThread_leaseId_idx" ON "AssistantThread"("leaseId");
+
+-- CreateIndex
+CREATE INDEX "AssistantThread_propertyId_idx" ON "AssistantThread"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "AssistantThread_updatedAt_idx" ON "AssistantThread"("updatedAt");
+
+-- CreateIndex
+CREATE INDEX "AssistantTurn_threadId_idx" ON "AssistantTurn"("threadId");
+
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN "extractionMethod" TEXT;
+ALTER TABLE "Document" ADD COLUMN "ocrConfidence" REAL;
+
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "DocumentChunk" ADD COLUMN "endPage" INTEGER;
+ALTER TABLE "DocumentChunk" ADD COLUMN "startPage" INTEGER;
+
@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "UploadBatch" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'REVIEW',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "committedAt" DATETIME
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Document" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'UPLOADED',
+    "filePath" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT,
+    "uploadedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "propertyId" TEXT,
+    "leaseId" TEXT,
+    "extractedData" TEXT,
+    "extractionMethod" TEXT,
+    "ocrConfidence" REAL,
+    "parentDocumentId" TEXT,
+    "uploadBatchId" TEXT,
+    "proposedPropertyId" TEXT,
+    "proposedLeaseId" TEXT,
+    "linkConfidence" REAL,
+    "linkReason" TEXT,
+    CONSTRAINT "Document_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Document_leaseId_fkey" FOREIGN KEY ("leaseId") REFERENCES "Lease" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Document_parentDocumentId_fkey" FOREIGN KEY ("parentDocumentId") REFERENCES "Document" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Document_uploadBatchId_fkey" FOREIGN KEY ("uploadBatchId") REFERENCES "UploadBatch" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Document" ("extractedData", "extractionMethod", "fileName", "filePath", "id", "leaseId", "mimeType", "ocrConfidence", "parentDocumentId", "propertyId", "status", "type", "uploadedAt") SELECT "extractedData", "extractionMethod", "fileName", "filePath", "id", "leaseId", "mimeType", "ocrConfidence", "parentDocumentId", "propertyId", "status", "type", "uploadedAt" FROM "Document";
+DROP TABLE "Document";
+ALTER TABLE "new_Document" RENAME TO "Document";
+CREATE INDEX "Document_type_idx" ON "Document"("type");
+CREATE INDEX "Document_status_idx" ON "Document"("status");
+CREATE INDEX "Document_leaseId_idx" ON "Document"("leaseId");
+CREATE INDEX "Document_propertyId_idx" ON "Document"("propertyId");
+CREATE INDEX "Document_parentDocumentId_idx" ON "Document"("parentDocumentId");
+CREATE INDEX "Document_uploadBatchId_idx" ON "Document"("uploadBatchId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "UploadBatch_status_idx" ON "UploadBatch"("status");
+
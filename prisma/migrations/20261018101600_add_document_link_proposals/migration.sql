@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN "linkStatus" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Document_linkStatus_idx" ON "Document"("linkStatus");
+
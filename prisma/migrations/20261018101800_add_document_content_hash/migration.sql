@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN "contentHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Document_contentHash_key" ON "Document"("contentHash");
+
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "LeaseChangeSet" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "leaseId" TEXT NOT NULL,
+    "documentId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewedAt" DATETIME,
+    "reviewedBy" TEXT,
+    CONSTRAINT "LeaseChangeSet_leaseId_fkey" FOREIGN KEY ("leaseId") REFERENCES "Lease" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "LeaseChangeSet_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "LeaseFieldChange" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "changeSetId" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "currentValue" TEXT,
+    "proposedValue" TEXT NOT NULL,
+    "sourceDocumentId" TEXT,
+    "citation" TEXT,
+    "decision" TEXT NOT NULL DEFAULT 'PENDING',
+    "appliedValue" TEXT,
+    "reviewedBy" TEXT,
+    "reviewedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "LeaseFieldChange_changeSetId_fkey" FOREIGN KEY ("changeSetId") REFERENCES "LeaseChangeSet" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "LeaseChangeSet_leaseId_idx" ON "LeaseChangeSet"("leaseId");
+
+-- CreateIndex
+CREATE INDEX "LeaseChangeSet_status_idx" ON "LeaseChangeSet"("status");
+
+-- CreateIndex
+CREATE INDEX "LeaseFieldChange_changeSetId_idx" ON "LeaseFieldChange"("changeSetId");
+
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "RentStep" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "leaseId" TEXT NOT NULL,
+    "effectiveDate" DATETIME NOT NULL,
+    "monthlyRent" REAL NOT NULL,
+    "annualRent" REAL NOT NULL,
+    "ratePerSquareFoot" REAL,
+    "stepType" TEXT NOT NULL,
+    "escalationPercent" REAL,
+    "source" TEXT NOT NULL DEFAULT 'MANUAL',
+    "documentId" TEXT,
+    "note" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "RentStep_leaseId_fkey" FOREIGN KEY ("leaseId") REFERENCES "Lease" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "RentStep_leaseId_effectiveDate_idx" ON "RentStep"("leaseId", "effectiveDate");
+
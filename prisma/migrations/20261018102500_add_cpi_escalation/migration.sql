@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "CpiEscalationTerms" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "leaseId" TEXT NOT NULL,
+    "series" TEXT NOT NULL DEFAULT 'CPI-U',
+    "floorPercent" REAL,
+    "capPercent" REAL,
+    "lookbackMonths" INTEGER NOT NULL DEFAULT 2,
+    "noticeDays" INTEGER NOT NULL DEFAULT 60,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "CpiEscalationTerms_leaseId_fkey" FOREIGN KEY ("leaseId") REFERENCES "Lease" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "CpiIndexValue" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "series" TEXT NOT NULL DEFAULT 'CPI-U',
+    "month" DATETIME NOT NULL,
+    "value" REAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CpiEscalationTerms_leaseId_key" ON "CpiEscalationTerms"("leaseId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CpiIndexValue_series_month_key" ON "CpiIndexValue"("series", "month");
+
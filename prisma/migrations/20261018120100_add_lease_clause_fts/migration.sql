@@ -0,0 +1,25 @@
+-- Keyword index over LeaseClause section labels and text (SQLite FTS5,
+-- ranked with BM25). Not part of the Prisma schema; the triggers keep it in
+-- sync with every write to LeaseClause, including cascading deletes.
+
+-- CreateVirtualTable
+CREATE VIRTUAL TABLE "LeaseClauseFts" USING fts5("clauseId" UNINDEXED, "sectionLabel", "text", tokenize = 'porter unicode61');
+
+-- CreateTrigger
+CREATE TRIGGER "LeaseClause_fts_insert" AFTER INSERT ON "LeaseClause" BEGIN
+    INSERT INTO "LeaseClauseFts" ("clauseId", "sectionLabel", "text") VALUES (new."id", new."sectionLabel", new."text");
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "LeaseClause_fts_delete" AFTER DELETE ON "LeaseClause" BEGIN
+    DELETE FROM "LeaseClauseFts" WHERE "clauseId" = old."id";
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "LeaseClause_fts_update" AFTER UPDATE OF "text", "sectionLabel" ON "LeaseClause" BEGIN
+    DELETE FROM "LeaseClauseFts" WHERE "clauseId" = old."id";
+    INSERT INTO "LeaseClauseFts" ("clauseId", "sectionLabel", "text") VALUES (new."id", new."sectionLabel", new."text");
+END;
+
+-- Backfill
+INSERT INTO "LeaseClauseFts" ("clauseId", "sectionLabel", "text") SELECT "id", "sectionLabel", "text" FROM "LeaseClause";
@@ -0,0 +1,55 @@
+/**
+ * Storage Backend Check
+ *
+ * Round-trips a small object through the configured storage backend
+ * (put, stat, ranged read, signed URL, delete). Useful when pointing the S3
+ * backend at a local MinIO-style server:
+ *   STORAGE_BACKEND=s3 S3_ENDPOINT=http://localhost:9000 S3_BUCKET=leases \
+ *     S3_ACCESS_KEY_ID=... S3_SECRET_ACCESS_KEY=... npm run storage:check
+ */
+
+import { getStorageBackend, readStoredFile } from '../lib/storage';
+
+async function main() {
+  const backend = getStorageBackend();
+  const key = `healthchecks/${Date.now()}-check.txt`;
+  const content = Buffer.from('storage backend check\n');
+
+  console.log(`\n🗄️  STORAGE CHECK (${backend.name})`);
+  console.log('==============================');
+
+  await backend.put(key, content, 'text/plain');
+  console.log(`✓ put ${key}`);
+
+  const info = await backend.stat(key);
+  if (info?.size !== content.length) {
+    throw new Error(`stat returned size ${info?.size}, expected ${content.length}`);
+  }
+  console.log(`✓ stat (${info.size} bytes)`);
+
+  if (!(await readStoredFile(key)).equals(content)) {
+    throw new Error('read returned different content');
+  }
+  const ranged = [];
+  for await (const part of await backend.getStream(key, { start: 0, end: 6 })) {
+    ranged.push(Buffer.from(part));
+  }
+  if (Buffer.concat(ranged).toString() !== 'storage') {
+    throw new Error(`ranged read returned "${Buffer.concat(ranged).toString()}"`);
+  }
+  console.log('✓ read (full and ranged)');
+
+  const url = await backend.getSignedUrl(key, 60);
+  console.log(`✓ signed URL ${url}`);
+
+  await backend.delete(key);
+  if (await backend.stat(key)) {
+    throw new Error('object still exists after delete');
+  }
+  console.log('✓ delete\n');
+}
+
+main().catch((error) => {
+  console.error('❌ Storage check failed:', error);
+  process.exitCode = 1;
+});
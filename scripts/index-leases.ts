@@ -2,15 +2,19 @@
  * Lease Clause Indexing Script
  *
  * Indexes demo lease PDFs into LeaseClause records with embeddings.
+ * Classifications and embeddings go through the LLM response cache, so
+ * re-indexing an unchanged PDF makes no outbound calls (set
+ * LLM_CACHE_DISABLED=true to force fresh results).
  * Run with: npx ts-node --compiler-options '{"module":"CommonJS"}' scripts/index-leases.ts
  */
 
-import { readFile } from 'fs/promises';
 import { existsSync } from 'fs';
-import pdf from 'pdf-parse';
 import { PrismaClient } from '@prisma/client';
 import { classifyClause, ClauseTopic } from '../lib/leases/classifier';
 import { chunkLeaseText, getChunkingStats, ClauseChunk } from '../lib/leases/chunker';
+import { embedChunks, extractPdfText } from '../lib/leaseIngestion'; // Per-page text, OCR fallback for scanned PDFs
+import { getEmbeddingModelInfo, getEmbeddingProvider } from '../lib/embeddings';
+import { packEmbedding } from '../lib/vectorIndex';
 
 const prisma = new PrismaClient();
 
@@ -46,44 +50,12 @@ const leaseFileMap: { filePath: string; leaseId: string; tenantName: string }[]
 ];
 
 // ============================================================================
-// EMBEDDING GENERATION (uses OpenAI)
+// EMBEDDING GENERATION (EMBEDDING_PROVIDER, cached by content hash)
 // ============================================================================
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-const EMBEDDING_MODEL = 'text-embedding-3-small';
 
 async function generateEmbedding(text: string): Promise<number[]> {
-  if (!OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY is not set');
-  }
-
-  const response = await fetch('https://api.openai.com/v1/embeddings', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: EMBEDDING_MODEL,
-      input: text,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} - ${error}`);
-  }
-
-  const data = await response.json();
-  return data.data[0].embedding;
-}
-
-// ============================================================================
-// TEXT EXTRACTION
-// ============================================================================
-async function extractTextFromPdf(filePath: string): Promise<string> {
-  const dataBuffer = await readFile(filePath);
-  const pdfData = await pdf(dataBuffer);
-  return pdfData.text;
+  const [embedding] = await embedChunks([text]);
+  return embedding;
 }
 
 // ============================================================================
@@ -147,17 +119,19 @@ async function indexLease(params: {
   try {
     // Step 1: Extract text from PDF
     console.log('\n📄 STEP 1: Extracting text from PDF...');
-    const rawText = await extractTextFromPdf(filePath);
-    console.log(`   Raw text length: ${rawText.length.toLocaleString()} characters`);
+    const extraction = await extractPdfText(filePath);
+    const rawText = extraction.text;
+    console.log(`   Raw text length: ${rawText.length.toLocaleString()} characters (${extraction.pageCount} pages, ${extraction.method})`);
 
     // Step 2: Chunk the text using improved chunker
     console.log('\n✂️  STEP 2: Chunking text into clauses...');
-    const chunks = chunkLeaseText(rawText);
+    const chunks = chunkLeaseText(rawText, extraction.pages);
     const stats = getChunkingStats(chunks);
     console.log(`   Chunks generated: ${stats.totalChunks}`);
     console.log(`   Avg chunk length: ${stats.avgLength} chars`);
     console.log(`   Min/Max length: ${stats.minLength} / ${stats.maxLength} chars`);
     console.log(`   With section labels: ${stats.withSectionLabel}`);
+    console.log(`   With page numbers: ${stats.withPageNumber}`);
 
     // Warning for low chunk count
     if (chunks.length < 20) {
@@ -180,6 +154,7 @@ async function indexLease(params: {
     const topics: string[] = [];
     const batchSize = 10;
     const totalChunks = chunks.length;
+    const embeddingInfo = getEmbeddingModelInfo();
 
     for (let i = 0; i < chunks.length; i++) {
       const chunk = chunks[i];
@@ -205,7 +180,9 @@ async function indexLease(params: {
             responsibleParty: classification.responsibleParty,
             sectionLabel: chunk.sectionLabel || classification.sectionLabel || null,
             text: chunk.text,
-            embedding: JSON.stringify(embedding),
+            embeddingVector: packEmbedding(embedding),
+            embeddingModel: embeddingInfo.model,
+            embeddingDimensions: embeddingInfo.dimensions,
             pageNumber: chunk.pageNumber || null,
           },
         });
@@ -249,10 +226,12 @@ async function main() {
   console.log('================================');
   console.log('Improved chunking for better clause coverage\n');
 
-  // Check for API key
-  if (!OPENAI_API_KEY) {
+  // Check for API key when embedding remotely
+  const embeddingProvider = getEmbeddingProvider();
+  console.log(`Embedding model: ${embeddingProvider.model} (${embeddingProvider.dimensions} dims)\n`);
+  if (embeddingProvider.name === 'openai' && !process.env.OPENAI_API_KEY) {
     console.error('❌ OPENAI_API_KEY environment variable is not set');
-    console.error('   Set it in your .env file or export it before running this script');
+    console.error('   Set it in your .env file, or set EMBEDDING_PROVIDER="local" to embed offline');
     process.exit(1);
   }
 
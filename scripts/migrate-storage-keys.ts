@@ -0,0 +1,87 @@
+/**
+ * Migrate Document File Paths to Storage Keys
+ *
+ * Documents uploaded before the storage backends recorded the absolute
+ * path of the file under ./uploads. This rewrites each one as a storage key
+ * ("documents/1732100000000-lease.pdf") and copies any file the configured
+ * backend (STORAGE_BACKEND) does not have yet, so it also moves local
+ * uploads into S3:
+ *   npm run storage:migrate
+ * Pass --dry-run to only report what would change. Safe to run again.
+ */
+
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { basename, isAbsolute, join } from 'path';
+import { prisma } from '../lib/prisma';
+import { getStorageBackend, storageKeyFromLegacyPath } from '../lib/storage';
+
+function isLegacyPath(storageKey: string): boolean {
+  return isAbsolute(storageKey) || storageKey.startsWith('uploads/');
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const backend = getStorageBackend();
+  const localBackend = getStorageBackend('local');
+
+  console.log('\n📦 MIGRATE DOCUMENT STORAGE KEYS');
+  console.log('================================');
+  console.log(`Backend: ${backend.name}${dryRun ? ' (dry run)' : ''}\n`);
+
+  const documents = await prisma.document.findMany({
+    select: { id: true, storageKey: true, mimeType: true },
+    orderBy: { uploadedAt: 'asc' },
+  });
+
+  let rekeyed = 0;
+  let copied = 0;
+  let missing = 0;
+
+  for (const document of documents) {
+    const legacy = isLegacyPath(document.storageKey);
+    const key = legacy
+      ? storageKeyFromLegacyPath(document.storageKey) ?? `documents/${document.id}-${basename(document.storageKey)}`
+      : document.storageKey;
+
+    if (!(await backend.stat(key))) {
+      const sourcePath = legacy
+        ? (isAbsolute(document.storageKey) ? document.storageKey : join(process.cwd(), document.storageKey))
+        : localBackend.localPath!(key);
+
+      if (!existsSync(sourcePath)) {
+        console.log(`⚠️  ${document.id}: file not found at ${sourcePath}`);
+        missing++;
+        continue;
+      }
+
+      console.log(`   ${document.id}: copy ${sourcePath} -> ${backend.name}:${key}`);
+      if (!dryRun) {
+        await backend.put(key, await readFile(sourcePath), document.mimeType || undefined);
+      }
+      copied++;
+    }
+
+    if (key !== document.storageKey) {
+      console.log(`   ${document.id}: ${document.storageKey} -> ${key}`);
+      if (!dryRun) {
+        await prisma.document.update({
+          where: { id: document.id },
+          data: { storageKey: key },
+        });
+      }
+      rekeyed++;
+    }
+  }
+
+  console.log(
+    `\n✨ ${documents.length} document(s): ${rekeyed} re-keyed, ${copied} file(s) copied, ${missing} missing\n`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Storage key migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
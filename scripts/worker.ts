@@ -0,0 +1,54 @@
+/**
+ * Background Job Worker
+ *
+ * Runs queued document jobs (ingestion, classification, extraction) from
+ * the Job table. Start one alongside the web server:
+ *   npm run worker
+ * Pass --once to drain the queue and exit instead of polling.
+ * Stop with Ctrl+C; the job in progress finishes first.
+ */
+
+import { prisma } from '../lib/prisma';
+import { defaultWorkerId, listJobHandlers, runNextJob, runWorker } from '../lib/jobs';
+
+async function main() {
+  const once = process.argv.includes('--once');
+  const workerId = defaultWorkerId();
+
+  console.log('\n⚙️  DOCUMENT JOB WORKER');
+  console.log('======================');
+  console.log(`Worker: ${workerId}`);
+  console.log(`Job types: ${listJobHandlers().join(', ')}\n`);
+
+  if (once) {
+    let processed = 0;
+    while (await runNextJob(workerId)) {
+      processed++;
+    }
+    console.log(`\n✨ Queue drained (${processed} job(s) run)\n`);
+    return;
+  }
+
+  let stopping = false;
+  const stop = (signal: string) => {
+    if (stopping) {
+      console.log(`\n${signal} again, exiting immediately`);
+      process.exit(1);
+    }
+    stopping = true;
+    console.log(`\n${signal} received, finishing the current job...`);
+  };
+  process.on('SIGINT', () => stop('SIGINT'));
+  process.on('SIGTERM', () => stop('SIGTERM'));
+
+  await runWorker({ workerId, shouldStop: () => stopping });
+}
+
+main()
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });